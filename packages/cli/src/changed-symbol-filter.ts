@@ -0,0 +1,77 @@
+import type { NodeChange, NodeInfo } from '@sammons/code-outline-parser';
+import type { ProcessedFile } from './file-processor.js';
+import type { ChangedFile } from './git/index.js';
+
+/**
+ * Restricts outlines to the nodes whose lines overlap a diff hunk
+ * (--changed-symbols) and marks them as added or modified
+ */
+export class ChangedSymbolFilter {
+  /**
+   * @param changes - Changed files by absolute path
+   */
+  constructor(private changes: Map<string, ChangedFile>) {}
+
+  public apply(results: ProcessedFile[]): ProcessedFile[] {
+    return results.map((result) => {
+      const change = this.changes.get(result.file);
+      if (!result.outline || !change) {
+        return { ...result, outline: null };
+      }
+
+      // The root stays unmarked so every changed file keeps its outline
+      const children = this.markChildren(result.outline, change);
+      const outline: NodeInfo = { ...result.outline, children };
+      if (children.length === 0) {
+        delete outline.children;
+      }
+      return { ...result, outline };
+    });
+  }
+
+  /**
+   * Copy of a node with its change marked and its unchanged descendants
+   * removed, or null when the node is unchanged
+   * @private
+   */
+  private markNode(node: NodeInfo, file: ChangedFile): NodeInfo | null {
+    const change = this.getChange(node, file);
+    if (!change) {
+      return null;
+    }
+
+    const children = this.markChildren(node, file);
+    const marked: NodeInfo = { ...node, change, children };
+    if (children.length === 0) {
+      delete marked.children;
+    }
+    return marked;
+  }
+
+  private markChildren(node: NodeInfo, file: ChangedFile): NodeInfo[] {
+    return (node.children ?? [])
+      .map((child) => this.markNode(child, file))
+      .filter((child): child is NodeInfo => child !== null);
+  }
+
+  private getChange(node: NodeInfo, file: ChangedFile): NodeChange | undefined {
+    if (file.added) {
+      return 'added';
+    }
+
+    const start = node.start.row + 1;
+    const end = node.end.row + 1;
+    const hunks = file.hunks.filter(
+      (hunk) => start <= hunk.end && end >= hunk.start
+    );
+    if (hunks.length === 0) {
+      return undefined;
+    }
+    // Added when a hunk of new lines holds the whole node
+    return hunks.some(
+      (hunk) => hunk.added && hunk.start <= start && end <= hunk.end
+    )
+      ? 'added'
+      : 'modified';
+  }
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import type { NodeInfo } from '@sammons/code-outline-parser';
+import { ChangedSymbolFilter } from './changed-symbol-filter.js';
+import type { ProcessedFile } from './file-processor.js';
+import type { ChangedFile } from './git/index.js';
+
+// Node spanning 1-based lines first..last
+function node(
+  type: string,
+  name: string,
+  first: number,
+  last: number,
+  children?: NodeInfo[]
+): NodeInfo {
+  return {
+    type,
+    name,
+    start: { row: first - 1, column: 0 },
+    end: { row: last - 1, column: 1 },
+    ...(children ? { children } : {}),
+  };
+}
+
+function createResults(): ProcessedFile[] {
+  return [
+    {
+      file: '/src/service.ts',
+      outline: node('program', '', 1, 30, [
+        node('class_declaration', 'Service', 1, 20, [
+          node('method_definition', 'run', 2, 6),
+          node('method_definition', 'reset', 8, 12),
+          node('method_definition', 'stop', 14, 18),
+        ]),
+        node('function_declaration', 'helper', 22, 30),
+      ]),
+    },
+    {
+      file: '/src/untouched.ts',
+      outline: node('program', '', 1, 5, [
+        node('function_declaration', 'other', 1, 5),
+      ]),
+    },
+  ];
+}
+
+// "change name" of every node below the root, depth first
+function marks(result: ProcessedFile): string[] {
+  const collect = (n: NodeInfo): string[] => [
+    `${n.change} ${n.name}`,
+    ...(n.children ?? []).flatMap(collect),
+  ];
+  return (result.outline?.children ?? []).flatMap(collect);
+}
+
+function apply(...changes: ChangedFile[]): ProcessedFile[] {
+  return new ChangedSymbolFilter(
+    new Map(changes.map((change) => [change.file, change]))
+  ).apply(createResults());
+}
+
+describe('ChangedSymbolFilter', () => {
+  it('should keep only nodes overlapping a hunk, marked modified', () => {
+    const [service, untouched] = apply({
+      file: '/src/service.ts',
+      added: false,
+      hunks: [{ start: 4, end: 5, added: false }],
+    });
+
+    expect(marks(service)).toEqual(['modified Service', 'modified run']);
+    expect(service.outline?.change).toBeUndefined();
+    expect(untouched.outline).toBeNull();
+  });
+
+  it('should mark nodes inside pure additions as added', () => {
+    const [service] = apply({
+      file: '/src/service.ts',
+      added: false,
+      hunks: [{ start: 13, end: 19, added: true }],
+    });
+
+    expect(marks(service)).toEqual(['modified Service', 'added stop']);
+  });
+
+  it('should mark nodes around deleted lines as modified', () => {
+    const [service] = apply({
+      file: '/src/service.ts',
+      added: false,
+      // Lines were deleted between lines 9 and 10
+      hunks: [{ start: 10, end: 9, added: false }],
+    });
+
+    expect(marks(service)).toEqual(['modified Service', 'modified reset']);
+  });
+
+  it('should mark every node of an added file', () => {
+    const [, untouched] = apply({
+      file: '/src/untouched.ts',
+      added: true,
+      hunks: [],
+    });
+
+    expect(marks(untouched)).toEqual(['added other']);
+  });
+
+  it('should keep the root of changed files without changed symbols', () => {
+    const [service] = apply({
+      file: '/src/service.ts',
+      added: false,
+      hunks: [{ start: 21, end: 21, added: true }],
+    });
+
+    expect(service.outline).not.toBeNull();
+    expect(service.outline?.children).toBeUndefined();
+  });
+});
@@ -1,25 +1,119 @@
 import { parseArgs } from 'node:util';
 import { isAbsolute } from 'node:path';
 import { existsSync } from 'node:fs';
-import type { OutputFormat } from '@sammons/code-outline-parser';
+import { availableParallelism } from 'node:os';
+import type { MatchMode, OutputFormat } from '@sammons/code-outline-parser';
 import {
   validateFormat,
   validateDepthValue,
+  isValidMatchMode,
+  isSymbolKind,
+  isSymbolType,
+  MATCH_MODES,
+  SYMBOL_KINDS,
 } from '@sammons/code-outline-parser';
 import { version } from '../package.json';
+import type { ApiDiffFormat, GraphFormat } from './graph/index.js';
+import {
+  API_DIFF_FORMATS,
+  GRAPH_FORMATS,
+  isApiDiffFormat,
+  isGraphFormat,
+} from './graph/index.js';
+import { OUTLINE_DIFF_FORMATS, isOutlineDiffFormat } from './diff/index.js';
+import { DEFAULT_CACHE_DIR } from './outline-cache.js';
+import { DEFAULT_LIMITS } from './file-processor.js';
+
+// Subcommands selected by the first positional argument
+export const COMMANDS = [
+  'show',
+  'find',
+  'at',
+  'deps',
+  'cycles',
+  'unused-exports',
+  'api',
+  'api-diff',
+  'diff',
+  'cache',
+] as const;
+// Commands whose positional arguments do not start with a file pattern
+const PATTERNLESS_COMMANDS: readonly CommandName[] = ['at', 'cache'];
+// Commands that print graphs instead of outlines
+const GRAPH_COMMANDS: readonly CommandName[] = ['deps'];
+// Formats only the outline itself and api can print
+const OUTLINE_ONLY_FORMATS: readonly OutputFormat[] = [
+  'ndjson',
+  'markdown',
+  'html',
+  'mermaid',
+  'dot',
+  'ctags',
+  'etags',
+];
+export type CommandName = (typeof COMMANDS)[number];
 
 export interface CliOptions {
-  format: OutputFormat;
+  /** Outline format, or the command's own format (deps, api-diff) */
+  format: OutputFormat | GraphFormat | ApiDiffFormat;
   depth: number;
   namedOnly: boolean;
   llmtext: boolean;
+  docs: boolean;
+  exportedOnly: boolean;
+  hidePrivate: boolean;
+  sarif?: string;
+  strict: boolean;
+  context: number;
+  signatureOnly: boolean;
+  match: MatchMode;
+  kinds: string[];
+  tsconfig?: string;
+  external: boolean;
+  ignoreTypeOnly: boolean;
+  entries: string[];
+  allowlist?: string;
+  /** api-diff: revision to compare against */
+  base?: string;
+  /** api-diff: revision with the changes */
+  head: string;
+  /** Only outline files changed since this revision */
+  changedSince?: string;
+  /** Only outline files with staged changes */
+  staged: boolean;
+  /** Only keep nodes that overlap the changed lines */
+  changedSymbols: boolean;
+  /** Keep running and re-emit outlines as files change */
+  watch: boolean;
+  /** Reuse outlines stored in cacheDir by earlier runs */
+  cache: boolean;
+  cacheDir: string;
+  /** Print statistics such as cache hits to stderr */
+  verbose: boolean;
+  /** Number of threads parsing files */
+  jobs: number;
+  /** Files read and parsed at the same time */
+  concurrency: number;
+  /** Files larger than this many bytes are skipped */
+  maxFileSize: number;
+  /** markdown: link target of a line, with {file} and {line} placeholders */
+  linkTemplate?: string;
+  /** markdown: fold each file's symbols into a <details> block */
+  collapse: boolean;
+  /** markdown: start with links to every file */
+  toc: boolean;
   help: boolean;
   version: boolean;
 }
 
 export interface ParsedArgs {
+  /** Subcommand to run; the outline is printed when absent */
+  command?: CommandName;
   options: CliOptions;
+  /** File glob; empty for commands that do not take one (at) */
   pattern: string;
+  /** Positional arguments following the pattern */
+  args: string[];
 }
 
 export class CLIArgumentError extends Error {
@@ -63,16 +157,96 @@ export class CLIArgumentParser {
 
 Usage:
   code-outline <pattern> [options]
+  code-outline show <pattern> <symbol> [options]
+  code-outline find <pattern> <query> [options]
+  code-outline at <file:line[:col]>... [options]
+  code-outline deps <pattern> [options]
+  code-outline cycles <pattern> [options]
+  code-outline unused-exports <pattern> [--entry <file>]... [options]
+  code-outline api <entry-file|package-dir|package.json> [options]
+  code-outline api-diff <pattern> --base <rev> [--head <rev>] [options]
+  code-outline diff <old> <new> [options]
+  code-outline cache prune [--cache-dir <dir>]
+
+Commands:
+  (none)           Print the outline of every matched file
+  show             Print the source of a symbol (e.g. ApiClient.request)
+  find             Search symbols by name, ranked by relevance
+  at               Print the symbols enclosing a position (reads stdin when
+                   no location is given, e.g. piped grep -n output)
+  deps             Print the import graph of the matched files
+  cycles           Report import cycles (exits with code 1 when any exist)
+  unused-exports   List exports no other matched file imports (exits with
+                   code 1 when any exist)
+  api              List the public symbols of an entry file or package, at
+                   the file and line that declare them
+  api-diff         Compare the public API of entry files between two git
+                   revisions and suggest a semver bump
+  diff             Compare the outlines of two versions of a file or
+                   directory: added, removed, modified, moved and renamed
+                   symbols
+  cache prune      Remove cached outlines of other versions and outlines
+                   unused for 30 days
 
 Arguments:
   <pattern>        Glob pattern to match files (e.g., "src/**/*.ts", "*.js")
+  <symbol>         Qualified symbol name or a trailing part of it
+  <query>          Name to search for (queries containing "." match qualified names)
+  <old> <new>      File, directory or git:<rev>:<path> (e.g. git:main:src)
 
 Options:
-  -f, --format <type>    Output format: ascii, json, yaml, or llmtext (default: ascii)
+  -f, --format <type>    Output format: ascii, json, yaml, llmtext, ndjson,
+                         markdown, html, mermaid, dot, ctags or etags
+                         (default: ascii)
   -d, --depth <n>        Maximum AST depth to traverse (default: Infinity)
   -a, --all              Show all nodes, including unnamed ones
       --named-only       Show only named entities (default: true)
       --llmtext          Use LLM-optimized compressed text format
+      --docs             Include JSDoc/TSDoc documentation (summaries in
+                         ascii/llmtext/markdown)
+      --exported-only    Show only exported top-level declarations
+      --hide-private     Hide private members (private keyword or #name)
+      --sarif <file>     Write syntax errors to a SARIF 2.1.0 log
+      --strict           Exit with code 1 when any file has syntax errors
+      --context <n>      show: include n lines before and after the symbol
+      --signature-only   show: print the declaration without its body
+      --match <mode>     find: exact, prefix, fuzzy or regex (default: fuzzy)
+      --kind <kinds>     find: comma-separated kinds, e.g. class,method
+      --tsconfig <file>  deps, cycles, unused-exports, api, api-diff: tsconfig.json
+                         with paths/baseUrl aliases (default: ./tsconfig.json,
+                         or the package's own for api)
+      --external         deps: include packages and Node.js built-ins
+      --ignore-type-only cycles: ignore type-only imports
+      --entry <file>     unused-exports: entry point whose exports are public
+                         (repeatable)
+      --allowlist <file> unused-exports: intentionally public exports, one
+                         per line (file#name, file or name)
+      --base <rev>       api-diff: revision to compare against, e.g. main
+      --head <rev>       api-diff: revision with the changes (default: HEAD)
+      --changed-since <rev>
+                         Only outline files changed since a revision
+                         (committed, staged, unstaged or untracked)
+      --staged           Only outline files with staged changes
+      --changed-symbols  With --changed-since or --staged: only show nodes
+                         on changed lines, marked + (added) or ~ (modified)
+      --watch            Keep running and reprint outlines as files change;
+                         json output becomes NDJSON events per file
+      --cache            Reuse outlines of unchanged files from earlier runs,
+                         stored in .code-outline-cache
+      --cache-dir <dir>  Cache directory (implies --cache)
+      --no-cache         Parse every file, even with --cache or --cache-dir
+      --verbose          Print cache hits and misses to stderr
+  -j, --jobs <n>         Parse files on n worker threads (default: number
+                         of CPU cores; 1 parses on the main thread)
+      --concurrency <n>  Files read and parsed at the same time (default: 64)
+      --max-file-size <size>
+                         Skip larger files, e.g. minified bundles; bytes or
+                         a kb/mb suffix (default: 1mb)
+      --link-template <template>
+                         markdown: link target of a line, with {file} and
+                         {line} placeholders (default: {file}#L{line})
+      --collapse         markdown: fold each file's symbols into <details>
+      --toc              markdown: start with links to every file
   -h, --help             Show this help message
   -v, --version          Show version number
 
@@ -81,6 +255,30 @@ Output Formats:
   json     Structured JSON output for programmatic processing
   yaml     Human-readable YAML format
   llmtext  Compressed text format optimized for LLM consumption
+  ndjson   One JSON object per file, written as soon as it is parsed,
+           then a {"summary": ...} record
+  markdown Heading and nested symbol list per file, with line links
+  html     Self-contained page with a collapsible tree per file, search,
+           kind filters and the source of each symbol
+  mermaid  Mermaid class diagram of classes, interfaces and their members
+  dot      Graphviz class diagram, one cluster per file
+  ctags    Universal Ctags tags file (extended format) for Vim and others
+  etags    Emacs TAGS file
+
+Graph Formats (deps):
+  ascii    Dependencies listed under each file (default)
+  json     Nodes and edges with import lines and names
+  dot      Graphviz digraph (type-only imports dashed)
+  mermaid  Mermaid flowchart
+
+API Diff Formats (api-diff):
+  ascii     Changes listed under each entry file (default)
+  json      Changes with their semver bump and details
+  markdown  Section with a table per entry file, for PRs and changelogs
+
+Outline Diff Formats (diff):
+  ascii    Colored tree of the changed symbols (default)
+  json     Changed symbols per file with their previous location
 
 Examples:
   # Parse all TypeScript files in src directory
@@ -95,6 +293,69 @@ Examples:
   # Generate YAML report
   code-outline "src/**/*.ts" --format yaml --depth 2
 
+  # Include documentation comments
+  code-outline "src/**/*.ts" --docs
+
+  # Public API only, without private members
+  code-outline "src/**/*.ts" --exported-only --hide-private
+
+  # Fail CI on syntax errors and export them for PR annotations
+  code-outline "src/**/*.ts" --strict --sarif outline.sarif
+
+  # Symbols this branch touched
+  code-outline "src/**/*.ts" --changed-since main --changed-symbols
+
+  # Keep an outline panel up to date, or stream changes as NDJSON
+  code-outline "src/**/*.ts" --watch --format json
+
+  # Only reparse files that changed since the last run
+  code-outline "src/**/*.ts" --cache --verbose
+
+  # Stream outlines into jq as files are parsed
+  code-outline "src/**/*.ts" --format ndjson | jq -c 'select(.file) | .file'
+
+  # Outline as markdown, linking lines to GitHub
+  code-outline "src/**/*.ts" --format markdown --toc \\
+    --link-template "https://github.com/org/repo/blob/main/{file}#L{line}"
+
+  # Browsable report for onboarding, viewable offline
+  code-outline "src/**/*.ts" --format html --docs > outline.html
+
+  # Class diagram of the domain model for the architecture docs
+  code-outline "src/models/**/*.ts" --format mermaid > docs/models.mmd
+
+  # Tag files for Vim and Emacs
+  code-outline "src/**/*.ts" --format ctags > tags
+  code-outline "src/**/*.ts" --format etags > TAGS
+
+  # Print a method's source with 2 lines of context
+  code-outline show "src/**/*.ts" ApiClient.request --context 2
+
+  # Find classes and methods whose names fuzzily match "usrsvc"
+  code-outline find "src/**/*.ts" usrsvc --kind class,method
+
+  # Which function contains line 218?
+  code-outline at src/server.ts:218
+  grep -rn "TODO" src | code-outline at --format json
+
+  # Render the import graph with Graphviz
+  code-outline deps "src/**/*.ts" --format dot | dot -Tsvg > deps.svg
+
+  # Fail CI on runtime import cycles
+  code-outline cycles "src/**/*.ts" --ignore-type-only
+
+  # Dead exports outside the public API
+  code-outline unused-exports "src/**/*.ts" --entry src/index.ts
+
+  # What consumers of a package can import
+  code-outline api packages/parser --depth 1
+
+  # API changes on this branch as a PR comment
+  code-outline api-diff "packages/*/src/index.ts" --base main --format markdown
+
+  # Structural changes of a refactor on this branch
+  code-outline diff git:main:src src
+
 Supported Files:
   .js      JavaScript files
   .ts      TypeScript files  
@@ -131,6 +392,116 @@ For more information, visit: https://github.com/sammons2/code-outline-cli
           type: 'boolean',
           default: false,
         },
+        docs: {
+          type: 'boolean',
+          default: false,
+        },
+        'exported-only': {
+          type: 'boolean',
+          default: false,
+        },
+        'hide-private': {
+          type: 'boolean',
+          default: false,
+        },
+        sarif: {
+          type: 'string',
+        },
+        strict: {
+          type: 'boolean',
+          default: false,
+        },
+        context: {
+          type: 'string',
+          default: '0',
+        },
+        'signature-only': {
+          type: 'boolean',
+          default: false,
+        },
+        match: {
+          type: 'string',
+          default: 'fuzzy',
+        },
+        kind: {
+          type: 'string',
+        },
+        tsconfig: {
+          type: 'string',
+        },
+        external: {
+          type: 'boolean',
+          default: false,
+        },
+        'ignore-type-only': {
+          type: 'boolean',
+          default: false,
+        },
+        entry: {
+          type: 'string',
+          multiple: true,
+        },
+        allowlist: {
+          type: 'string',
+        },
+        base: {
+          type: 'string',
+        },
+        head: {
+          type: 'string',
+          default: 'HEAD',
+        },
+        'changed-since': {
+          type: 'string',
+        },
+        staged: {
+          type: 'boolean',
+          default: false,
+        },
+        'changed-symbols': {
+          type: 'boolean',
+          default: false,
+        },
+        watch: {
+          type: 'boolean',
+          default: false,
+        },
+        cache: {
+          type: 'boolean',
+          default: false,
+        },
+        'cache-dir': {
+          type: 'string',
+        },
+        'no-cache': {
+          type: 'boolean',
+          default: false,
+        },
+        verbose: {
+          type: 'boolean',
+          default: false,
+        },
+        jobs: {
+          type: 'string',
+          short: 'j',
+        },
+        concurrency: {
+          type: 'string',
+        },
+        'max-file-size': {
+          type: 'string',
+        },
+        'link-template': {
+          type: 'string',
+        },
+        collapse: {
+          type: 'boolean',
+          default: false,
+        },
+        toc: {
+          type: 'boolean',
+          default: false,
+        },
         help: {
           type: 'boolean',
           short: 'h',
@@ -155,13 +526,16 @@ For more information, visit: https://github.com/sammons2/code-outline-cli
       process.exit(0);
     }
 
-    if (positionals.length === 0) {
+    const command = this.isCommand(positionals[0]) ? positionals[0] : undefined;
+    const commandArgs = command ? positionals.slice(1) : positionals;
+    const takesPattern = !command || !PATTERNLESS_COMMANDS.includes(command);
+
+    if (takesPattern && commandArgs.length === 0) {
       throw new CLIArgumentError('No file pattern provided');
     }
 
     // Safely validate format using type guard
-    const formatValidation = validateFormat(values.format);
-    const format = this.validateAndThrow(formatValidation, 'Invalid format');
+    const format = this.parseFormat(command, values.format);
 
     // Safely validate depth using validator
     const depthValidation = validateDepthValue(values.depth);
@@ -172,14 +546,98 @@ For more information, visit: https://github.com/sammons2/code-outline-cli
       : this.safeExtractValue(values['named-only'], true);
 
     const llmtext = this.safeExtractValue(values.llmtext, false);
+    const docs = this.safeExtractValue(values.docs, false);
+    const exportedOnly = this.safeExtractValue(values['exported-only'], false);
+    const hidePrivate = this.safeExtractValue(values['hide-private'], false);
+    const sarif = this.safeExtractValue(values.sarif, '') || undefined;
+    const strict = this.safeExtractValue(values.strict, false);
+    const context = this.parseContext(
+      this.safeExtractValue(values.context, '0')
+    );
+    const signatureOnly = this.safeExtractValue(
+      values['signature-only'],
+      false
+    );
+    const match = this.parseMatchMode(
+      this.safeExtractValue(values.match, 'fuzzy')
+    );
+    const kinds = this.parseKinds(this.safeExtractValue(values.kind, ''));
+    const tsconfig = this.safeExtractValue(values.tsconfig, '') || undefined;
+    const external = this.safeExtractValue(values.external, false);
+    const ignoreTypeOnly = this.safeExtractValue(
+      values['ignore-type-only'],
+      false
+    );
+    const entries = values.entry ?? [];
+    const allowlist = this.safeExtractValue(values.allowlist, '') || undefined;
+    const base = this.safeExtractValue(values.base, '') || undefined;
+    const head = this.safeExtractValue(values.head, 'HEAD');
+    const changedSince =
+      this.safeExtractValue(values['changed-since'], '') || undefined;
+    const staged = this.safeExtractValue(values.staged, false);
+    const changedSymbols = this.safeExtractValue(
+      values['changed-symbols'],
+      false
+    );
+    if (changedSince && staged) {
+      throw new CLIArgumentError(
+        'Use either --changed-since or --staged, not both'
+      );
+    }
+    if (changedSymbols && !changedSince && !staged) {
+      throw new CLIArgumentError(
+        '--changed-symbols requires --changed-since or --staged'
+      );
+    }
+    const watch = this.safeExtractValue(values.watch, false);
+    if (watch && command) {
+      throw new CLIArgumentError(`--watch is not supported by ${command}`);
+    }
+    if (watch && (changedSince || staged)) {
+      throw new CLIArgumentError(
+        '--watch cannot be combined with --changed-since or --staged'
+      );
+    }
+
+    const cacheDir = this.safeExtractValue(values['cache-dir'], '');
+    const cache =
+      !this.safeExtractValue(values['no-cache'], false) &&
+      (this.safeExtractValue(values.cache, false) || cacheDir !== '');
+    const verbose = this.safeExtractValue(values.verbose, false);
+    const jobs = this.parseJobs(this.safeExtractValue(values.jobs, ''));
+    const concurrency = this.parseConcurrency(
+      this.safeExtractValue(values.concurrency, '')
+    );
+    const maxFileSize = this.parseFileSize(
+      this.safeExtractValue(values['max-file-size'], '')
+    );
 
     // If --llmtext flag is provided, override format to 'llmtext'
     const finalFormat = llmtext ? 'llmtext' : format;
 
-    const pattern = positionals[0];
+    const linkTemplate =
+      this.safeExtractValue(values['link-template'], '') || undefined;
+    const collapse = this.safeExtractValue(values.collapse, false);
+    const toc = this.safeExtractValue(values.toc, false);
+    const markdownOption = [
+      linkTemplate !== undefined && '--link-template',
+      collapse && '--collapse',
+      toc && '--toc',
+    ].find((option) => option !== false);
+    if (markdownOption && finalFormat !== 'markdown') {
+      throw new CLIArgumentError(
+        `${markdownOption} requires --format markdown`
+      );
+    }
+
+    const [pattern, ...args] = takesPattern
+      ? commandArgs
+      : ['', ...commandArgs];
 
     // Warn if the pattern doesn't contain glob characters but looks like it should
+    // (diff takes paths, not globs)
     if (
+      command !== 'diff' &&
       !pattern.includes('*') &&
       !pattern.includes('?') &&
       !pattern.includes('[')
@@ -220,15 +678,182 @@ For more information, visit: https://github.com/sammons2/code-outline-cli
     }
 
     return {
+      ...(command ? { command } : {}),
       options: {
         format: finalFormat,
         depth,
         namedOnly,
         llmtext,
+        docs,
+        exportedOnly,
+        hidePrivate,
+        sarif,
+        strict,
+        context,
+        signatureOnly,
+        match,
+        kinds,
+        tsconfig,
+        external,
+        ignoreTypeOnly,
+        entries,
+        allowlist,
+        base,
+        head,
+        changedSince,
+        staged,
+        changedSymbols,
+        watch,
+        cache,
+        cacheDir: cacheDir || DEFAULT_CACHE_DIR,
+        verbose,
+        jobs,
+        concurrency,
+        maxFileSize,
+        linkTemplate,
+        collapse,
+        toc,
         help: false,
         version: false,
       },
       pattern,
+      args,
     };
   }
+
+  private isCommand(value: string | undefined): value is CommandName {
+    return (COMMANDS as readonly string[]).includes(value ?? '');
+  }
+
+  private parseMatchMode(value: string): MatchMode {
+    if (!isValidMatchMode(value)) {
+      throw new CLIArgumentError(
+        `Invalid match mode "${value}". Must be one of: ${MATCH_MODES.join(', ')}`
+      );
+    }
+    return value;
+  }
+
+  /**
+   * Validate --format against the formats of the command
+   * @private
+   */
+  private parseFormat(
+    command: CommandName | undefined,
+    value: unknown
+  ): CliOptions['format'] {
+    if (command && GRAPH_COMMANDS.includes(command)) {
+      return this.parseGraphFormat(this.safeExtractValue(value, 'ascii'));
+    }
+    if (command === 'api-diff') {
+      const format = this.safeExtractValue(value, 'ascii');
+      if (!isApiDiffFormat(format)) {
+        throw new CLIArgumentError(
+          `Invalid format "${format}" for api-diff. Must be one of: ${API_DIFF_FORMATS.join(', ')}`
+        );
+      }
+      return format;
+    }
+    if (command === 'diff') {
+      const format = this.safeExtractValue(value, 'ascii');
+      if (!isOutlineDiffFormat(format)) {
+        throw new CLIArgumentError(
+          `Invalid format "${format}" for diff. Must be one of: ${OUTLINE_DIFF_FORMATS.join(', ')}`
+        );
+      }
+      return format;
+    }
+    const format = this.validateAndThrow(
+      validateFormat(value),
+      'Invalid format'
+    );
+    // Commands other than api print their own output instead of outlines
+    if (OUTLINE_ONLY_FORMATS.includes(format) && command && command !== 'api') {
+      throw new CLIArgumentError(
+        `--format ${format} is not supported by ${command}`
+      );
+    }
+    return format;
+  }
+
+  private parseGraphFormat(value: string): GraphFormat {
+    if (!isGraphFormat(value)) {
+      throw new CLIArgumentError(
+        `Invalid format "${value}" for deps. Must be one of: ${GRAPH_FORMATS.join(', ')}`
+      );
+    }
+    return value;
+  }
+
+  private parseKinds(value: string): string[] {
+    const kinds = value
+      .split(',')
+      .map((kind) => kind.trim())
+      .filter((kind) => kind !== '');
+
+    const invalid = kinds.find(
+      (kind) => !isSymbolKind(kind) && !isSymbolType(kind)
+    );
+    if (invalid) {
+      throw new CLIArgumentError(
+        `Invalid kind "${invalid}". Must be a node type or one of: ${Object.keys(SYMBOL_KINDS).join(', ')}`
+      );
+    }
+    return kinds;
+  }
+
+  private parseJobs(value: string): number {
+    if (value === '') {
+      return availableParallelism();
+    }
+    const jobs = Number(value);
+    if (!Number.isInteger(jobs) || jobs < 1) {
+      throw new CLIArgumentError(
+        `Invalid jobs: ${value} (must be a positive integer)`
+      );
+    }
+    return jobs;
+  }
+
+  private parseConcurrency(value: string): number {
+    if (value === '') {
+      return DEFAULT_LIMITS.concurrency;
+    }
+    const concurrency = Number(value);
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new CLIArgumentError(
+        `Invalid concurrency: ${value} (must be a positive integer)`
+      );
+    }
+    return concurrency;
+  }
+
+  /**
+   * Parse a size such as 1048576, 512kb or 1.5mb into bytes
+   * @private
+   */
+  private parseFileSize(value: string): number {
+    if (value === '') {
+      return DEFAULT_LIMITS.maxFileSize;
+    }
+    const match = /^(\d+(?:\.\d+)?)\s*(b|kb?|mb?)?$/i.exec(value.trim());
+    if (!match) {
+      throw new CLIArgumentError(
+        `Invalid max file size: ${value} (use bytes or a kb/mb suffix, e.g. 512kb)`
+      );
+    }
+    const unit = (match[2] ?? 'b').charAt(0).toLowerCase();
+    const multiplier = unit === 'm' ? 1024 * 1024 : unit === 'k' ? 1024 : 1;
+    return Math.round(Number(match[1]) * multiplier);
+  }
+
+  private parseContext(value: string): number {
+    const context = Number(value);
+    if (!Number.isInteger(context) || context < 0) {
+      throw new CLIArgumentError(
+        `Invalid context: ${value} (must be a non-negative integer)`
+      );
+    }
+    return context;
+  }
 }
@@ -1,43 +1,196 @@
+import { resolve } from 'node:path';
+import { isValidOutputFormat } from '@sammons/code-outline-parser';
 import { CLIArgumentParser, CLIArgumentError } from './cli-argument-parser.js';
+import type { CliOptions, CommandName } from './cli-argument-parser.js';
 import { FileProcessor, FileProcessorError } from './file-processor.js';
+import type { ProcessedFile } from './file-processor.js';
+import { GitError, GitRepository } from './git/index.js';
+import type { ChangedFile } from './git/index.js';
 import { CLIOutputHandler } from './cli-output-handler.js';
+import type { OutputCounts } from './cli-output-handler.js';
+import { OutlineFilter } from './outline-filter.js';
+import { ChangedSymbolFilter } from './changed-symbol-filter.js';
+import { OutlineWatcher } from './outline-watcher.js';
+import { OutlineCache, OutlineCacheError } from './outline-cache.js';
+import type { Command } from './commands/index.js';
+import {
+  ApiCommand,
+  ApiDiffCommand,
+  AtCommand,
+  CacheCommand,
+  CyclesCommand,
+  DepsCommand,
+  DiffCommand,
+  FindCommand,
+  ShowCommand,
+  UnusedExportsCommand,
+  toDisplayPath,
+} from './commands/index.js';
 
 export class CLIOrchestrator {
   private argumentParser: CLIArgumentParser;
   private fileProcessor: FileProcessor;
+  private commands: Record<CommandName, Command>;
 
   constructor() {
     this.argumentParser = new CLIArgumentParser();
     this.fileProcessor = new FileProcessor();
+    this.commands = {
+      show: new ShowCommand(this.fileProcessor),
+      find: new FindCommand(this.fileProcessor),
+      at: new AtCommand(this.fileProcessor),
+      deps: new DepsCommand(this.fileProcessor),
+      cycles: new CyclesCommand(this.fileProcessor),
+      'unused-exports': new UnusedExportsCommand(this.fileProcessor),
+      api: new ApiCommand(this.fileProcessor),
+      'api-diff': new ApiDiffCommand(this.fileProcessor),
+      diff: new DiffCommand(this.fileProcessor),
+      cache: new CacheCommand(),
+    };
   }
 
   public async run(): Promise<void> {
+    const startTime = performance.now();
     try {
       // Parse and validate arguments
-      const { options, pattern } = this.argumentParser.parse();
+      const parsedArgs = this.argumentParser.parse();
+      const { command, options, pattern } = parsedArgs;
 
-      // Find matching files
-      const files = await this.fileProcessor.findFiles(pattern);
+      const cache = options.cache
+        ? new OutlineCache(resolve(options.cacheDir))
+        : undefined;
+      if (cache) {
+        this.fileProcessor.useCache(cache);
+      }
+      this.fileProcessor.setLimits({
+        concurrency: options.concurrency,
+        maxFileSize: options.maxFileSize,
+      });
+      if (options.jobs > 1) {
+        this.fileProcessor.useWorkers(options.jobs);
+      }
 
-      // Process files in parallel
-      const results = await this.fileProcessor.processFiles(
-        files,
-        options.depth,
-        options.namedOnly
-      );
+      if (command) {
+        process.exitCode = await this.commands[command].run(parsedArgs);
+        this.reportCache(cache, options);
+        return;
+      }
+
+      if (!isValidOutputFormat(options.format)) {
+        throw new CLIArgumentError(`Invalid format "${options.format}"`);
+      }
+      const { format } = options;
+
+      // Find matching files; watch mode also waits for files to appear
+      let files = options.watch
+        ? await this.fileProcessor.findFiles(pattern).catch((): string[] => [])
+        : await this.fileProcessor.findFiles(pattern);
+
+      // Narrow them to the files changed in the working tree
+      const changes = this.getChanges(options);
+      if (changes) {
+        files = files.filter((file) => changes.has(file));
+        if (files.length === 0) {
+          console.error(`No changed files match ${pattern}`);
+        }
+      }
 
-      // Format and output results
-      const outputHandler = new CLIOutputHandler(
-        options.format,
-        options.llmtext
+      // Modifier-based filters
+      const outlineFilter = new OutlineFilter({
+        exportedOnly: options.exportedOnly,
+        hidePrivate: options.hidePrivate,
+      });
+      const filter = (results: ProcessedFile[]): ProcessedFile[] => {
+        const filtered = outlineFilter.apply(results);
+        return changes && options.changedSymbols
+          ? new ChangedSymbolFilter(changes).apply(filtered)
+          : filtered;
+      };
+
+      const outputHandler = new CLIOutputHandler(format, options.llmtext, {
+        showDocs: options.docs,
+        linkTemplate: options.linkTemplate,
+        collapsible: options.collapse,
+        tableOfContents: options.toc,
+      });
+      // ndjson writes every outline as soon as it is ready
+      const streaming = format === 'ndjson' && !options.watch;
+      const counts: OutputCounts = {
+        files: 0,
+        outlines: 0,
+        failed: 0,
+        errors: 0,
+      };
+
+      // Process files in parallel; streamed runs keep only the files with
+      // diagnostics, without their outlines
+      let results: ProcessedFile[] = [];
+      if (streaming) {
+        await this.fileProcessor.processFiles(
+          files,
+          options.depth,
+          options.namedOnly,
+          (result) => {
+            CLIOutputHandler.count(counts, result);
+            if (result.diagnostics?.length) {
+              results.push({
+                file: result.file,
+                outline: null,
+                diagnostics: result.diagnostics,
+              });
+            }
+            return outputHandler.writeRecords(filter([result]));
+          }
+        );
+      } else {
+        results = await this.fileProcessor.processFiles(
+          files,
+          options.depth,
+          options.namedOnly
+        );
+      }
+
+      // Start watching before printing so no change goes unnoticed
+      const watching = options.watch
+        ? this.watch(pattern, results, options, outlineFilter, outputHandler)
+        : undefined;
+      if (streaming) {
+        await outputHandler.writeSummary(counts, performance.now() - startTime);
+      } else if (options.watch && this.streamsEvents(format)) {
+        outputHandler.writeEvents(
+          filter(results).map((result) => ({ event: 'added', ...result }))
+        );
+      } else {
+        outputHandler.formatAndOutput(filter(results));
+      }
+
+      if (options.sarif) {
+        outputHandler.writeSarif(results, options.sarif);
+      }
+
+      const filesWithErrors = results.filter(
+        (result) => (result.diagnostics?.length ?? 0) > 0
       );
-      outputHandler.formatAndOutput(results);
+      if (options.strict && filesWithErrors.length > 0) {
+        console.error(
+          `Syntax errors found in ${filesWithErrors.length} file(s)`
+        );
+        // Let pending output flush before exiting with the failure code
+        process.exitCode = 1;
+      }
+      this.reportCache(cache, options);
+
+      await watching;
     } catch (error: unknown) {
       if (error instanceof CLIArgumentError) {
         console.error(`Error: ${error.message}`);
         this.argumentParser.printHelp();
         process.exit(1);
-      } else if (error instanceof FileProcessorError) {
+      } else if (
+        error instanceof FileProcessorError ||
+        error instanceof GitError ||
+        error instanceof OutlineCacheError
+      ) {
         console.error(error.message);
         process.exit(1);
       } else {
@@ -45,4 +198,85 @@ export class CLIOrchestrator {
       }
     }
   }
+
+  /**
+   * Re-emit outlines as files change until the process is interrupted: json
+   * output streams NDJSON events, other formats reprint every outline
+   * @private
+   */
+  private async watch(
+    pattern: string,
+    results: ProcessedFile[],
+    options: CliOptions,
+    outlineFilter: OutlineFilter,
+    outputHandler: CLIOutputHandler
+  ): Promise<void> {
+    const watcher = new OutlineWatcher(pattern, this.fileProcessor, {
+      depth: options.depth,
+      namedOnly: options.namedOnly,
+    });
+    watcher.start(results, (events) => {
+      if (this.streamsEvents(options.format)) {
+        outputHandler.writeEvents(outlineFilter.apply(events));
+        return;
+      }
+      if (process.stdout.isTTY) {
+        // Clear the screen so the outline redraws in place
+        process.stdout.write('\x1B[2J\x1B[H');
+      }
+      outputHandler.formatAndOutput(outlineFilter.apply(watcher.getResults()));
+    });
+
+    await new Promise<void>((resolve) => {
+      const stop = (): void => {
+        watcher.stop();
+        resolve();
+      };
+      process.once('SIGINT', stop);
+      process.once('SIGTERM', stop);
+    });
+  }
+
+  /**
+   * Whether watch mode prints NDJSON events instead of reprinting outlines
+   * @private
+   */
+  private streamsEvents(format: CliOptions['format']): boolean {
+    return format === 'json' || format === 'ndjson';
+  }
+
+  /**
+   * Print cache hits and misses to stderr in verbose mode
+   * @private
+   */
+  private reportCache(
+    cache: OutlineCache | undefined,
+    options: CliOptions
+  ): void {
+    if (cache && options.verbose) {
+      const { hits, misses } = cache.getStats();
+      console.error(
+        `Cache: ${hits} hit(s), ${misses} miss(es) in ${toDisplayPath(cache.directory)}`
+      );
+    }
+  }
+
+  /**
+   * Changed files by absolute path for --changed-since and --staged, or
+   * undefined when neither is set
+   * @private
+   */
+  private getChanges(
+    options: CliOptions
+  ): Map<string, ChangedFile> | undefined {
+    if (!options.staged && options.changedSince === undefined) {
+      return undefined;
+    }
+    const repository = GitRepository.open();
+    const changes =
+      options.changedSince === undefined
+        ? repository.getStagedChanges()
+        : repository.getChangesSince(options.changedSince);
+    return new Map(changes.map((change) => [change.file, change]));
+  }
 }
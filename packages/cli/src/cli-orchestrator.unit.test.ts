@@ -15,6 +15,7 @@ const {
   mockFileProcessor: {
     findFiles: vi.fn(),
     processFiles: vi.fn(),
+    setLimits: vi.fn(),
   },
   mockOutputHandler: {
     formatAndOutput: vi.fn(),
@@ -84,6 +85,7 @@ describe('CLIOrchestrator', () => {
         depth: 5,
         namedOnly: true,
         llmtext: false,
+        docs: false,
         help: false,
         version: false,
       };
@@ -112,7 +114,8 @@ describe('CLIOrchestrator', () => {
       );
       expect(CLIOutputHandler).toHaveBeenCalledWith(
         mockOptions.format,
-        mockOptions.llmtext
+        mockOptions.llmtext,
+        { showDocs: mockOptions.docs }
       );
       expect(mockOutputHandler.formatAndOutput).toHaveBeenCalledWith(
         mockResults
@@ -1,16 +1,111 @@
 import type { OutputFormat } from '@sammons/code-outline-parser';
-import { Formatter } from '@sammons/code-outline-formatter';
+import type { FormatterOptions } from '@sammons/code-outline-formatter';
+import { Formatter, SarifFormatter } from '@sammons/code-outline-formatter';
+import { writeFileSync } from 'node:fs';
+import { once } from 'node:events';
+import { version } from '../package.json';
 import type { ProcessedFile } from './file-processor.js';
+import type { WatchEvent } from './outline-watcher.js';
+
+/**
+ * Counts of the ndjson summary, kept while outlines stream out
+ */
+export interface OutputCounts {
+  /** Files that were parsed */
+  files: number;
+  /** Files with an outline */
+  outlines: number;
+  /** Files that could not be parsed or were skipped */
+  failed: number;
+  /** Syntax errors across all files */
+  errors: number;
+}
+
+/**
+ * Last record of ndjson output
+ */
+export interface OutputSummary extends OutputCounts {
+  durationMs: number;
+}
 
 export class CLIOutputHandler {
   private formatter: Formatter;
 
-  constructor(format: OutputFormat, llmtext?: boolean) {
-    this.formatter = new Formatter(format, llmtext);
+  constructor(
+    format: OutputFormat,
+    llmtext?: boolean,
+    formatterOptions?: FormatterOptions
+  ) {
+    this.formatter = new Formatter(format, llmtext, formatterOptions);
   }
 
   public formatAndOutput(results: ProcessedFile[]): void {
     const output = this.formatter.format(results);
     console.log(output);
   }
+
+  /**
+   * Print watch events as NDJSON: one line per file with the event and the
+   * file's json format entry
+   */
+  public writeEvents(events: WatchEvent[]): void {
+    for (const { event, ...result } of events) {
+      console.log(
+        JSON.stringify({ event, ...this.formatter.formatRecord(result) })
+      );
+    }
+  }
+
+  /**
+   * Stream outlines as NDJSON lines, waiting for slow consumers instead of
+   * buffering the whole run. Files without an outline are left out, as in
+   * json output.
+   */
+  public async writeRecords(results: ProcessedFile[]): Promise<void> {
+    for (const result of results) {
+      if (result.outline) {
+        await this.writeLine(this.formatter.formatRecord(result));
+      }
+    }
+  }
+
+  /**
+   * Add a processed file, before filtering, to the counts of the summary
+   */
+  public static count(counts: OutputCounts, result: ProcessedFile): void {
+    counts.files++;
+    if (result.outline) {
+      counts.outlines++;
+    } else {
+      counts.failed++;
+    }
+    counts.errors += result.diagnostics?.length ?? 0;
+  }
+
+  /**
+   * End NDJSON output with a `{"summary": ...}` record
+   * @param counts - Counts of every processed file
+   * @param durationMs - Time since the run started
+   */
+  public async writeSummary(
+    counts: OutputCounts,
+    durationMs: number
+  ): Promise<void> {
+    const summary: OutputSummary = {
+      ...counts,
+      durationMs: Math.round(durationMs),
+    };
+    await this.writeLine({ summary });
+  }
+
+  public writeSarif(results: ProcessedFile[], outputPath: string): void {
+    const sarif = new SarifFormatter(version).format(results);
+    writeFileSync(outputPath, sarif, 'utf-8');
+  }
+
+  private async writeLine(record: object): Promise<void> {
+    if (!process.stdout.write(`${JSON.stringify(record)}\n`)) {
+      await once(process.stdout, 'drain');
+    }
+  }
 }
@@ -1,18 +1,31 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { spawn } from 'node:child_process';
-import { resolve } from 'node:path';
-import { writeFileSync, mkdirSync, rmSync } from 'node:fs';
+import { execFileSync, spawn } from 'node:child_process';
+import { basename, relative, resolve } from 'node:path';
+import {
+  existsSync,
+  writeFileSync,
+  mkdirSync,
+  rmSync,
+  readFileSync,
+} from 'node:fs';
 
 // Test utilities
 function runCLI(
-  args: string[]
+  args: string[],
+  input?: string,
+  cwd?: string
 ): Promise<{ stdout: string; stderr: string; exitCode: number | null }> {
   return new Promise((resolve) => {
     const cliPath = require.resolve('./cli.ts');
     const child = spawn('tsx', [cliPath, ...args], {
+      cwd,
       stdio: 'pipe',
     });
 
+    if (input !== undefined) {
+      child.stdin?.end(input);
+    }
+
     let stdout = '';
     let stderr = '';
 
@@ -151,7 +164,7 @@ export { greet, Person };
       expect(result.stdout).toContain(
         '# Ultra-compressed code outline for LLM consumption'
       );
-      expect(result.stdout).toContain('function_declaration_greet 1');
+      expect(result.stdout).toContain('function_declaration_greet(name) 1');
     });
 
     it('should override format when --llmtext flag is provided', async () => {
@@ -261,7 +274,7 @@ export { greet, Person };
         '# Ultra-compressed code outline for LLM consumption'
       );
       expect(result.stdout).toContain('test/temp/test.js (15L)');
-      expect(result.stdout).toContain('function_declaration_greet 1');
+      expect(result.stdout).toContain('function_declaration_greet(name) 1');
       expect(result.stdout).toContain('class_declaration_Person 5');
       // Should not contain decorative symbols
       expect(result.stdout).not.toContain('📁');
@@ -270,6 +283,187 @@ export { greet, Person };
     });
   });
 
+  describe('ndjson output', () => {
+    it('should write one record per file and a summary', async () => {
+      writeFileSync(resolve(testDir, 'broken.js'), 'function broken( {}');
+
+      const result = await runCLI(
+        ['*.js', '--format', 'ndjson'],
+        undefined,
+        testDir
+      );
+
+      expect(result.exitCode).toBe(0);
+      const records = result.stdout
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line));
+      expect(records.slice(0, -1).map((record) => record.file)).toEqual([
+        'broken.js',
+        'test.js',
+      ]);
+      expect(records[1].outline.children[0].name).toBe('greet');
+      expect(records[2].summary).toMatchObject({
+        files: 2,
+        outlines: 2,
+        failed: 0,
+        errors: 1,
+      });
+      expect(records[2].summary.durationMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should keep diagnostics for --sarif and --strict', async () => {
+      writeFileSync(resolve(testDir, 'broken.js'), 'function broken( {}');
+      const sarifFile = resolve(testDir, 'results.sarif');
+
+      const result = await runCLI(
+        ['*.js', '--format', 'ndjson', '--strict', '--sarif', sarifFile],
+        undefined,
+        testDir
+      );
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toContain('Syntax errors found in 1 file(s)');
+      const sarif = JSON.parse(readFileSync(sarifFile, 'utf-8'));
+      expect(sarif.runs[0].results).toHaveLength(1);
+    });
+  });
+
+  describe('markdown output', () => {
+    it('should link every symbol to its line', async () => {
+      const result = await runCLI(
+        [
+          'test.js',
+          '--format',
+          'markdown',
+          '--link-template',
+          'https://example.com/{file}?line={line}',
+        ],
+        undefined,
+        testDir
+      );
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('## `test.js`');
+      expect(result.stdout).toContain(
+        '- `function` _export_ **greet**`(name)` ([L1](https://example.com/test.js?line=1))'
+      );
+    });
+  });
+
+  describe('html output', () => {
+    it('should write a self-contained page with the sources', async () => {
+      const result = await runCLI(
+        ['test.js', '--format', 'html'],
+        undefined,
+        testDir
+      );
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toMatch(/^<!DOCTYPE html>/);
+      expect(result.stdout).toContain('"t":"function_declaration","n":"greet"');
+      expect(result.stdout).toContain('function greet(name)');
+    });
+
+    it('should reject html output for commands', async () => {
+      const result = await runCLI(
+        ['find', 'test.js', 'greet', '--format', 'html'],
+        undefined,
+        testDir
+      );
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toContain('--format html is not supported by find');
+    });
+  });
+
+  describe('class diagrams', () => {
+    beforeEach(() => {
+      writeFileSync(
+        resolve(testDir, 'models.ts'),
+        [
+          'export interface Entity { id: string; }',
+          'export abstract class Model implements Entity {',
+          '  id = "";',
+          '  protected abstract validate(): boolean;',
+          '}',
+          'export class User extends Model {',
+          '  protected validate(): boolean { return true; }',
+          '}',
+        ].join('\n')
+      );
+    });
+
+    it('should draw classes and their heritage as Mermaid', async () => {
+      const result = await runCLI(
+        ['models.ts', '--format', 'mermaid'],
+        undefined,
+        testDir
+      );
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('classDiagram');
+      expect(result.stdout).toContain('#validate() boolean*');
+      expect(result.stdout).toContain('Entity <|.. Model');
+      expect(result.stdout).toContain('Model <|-- User');
+    });
+
+    it('should draw classes and their heritage as DOT', async () => {
+      const result = await runCLI(
+        ['models.ts', '--format', 'dot'],
+        undefined,
+        testDir
+      );
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('digraph classes {');
+      expect(result.stdout).toContain('"User" -> "Model" [arrowhead=empty];');
+    });
+  });
+
+  describe('tag files', () => {
+    beforeEach(() => {
+      writeFileSync(
+        resolve(testDir, 'client.ts'),
+        [
+          'export class ApiClient {',
+          '  async get(path: string): Promise<string> {',
+          '    const url = path;',
+          '    return url;',
+          '  }',
+          '}',
+        ].join('\n')
+      );
+    });
+
+    it('should write a sorted ctags file', async () => {
+      const result = await runCLI(
+        ['client.ts', '--format', 'ctags'],
+        undefined,
+        testDir
+      );
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('!_TAG_FILE_SORTED\t1\t');
+      expect(result.stdout).toContain(
+        'get\tclient.ts\t/^  async get(path: string): Promise<string> {$/;"\tm\tline:2\tclass:ApiClient\tsignature:(path: string)\ttyperef:typename:Promise<string>'
+      );
+      expect(result.stdout).not.toContain('url\t');
+    });
+
+    it('should write an etags file', async () => {
+      const result = await runCLI(
+        ['client.ts', '--format', 'etags'],
+        undefined,
+        testDir
+      );
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('\f\nclient.ts,');
+      expect(result.stdout).toContain('  async get\x7fget\x012,25\n');
+    });
+  });
+
   describe('depth control', () => {
     it('should limit parsing depth when specified', async () => {
       // Test with depth 1
@@ -381,6 +575,1116 @@ export { greet, Person };
     });
   });
 
+  describe('diagnostics', () => {
+    it('should report syntax errors in JSON output', async () => {
+      const invalidFile = resolve(testDir, 'invalid.js');
+      writeFileSync(invalidFile, 'const value = ;\nfunction ok() {}');
+
+      const result = await runCLI([invalidFile, '--format', 'json']);
+
+      expect(result.exitCode).toBe(0);
+      const output = JSON.parse(result.stdout);
+      expect(output[0].diagnostics).toEqual([
+        expect.objectContaining({
+          severity: 'error',
+          start: { row: 0, column: 14 },
+        }),
+      ]);
+    });
+
+    it('should exit non-zero with --strict when a file has syntax errors', async () => {
+      const invalidFile = resolve(testDir, 'invalid.js');
+      writeFileSync(invalidFile, 'const value = ;');
+
+      const result = await runCLI([invalidFile, '--strict']);
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stdout).toContain('Syntax error');
+      expect(result.stderr).toContain('Syntax errors found in 1 file(s)');
+    });
+
+    it('should exit zero with --strict when files parse cleanly', async () => {
+      const result = await runCLI([testFile, '--strict']);
+
+      expect(result.exitCode).toBe(0);
+    });
+
+    it('should write a SARIF log with --sarif', async () => {
+      const invalidFile = resolve(testDir, 'invalid.js');
+      const sarifFile = resolve(testDir, 'outline.sarif');
+      writeFileSync(invalidFile, 'const value = ;');
+
+      const result = await runCLI([invalidFile, '--sarif', sarifFile]);
+
+      expect(result.exitCode).toBe(0);
+      const sarif = JSON.parse(readFileSync(sarifFile, 'utf-8'));
+      expect(sarif.version).toBe('2.1.0');
+      expect(sarif.runs[0].results[0].locations[0]).toMatchObject({
+        physicalLocation: { region: { startLine: 1, startColumn: 13 } },
+      });
+    });
+  });
+
+  describe('show command', () => {
+    it('should print the source of a symbol', async () => {
+      const result = await runCLI(['show', testFile, 'Person.getName']);
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('method_definition Person.getName');
+      expect(result.stdout).toContain(
+        'getName() {\n    return this.name;\n  }'
+      );
+      expect(result.stdout).not.toContain('constructor');
+    });
+
+    it('should print only the signature with --signature-only', async () => {
+      const result = await runCLI([
+        'show',
+        testFile,
+        'greet',
+        '--signature-only',
+      ]);
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('function greet(name)');
+      expect(result.stdout).not.toContain('Hello');
+    });
+
+    it('should emit JSON with the symbol range', async () => {
+      const result = await runCLI([
+        'show',
+        testFile,
+        'greet',
+        '--format',
+        'json',
+        '--context',
+        '2',
+      ]);
+
+      expect(result.exitCode).toBe(0);
+      const output = JSON.parse(result.stdout);
+      expect(output).toMatchObject({
+        type: 'function_declaration',
+        name: 'greet',
+        start: { row: 0, column: 0 },
+        end: { row: 2, column: 1 },
+        lines: { start: 1, end: 5 },
+      });
+      expect(output.source).toContain('class Person');
+    });
+
+    it('should report ambiguous symbols', async () => {
+      const otherFile = resolve(testDir, 'other.js');
+      writeFileSync(otherFile, 'function greet() {}');
+
+      const result = await runCLI(['show', resolve(testDir, '*.js'), 'greet']);
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toContain('is ambiguous, 2 symbols match');
+      expect(result.stdout).toBe('');
+    });
+
+    it('should fail when no symbol matches', async () => {
+      const result = await runCLI(['show', testFile, 'missing']);
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toContain('No symbol matching "missing" found');
+    });
+  });
+
+  describe('find command', () => {
+    it('should list matching symbols as file:line kind name', async () => {
+      const result = await runCLI(['find', testFile, 'getName']);
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout.trim().split('\n')[0]).toMatch(
+        /test\.js:10 method Person\.getName$/
+      );
+    });
+
+    it('should rank better fuzzy matches first', async () => {
+      const result = await runCLI(['find', testFile, 'gn']);
+
+      expect(result.exitCode).toBe(0);
+      const lines = result.stdout.trim().split('\n');
+      expect(lines[0]).toContain('getName');
+      expect(lines.some((line) => line.includes('greet'))).toBe(false);
+    });
+
+    it('should filter by kind and emit JSON', async () => {
+      const result = await runCLI([
+        'find',
+        testFile,
+        'e',
+        '--kind',
+        'class',
+        '--format',
+        'json',
+      ]);
+
+      expect(result.exitCode).toBe(0);
+      const output = JSON.parse(result.stdout);
+      expect(output.map((match: { name: string }) => match.name)).toEqual([
+        'Person',
+      ]);
+      expect(output[0]).toMatchObject({ kind: 'class', line: 5 });
+    });
+
+    it('should support regex matching', async () => {
+      const result = await runCLI([
+        'find',
+        testFile,
+        '^get|^greet$',
+        '--match',
+        'regex',
+      ]);
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('function greet');
+      expect(result.stdout).toContain('method Person.getName');
+    });
+
+    it('should exit non-zero when nothing matches', async () => {
+      const result = await runCLI([
+        'find',
+        testFile,
+        'zzz',
+        '--match',
+        'exact',
+      ]);
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toContain('No symbols matching "zzz" found');
+    });
+  });
+
+  describe('at command', () => {
+    it('should print the symbols enclosing a line', async () => {
+      const result = await runCLI(['at', `${testFile}:11`]);
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout.trim()).toBe(
+        `${relative(process.cwd(), testFile)}:11 class Person > method getName`
+      );
+    });
+
+    it('should honour 1-based columns', async () => {
+      const result = await runCLI([
+        'at',
+        `${testFile}:4`,
+        `${testFile}:6:2`,
+        `${testFile}:6:3`,
+      ]);
+
+      expect(result.exitCode).toBe(0);
+      const displayPath = relative(process.cwd(), testFile);
+      expect(result.stdout.trim().split('\n')).toEqual([
+        `${displayPath}:4 (top level)`,
+        `${displayPath}:6:2 class Person`,
+        `${displayPath}:6:3 class Person > method constructor`,
+      ]);
+    });
+
+    it('should read locations from stdin and emit JSON', async () => {
+      const input = [
+        `${testFile}:2:  return \`Hello\``,
+        'no location on this line',
+        `    at Person.getName (${testFile}:11:5)`,
+      ].join('\n');
+
+      const result = await runCLI(['at', '--format', 'json'], input);
+
+      expect(result.exitCode).toBe(1);
+      const output = JSON.parse(result.stdout);
+      expect(output).toHaveLength(3);
+      expect(output[0]).toMatchObject({
+        line: 2,
+        symbols: [{ kind: 'function', name: 'greet' }],
+      });
+      expect(output[1]).toEqual({
+        input: 'no location on this line',
+        symbols: [],
+        error: 'No file:line[:col] location found',
+      });
+      expect(output[2]).toMatchObject({ line: 11, column: 5 });
+      expect(
+        output[2].symbols.map((symbol: { name: string }) => symbol.name)
+      ).toEqual(['Person', 'getName']);
+    });
+
+    it('should report stdin lines without a location', async () => {
+      const result = await runCLI(
+        ['at'],
+        `no location on this line\n${testFile}:11`
+      );
+
+      expect(result.exitCode).toBe(1);
+      const displayPath = relative(process.cwd(), testFile);
+      expect(result.stdout.trim().split('\n')).toEqual([
+        'no location on this line (No file:line[:col] location found)',
+        `${displayPath}:11 class Person > method getName`,
+      ]);
+    });
+
+    it('should report positions past the end of the file', async () => {
+      const result = await runCLI([
+        'at',
+        `${testFile}:999`,
+        `${testFile}:6:200`,
+        '--format',
+        'json',
+      ]);
+
+      expect(result.exitCode).toBe(1);
+      const output = JSON.parse(result.stdout);
+      expect(output[0].error).toMatch(/^Line 999 is out of range/);
+      expect(output[0].symbols).toEqual([]);
+      expect(output[1].error).toMatch(/^Column 200 is out of range/);
+    });
+
+    it('should print out-of-range positions as errors', async () => {
+      const result = await runCLI(['at', `${testFile}:999`]);
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stdout).toContain(':999 (Line 999 is out of range');
+      expect(result.stdout).not.toContain('top level');
+    });
+
+    it('should reject invalid locations', async () => {
+      const result = await runCLI(['at', 'not-a-location']);
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toContain('Invalid location "not-a-location"');
+    });
+  });
+
+  describe('deps command', () => {
+    const graphDir = resolve(testDir, 'graph');
+
+    beforeEach(() => {
+      mkdirSync(resolve(graphDir, 'lib'), { recursive: true });
+      writeFileSync(
+        resolve(graphDir, 'main.ts'),
+        [
+          "import { helper } from './lib';",
+          "import type { Options } from '@lib/types';",
+          "import { readFileSync } from 'node:fs';",
+          "export { greet } from '../test.js';",
+          "import './missing';",
+        ].join('\n')
+      );
+      writeFileSync(
+        resolve(graphDir, 'lib/index.ts'),
+        'export const helper = 1;'
+      );
+      writeFileSync(
+        resolve(graphDir, 'lib/types.ts'),
+        'export interface Options {}'
+      );
+      writeFileSync(
+        resolve(graphDir, 'tsconfig.json'),
+        '{ "compilerOptions": { "paths": { "@lib/*": ["./lib/*"] } } }'
+      );
+    });
+
+    it('should print the resolved import graph as JSON', async () => {
+      const result = await runCLI([
+        'deps',
+        `${graphDir}/**/*.ts`,
+        '--format',
+        'json',
+        '--tsconfig',
+        resolve(graphDir, 'tsconfig.json'),
+      ]);
+
+      expect(result.exitCode).toBe(0);
+      const display = (file: string): string =>
+        relative(process.cwd(), resolve(graphDir, file));
+      const output = JSON.parse(result.stdout);
+      expect(
+        output.edges.map(
+          (edge: { from: string; to: string; typeOnly: boolean }) => [
+            edge.from,
+            edge.to,
+            edge.typeOnly,
+          ]
+        )
+      ).toEqual([
+        [display('main.ts'), display('lib/index.ts'), false],
+        [display('main.ts'), display('lib/types.ts'), true],
+        [display('main.ts'), display('../test.js'), false],
+      ]);
+      expect(result.stderr).toContain(
+        `Cannot resolve "./missing" from ${display('main.ts')}:5`
+      );
+    });
+
+    it('should render Mermaid with external modules', async () => {
+      const result = await runCLI([
+        'deps',
+        `${graphDir}/main.ts`,
+        '--format',
+        'mermaid',
+        '--external',
+      ]);
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('graph LR');
+      expect(result.stdout).toContain('(["node:fs"])');
+      expect(result.stdout).toContain('(["@lib/types"])');
+    });
+
+    it('should reject outline-only formats', async () => {
+      const result = await runCLI(['deps', testFile, '--format', 'yaml']);
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toContain('Invalid format "yaml" for deps');
+    });
+  });
+
+  describe('cycles command', () => {
+    const cycleDir = resolve(testDir, 'cycles');
+
+    beforeEach(() => {
+      mkdirSync(cycleDir, { recursive: true });
+      writeFileSync(
+        resolve(cycleDir, 'a.ts'),
+        "import { b } from './b';\nexport const a = () => b;"
+      );
+      writeFileSync(
+        resolve(cycleDir, 'b.ts'),
+        "// Shared state\nimport { a } from './a';\nexport const b = 1;"
+      );
+      writeFileSync(
+        resolve(cycleDir, 'c.ts'),
+        "import type { D } from './d';\nexport interface C { d: D }"
+      );
+      writeFileSync(
+        resolve(cycleDir, 'd.ts'),
+        "import type { C } from './c';\nexport interface D { c: C }"
+      );
+    });
+
+    it('should print cycles as import-site chains and fail', async () => {
+      const result = await runCLI(['cycles', `${cycleDir}/*.ts`]);
+      const display = (file: string): string =>
+        relative(process.cwd(), resolve(cycleDir, file));
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stdout.trim().split('\n')).toEqual([
+        '✖ Cycle 1 (value imports, 2 files)',
+        `  ${display('a.ts')}:1 → ${display('b.ts')}`,
+        `  ${display('b.ts')}:2 → ${display('a.ts')}`,
+        '⚠ Cycle 2 (type-only, 2 files)',
+        `  ${display('c.ts')}:1 → ${display('d.ts')} (type-only)`,
+        `  ${display('d.ts')}:1 → ${display('c.ts')} (type-only)`,
+      ]);
+      expect(result.stderr).toContain('Found 2 import cycle(s), 1 type-only');
+    });
+
+    it('should emit JSON and skip type-only cycles when asked', async () => {
+      const result = await runCLI([
+        'cycles',
+        `${cycleDir}/*.ts`,
+        '--format',
+        'json',
+        '--ignore-type-only',
+      ]);
+
+      expect(result.exitCode).toBe(1);
+      const output = JSON.parse(result.stdout);
+      expect(output).toHaveLength(1);
+      expect(output[0]).toMatchObject({
+        typeOnly: false,
+        chain: [
+          { line: 1, specifier: './b', typeOnly: false },
+          { line: 2, specifier: './a', typeOnly: false },
+        ],
+      });
+    });
+
+    it('should succeed when there are no cycles', async () => {
+      const result = await runCLI(['cycles', resolve(cycleDir, 'a.ts')]);
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout.trim()).toBe('No import cycles found');
+    });
+  });
+
+  describe('unused-exports command', () => {
+    const libDir = resolve(testDir, 'unused');
+    const display = (file: string): string =>
+      relative(process.cwd(), resolve(libDir, file));
+
+    beforeEach(() => {
+      mkdirSync(resolve(libDir, 'utils'), { recursive: true });
+      writeFileSync(
+        resolve(libDir, 'index.ts'),
+        "export * from './utils';\nexport { run as start } from './run';"
+      );
+      writeFileSync(
+        resolve(libDir, 'utils/index.ts'),
+        "export { slugify } from './strings';\nexport * as math from './math';"
+      );
+      writeFileSync(
+        resolve(libDir, 'utils/strings.ts'),
+        'export const slugify = (s: string) => s;\nexport const pad = (s: string) => s;'
+      );
+      writeFileSync(
+        resolve(libDir, 'utils/math.ts'),
+        'export const sum = (a: number, b: number) => a + b;'
+      );
+      writeFileSync(
+        resolve(libDir, 'run.ts'),
+        "import * as strings from './utils/strings';\nexport function run() { return strings; }\nexport interface RunOptions { verbose: boolean }"
+      );
+    });
+
+    it('should list exports outside the entry point API and fail', async () => {
+      const result = await runCLI([
+        'unused-exports',
+        `${libDir}/**/*.ts`,
+        '--entry',
+        resolve(libDir, 'index.ts'),
+      ]);
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stdout.trim().split('\n')).toEqual([
+        `${display('run.ts')}:3 RunOptions (type)`,
+      ]);
+      expect(result.stderr).toContain('Found 1 unused export(s)');
+    });
+
+    it('should report every export without an entry and honor the allowlist', async () => {
+      writeFileSync(
+        resolve(libDir, '.public-api'),
+        '# Public API\nindex.ts\nutils/index.ts\nrun.ts#RunOptions'
+      );
+
+      const result = await runCLI([
+        'unused-exports',
+        `${libDir}/**/*.ts`,
+        '--allowlist',
+        resolve(libDir, '.public-api'),
+        '--format',
+        'json',
+      ]);
+
+      expect(result.exitCode).toBe(1);
+      // Without an entry, re-exports from index.ts do not count as uses
+      expect(JSON.parse(result.stdout)).toEqual([
+        {
+          file: display('run.ts'),
+          line: 2,
+          name: 'run',
+          typeOnly: false,
+          reExport: false,
+        },
+        {
+          file: display('utils/math.ts'),
+          line: 1,
+          name: 'sum',
+          typeOnly: false,
+          reExport: false,
+        },
+      ]);
+    });
+
+    it('should reject a missing entry file', async () => {
+      const result = await runCLI([
+        'unused-exports',
+        `${libDir}/**/*.ts`,
+        '--entry',
+        resolve(libDir, 'missing.ts'),
+      ]);
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toContain('Entry file not found');
+    });
+  });
+
+  describe('api command', () => {
+    const packageDir = resolve(testDir, 'api-package');
+    const display = (file: string): string =>
+      relative(process.cwd(), resolve(packageDir, file));
+
+    beforeEach(() => {
+      mkdirSync(resolve(packageDir, 'src/utils'), { recursive: true });
+      writeFileSync(
+        resolve(packageDir, 'package.json'),
+        JSON.stringify({
+          name: 'api-package',
+          exports: {
+            '.': { types: './dist/index.d.ts', import: './dist/index.js' },
+            './utils': './dist/utils/index.js',
+          },
+        })
+      );
+      writeFileSync(
+        resolve(packageDir, 'tsconfig.json'),
+        JSON.stringify({ compilerOptions: { outDir: 'dist', rootDir: 'src' } })
+      );
+      writeFileSync(
+        resolve(packageDir, 'src/index.ts'),
+        "export { Client as ApiClient } from './client';\nexport * from './utils';\nexport type { Options } from './client';"
+      );
+      writeFileSync(
+        resolve(packageDir, 'src/client.ts'),
+        'export interface Options { retries: number }\n\nexport class Client {\n  private secret = 1;\n  send(): void {}\n}\nexport const internal = 1;'
+      );
+      writeFileSync(
+        resolve(packageDir, 'src/utils/index.ts'),
+        'export function slugify(text: string): string {\n  return text;\n}'
+      );
+    });
+
+    it('should list public symbols at their declarations', async () => {
+      const result = await runCLI([
+        'api',
+        packageDir,
+        '--format',
+        'json',
+        '--depth',
+        '1',
+      ]);
+
+      expect(result.exitCode).toBe(0);
+      const output = JSON.parse(result.stdout);
+      expect(output.map((entry: { file: string }) => entry.file)).toEqual([
+        display('src/client.ts'),
+        display('src/utils/index.ts'),
+      ]);
+      expect(
+        output[0].outline.children.map(
+          (node: { type: string; name: string; start: { row: number } }) =>
+            `${node.type} ${node.name} ${node.start.row + 1}`
+        )
+      ).toEqual([
+        'interface_declaration Options 1',
+        'class_declaration ApiClient 3',
+      ]);
+      expect(output[0].outline.children[1].children).toBeUndefined();
+      expect(output[1].outline.children[0].name).toBe('slugify');
+    });
+
+    it('should accept an entry file and hide private members', async () => {
+      const result = await runCLI([
+        'api',
+        resolve(packageDir, 'src/index.ts'),
+        '--format',
+        'ascii',
+        '--hide-private',
+      ]);
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('ApiClient');
+      expect(result.stdout).toContain('send');
+      expect(result.stdout).not.toContain('secret');
+      expect(result.stdout).not.toContain('internal');
+    });
+  });
+
+  describe('api-diff command', () => {
+    const repoDir = resolve(testDir, 'api-diff-repo');
+    const git = (...args: string[]): string =>
+      execFileSync(
+        'git',
+        ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args],
+        { cwd: repoDir, encoding: 'utf-8' }
+      );
+    const commit = (files: Record<string, string>, message: string): void => {
+      for (const [file, content] of Object.entries(files)) {
+        writeFileSync(resolve(repoDir, file), content);
+      }
+      git('add', '-A');
+      git('commit', '-q', '-m', message);
+    };
+
+    beforeEach(() => {
+      mkdirSync(resolve(repoDir, 'src'), { recursive: true });
+      git('init', '-q');
+      commit(
+        {
+          'src/index.ts': "export { connect, close } from './client';",
+          'src/client.ts':
+            'export function connect(url: string, retries?: number): void {}\nexport function close(): void {}',
+        },
+        'base'
+      );
+      git('tag', 'v1');
+      commit(
+        {
+          'src/client.ts':
+            'export function connect(url: string, retries: number): void {}\nexport function close(): void {}\nexport function open(): void {}',
+          'src/index.ts': "export { connect, close, open } from './client';",
+        },
+        'head'
+      );
+    });
+
+    it('should report changes between revisions as JSON', async () => {
+      // Uncommitted changes are not part of HEAD
+      writeFileSync(resolve(repoDir, 'src/index.ts'), 'export {};');
+
+      const result = await runCLI(
+        ['api-diff', 'src/index.ts', '--base', 'v1', '--format', 'json'],
+        undefined,
+        repoDir
+      );
+
+      expect(result.exitCode).toBe(0);
+      const output = JSON.parse(result.stdout);
+      expect(output.bump).toBe('major');
+      expect(output.entries[0].entry).toBe('src/index.ts');
+      expect(
+        output.entries[0].changes.map(
+          (change: { change: string; name: string; file: string }) =>
+            `${change.change} ${change.name} ${change.file}`
+        )
+      ).toEqual(['changed connect src/client.ts', 'added open src/client.ts']);
+      expect(output.entries[0].changes[0].details).toEqual([
+        'parameter "retries" became required',
+      ]);
+    });
+
+    it('should render a Markdown summary', async () => {
+      const result = await runCLI(
+        ['api-diff', 'src/*.ts', '--base', 'v1', '--format', 'markdown'],
+        undefined,
+        repoDir
+      );
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('## API changes (`v1` → `HEAD`)');
+      expect(result.stdout).toContain('| Added | `open` | function |');
+      expect(result.stdout).toContain('### `src/client.ts`');
+    });
+
+    it('should reject unknown revisions', async () => {
+      const result = await runCLI(
+        ['api-diff', 'src/index.ts', '--base', 'v9'],
+        undefined,
+        repoDir
+      );
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toContain('Unknown git revision: v9');
+    });
+  });
+
+  describe('diff command', () => {
+    const diffDir = resolve(testDir, 'diff');
+    const before = [
+      'export class Cart {',
+      '  add(item: Item): void {',
+      '    this.items.push(item);',
+      '    this.total += item.price;',
+      '  }',
+      '}',
+      'export function checkout(cart: Cart): Receipt {',
+      '  const receipt = new Receipt(cart.total);',
+      '  receipt.print();',
+      '  return receipt;',
+      '}',
+    ].join('\n');
+    const after = [
+      'export class Cart {',
+      '  add(item: Item, quantity = 1): void {',
+      '    this.items.push(item);',
+      '    this.total += item.price;',
+      '  }',
+      '}',
+      'export function placeOrder(cart: Cart): Receipt {',
+      '  const receipt = new Receipt(cart.total);',
+      '  receipt.print();',
+      '  return receipt;',
+      '}',
+    ].join('\n');
+
+    beforeEach(() => {
+      mkdirSync(resolve(diffDir, 'old'), { recursive: true });
+      mkdirSync(resolve(diffDir, 'new'), { recursive: true });
+      writeFileSync(resolve(diffDir, 'old/cart.ts'), before);
+      writeFileSync(resolve(diffDir, 'new/cart.ts'), after);
+      writeFileSync(resolve(diffDir, 'new/tax.ts'), 'export const RATE = 0.2;');
+    });
+
+    it('should compare directories as JSON', async () => {
+      const result = await runCLI([
+        'diff',
+        resolve(diffDir, 'old'),
+        resolve(diffDir, 'new'),
+        '--format',
+        'json',
+      ]);
+
+      expect(result.exitCode).toBe(0);
+      const output = JSON.parse(result.stdout);
+      expect(
+        output.files.map(
+          (file: { file: string; status: string }) =>
+            `${file.status} ${file.file}`
+        )
+      ).toEqual(['modified cart.ts', 'added tax.ts']);
+      expect(
+        output.files[0].entries.map(
+          (entry: { status: string; path: string }) =>
+            `${entry.status} ${entry.path}`
+        )
+      ).toEqual(['unchanged Cart', 'renamed placeOrder']);
+      expect(output.summary).toEqual({
+        added: 1,
+        removed: 0,
+        modified: 1,
+        moved: 0,
+        renamed: 1,
+      });
+    });
+
+    it('should compare a file with its version at a git revision', async () => {
+      const repoDir = resolve(diffDir, 'repo');
+      const git = (...args: string[]): string =>
+        execFileSync(
+          'git',
+          [
+            '-c',
+            'user.name=test',
+            '-c',
+            'user.email=test@example.com',
+            ...args,
+          ],
+          { cwd: repoDir, encoding: 'utf-8' }
+        );
+      mkdirSync(repoDir, { recursive: true });
+      git('init', '-q');
+      writeFileSync(resolve(repoDir, 'cart.ts'), before);
+      git('add', '-A');
+      git('commit', '-q', '-m', 'base');
+      writeFileSync(resolve(repoDir, 'cart.ts'), after);
+
+      const result = await runCLI(
+        ['diff', 'git:HEAD:cart.ts', 'cart.ts'],
+        undefined,
+        repoDir
+      );
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('📁 cart.ts');
+      expect(result.stdout).toContain(
+        'signature changed from "(item: Item): void" to "(item: Item, quantity = 1): void"'
+      );
+      expect(result.stdout).toContain('renamed from checkout (cart.ts:7)');
+      expect(result.stdout).toContain('1 modified, 1 renamed');
+    });
+
+    it('should refuse to compare a file with a directory', async () => {
+      const result = await runCLI([
+        'diff',
+        resolve(diffDir, 'old/cart.ts'),
+        resolve(diffDir, 'new'),
+      ]);
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toContain('Cannot compare a file with a directory');
+    });
+  });
+
+  describe('changed files', () => {
+    const repoDir = resolve(testDir, 'changed-repo');
+    const git = (...args: string[]): string =>
+      execFileSync(
+        'git',
+        ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args],
+        { cwd: repoDir, encoding: 'utf-8' }
+      );
+
+    beforeEach(() => {
+      mkdirSync(resolve(repoDir, 'src'), { recursive: true });
+      git('init', '-q');
+      writeFileSync(
+        resolve(repoDir, 'src/cart.ts'),
+        [
+          'export class Cart {',
+          '  add(item: Item): void {',
+          '    this.items.push(item);',
+          '  }',
+          '',
+          '  clear(): void {',
+          '    this.items = [];',
+          '  }',
+          '}',
+        ].join('\n')
+      );
+      writeFileSync(resolve(repoDir, 'src/tax.ts'), 'export const RATE = 0.2;');
+      git('add', '-A');
+      git('commit', '-q', '-m', 'base');
+    });
+
+    it('should only outline files changed since a revision', async () => {
+      writeFileSync(
+        resolve(repoDir, 'src/cart.ts'),
+        [
+          'export class Cart {',
+          '  add(item: Item): void {',
+          '    this.items.push(item);',
+          '    this.total += item.price;',
+          '  }',
+          '',
+          '  clear(): void {',
+          '    this.items = [];',
+          '  }',
+          '',
+          '  get size(): number {',
+          '    return this.items.length;',
+          '  }',
+          '}',
+        ].join('\n')
+      );
+      writeFileSync(
+        resolve(repoDir, 'src/shipping.ts'),
+        'export function ship(): void {}'
+      );
+
+      const result = await runCLI(
+        [
+          'src/**/*.ts',
+          '--changed-since',
+          'HEAD',
+          '--changed-symbols',
+          '--format',
+          'json',
+        ],
+        undefined,
+        repoDir
+      );
+
+      expect(result.exitCode).toBe(0);
+      const output = JSON.parse(result.stdout);
+      expect(
+        output.map((file: { file: string }) => basename(file.file))
+      ).toEqual(['cart.ts', 'shipping.ts']);
+
+      // "change name" of the named nodes, depth first
+      interface OutlineNode {
+        name?: string;
+        change?: string;
+        children?: OutlineNode[];
+      }
+      const marks = (node: OutlineNode): string[] => [
+        ...(node.name ? [`${node.change} ${node.name}`] : []),
+        ...(node.children ?? []).flatMap(marks),
+      ];
+      const cart = marks(output[0].outline);
+      expect(cart).toEqual(
+        expect.arrayContaining(['modified Cart', 'modified add', 'added size'])
+      );
+      expect(cart.join()).not.toContain('clear');
+      expect(marks(output[1].outline)).toContain('added ship');
+    });
+
+    it('should only outline files with staged changes', async () => {
+      writeFileSync(
+        resolve(repoDir, 'src/tax.ts'),
+        'export const RATE = 0.25;'
+      );
+      git('add', 'src/tax.ts');
+      writeFileSync(resolve(repoDir, 'src/cart.ts'), 'export class Cart {}');
+
+      const result = await runCLI(
+        ['src/**/*.ts', '--staged', '--changed-symbols'],
+        undefined,
+        repoDir
+      );
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('tax.ts');
+      expect(result.stdout).toContain('~ export lexical_declaration');
+      expect(result.stdout).not.toContain('cart.ts');
+    });
+
+    it('should report when no matching file changed', async () => {
+      const result = await runCLI(
+        ['src/**/*.ts', '--changed-since', 'HEAD'],
+        undefined,
+        repoDir
+      );
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stderr).toContain('No changed files match src/**/*.ts');
+    });
+  });
+
+  describe('watch mode', () => {
+    it('should stream NDJSON events until interrupted', async () => {
+      const watchDir = resolve(testDir, 'watch');
+      mkdirSync(watchDir, { recursive: true });
+      writeFileSync(resolve(watchDir, 'a.ts'), 'export function a(): void {}');
+
+      const child = spawn(
+        'tsx',
+        [
+          require.resolve('./cli.ts'),
+          'watch/*.ts',
+          '--watch',
+          '--format',
+          'json',
+        ],
+        { cwd: testDir, stdio: 'pipe' }
+      );
+      const lines: string[] = [];
+      let received: (() => void) | undefined;
+      child.stdout.on('data', (data) => {
+        lines.push(...data.toString().split('\n').filter(Boolean));
+        received?.();
+      });
+      // Resolves once the given number of lines arrived
+      const waitForLines = (count: number): Promise<void> =>
+        new Promise((done) => {
+          received = (): void => {
+            if (lines.length >= count) {
+              done();
+            }
+          };
+          received();
+        });
+      const exited = new Promise<number | null>((done) =>
+        child.on('close', done)
+      );
+
+      await waitForLines(1);
+      writeFileSync(
+        resolve(watchDir, 'a.ts'),
+        'export function a(x: number): void {}'
+      );
+      await waitForLines(2);
+      child.kill('SIGINT');
+
+      expect(await exited).toBe(0);
+      const events = lines.map((line) => JSON.parse(line));
+      expect(
+        events.map(
+          (event: { event: string; file: string }) =>
+            `${event.event} ${event.file}`
+        )
+      ).toEqual(['added watch/a.ts', 'changed watch/a.ts']);
+      expect(events[1].outline.children[0].name).toBe('a');
+    });
+  });
+
+  describe('worker threads', () => {
+    it('should print the same outlines with several jobs', async () => {
+      for (const name of ['a', 'b', 'c']) {
+        writeFileSync(
+          resolve(testDir, `${name}.ts`),
+          `export class ${name.toUpperCase()} { run(): void {} }`
+        );
+      }
+
+      const single = await runCLI(
+        ['*.ts', '--format', 'json', '-j', '1'],
+        undefined,
+        testDir
+      );
+      const parallel = await runCLI(
+        ['*.ts', '--format', 'json', '--jobs', '2'],
+        undefined,
+        testDir
+      );
+
+      expect(parallel.exitCode).toBe(0);
+      expect(parallel.stdout).toBe(single.stdout);
+      expect(
+        JSON.parse(parallel.stdout).map(
+          (result: { file: string }) => result.file
+        )
+      ).toEqual(['a.ts', 'b.ts', 'c.ts']);
+    });
+  });
+
+  describe('processing limits', () => {
+    it('should skip files over --max-file-size and outline the rest', async () => {
+      writeFileSync(resolve(testDir, 'bundle.min.js'), 'var a=1;'.repeat(200));
+
+      const result = await runCLI(
+        [
+          '*.js',
+          '--format',
+          'json',
+          '--max-file-size',
+          '1kb',
+          '--concurrency',
+          '1',
+        ],
+        undefined,
+        testDir
+      );
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stderr).toContain(
+        'bundle.min.js: 1.6 KB exceeds the 1 KB limit (--max-file-size)'
+      );
+      const outlines = JSON.parse(result.stdout);
+      expect(
+        outlines.find((r: { file: string }) => r.file === 'test.js').outline
+      ).not.toBeNull();
+    });
+  });
+
+  describe('outline cache', () => {
+    it('should reuse cached outlines until a file changes', async () => {
+      const cacheDir = resolve(testDir, 'cache');
+      const args = ['test.js', '--format', 'json', '--cache-dir', cacheDir];
+
+      const first = await runCLI([...args, '--verbose'], undefined, testDir);
+      const second = await runCLI([...args, '--verbose'], undefined, testDir);
+      const uncached = await runCLI(
+        ['test.js', '--format', 'json'],
+        undefined,
+        testDir
+      );
+
+      expect(first.stderr).toContain('Cache: 0 hit(s), 1 miss(es)');
+      expect(second.stderr).toContain('Cache: 1 hit(s), 0 miss(es)');
+      expect(second.stdout).toBe(uncached.stdout);
+
+      writeFileSync(testFile, 'function renamed() {}');
+      const changed = await runCLI(args, undefined, testDir);
+      expect(JSON.parse(changed.stdout)[0].outline.children[0].name).toBe(
+        'renamed'
+      );
+    });
+
+    it('should prune the cache directory', async () => {
+      const cacheDir = resolve(testDir, 'cache');
+      await runCLI(['test.js', '--cache-dir', cacheDir], undefined, testDir);
+
+      const result = await runCLI(['cache', 'prune', '--cache-dir', cacheDir]);
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain('Removed 0 cached outline(s)');
+      expect(result.stdout).toContain('kept 1');
+    });
+
+    it('should refuse to prune a directory that is not a cache', async () => {
+      writeFileSync(resolve(testDir, 'notes.md'), 'notes');
+
+      const result = await runCLI(['cache', 'prune', '--cache-dir', testDir]);
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toContain('refusing to prune it');
+      expect(existsSync(resolve(testDir, 'notes.md'))).toBe(true);
+    });
+
+    it('should reject unknown cache actions', async () => {
+      const result = await runCLI(['cache', 'clear']);
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toContain(
+        'Unknown cache action "clear". Must be one of: prune'
+      );
+    });
+  });
+
   describe('integration with other packages', () => {
     it('should correctly integrate parser and formatter', async () => {
       const result = await runCLI([testFile, '--format', 'json']);
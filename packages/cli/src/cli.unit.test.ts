@@ -42,10 +42,16 @@ vi.mock('node:fs', () => ({
 // Mock the parser package
 vi.mock('@sammons/code-outline-parser', () => ({
   Parser: vi.fn().mockImplementation(function (this: any) {
-    this.parseFile = mockParserParseFile;
+    this.parseFileWithDiagnostics = mockParserParseFile;
   }),
   validateFormat: mockValidateFormat,
   validateDepthValue: mockValidateDepthValue,
+  isValidMatchMode: (mode: string) =>
+    ['exact', 'prefix', 'fuzzy', 'regex'].includes(mode),
+  isSymbolKind: (kind: string) => ['class', 'method'].includes(kind),
+  isSymbolType: (type: string) => type.endsWith('_declaration'),
+  MATCH_MODES: ['exact', 'prefix', 'fuzzy', 'regex'],
+  SYMBOL_KINDS: { class: [], method: [] },
 }));
 
 // Mock the formatter package
@@ -339,6 +345,769 @@ describe('CLIArgumentParser', () => {
       expect(result.options.llmtext).toBe(true);
       expect(result.options.format).toBe('llmtext'); // Should override original yaml format
     });
+    it('should handle --docs flag correctly', () => {
+      mockParseArgs.mockReturnValue({
+        values: {
+          format: 'json',
+          depth: 'Infinity',
+          'named-only': true,
+          all: false,
+          llmtext: false,
+          docs: true,
+          help: false,
+          version: false,
+        },
+        positionals: ['test.js'],
+      });
+
+      mockValidateFormat.mockReturnValue({
+        success: true,
+        value: 'json' as any,
+      });
+      mockValidateDepthValue.mockReturnValue({
+        success: true,
+        value: Infinity,
+      });
+
+      const result = parser.parse();
+
+      expect(result.options.docs).toBe(true);
+    });
+
+    it('should handle --exported-only and --hide-private flags correctly', () => {
+      mockParseArgs.mockReturnValue({
+        values: {
+          format: 'json',
+          depth: 'Infinity',
+          'named-only': true,
+          all: false,
+          llmtext: false,
+          'exported-only': true,
+          'hide-private': true,
+          help: false,
+          version: false,
+        },
+        positionals: ['test.js'],
+      });
+
+      mockValidateFormat.mockReturnValue({
+        success: true,
+        value: 'json' as any,
+      });
+      mockValidateDepthValue.mockReturnValue({
+        success: true,
+        value: Infinity,
+      });
+
+      const result = parser.parse();
+
+      expect(result.options.exportedOnly).toBe(true);
+      expect(result.options.hidePrivate).toBe(true);
+    });
+
+    it('should handle --strict and --sarif flags correctly', () => {
+      mockParseArgs.mockReturnValue({
+        values: {
+          format: 'ascii',
+          depth: 'Infinity',
+          'named-only': true,
+          all: false,
+          llmtext: false,
+          sarif: 'outline.sarif',
+          strict: true,
+          help: false,
+          version: false,
+        },
+        positionals: ['test.js'],
+      });
+
+      mockValidateFormat.mockReturnValue({
+        success: true,
+        value: 'ascii' as any,
+      });
+      mockValidateDepthValue.mockReturnValue({
+        success: true,
+        value: Infinity,
+      });
+
+      const result = parser.parse();
+
+      expect(result.options.strict).toBe(true);
+      expect(result.options.sarif).toBe('outline.sarif');
+    });
+
+    it('should parse the show command with its symbol and options', () => {
+      mockParseArgs.mockReturnValue({
+        values: {
+          format: 'json',
+          depth: 'Infinity',
+          'named-only': true,
+          all: false,
+          llmtext: false,
+          context: '3',
+          'signature-only': true,
+          help: false,
+          version: false,
+        },
+        positionals: ['show', 'src/**/*.ts', 'ApiClient.request'],
+      });
+
+      mockValidateFormat.mockReturnValue({
+        success: true,
+        value: 'json' as any,
+      });
+      mockValidateDepthValue.mockReturnValue({
+        success: true,
+        value: Infinity,
+      });
+
+      const result = parser.parse();
+
+      expect(result.command).toBe('show');
+      expect(result.pattern).toBe('src/**/*.ts');
+      expect(result.args).toEqual(['ApiClient.request']);
+      expect(result.options.context).toBe(3);
+      expect(result.options.signatureOnly).toBe(true);
+    });
+
+    it('should not set a command for plain outline invocations', () => {
+      mockParseArgs.mockReturnValue({
+        values: {
+          format: 'ascii',
+          depth: 'Infinity',
+          'named-only': true,
+          all: false,
+          llmtext: false,
+          help: false,
+          version: false,
+        },
+        positionals: ['src/**/*.ts'],
+      });
+
+      mockValidateFormat.mockReturnValue({
+        success: true,
+        value: 'ascii' as any,
+      });
+      mockValidateDepthValue.mockReturnValue({
+        success: true,
+        value: Infinity,
+      });
+
+      const result = parser.parse();
+
+      expect(result.command).toBeUndefined();
+      expect(result.args).toEqual([]);
+      expect(result.options.context).toBe(0);
+    });
+
+    it('should parse the find command with match mode and kinds', () => {
+      mockParseArgs.mockReturnValue({
+        values: {
+          format: 'ascii',
+          depth: 'Infinity',
+          'named-only': true,
+          all: false,
+          llmtext: false,
+          match: 'prefix',
+          kind: 'class, method',
+          help: false,
+          version: false,
+        },
+        positionals: ['find', 'src/**/*.ts', 'User'],
+      });
+
+      mockValidateFormat.mockReturnValue({
+        success: true,
+        value: 'ascii' as any,
+      });
+      mockValidateDepthValue.mockReturnValue({
+        success: true,
+        value: Infinity,
+      });
+
+      const result = parser.parse();
+
+      expect(result.command).toBe('find');
+      expect(result.args).toEqual(['User']);
+      expect(result.options.match).toBe('prefix');
+      expect(result.options.kinds).toEqual(['class', 'method']);
+    });
+
+    it('should reject an invalid match mode or kind', () => {
+      const values = {
+        format: 'ascii',
+        depth: 'Infinity',
+        'named-only': true,
+        all: false,
+        llmtext: false,
+        help: false,
+        version: false,
+      };
+      mockValidateFormat.mockReturnValue({
+        success: true,
+        value: 'ascii' as any,
+      });
+      mockValidateDepthValue.mockReturnValue({
+        success: true,
+        value: Infinity,
+      });
+
+      mockParseArgs.mockReturnValue({
+        values: { ...values, match: 'glob' },
+        positionals: ['find', 'src/**/*.ts', 'User'],
+      });
+      expect(() => parser.parse()).toThrow('Invalid match mode "glob"');
+
+      mockParseArgs.mockReturnValue({
+        values: { ...values, kind: 'widget' },
+        positionals: ['find', 'src/**/*.ts', 'User'],
+      });
+      expect(() => parser.parse()).toThrow('Invalid kind "widget"');
+    });
+
+    it('should parse the at command without a file pattern', () => {
+      mockParseArgs.mockReturnValue({
+        values: {
+          format: 'ascii',
+          depth: 'Infinity',
+          'named-only': true,
+          all: false,
+          llmtext: false,
+          help: false,
+          version: false,
+        },
+        positionals: ['at', 'src/server.ts:218', 'src/client.ts:3:7'],
+      });
+
+      mockValidateFormat.mockReturnValue({
+        success: true,
+        value: 'ascii' as any,
+      });
+      mockValidateDepthValue.mockReturnValue({
+        success: true,
+        value: Infinity,
+      });
+
+      const result = parser.parse();
+      expect(result.command).toBe('at');
+      expect(result.pattern).toBe('');
+      expect(result.args).toEqual(['src/server.ts:218', 'src/client.ts:3:7']);
+
+      // Locations may also come from stdin
+      mockParseArgs.mockReturnValue({
+        values: { format: 'ascii', depth: 'Infinity' },
+        positionals: ['at'],
+      });
+      expect(parser.parse().args).toEqual([]);
+    });
+
+    it('should reject an invalid --context value', () => {
+      mockParseArgs.mockReturnValue({
+        values: {
+          format: 'ascii',
+          depth: 'Infinity',
+          'named-only': true,
+          all: false,
+          llmtext: false,
+          context: '-1',
+          help: false,
+          version: false,
+        },
+        positionals: ['show', 'src/**/*.ts', 'main'],
+      });
+
+      mockValidateFormat.mockReturnValue({
+        success: true,
+        value: 'ascii' as any,
+      });
+      mockValidateDepthValue.mockReturnValue({
+        success: true,
+        value: Infinity,
+      });
+
+      expect(() => parser.parse()).toThrow(CLIArgumentError);
+      expect(() => parser.parse()).toThrow('Invalid context');
+    });
+
+    it('should parse the deps command with graph formats', () => {
+      mockParseArgs.mockReturnValue({
+        values: {
+          format: 'mermaid',
+          depth: 'Infinity',
+          'named-only': true,
+          all: false,
+          llmtext: false,
+          tsconfig: 'tsconfig.build.json',
+          external: true,
+          help: false,
+          version: false,
+        },
+        positionals: ['deps', 'src/**/*.ts'],
+      });
+
+      mockValidateDepthValue.mockReturnValue({
+        success: true,
+        value: Infinity,
+      });
+
+      const result = parser.parse();
+      expect(result.command).toBe('deps');
+      expect(result.pattern).toBe('src/**/*.ts');
+      expect(result.options.format).toBe('mermaid');
+      expect(result.options.tsconfig).toBe('tsconfig.build.json');
+      expect(result.options.external).toBe(true);
+      // Graph formats are not outline formats
+      expect(mockValidateFormat).not.toHaveBeenCalled();
+
+      mockParseArgs.mockReturnValue({
+        values: { format: 'yaml', depth: 'Infinity' },
+        positionals: ['deps', 'src/**/*.ts'],
+      });
+      expect(() => parser.parse()).toThrow(
+        'Invalid format "yaml" for deps. Must be one of: ascii, json, dot, mermaid'
+      );
+    });
+
+    it('should parse the cycles command with --ignore-type-only', () => {
+      mockParseArgs.mockReturnValue({
+        values: {
+          format: 'json',
+          depth: 'Infinity',
+          'ignore-type-only': true,
+        },
+        positionals: ['cycles', 'src/**/*.ts'],
+      });
+
+      mockValidateFormat.mockReturnValue({
+        success: true,
+        value: 'json' as any,
+      });
+      mockValidateDepthValue.mockReturnValue({
+        success: true,
+        value: Infinity,
+      });
+
+      const result = parser.parse();
+      expect(result.command).toBe('cycles');
+      expect(result.pattern).toBe('src/**/*.ts');
+      expect(result.options.format).toBe('json');
+      expect(result.options.ignoreTypeOnly).toBe(true);
+    });
+
+    it('should parse repeated --entry options for unused-exports', () => {
+      mockParseArgs.mockReturnValue({
+        values: {
+          format: 'ascii',
+          depth: 'Infinity',
+          entry: ['src/index.ts', 'src/cli.ts'],
+          allowlist: '.public-api',
+        },
+        positionals: ['unused-exports', 'src/**/*.ts'],
+      });
+
+      mockValidateFormat.mockReturnValue({
+        success: true,
+        value: 'ascii' as any,
+      });
+      mockValidateDepthValue.mockReturnValue({
+        success: true,
+        value: Infinity,
+      });
+
+      const result = parser.parse();
+      expect(result.command).toBe('unused-exports');
+      expect(result.options.entries).toEqual(['src/index.ts', 'src/cli.ts']);
+      expect(result.options.allowlist).toBe('.public-api');
+    });
+
+    it('should parse the api command with an entry path', () => {
+      mockParseArgs.mockReturnValue({
+        values: { format: 'json', depth: '1' },
+        positionals: ['api', 'packages/parser'],
+      });
+
+      mockValidateFormat.mockReturnValue({
+        success: true,
+        value: 'json' as any,
+      });
+      mockValidateDepthValue.mockReturnValue({
+        success: true,
+        value: 1,
+      });
+
+      const result = parser.parse();
+      expect(result.command).toBe('api');
+      expect(result.pattern).toBe('packages/parser');
+      expect(result.options.depth).toBe(1);
+    });
+
+    it('should parse api-diff revisions and Markdown format', () => {
+      mockParseArgs.mockReturnValue({
+        values: {
+          format: 'markdown',
+          depth: 'Infinity',
+          base: 'v1.0.0',
+          head: 'main',
+        },
+        positionals: ['api-diff', 'src/index.ts'],
+      });
+
+      mockValidateDepthValue.mockReturnValue({
+        success: true,
+        value: Infinity,
+      });
+
+      const result = parser.parse();
+      expect(result.command).toBe('api-diff');
+      expect(result.options.format).toBe('markdown');
+      expect(result.options.base).toBe('v1.0.0');
+      expect(result.options.head).toBe('main');
+    });
+
+    it('should reject outline formats for api-diff', () => {
+      mockParseArgs.mockReturnValue({
+        values: { format: 'yaml', depth: 'Infinity', head: 'HEAD' },
+        positionals: ['api-diff', 'src/index.ts'],
+      });
+
+      expect(() => parser.parse()).toThrow(
+        'Invalid format "yaml" for api-diff. Must be one of: ascii, json, markdown'
+      );
+    });
+
+    it('should parse diff versions without treating them as globs', () => {
+      mockParseArgs.mockReturnValue({
+        values: { format: 'json', depth: 'Infinity', head: 'HEAD' },
+        positionals: [
+          'diff',
+          'git:main:packages/cli/src/cli.ts',
+          'packages/cli/src/cli.ts',
+        ],
+      });
+
+      mockValidateDepthValue.mockReturnValue({
+        success: true,
+        value: Infinity,
+      });
+
+      const result = parser.parse();
+      expect(result.command).toBe('diff');
+      expect(result.pattern).toBe('git:main:packages/cli/src/cli.ts');
+      expect(result.args).toEqual(['packages/cli/src/cli.ts']);
+      expect(result.options.format).toBe('json');
+      expect(mockConsoleError).not.toHaveBeenCalled();
+    });
+
+    it('should reject outline formats for diff', () => {
+      mockParseArgs.mockReturnValue({
+        values: { format: 'yaml', depth: 'Infinity', head: 'HEAD' },
+        positionals: ['diff', 'a.ts', 'b.ts'],
+      });
+
+      expect(() => parser.parse()).toThrow(
+        'Invalid format "yaml" for diff. Must be one of: ascii, json'
+      );
+    });
+
+    it('should parse changed-file options', () => {
+      mockParseArgs.mockReturnValue({
+        values: {
+          format: 'ascii',
+          depth: 'Infinity',
+          'changed-since': 'main',
+          'changed-symbols': true,
+        },
+        positionals: ['src/**/*.ts'],
+      });
+
+      mockValidateFormat.mockReturnValue({ success: true, value: 'ascii' });
+      mockValidateDepthValue.mockReturnValue({
+        success: true,
+        value: Infinity,
+      });
+
+      const result = parser.parse();
+      expect(result.options.changedSince).toBe('main');
+      expect(result.options.staged).toBe(false);
+      expect(result.options.changedSymbols).toBe(true);
+    });
+
+    it('should reject --changed-since together with --staged', () => {
+      mockParseArgs.mockReturnValue({
+        values: {
+          format: 'ascii',
+          depth: 'Infinity',
+          'changed-since': 'main',
+          staged: true,
+        },
+        positionals: ['src/**/*.ts'],
+      });
+
+      expect(() => parser.parse()).toThrow(
+        'Use either --changed-since or --staged, not both'
+      );
+    });
+
+    it('should reject --changed-symbols without a change source', () => {
+      mockParseArgs.mockReturnValue({
+        values: {
+          format: 'ascii',
+          depth: 'Infinity',
+          'changed-symbols': true,
+        },
+        positionals: ['src/**/*.ts'],
+      });
+
+      expect(() => parser.parse()).toThrow(
+        '--changed-symbols requires --changed-since or --staged'
+      );
+    });
+
+    it('should parse --watch for outlines', () => {
+      mockParseArgs.mockReturnValue({
+        values: { format: 'json', depth: 'Infinity', watch: true },
+        positionals: ['src/**/*.ts'],
+      });
+
+      mockValidateFormat.mockReturnValue({ success: true, value: 'json' });
+      mockValidateDepthValue.mockReturnValue({
+        success: true,
+        value: Infinity,
+      });
+
+      expect(parser.parse().options.watch).toBe(true);
+    });
+
+    it('should reject --watch for commands', () => {
+      mockParseArgs.mockReturnValue({
+        values: { format: 'ascii', depth: 'Infinity', watch: true },
+        positionals: ['cycles', 'src/**/*.ts'],
+      });
+
+      expect(() => parser.parse()).toThrow(
+        '--watch is not supported by cycles'
+      );
+    });
+
+    it('should reject --watch together with --staged', () => {
+      mockParseArgs.mockReturnValue({
+        values: {
+          format: 'ascii',
+          depth: 'Infinity',
+          watch: true,
+          staged: true,
+        },
+        positionals: ['src/**/*.ts'],
+      });
+
+      expect(() => parser.parse()).toThrow(
+        '--watch cannot be combined with --changed-since or --staged'
+      );
+    });
+
+    it('should enable the cache with --cache-dir', () => {
+      mockParseArgs.mockReturnValue({
+        values: { format: 'ascii', depth: 'Infinity', 'cache-dir': '/tmp/c' },
+        positionals: ['src/**/*.ts'],
+      });
+
+      mockValidateFormat.mockReturnValue({ success: true, value: 'ascii' });
+      mockValidateDepthValue.mockReturnValue({
+        success: true,
+        value: Infinity,
+      });
+
+      expect(parser.parse().options).toMatchObject({
+        cache: true,
+        cacheDir: '/tmp/c',
+      });
+    });
+
+    it('should let --no-cache override --cache', () => {
+      mockParseArgs.mockReturnValue({
+        values: {
+          format: 'ascii',
+          depth: 'Infinity',
+          cache: true,
+          'no-cache': true,
+        },
+        positionals: ['src/**/*.ts'],
+      });
+
+      mockValidateFormat.mockReturnValue({ success: true, value: 'ascii' });
+      mockValidateDepthValue.mockReturnValue({
+        success: true,
+        value: Infinity,
+      });
+
+      expect(parser.parse().options).toMatchObject({
+        cache: false,
+        cacheDir: '.code-outline-cache',
+      });
+    });
+
+    it('should parse --jobs', () => {
+      mockParseArgs.mockReturnValue({
+        values: { format: 'ascii', depth: 'Infinity', jobs: '4' },
+        positionals: ['src/**/*.ts'],
+      });
+
+      mockValidateFormat.mockReturnValue({ success: true, value: 'ascii' });
+      mockValidateDepthValue.mockReturnValue({
+        success: true,
+        value: Infinity,
+      });
+
+      expect(parser.parse().options.jobs).toBe(4);
+    });
+
+    it('should reject non-positive --jobs', () => {
+      mockParseArgs.mockReturnValue({
+        values: { format: 'ascii', depth: 'Infinity', jobs: '0' },
+        positionals: ['src/**/*.ts'],
+      });
+
+      mockValidateFormat.mockReturnValue({ success: true, value: 'ascii' });
+      mockValidateDepthValue.mockReturnValue({
+        success: true,
+        value: Infinity,
+      });
+
+      expect(() => parser.parse()).toThrow(
+        'Invalid jobs: 0 (must be a positive integer)'
+      );
+    });
+
+    it('should parse --max-file-size with a unit', () => {
+      mockParseArgs.mockReturnValue({
+        values: {
+          format: 'ascii',
+          depth: 'Infinity',
+          'max-file-size': '512kb',
+          concurrency: '8',
+        },
+        positionals: ['src/**/*.ts'],
+      });
+
+      mockValidateFormat.mockReturnValue({ success: true, value: 'ascii' });
+      mockValidateDepthValue.mockReturnValue({
+        success: true,
+        value: Infinity,
+      });
+
+      expect(parser.parse().options).toMatchObject({
+        maxFileSize: 512 * 1024,
+        concurrency: 8,
+      });
+    });
+
+    it('should reject invalid --max-file-size and --concurrency', () => {
+      mockValidateFormat.mockReturnValue({ success: true, value: 'ascii' });
+      mockValidateDepthValue.mockReturnValue({
+        success: true,
+        value: Infinity,
+      });
+
+      mockParseArgs.mockReturnValue({
+        values: { format: 'ascii', depth: 'Infinity', 'max-file-size': '1gb' },
+        positionals: ['src/**/*.ts'],
+      });
+      expect(() => parser.parse()).toThrow('Invalid max file size: 1gb');
+
+      mockParseArgs.mockReturnValue({
+        values: { format: 'ascii', depth: 'Infinity', concurrency: '-1' },
+        positionals: ['src/**/*.ts'],
+      });
+      expect(() => parser.parse()).toThrow(
+        'Invalid concurrency: -1 (must be a positive integer)'
+      );
+    });
+
+    it('should reject ndjson output for commands', () => {
+      mockParseArgs.mockReturnValue({
+        values: { format: 'ndjson', depth: 'Infinity' },
+        positionals: ['find', 'src/**/*.ts', 'User'],
+      });
+
+      mockValidateFormat.mockReturnValue({ success: true, value: 'ndjson' });
+
+      expect(() => parser.parse()).toThrow(
+        '--format ndjson is not supported by find'
+      );
+    });
+
+    it('should parse markdown link, collapse and toc options', () => {
+      mockParseArgs.mockReturnValue({
+        values: {
+          format: 'markdown',
+          depth: 'Infinity',
+          'link-template': 'https://example.com/{file}#L{line}',
+          collapse: true,
+          toc: true,
+        },
+        positionals: ['src/**/*.ts'],
+      });
+
+      mockValidateFormat.mockReturnValue({ success: true, value: 'markdown' });
+      mockValidateDepthValue.mockReturnValue({
+        success: true,
+        value: Infinity,
+      });
+
+      expect(parser.parse().options).toMatchObject({
+        format: 'markdown',
+        linkTemplate: 'https://example.com/{file}#L{line}',
+        collapse: true,
+        toc: true,
+      });
+    });
+
+    it('should reject markdown options without markdown output', () => {
+      mockParseArgs.mockReturnValue({
+        values: { format: 'json', depth: 'Infinity', toc: true },
+        positionals: ['src/**/*.ts'],
+      });
+
+      mockValidateFormat.mockReturnValue({ success: true, value: 'json' });
+      mockValidateDepthValue.mockReturnValue({
+        success: true,
+        value: Infinity,
+      });
+
+      expect(() => parser.parse()).toThrow('--toc requires --format markdown');
+    });
+
+    it('should reject markdown output for commands', () => {
+      mockParseArgs.mockReturnValue({
+        values: { format: 'markdown', depth: 'Infinity' },
+        positionals: ['show', 'src/**/*.ts', 'User'],
+      });
+
+      mockValidateFormat.mockReturnValue({ success: true, value: 'markdown' });
+
+      expect(() => parser.parse()).toThrow(
+        '--format markdown is not supported by show'
+      );
+    });
+
+    it('should parse the cache command without a pattern', () => {
+      mockParseArgs.mockReturnValue({
+        values: { format: 'ascii', depth: 'Infinity' },
+        positionals: ['cache', 'prune'],
+      });
+
+      mockValidateFormat.mockReturnValue({ success: true, value: 'ascii' });
+      mockValidateDepthValue.mockReturnValue({
+        success: true,
+        value: Infinity,
+      });
+
+      expect(parser.parse()).toMatchObject({
+        command: 'cache',
+        pattern: '',
+        args: ['prune'],
+      });
+    });
   });
 
   describe('printHelp', () => {
@@ -407,7 +1176,10 @@ describe('FileProcessor', () => {
       const files = ['/path/file1.js', '/path/file2.js'];
       const mockOutline = { type: 'program', children: [] };
 
-      mockParserParseFile.mockResolvedValue(mockOutline);
+      mockParserParseFile.mockResolvedValue({
+        outline: mockOutline,
+        diagnostics: [],
+      });
       mockResolve.mockImplementation((path) => `/resolved${path}`);
 
       const result = await processor.processFiles(files, 5, true);
@@ -416,10 +1188,12 @@ describe('FileProcessor', () => {
       expect(result[0]).toEqual({
         file: '/resolved/path/file1.js',
         outline: mockOutline,
+        diagnostics: [],
       });
       expect(result[1]).toEqual({
         file: '/resolved/path/file2.js',
         outline: mockOutline,
+        diagnostics: [],
       });
       expect(mockParserParseFile).toHaveBeenCalledTimes(2);
     });
@@ -428,7 +1202,10 @@ describe('FileProcessor', () => {
       const files = ['/path/file1.js', '/path/file2.js'];
 
       mockParserParseFile
-        .mockResolvedValueOnce({ type: 'program', children: [] })
+        .mockResolvedValueOnce({
+          outline: { type: 'program', children: [] },
+          diagnostics: [],
+        })
         .mockRejectedValueOnce(new Error('Parse error'));
 
       mockResolve.mockImplementation((path) => `/resolved${path}`);
@@ -449,7 +1226,10 @@ describe('FileProcessor', () => {
       const depth = 3;
       const namedOnly = false;
 
-      mockParserParseFile.mockResolvedValue({ type: 'program' });
+      mockParserParseFile.mockResolvedValue({
+        outline: { type: 'program' },
+        diagnostics: [],
+      });
       mockResolve.mockReturnValue('/resolved/path/file1.js');
 
       await processor.processFiles(files, depth, namedOnly);
@@ -0,0 +1,140 @@
+import { existsSync, statSync } from 'node:fs';
+import { basename, dirname, join, resolve } from 'node:path';
+import type { NodeInfo } from '@sammons/code-outline-parser';
+import { TreeUtils, isValidOutputFormat } from '@sammons/code-outline-parser';
+import { CLIArgumentError } from '../cli-argument-parser.js';
+import type { ParsedArgs } from '../cli-argument-parser.js';
+import { CLIOutputHandler } from '../cli-output-handler.js';
+import type { FileProcessor, ProcessedFile } from '../file-processor.js';
+import type {
+  ApiSymbol,
+  ModuleResolver,
+  PackageEntry,
+} from '../graph/index.js';
+import { OutlineFilter } from '../outline-filter.js';
+import type { Command } from './command.js';
+import { toDisplayPath } from './command.js';
+import { ApiSurfaceLoader } from './api-surface-loader.js';
+import { ImportGraphLoader } from './import-graph-loader.js';
+
+/**
+ * Prints the symbols a package entry point makes public, grouped by the
+ * file that declares them
+ */
+export class ApiCommand implements Command {
+  private loader: ImportGraphLoader;
+  private surfaceLoader: ApiSurfaceLoader;
+
+  constructor(fileProcessor: FileProcessor) {
+    this.loader = new ImportGraphLoader(fileProcessor);
+    this.surfaceLoader = new ApiSurfaceLoader((files) =>
+      fileProcessor.processFiles(files, Infinity, true)
+    );
+  }
+
+  public async run({ options, pattern }: ParsedArgs): Promise<number> {
+    if (!isValidOutputFormat(options.format)) {
+      throw new CLIArgumentError(`Invalid format "${options.format}"`);
+    }
+    if (!existsSync(pattern)) {
+      throw new CLIArgumentError(`Entry not found: ${pattern}`);
+    }
+
+    // A package directory or package.json exposes its "exports" entries
+    const packageDir = statSync(pattern).isDirectory()
+      ? resolve(pattern)
+      : basename(pattern) === 'package.json'
+        ? dirname(resolve(pattern))
+        : undefined;
+    const resolver = this.loader.createResolver(
+      options.tsconfig,
+      packageDir ? join(packageDir, 'tsconfig.json') : undefined
+    );
+    const entries = packageDir
+      ? this.resolvePackageEntries(resolver, packageDir)
+      : [{ subpath: '.', path: resolve(pattern) }];
+
+    const entryFiles = entries.flatMap(({ subpath, path }) => {
+      if (!path) {
+        console.error(`Cannot resolve entry "${subpath}" of ${packageDir}`);
+      }
+      return path ? [path] : [];
+    });
+    if (entryFiles.length === 0) {
+      throw new CLIArgumentError(`No entry files found for ${pattern}`);
+    }
+
+    const builder = await this.surfaceLoader.load(entryFiles, resolver);
+    const symbols: ApiSymbol[] = [];
+    for (const entry of entryFiles) {
+      const surface = builder.build(entry);
+      symbols.push(...surface.symbols);
+      for (const { file, line, source } of surface.unfollowed) {
+        console.error(
+          `Cannot follow "export * from '${source}'" at ${toDisplayPath(file)}:${line}`
+        );
+      }
+    }
+
+    const results = new OutlineFilter({
+      hidePrivate: options.hidePrivate,
+    }).apply(this.groupByFile(symbols, options.depth));
+    new CLIOutputHandler(options.format, options.llmtext, {
+      showDocs: options.docs,
+      linkTemplate: options.linkTemplate,
+      collapsible: options.collapse,
+      tableOfContents: options.toc,
+    }).formatAndOutput(results);
+
+    return 0;
+  }
+
+  private resolvePackageEntries(
+    resolver: ModuleResolver,
+    packageDir: string
+  ): PackageEntry[] {
+    try {
+      return resolver.resolvePackageEntries(packageDir);
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new CLIArgumentError(errorMessage);
+    }
+  }
+
+  /**
+   * One outline per declaring file, listing its public symbols by line
+   * @private
+   */
+  private groupByFile(symbols: ApiSymbol[], depth: number): ProcessedFile[] {
+    const byFile = new Map<string, Map<string, NodeInfo>>();
+    for (const { name, file, line, node } of symbols) {
+      const nodes = byFile.get(file) ?? new Map<string, NodeInfo>();
+      // The same declaration can be public through several entry points
+      nodes.set(`${line}#${name}`, { ...node, name, exported: true });
+      byFile.set(file, nodes);
+    }
+
+    return [...byFile.keys()].sort().map((file) => {
+      const children = [...byFile.get(file)!.values()].sort(
+        (a, b) =>
+          a.start.row - b.start.row ||
+          (a.name ?? '').localeCompare(b.name ?? '')
+      );
+      const program: NodeInfo = {
+        type: 'program',
+        start: { row: 0, column: 0 },
+        end: children.at(-1)?.end ?? { row: 0, column: 0 },
+        children,
+      };
+      return {
+        file,
+        // --depth limits how far each symbol is expanded
+        outline: TreeUtils.pruneTree(
+          program,
+          (_node, nodeDepth) => nodeDepth <= depth
+        ),
+      };
+    });
+  }
+}
@@ -0,0 +1,135 @@
+import { resolve } from 'node:path';
+import { CLIArgumentError } from '../cli-argument-parser.js';
+import type { ParsedArgs } from '../cli-argument-parser.js';
+import type { FileProcessor } from '../file-processor.js';
+import { GitRepository } from '../git/index.js';
+import {
+  ApiDiffRenderer,
+  ApiDiffer,
+  ModuleResolver,
+  TsconfigReader,
+  isApiDiffFormat,
+} from '../graph/index.js';
+import type { ApiChange, ApiDiffReport, ApiSnapshot } from '../graph/index.js';
+import type { Command } from './command.js';
+import { toDisplayPath } from './command.js';
+import { ApiSurfaceLoader } from './api-surface-loader.js';
+
+const EMPTY_SNAPSHOT: ApiSnapshot = {
+  symbols: [],
+  readFile: () => undefined,
+};
+
+/**
+ * Compares the public API of entry files between two git revisions and
+ * suggests a semver bump
+ */
+export class ApiDiffCommand implements Command {
+  constructor(private fileProcessor: FileProcessor) {}
+
+  public async run({ options, pattern }: ParsedArgs): Promise<number> {
+    if (!options.base) {
+      throw new CLIArgumentError('api-diff requires --base <revision>');
+    }
+    if (!isApiDiffFormat(options.format)) {
+      throw new CLIArgumentError(`Invalid format "${options.format}"`);
+    }
+
+    const repository = GitRepository.open();
+    const repoPattern = repository.toRepoPath(resolve(pattern));
+    if (repoPattern === undefined) {
+      throw new CLIArgumentError(
+        `Pattern is outside the repository: ${pattern}`
+      );
+    }
+
+    const base = await this.loadSnapshots(
+      repository,
+      repository.resolveRevision(options.base),
+      repoPattern,
+      options.tsconfig
+    );
+    const head = await this.loadSnapshots(
+      repository,
+      repository.resolveRevision(options.head),
+      repoPattern,
+      options.tsconfig
+    );
+    const entryFiles = [...new Set([...base.keys(), ...head.keys()])].sort();
+    if (entryFiles.length === 0) {
+      throw new CLIArgumentError(
+        `No files matching ${pattern} at ${options.base} or ${options.head}`
+      );
+    }
+
+    const differ = new ApiDiffer();
+    const entries = entryFiles.map((entry) => ({
+      entry,
+      changes: differ.diff(
+        base.get(entry) ?? EMPTY_SNAPSHOT,
+        head.get(entry) ?? EMPTY_SNAPSHOT
+      ),
+    }));
+    const report: ApiDiffReport = {
+      base: options.base,
+      head: options.head,
+      bump: ApiDiffer.getBump(
+        entries.flatMap(({ changes }): ApiChange[] => changes)
+      ),
+      entries,
+    };
+
+    console.log(
+      new ApiDiffRenderer({ label: toDisplayPath }).render(
+        report,
+        options.format
+      )
+    );
+    return 0;
+  }
+
+  /**
+   * Build the public API of every entry file at a revision, reading the
+   * files from git objects
+   * @private
+   */
+  private async loadSnapshots(
+    repository: GitRepository,
+    revision: string,
+    repoPattern: string,
+    tsconfig: string | undefined
+  ): Promise<Map<string, ApiSnapshot>> {
+    const host = repository.createHost(revision);
+    const entryFiles = repository.listFiles(revision, repoPattern);
+
+    let resolver: ModuleResolver;
+    try {
+      resolver = new ModuleResolver({
+        ...new TsconfigReader(host).read(resolve(tsconfig ?? 'tsconfig.json')),
+        host,
+      });
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new CLIArgumentError(errorMessage);
+    }
+
+    const builder = await new ApiSurfaceLoader(async (files) =>
+      files.map((file) => {
+        const content = repository.readFile(revision, file);
+        return content === undefined
+          ? { file, outline: null }
+          : this.fileProcessor.processSource(file, content, Infinity, true);
+      })
+    ).load(entryFiles, resolver);
+
+    const readFile = (file: string): string | undefined =>
+      repository.readFile(revision, file);
+    return new Map(
+      entryFiles.map((entry) => [
+        entry,
+        { symbols: builder.build(entry).symbols, readFile },
+      ])
+    );
+  }
+}
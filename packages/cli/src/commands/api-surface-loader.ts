@@ -0,0 +1,47 @@
+import type { NodeInfo } from '@sammons/code-outline-parser';
+import type { ProcessedFile } from '../file-processor.js';
+import { ApiSurfaceBuilder, ModuleIndex } from '../graph/index.js';
+import type { ModuleResolver } from '../graph/index.js';
+
+/**
+ * Parses entry files and every module they re-export from, for the
+ * commands that work on public API surfaces
+ */
+export class ApiSurfaceLoader {
+  /**
+   * @param parseFiles - Parses files at full depth, from disk or elsewhere
+   */
+  constructor(
+    private parseFiles: (files: string[]) => Promise<ProcessedFile[]>
+  ) {}
+
+  /**
+   * Parse the entry files and, level by level, the modules they re-export
+   * from
+   * @returns A builder for the public API of each entry file
+   */
+  public async load(
+    entryFiles: string[],
+    resolver: ModuleResolver
+  ): Promise<ApiSurfaceBuilder> {
+    const index = new ModuleIndex(resolver);
+    const outlines = new Map<string, NodeInfo | null>();
+
+    let pending = [...new Set(entryFiles)];
+    while (pending.length > 0) {
+      const results = await this.parseFiles(pending);
+      const next = new Set<string>();
+      for (const { file, outline } of results) {
+        outlines.set(file, outline);
+        for (const { from } of index.add(file, outline).exports) {
+          if (from && !outlines.has(from)) {
+            next.add(from);
+          }
+        }
+      }
+      pending = [...next].filter((file) => !outlines.has(file));
+    }
+
+    return new ApiSurfaceBuilder(index, outlines);
+  }
+}
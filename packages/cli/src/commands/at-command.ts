@@ -0,0 +1,250 @@
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { createInterface } from 'node:readline';
+import type { NodeInfo } from '@sammons/code-outline-parser';
+import {
+  TreeUtils,
+  getSymbolKind,
+  isSymbolType,
+} from '@sammons/code-outline-parser';
+import { CLIArgumentError } from '../cli-argument-parser.js';
+import type { ParsedArgs } from '../cli-argument-parser.js';
+import type { FileProcessor } from '../file-processor.js';
+import type { Command } from './command.js';
+import { toDisplayPath } from './command.js';
+
+// file:line[:col] anywhere in a line, e.g. grep hits or stack frames
+const LOCATION_PATTERN = /([^\s():'"]+\.(?:jsx?|tsx?)):(\d+)(?::(\d+))?/;
+
+interface SourceLocation {
+  input: string;
+  file: string;
+  /** 1-based line */
+  line: number;
+  /** 1-based column */
+  column?: number;
+}
+
+interface EnclosingSymbol {
+  kind: string;
+  type: string;
+  name: string;
+  qualifiedName?: string;
+  id?: string;
+  start: NodeInfo['start'];
+  end: NodeInfo['end'];
+}
+
+interface ParsedFile {
+  outline: NodeInfo | null;
+  /** Lines of the source, or null when it could not be read */
+  lines: string[] | null;
+}
+
+interface LocationResult {
+  input: string;
+  /** Missing when the input holds no location */
+  file?: string;
+  line?: number;
+  column?: number;
+  symbols: EnclosingSymbol[];
+  error?: string;
+}
+
+/**
+ * Prints the chain of named symbols enclosing file positions
+ */
+export class AtCommand implements Command {
+  constructor(private fileProcessor: FileProcessor) {}
+
+  public async run({ options, args }: ParsedArgs): Promise<number> {
+    const inputs = args.length > 0 ? args : await this.readStdinLines();
+    if (inputs.length === 0) {
+      throw new CLIArgumentError('No location provided (file:line[:col])');
+    }
+
+    const parsed = inputs.map((input) => ({
+      input,
+      location: this.parseLocation(input),
+    }));
+    const invalid = parsed.find(({ location }) => !location);
+    if (invalid && args.length > 0) {
+      throw new CLIArgumentError(
+        `Invalid location "${invalid.input}" (expected file:line[:col])`
+      );
+    }
+
+    const locations = parsed.flatMap(({ location }) =>
+      location ? [location] : []
+    );
+    const files = await this.parseFiles(locations);
+    // Stdin lines without a location are reported as errors in place
+    const results = parsed.map(({ input, location }) =>
+      location
+        ? this.resolveLocation(location, files.get(location.file))
+        : {
+            input: input.trim(),
+            symbols: [],
+            error: 'No file:line[:col] location found',
+          }
+    );
+
+    if (options.format === 'json') {
+      console.log(JSON.stringify(results, null, 2));
+    } else {
+      for (const result of results) {
+        console.log(this.formatResult(result));
+      }
+    }
+
+    return results.some((result) => result.error) ? 1 : 0;
+  }
+
+  private parseLocation(input: string): SourceLocation | null {
+    const match = LOCATION_PATTERN.exec(input);
+    if (!match) {
+      return null;
+    }
+
+    const [, file, line, column] = match;
+    return {
+      input: input.trim(),
+      file: resolve(file),
+      line: Number(line),
+      ...(column ? { column: Number(column) } : {}),
+    };
+  }
+
+  private async parseFiles(
+    locations: SourceLocation[]
+  ): Promise<Map<string, ParsedFile>> {
+    // Each file is parsed once, however many positions point into it
+    const files = [...new Set(locations.map((location) => location.file))];
+    const results = await this.fileProcessor.processFiles(
+      files,
+      Infinity,
+      true
+    );
+    return new Map(
+      await Promise.all(
+        results.map(
+          async ({ file, outline }): Promise<[string, ParsedFile]> => [
+            file,
+            { outline, lines: await this.readLines(file) },
+          ]
+        )
+      )
+    );
+  }
+
+  private resolveLocation(
+    location: SourceLocation,
+    parsedFile: ParsedFile | undefined
+  ): LocationResult {
+    const result: LocationResult = {
+      input: location.input,
+      file: toDisplayPath(location.file),
+      line: location.line,
+      ...(location.column ? { column: location.column } : {}),
+      symbols: [],
+    };
+
+    const { outline, lines } = parsedFile ?? { outline: null, lines: null };
+    if (!outline || !lines) {
+      return { ...result, error: 'File could not be parsed' };
+    }
+    const rangeError = this.checkRange(location, lines);
+    if (rangeError) {
+      return { ...result, error: rangeError };
+    }
+
+    // Positions are 1-based for humans, 0-based in NodeInfo
+    const path = TreeUtils.getPathAtPosition(
+      outline,
+      location.line - 1,
+      location.column === undefined ? undefined : location.column - 1
+    );
+
+    result.symbols = path
+      .filter((node) => node.name && isSymbolType(node.type))
+      .map((node) => ({
+        kind: getSymbolKind(node.type),
+        type: node.type,
+        name: node.name!,
+        ...(node.qualifiedName ? { qualifiedName: node.qualifiedName } : {}),
+        ...(node.id ? { id: node.id } : {}),
+        start: node.start,
+        end: node.end,
+      }));
+    return result;
+  }
+
+  /**
+   * Error for a line or column outside the file, so positions past its end
+   * are not mistaken for top level hits
+   */
+  private checkRange(
+    { line, column }: SourceLocation,
+    lines: string[]
+  ): string | undefined {
+    if (line < 1 || line > lines.length) {
+      return `Line ${line} is out of range (the file has ${lines.length} line(s))`;
+    }
+    // One past the last character is where tools point at line ends
+    const length = lines[line - 1].length;
+    if (column !== undefined && (column < 1 || column > length + 1)) {
+      return `Column ${column} is out of range (line ${line} has ${length} character(s))`;
+    }
+    return undefined;
+  }
+
+  private formatResult(result: LocationResult): string {
+    if (result.file === undefined) {
+      return `${result.input} (${result.error})`;
+    }
+    const position = result.column
+      ? `${result.file}:${result.line}:${result.column}`
+      : `${result.file}:${result.line}`;
+
+    if (result.error) {
+      return `${position} (${result.error})`;
+    }
+    if (result.symbols.length === 0) {
+      return `${position} (top level)`;
+    }
+
+    const chain = result.symbols
+      .map((symbol) => `${symbol.kind} ${symbol.name}`)
+      .join(' > ');
+    return `${position} ${chain}`;
+  }
+
+  /**
+   * Lines of a file, without the empty line after a final line break
+   */
+  private async readLines(file: string): Promise<string[] | null> {
+    try {
+      const lines = (await readFile(file, 'utf-8')).split(/\r?\n/);
+      if (lines.length > 1 && lines[lines.length - 1] === '') {
+        lines.pop();
+      }
+      return lines;
+    } catch {
+      return null;
+    }
+  }
+
+  private async readStdinLines(): Promise<string[]> {
+    if (process.stdin.isTTY) {
+      return [];
+    }
+
+    const lines: string[] = [];
+    for await (const line of createInterface({ input: process.stdin })) {
+      if (line.trim() !== '') {
+        lines.push(line);
+      }
+    }
+    return lines;
+  }
+}
@@ -0,0 +1,28 @@
+import { CLIArgumentError } from '../cli-argument-parser.js';
+import type { ParsedArgs } from '../cli-argument-parser.js';
+import { OutlineCache } from '../outline-cache.js';
+import type { Command } from './command.js';
+import { toDisplayPath } from './command.js';
+
+const CACHE_ACTIONS = ['prune'];
+
+/**
+ * Maintains the on-disk outline cache (`cache prune`)
+ */
+export class CacheCommand implements Command {
+  public async run({ options, args }: ParsedArgs): Promise<number> {
+    const [action] = args;
+    if (!action || !CACHE_ACTIONS.includes(action)) {
+      throw new CLIArgumentError(
+        `${action ? `Unknown cache action "${action}"` : 'No cache action provided'}. Must be one of: ${CACHE_ACTIONS.join(', ')}`
+      );
+    }
+
+    const cache = new OutlineCache(options.cacheDir);
+    const { removed, kept } = await cache.prune();
+    console.log(
+      `Removed ${removed} cached outline(s) from ${toDisplayPath(cache.directory)}, kept ${kept}`
+    );
+    return 0;
+  }
+}
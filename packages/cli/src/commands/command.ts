@@ -0,0 +1,27 @@
+import { relative } from 'node:path';
+import type { ParsedArgs } from '../cli-argument-parser.js';
+
+/**
+ * A CLI subcommand such as `show`
+ */
+export interface Command {
+  /** Run the command and resolve to the process exit code */
+  run(parsedArgs: ParsedArgs): Promise<number>;
+}
+
+/**
+ * Path shown to the user: relative to the working directory when the file
+ * is inside it, absolute otherwise
+ */
+export function toDisplayPath(filePath: string): string {
+  const relativePath = relative(process.cwd(), filePath);
+  return relativePath.startsWith('..') ? filePath : relativePath;
+}
+
+/**
+ * Symbol path of a qualified name, without its file prefix
+ * ("src/a.ts#A.b" -> "A.b")
+ */
+export function toSymbolPath(qualifiedName: string): string {
+  return qualifiedName.substring(qualifiedName.indexOf('#') + 1);
+}
@@ -0,0 +1,74 @@
+import type { ParsedArgs } from '../cli-argument-parser.js';
+import type { FileProcessor } from '../file-processor.js';
+import { CycleDetector } from '../graph/index.js';
+import type { ImportCycle } from '../graph/index.js';
+import type { Command } from './command.js';
+import { toDisplayPath } from './command.js';
+import { ImportGraphLoader } from './import-graph-loader.js';
+
+/**
+ * Reports import cycles among the matched files and fails when any exist
+ */
+export class CyclesCommand implements Command {
+  private loader: ImportGraphLoader;
+
+  constructor(fileProcessor: FileProcessor) {
+    this.loader = new ImportGraphLoader(fileProcessor);
+  }
+
+  public async run({ options, pattern }: ParsedArgs): Promise<number> {
+    const { graph } = await this.loader.load(pattern, options.tsconfig);
+    const cycles = new CycleDetector({
+      ignoreTypeOnly: options.ignoreTypeOnly,
+    }).findCycles(graph);
+
+    if (options.format === 'json') {
+      console.log(
+        JSON.stringify(
+          cycles.map((cycle) => this.toJson(cycle)),
+          null,
+          2
+        )
+      );
+    } else if (cycles.length === 0) {
+      console.log('No import cycles found');
+    } else {
+      this.printCycles(cycles);
+    }
+
+    return cycles.length > 0 ? 1 : 0;
+  }
+
+  private printCycles(cycles: ImportCycle[]): void {
+    cycles.forEach((cycle, i) => {
+      const kind = cycle.typeOnly ? 'type-only' : 'value imports';
+      console.log(
+        `${cycle.typeOnly ? '⚠' : '✖'} Cycle ${i + 1} (${kind}, ${cycle.files.length} files)`
+      );
+      for (const step of cycle.steps) {
+        console.log(
+          `  ${toDisplayPath(step.from)}:${step.line} → ${toDisplayPath(step.to)}${step.typeOnly ? ' (type-only)' : ''}`
+        );
+      }
+    });
+
+    const typeOnlyCount = cycles.filter((cycle) => cycle.typeOnly).length;
+    console.error(
+      `Found ${cycles.length} import cycle(s)${typeOnlyCount > 0 ? `, ${typeOnlyCount} type-only` : ''}`
+    );
+  }
+
+  private toJson(cycle: ImportCycle): object {
+    return {
+      typeOnly: cycle.typeOnly,
+      files: cycle.files.map(toDisplayPath),
+      chain: cycle.steps.map((step) => ({
+        file: toDisplayPath(step.from),
+        line: step.line,
+        specifier: step.specifier,
+        imports: toDisplayPath(step.to),
+        typeOnly: step.typeOnly,
+      })),
+    };
+  }
+}
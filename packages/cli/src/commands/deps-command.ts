@@ -0,0 +1,36 @@
+import { CLIArgumentError } from '../cli-argument-parser.js';
+import type { ParsedArgs } from '../cli-argument-parser.js';
+import type { FileProcessor } from '../file-processor.js';
+import { GRAPH_FORMATS, GraphRenderer, isGraphFormat } from '../graph/index.js';
+import type { Command } from './command.js';
+import { toDisplayPath } from './command.js';
+import { ImportGraphLoader } from './import-graph-loader.js';
+
+/**
+ * Prints the file-level import graph of the matched files
+ */
+export class DepsCommand implements Command {
+  private loader: ImportGraphLoader;
+
+  constructor(fileProcessor: FileProcessor) {
+    this.loader = new ImportGraphLoader(fileProcessor);
+  }
+
+  public async run({ options, pattern }: ParsedArgs): Promise<number> {
+    const { format } = options;
+    if (!isGraphFormat(format)) {
+      throw new CLIArgumentError(
+        `Invalid format "${format}" for deps. Must be one of: ${GRAPH_FORMATS.join(', ')}`
+      );
+    }
+
+    const { graph } = await this.loader.load(pattern, options.tsconfig);
+
+    const renderer = new GraphRenderer({
+      includeExternal: options.external,
+      label: toDisplayPath,
+    });
+    console.log(renderer.render(graph, format));
+    return 0;
+  }
+}
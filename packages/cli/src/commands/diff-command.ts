@@ -0,0 +1,170 @@
+import { existsSync, readFileSync, statSync } from 'node:fs';
+import { join, relative, resolve, sep } from 'node:path';
+import { CLIArgumentError } from '../cli-argument-parser.js';
+import type { ParsedArgs } from '../cli-argument-parser.js';
+import type { FileProcessor } from '../file-processor.js';
+import { GitRepository } from '../git/index.js';
+import {
+  OutlineDiffRenderer,
+  OutlineDiffer,
+  isOutlineDiffFormat,
+} from '../diff/index.js';
+import type { DiffFile } from '../diff/index.js';
+import type { Command } from './command.js';
+import { toDisplayPath } from './command.js';
+
+// git:<revision>:<path>, e.g. git:main:src or git:HEAD~2:src/app.ts
+const GIT_SPEC_PATTERN = /^git:([^:]+):(.*)$/;
+
+interface DiffSource {
+  /** Whether the spec names a single file rather than a directory */
+  single: boolean;
+  files: DiffFile[];
+}
+
+/**
+ * Compares the outlines of two versions of a file or directory, from disk
+ * or from git revisions
+ */
+export class DiffCommand implements Command {
+  private repository?: GitRepository;
+
+  constructor(private fileProcessor: FileProcessor) {}
+
+  public async run({ options, pattern, args }: ParsedArgs): Promise<number> {
+    const [newSpec] = args;
+    if (!pattern || !newSpec) {
+      throw new CLIArgumentError('diff requires two versions: <old> <new>');
+    }
+    if (!isOutlineDiffFormat(options.format)) {
+      throw new CLIArgumentError(`Invalid format "${options.format}"`);
+    }
+
+    const oldSource = await this.load(pattern);
+    const newSource = await this.load(newSpec);
+    if (oldSource.single !== newSource.single) {
+      throw new CLIArgumentError('Cannot compare a file with a directory');
+    }
+    if (oldSource.single) {
+      // Two versions of one file pair up whatever their names
+      const [oldFile] = oldSource.files;
+      const [newFile] = newSource.files;
+      const path =
+        oldFile.path === newFile.path
+          ? newFile.path
+          : `${oldFile.path} → ${newFile.path}`;
+      oldFile.path = path;
+      newFile.path = path;
+    }
+
+    const diff = new OutlineDiffer().diff(oldSource.files, newSource.files);
+    console.log(
+      new OutlineDiffRenderer({ old: pattern, new: newSpec }).render(
+        diff,
+        options.format
+      )
+    );
+    return 0;
+  }
+
+  private async load(spec: string): Promise<DiffSource> {
+    const gitSpec = GIT_SPEC_PATTERN.exec(spec);
+    return gitSpec
+      ? this.loadRevision(spec, gitSpec[1], gitSpec[2] || '.')
+      : this.loadPath(spec);
+  }
+
+  /**
+   * Parse a file, or the supported files under a directory, from disk
+   * @private
+   */
+  private async loadPath(spec: string): Promise<DiffSource> {
+    const path = resolve(spec);
+    if (!existsSync(path)) {
+      throw new CLIArgumentError(`File or directory not found: ${spec}`);
+    }
+    if (!statSync(path).isDirectory()) {
+      return {
+        single: true,
+        files: [
+          this.parse(path, toDisplayPath(path), readFileSync(path, 'utf-8')),
+        ],
+      };
+    }
+
+    const files = await this.fileProcessor.findFiles(join(path, '**/*'));
+    return {
+      single: false,
+      files: files
+        .filter((file) => this.fileProcessor.isSupported(file))
+        .map((file) =>
+          this.parse(file, this.toKey(path, file), readFileSync(file, 'utf-8'))
+        ),
+    };
+  }
+
+  /**
+   * Parse a file, or the supported files under a directory, from git
+   * objects without checking the revision out
+   * @private
+   */
+  private loadRevision(
+    spec: string,
+    revision: string,
+    relativePath: string
+  ): DiffSource {
+    this.repository ??= GitRepository.open();
+    const repository = this.repository;
+    const commit = repository.resolveRevision(revision);
+
+    const path = resolve(relativePath);
+    const repoPath = repository.toRepoPath(path);
+    if (repoPath === undefined) {
+      throw new CLIArgumentError(`Path is outside the repository: ${spec}`);
+    }
+
+    const content = repository.readFile(commit, repoPath);
+    if (content !== undefined) {
+      return {
+        single: true,
+        files: [this.parse(path, toDisplayPath(path), content)],
+      };
+    }
+
+    const files = repository
+      .listFiles(commit, repoPath ? `${repoPath}/**` : '**')
+      .filter((file) => this.fileProcessor.isSupported(file));
+    if (files.length === 0) {
+      throw new CLIArgumentError(`No files found at ${spec}`);
+    }
+    return {
+      single: false,
+      files: files.map((file) =>
+        this.parse(
+          file,
+          this.toKey(path, file),
+          repository.readFile(commit, file) ?? ''
+        )
+      ),
+    };
+  }
+
+  private parse(file: string, path: string, source: string): DiffFile {
+    const { outline } = this.fileProcessor.processSource(
+      file,
+      source,
+      Infinity,
+      true
+    );
+    return { path, outline, source };
+  }
+
+  /**
+   * Path of a file relative to the compared directory, which pairs it with
+   * its other version
+   * @private
+   */
+  private toKey(directory: string, file: string): string {
+    return relative(directory, file).split(sep).join('/');
+  }
+}
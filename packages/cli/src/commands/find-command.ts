@@ -0,0 +1,134 @@
+import type { NodeInfo } from '@sammons/code-outline-parser';
+import {
+  SymbolMatcher,
+  TreeUtils,
+  SYMBOL_KINDS,
+  getSymbolKind,
+  isSymbolKind,
+  isSymbolType,
+} from '@sammons/code-outline-parser';
+import { CLIArgumentError } from '../cli-argument-parser.js';
+import type { ParsedArgs } from '../cli-argument-parser.js';
+import type { FileProcessor } from '../file-processor.js';
+import type { Command } from './command.js';
+import { toDisplayPath, toSymbolPath } from './command.js';
+
+interface SymbolMatch {
+  file: string;
+  line: number;
+  kind: string;
+  type: string;
+  name: string;
+  qualifiedName: string;
+  id?: string;
+  score: number;
+  start: NodeInfo['start'];
+  end: NodeInfo['end'];
+}
+
+/**
+ * Searches the symbols of every matched file and prints them ranked by score
+ */
+export class FindCommand implements Command {
+  constructor(private fileProcessor: FileProcessor) {}
+
+  public async run({ options, pattern, args }: ParsedArgs): Promise<number> {
+    const [query] = args;
+    if (!query) {
+      throw new CLIArgumentError('No search query provided');
+    }
+
+    const matcher = this.createMatcher(query, options.match);
+    const types = this.resolveKinds(options.kinds);
+
+    const files = await this.fileProcessor.findFiles(pattern);
+    const results = await this.fileProcessor.processFiles(
+      files,
+      Infinity,
+      true
+    );
+
+    const matches: SymbolMatch[] = [];
+    for (const { file, outline } of results) {
+      if (!outline) {
+        continue;
+      }
+
+      const symbols = TreeUtils.filterNodes(
+        outline,
+        (node) =>
+          Boolean(node.name) &&
+          isSymbolType(node.type) &&
+          (types.size === 0 || types.has(node.type))
+      );
+
+      for (const symbol of symbols) {
+        const symbolPath = toSymbolPath(symbol.qualifiedName ?? symbol.name!);
+        // Qualified queries ("Client.get") match against the symbol path
+        const score = matcher.score(
+          query.includes('.') && options.match !== 'regex'
+            ? symbolPath
+            : symbol.name!
+        );
+        if (score === null) {
+          continue;
+        }
+
+        matches.push({
+          file: toDisplayPath(file),
+          line: symbol.start.row + 1,
+          kind: getSymbolKind(symbol.type),
+          type: symbol.type,
+          name: symbol.name!,
+          qualifiedName: symbol.qualifiedName ?? symbolPath,
+          ...(symbol.id ? { id: symbol.id } : {}),
+          score: Math.round(score * 1000) / 1000,
+          start: symbol.start,
+          end: symbol.end,
+        });
+      }
+    }
+
+    if (matches.length === 0) {
+      console.error(`No symbols matching "${query}" found`);
+      return 1;
+    }
+
+    matches.sort(
+      (a, b) =>
+        b.score - a.score || a.file.localeCompare(b.file) || a.line - b.line
+    );
+
+    if (options.format === 'json') {
+      console.log(JSON.stringify(matches, null, 2));
+    } else {
+      for (const match of matches) {
+        console.log(
+          `${match.file}:${match.line} ${match.kind} ${toSymbolPath(match.qualifiedName)}`
+        );
+      }
+    }
+    return 0;
+  }
+
+  private createMatcher(
+    query: string,
+    mode: ParsedArgs['options']['match']
+  ): SymbolMatcher {
+    try {
+      return new SymbolMatcher(query, mode);
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new CLIArgumentError(`Invalid query: ${errorMessage}`);
+    }
+  }
+
+  private resolveKinds(kinds: string[]): Set<string> {
+    return new Set(
+      kinds.flatMap((kind) =>
+        isSymbolKind(kind) ? [...SYMBOL_KINDS[kind]] : [kind]
+      )
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { resolve } from 'node:path';
+import { CLIArgumentError } from '../cli-argument-parser.js';
+import type { FileProcessor, ProcessedFile } from '../file-processor.js';
+import {
+  ImportGraphBuilder,
+  ModuleResolver,
+  TsconfigReader,
+  fileSystemHost,
+} from '../graph/index.js';
+import type { ImportGraph } from '../graph/index.js';
+import { toDisplayPath } from './command.js';
+
+/**
+ * Parses the matched files and resolves their imports, for the commands
+ * that work on the import graph
+ */
+export class ImportGraphLoader {
+  constructor(private fileProcessor: FileProcessor) {}
+
+  /**
+   * Build the import graph of the files matching a pattern, reporting
+   * unresolved specifiers on stderr
+   * @param pattern - File glob
+   * @param tsconfig - tsconfig.json with path aliases (default: ./tsconfig.json)
+   * @param extraFiles - Files to analyze even when the pattern misses them
+   */
+  public async load(
+    pattern: string,
+    tsconfig?: string,
+    extraFiles: string[] = []
+  ): Promise<{
+    results: ProcessedFile[];
+    graph: ImportGraph;
+    resolver: ModuleResolver;
+  }> {
+    const resolver = this.createResolver(tsconfig);
+
+    const files = [
+      ...new Set([
+        ...(await this.fileProcessor.findFiles(pattern)),
+        ...extraFiles.map((file) => resolve(file)),
+      ]),
+    ];
+    // Imports and exports are top-level statements
+    const results = await this.fileProcessor.processFiles(files, 1, true);
+    const graph = new ImportGraphBuilder(resolver).build(results);
+
+    for (const { from, specifier, line } of graph.unresolved) {
+      console.error(
+        `Cannot resolve "${specifier}" from ${toDisplayPath(from)}:${line}`
+      );
+    }
+
+    return { results, graph, resolver };
+  }
+
+  /**
+   * Create a resolver using the path aliases of the given tsconfig, or of
+   * the default one when it exists
+   * @param tsconfig - tsconfig.json given by the user
+   * @param defaultConfig - Optional tsconfig used otherwise (default: ./tsconfig.json)
+   */
+  public createResolver(
+    tsconfig: string | undefined,
+    defaultConfig = 'tsconfig.json'
+  ): ModuleResolver {
+    const configPath = resolve(tsconfig ?? defaultConfig);
+    if (tsconfig && !fileSystemHost.fileExists(configPath)) {
+      throw new CLIArgumentError(`tsconfig not found: ${tsconfig}`);
+    }
+
+    try {
+      return new ModuleResolver(
+        new TsconfigReader(fileSystemHost).read(configPath)
+      );
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new CLIArgumentError(errorMessage);
+    }
+  }
+}
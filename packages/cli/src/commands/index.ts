@@ -0,0 +1,12 @@
+export type { Command } from './command.js';
+export { toDisplayPath, toSymbolPath } from './command.js';
+export { ShowCommand } from './show-command.js';
+export { FindCommand } from './find-command.js';
+export { AtCommand } from './at-command.js';
+export { DepsCommand } from './deps-command.js';
+export { CyclesCommand } from './cycles-command.js';
+export { UnusedExportsCommand } from './unused-exports-command.js';
+export { ApiCommand } from './api-command.js';
+export { ApiDiffCommand } from './api-diff-command.js';
+export { DiffCommand } from './diff-command.js';
+export { CacheCommand } from './cache-command.js';
@@ -0,0 +1,84 @@
+import type { SymbolSource } from '@sammons/code-outline-parser';
+import { Parser } from '@sammons/code-outline-parser';
+import { CLIArgumentError } from '../cli-argument-parser.js';
+import type { ParsedArgs } from '../cli-argument-parser.js';
+import type { FileProcessor } from '../file-processor.js';
+import type { Command } from './command.js';
+import { toDisplayPath, toSymbolPath } from './command.js';
+
+/**
+ * Prints the source of a single symbol resolved against the outline
+ */
+export class ShowCommand implements Command {
+  private parser: Parser;
+
+  constructor(private fileProcessor: FileProcessor) {
+    this.parser = new Parser();
+  }
+
+  public async run({ options, pattern, args }: ParsedArgs): Promise<number> {
+    const [symbol] = args;
+    if (!symbol) {
+      throw new CLIArgumentError('No symbol provided');
+    }
+
+    const files = await this.fileProcessor.findFiles(pattern);
+    const matches = (
+      await Promise.all(
+        files.map((file) =>
+          this.showSymbol(file, symbol, options.context, options.signatureOnly)
+        )
+      )
+    ).flat();
+
+    if (matches.length === 0) {
+      console.error(`No symbol matching "${symbol}" found`);
+      return 1;
+    }
+
+    if (matches.length > 1) {
+      console.error(
+        `Symbol "${symbol}" is ambiguous, ${matches.length} symbols match:`
+      );
+      for (const match of matches) {
+        console.error(`  ${this.describe(match)}`);
+      }
+      console.error('Use a more qualified name, e.g. Class.method');
+      return 1;
+    }
+
+    const [match] = matches;
+    if (options.format === 'json') {
+      console.log(
+        JSON.stringify({ ...match, file: toDisplayPath(match.file) }, null, 2)
+      );
+    } else {
+      console.log(`// ${this.describe(match)}`);
+      console.log(match.source);
+    }
+    return 0;
+  }
+
+  private async showSymbol(
+    file: string,
+    symbol: string,
+    contextLines: number,
+    signatureOnly: boolean
+  ): Promise<SymbolSource[]> {
+    try {
+      return await this.parser.showSymbol(file, symbol, {
+        contextLines,
+        signatureOnly,
+      });
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(`Error parsing ${file}:`, errorMessage);
+      return [];
+    }
+  }
+
+  private describe(match: SymbolSource): string {
+    return `${toDisplayPath(match.file)}:${match.lines.start}-${match.lines.end} ${match.type} ${toSymbolPath(match.qualifiedName)}`;
+  }
+}
@@ -0,0 +1,87 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { CLIArgumentError } from '../cli-argument-parser.js';
+import type { ParsedArgs } from '../cli-argument-parser.js';
+import type { FileProcessor } from '../file-processor.js';
+import {
+  ExportAllowlist,
+  ModuleIndex,
+  UnusedExportFinder,
+} from '../graph/index.js';
+import type { Command } from './command.js';
+import { toDisplayPath } from './command.js';
+import { ImportGraphLoader } from './import-graph-loader.js';
+
+/**
+ * Lists exports of the matched files that no other matched file imports
+ */
+export class UnusedExportsCommand implements Command {
+  private loader: ImportGraphLoader;
+
+  constructor(fileProcessor: FileProcessor) {
+    this.loader = new ImportGraphLoader(fileProcessor);
+  }
+
+  public async run({ options, pattern }: ParsedArgs): Promise<number> {
+    const entries = options.entries.map((entry) => resolve(entry));
+    const missingEntry = options.entries.find(
+      (_entry, i) => !existsSync(entries[i])
+    );
+    if (missingEntry) {
+      throw new CLIArgumentError(`Entry file not found: ${missingEntry}`);
+    }
+    const allowlist = this.readAllowlist(options.allowlist);
+
+    const { results, resolver } = await this.loader.load(
+      pattern,
+      options.tsconfig,
+      entries
+    );
+    const index = new ModuleIndex(resolver);
+    for (const { file, outline } of results) {
+      index.add(file, outline);
+    }
+
+    const unused = new UnusedExportFinder(index)
+      .find(entries)
+      .filter(({ file, name }) => !allowlist?.has(file, name));
+
+    if (options.format === 'json') {
+      console.log(
+        JSON.stringify(
+          unused.map((entry) => ({
+            ...entry,
+            file: toDisplayPath(entry.file),
+          })),
+          null,
+          2
+        )
+      );
+    } else if (unused.length === 0) {
+      console.log('No unused exports found');
+    } else {
+      for (const { file, line, name, typeOnly, reExport } of unused) {
+        const notes = [
+          ...(typeOnly ? ['type'] : []),
+          ...(reExport ? ['re-export'] : []),
+        ];
+        console.log(
+          `${toDisplayPath(file)}:${line} ${name}${notes.length > 0 ? ` (${notes.join(', ')})` : ''}`
+        );
+      }
+      console.error(`Found ${unused.length} unused export(s)`);
+    }
+
+    return unused.length > 0 ? 1 : 0;
+  }
+
+  private readAllowlist(path: string | undefined): ExportAllowlist | undefined {
+    if (!path) {
+      return undefined;
+    }
+    if (!existsSync(path)) {
+      throw new CLIArgumentError(`Allowlist file not found: ${path}`);
+    }
+    return new ExportAllowlist(readFileSync(path, 'utf-8'), path);
+  }
+}
@@ -0,0 +1,19 @@
+export type {
+  DiffFile,
+  OutlineChangeStatus,
+  OutlineDiff,
+  OutlineDiffEntry,
+  OutlineDiffSummary,
+  OutlineFileDiff,
+  SymbolLocation,
+} from './outline-differ.js';
+export { OutlineDiffer } from './outline-differ.js';
+export type {
+  OutlineDiffFormat,
+  OutlineDiffRenderOptions,
+} from './outline-diff-renderer.js';
+export {
+  OUTLINE_DIFF_FORMATS,
+  OutlineDiffRenderer,
+  isOutlineDiffFormat,
+} from './outline-diff-renderer.js';
@@ -0,0 +1,134 @@
+import pc from 'picocolors';
+import type {
+  OutlineChangeStatus,
+  OutlineDiff,
+  OutlineDiffEntry,
+  OutlineDiffSummary,
+} from './outline-differ.js';
+
+// Output formats of outline diffs
+export const OUTLINE_DIFF_FORMATS = ['ascii', 'json'] as const;
+export type OutlineDiffFormat = (typeof OUTLINE_DIFF_FORMATS)[number];
+
+export function isOutlineDiffFormat(
+  format: string
+): format is OutlineDiffFormat {
+  return (OUTLINE_DIFF_FORMATS as readonly string[]).includes(format);
+}
+
+export interface OutlineDiffRenderOptions {
+  /** Labels of the compared versions, e.g. "git:main:src" */
+  old: string;
+  new: string;
+}
+
+const STATUS_MARKERS: Record<OutlineChangeStatus, string> = {
+  added: '+',
+  removed: '-',
+  modified: '~',
+  moved: '→',
+  renamed: '✎',
+  unchanged: ' ',
+};
+
+const STATUS_COLORS: Record<OutlineChangeStatus, (text: string) => string> = {
+  added: pc.green,
+  removed: pc.red,
+  modified: pc.yellow,
+  moved: pc.cyan,
+  renamed: pc.magenta,
+  unchanged: pc.dim,
+};
+
+/**
+ * OutlineDiffRenderer prints an outline diff as a colored tree of changed
+ * symbols, or as JSON
+ */
+export class OutlineDiffRenderer {
+  constructor(private options: OutlineDiffRenderOptions) {}
+
+  render(diff: OutlineDiff, format: OutlineDiffFormat): string {
+    switch (format) {
+      case 'ascii':
+        return this.renderAscii(diff);
+      case 'json':
+        return JSON.stringify(
+          { old: this.options.old, new: this.options.new, ...diff },
+          null,
+          2
+        );
+      default: {
+        const exhaustiveCheck: never = format;
+        throw new Error(
+          `Unknown outline diff format: ${String(exhaustiveCheck)}`
+        );
+      }
+    }
+  }
+
+  private renderAscii(diff: OutlineDiff): string {
+    const output = [
+      pc.bold(`Outline diff ${this.options.old} → ${this.options.new}`),
+    ];
+
+    for (const file of diff.files) {
+      if (file.status === 'unchanged') {
+        continue;
+      }
+      const status =
+        file.status === 'modified'
+          ? ''
+          : ` ${STATUS_COLORS[file.status](`(${file.status})`)}`;
+      output.push(`\n📁 ${pc.bold(pc.cyan(file.file))}${status}`);
+      this.renderEntries(file.entries, '', output);
+    }
+
+    output.push('', this.formatSummary(diff.summary));
+    return output.join('\n');
+  }
+
+  private renderEntries(
+    entries: OutlineDiffEntry[],
+    indent: string,
+    output: string[]
+  ): void {
+    entries.forEach((entry, index) => {
+      const isLast = index === entries.length - 1;
+      output.push(
+        `${indent}${isLast ? '└─ ' : '├─ '}${this.formatEntry(entry)}`
+      );
+      this.renderEntries(
+        entry.children,
+        `${indent}${isLast ? '   ' : '│  '}`,
+        output
+      );
+    });
+  }
+
+  private formatEntry(entry: OutlineDiffEntry): string {
+    const color = STATUS_COLORS[entry.status];
+    let text = color(
+      `${STATUS_MARKERS[entry.status]} ${entry.kind} ${pc.bold(entry.name)}${entry.signature ?? ''}`
+    );
+    text += pc.dim(` :${entry.line}`);
+
+    const notes = [...entry.details];
+    if (entry.from) {
+      const verb = entry.status === 'renamed' ? 'renamed' : 'moved';
+      notes.unshift(
+        `${verb} from ${entry.from.path} (${entry.from.file}:${entry.from.line})`
+      );
+    }
+    if (notes.length > 0) {
+      text += pc.gray(`  ${notes.join('; ')}`);
+    }
+    return text;
+  }
+
+  private formatSummary(summary: OutlineDiffSummary): string {
+    const counts = Object.entries(summary)
+      .filter(([, count]) => count > 0)
+      .map(([status, count]) => `${count} ${status}`);
+    return counts.length > 0 ? counts.join(', ') : 'No structural changes';
+  }
+}
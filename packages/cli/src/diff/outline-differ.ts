@@ -0,0 +1,561 @@
+import type { NodeInfo } from '@sammons/code-outline-parser';
+import {
+  SignatureUtils,
+  getSymbolKind,
+  isSymbolType,
+} from '@sammons/code-outline-parser';
+
+export type OutlineChangeStatus =
+  | 'added'
+  | 'removed'
+  | 'modified'
+  | 'moved'
+  | 'renamed'
+  | 'unchanged';
+
+/**
+ * One version of a parsed file
+ */
+export interface DiffFile {
+  /** Path that pairs the file with its other version, e.g. relative to the compared directory */
+  path: string;
+  outline: NodeInfo | null;
+  /** Source text, used to compare bodies and detect renames */
+  source: string;
+}
+
+export interface SymbolLocation {
+  file: string;
+  /** Symbol path, e.g. "Client.send" */
+  path: string;
+  /** 1-based line */
+  line: number;
+}
+
+export interface OutlineDiffEntry {
+  status: OutlineChangeStatus;
+  kind: string;
+  type: string;
+  name: string;
+  /** Symbol path in the new version, or the old one for removed symbols */
+  path: string;
+  /** 1-based line in the same version as the path */
+  line: number;
+  /** Number of lines the declaration spans */
+  lines: number;
+  /** Signature in the same version as the path, e.g. "(id: string): User" */
+  signature?: string;
+  /** Where a moved or renamed symbol was declared before */
+  from?: SymbolLocation;
+  details: string[];
+  /** Changed members; unchanged ones are omitted */
+  children: OutlineDiffEntry[];
+}
+
+export interface OutlineFileDiff {
+  file: string;
+  status: 'added' | 'removed' | 'modified' | 'unchanged';
+  entries: OutlineDiffEntry[];
+}
+
+export type OutlineDiffSummary = Record<
+  Exclude<OutlineChangeStatus, 'unchanged'>,
+  number
+>;
+
+export interface OutlineDiff {
+  files: OutlineFileDiff[];
+  summary: OutlineDiffSummary;
+}
+
+interface SymbolNode {
+  node: NodeInfo;
+  name: string;
+  kind: string;
+  path: string;
+  /** Source tokens with the symbol's own name masked, for similarity */
+  tokens: string[];
+  children: SymbolNode[];
+}
+
+// An added or removed entry that may turn out to be one half of a move
+interface Unmatched {
+  entry: OutlineDiffEntry;
+  symbol: SymbolNode;
+  file: string;
+  siblings: OutlineDiffEntry[];
+}
+
+interface UnmatchedPools {
+  removed: Unmatched[];
+  added: Unmatched[];
+}
+
+// Identifiers, numbers, string delimiters and single punctuation characters
+const TOKEN_PATTERN = /[A-Za-z_$][\w$]*|\d[\w.]*|\S/g;
+// Placeholder for a symbol's own name, so renames keep their tokens
+const NAME_TOKEN = '\0name';
+// Smaller declarations look alike too easily to call them renames
+const MIN_RENAME_TOKENS = 10;
+const RENAME_SIMILARITY = 0.7;
+const MOVE_SIMILARITY = 0.5;
+// Kinds whose nested declarations are implementation details
+const BODY_KINDS: readonly string[] = [
+  'function',
+  'method',
+  'variable',
+  'property',
+];
+
+/**
+ * OutlineDiffer compares two versions of a set of files by structure:
+ * symbols are matched by path and kind, unmatched ones are paired up as
+ * renames (same scope, similar body) or moves (same name, other scope or
+ * file), and the rest are added or removed
+ */
+export class OutlineDiffer {
+  private oldSources = new Map<string, string[]>();
+  private newSources = new Map<string, string[]>();
+
+  diff(oldFiles: DiffFile[], newFiles: DiffFile[]): OutlineDiff {
+    this.oldSources = new Map(
+      oldFiles.map(({ path, source }) => [path, source.split('\n')])
+    );
+    this.newSources = new Map(
+      newFiles.map(({ path, source }) => [path, source.split('\n')])
+    );
+
+    const oldByPath = new Map(oldFiles.map((file) => [file.path, file]));
+    const newByPath = new Map(newFiles.map((file) => [file.path, file]));
+    // Files that failed to parse have no symbols to compare
+    const paths = [
+      ...new Set([...oldByPath.keys(), ...newByPath.keys()]),
+    ].filter(
+      (path) =>
+        oldByPath.get(path)?.outline !== null &&
+        newByPath.get(path)?.outline !== null
+    );
+    paths.sort();
+
+    const pools: UnmatchedPools = { removed: [], added: [] };
+    const files = paths.map((path): OutlineFileDiff => {
+      const oldFile = oldByPath.get(path);
+      const newFile = newByPath.get(path);
+      const entries = this.diffScope(
+        this.collectSymbols(oldFile, this.oldSources),
+        this.collectSymbols(newFile, this.newSources),
+        path,
+        path,
+        pools
+      );
+      return {
+        file: path,
+        status: !oldFile ? 'added' : !newFile ? 'removed' : 'modified',
+        entries,
+      };
+    });
+
+    this.detectMoves(pools);
+
+    for (const file of files) {
+      file.entries = this.prune(file.entries);
+      if (file.status === 'modified' && file.entries.length === 0) {
+        file.status = 'unchanged';
+      }
+    }
+
+    return { files, summary: this.summarize(files) };
+  }
+
+  /**
+   * Match the symbols of one scope, recursing into matched pairs
+   * @param pools - Collects added and removed entries for move detection
+   * @private
+   */
+  private diffScope(
+    olds: SymbolNode[],
+    news: SymbolNode[],
+    oldFile: string,
+    newFile: string,
+    pools?: UnmatchedPools
+  ): OutlineDiffEntry[] {
+    const pairs = new Map<SymbolNode, SymbolNode>();
+
+    // Same name and kind; overloads pair up in order
+    const candidates = new Map<string, SymbolNode[]>();
+    for (const symbol of olds) {
+      const key = `${symbol.kind}\0${symbol.name}`;
+      candidates.set(key, [...(candidates.get(key) ?? []), symbol]);
+    }
+    for (const symbol of news) {
+      const match = candidates.get(`${symbol.kind}\0${symbol.name}`)?.shift();
+      if (match) {
+        pairs.set(symbol, match);
+      }
+    }
+
+    // Renames: same kind and a similar body
+    const matchedOld = new Set(pairs.values());
+    const oldNames = new Set(olds.map((symbol) => symbol.name));
+    for (const symbol of news) {
+      if (pairs.has(symbol) || oldNames.has(symbol.name)) {
+        continue;
+      }
+      const match = this.findMostSimilar(
+        symbol,
+        olds.filter(
+          (old) =>
+            !matchedOld.has(old) &&
+            old.kind === symbol.kind &&
+            old.tokens.length >= MIN_RENAME_TOKENS
+        ),
+        RENAME_SIMILARITY
+      );
+      if (match && symbol.tokens.length >= MIN_RENAME_TOKENS) {
+        pairs.set(symbol, match);
+        matchedOld.add(match);
+      }
+    }
+
+    const entries: OutlineDiffEntry[] = [];
+    for (const symbol of news) {
+      const old = pairs.get(symbol);
+      entries.push(
+        old
+          ? this.comparePair(old, symbol, oldFile, newFile, false, pools)
+          : this.createEntry(symbol, 'added', newFile, entries, pools?.added)
+      );
+    }
+    for (const symbol of olds) {
+      if (!matchedOld.has(symbol)) {
+        entries.push(
+          this.createEntry(symbol, 'removed', oldFile, entries, pools?.removed)
+        );
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Entry of a matched pair; renamed when the names differ
+   * @param moved - Whether the pair is in different scopes or files
+   * @private
+   */
+  private comparePair(
+    old: SymbolNode,
+    symbol: SymbolNode,
+    oldFile: string,
+    newFile: string,
+    moved: boolean,
+    pools?: UnmatchedPools
+  ): OutlineDiffEntry {
+    const details = this.compareSymbols(old, symbol);
+    const renamed = old.name !== symbol.name;
+    const status: OutlineChangeStatus = renamed
+      ? 'renamed'
+      : moved
+        ? 'moved'
+        : details.length > 0
+          ? 'modified'
+          : 'unchanged';
+
+    return {
+      ...this.describe(symbol, status),
+      ...(moved || renamed
+        ? {
+            from: {
+              file: oldFile,
+              path: old.path,
+              line: old.node.start.row + 1,
+            },
+          }
+        : {}),
+      details,
+      children: this.diffScope(
+        old.children,
+        symbol.children,
+        oldFile,
+        newFile,
+        pools
+      ),
+    };
+  }
+
+  /**
+   * Entry of an added or removed symbol with all of its members, pooled
+   * before its members so containers move as a whole
+   * @param siblings - List the entry is going to be part of
+   * @private
+   */
+  private createEntry(
+    symbol: SymbolNode,
+    status: 'added' | 'removed',
+    file: string,
+    siblings: OutlineDiffEntry[],
+    pool?: Unmatched[]
+  ): OutlineDiffEntry {
+    const entry: OutlineDiffEntry = {
+      ...this.describe(symbol, status),
+      details: [],
+      children: [],
+    };
+    pool?.push({ entry, symbol, file, siblings });
+    for (const child of symbol.children) {
+      entry.children.push(
+        this.createEntry(child, status, file, entry.children, pool)
+      );
+    }
+    return entry;
+  }
+
+  /**
+   * Pair removed and added symbols with the same name and kind but another
+   * scope or file, replacing the added entry with a moved one
+   * @private
+   */
+  private detectMoves({ removed, added }: UnmatchedPools): void {
+    // Entries replaced by a move, including the members that moved with them
+    const detached = new Set<OutlineDiffEntry>();
+    const detach = (entry: OutlineDiffEntry): void => {
+      detached.add(entry);
+      entry.children.forEach(detach);
+    };
+
+    for (const target of added) {
+      if (detached.has(target.entry)) {
+        continue;
+      }
+      const sources = removed.filter(
+        (source) =>
+          !detached.has(source.entry) &&
+          source.symbol.kind === target.symbol.kind &&
+          source.symbol.name === target.symbol.name
+      );
+      const match = this.findMostSimilar(
+        target.symbol,
+        sources.map(({ symbol }) => symbol),
+        MOVE_SIMILARITY
+      );
+      const source = sources.find(({ symbol }) => symbol === match);
+      if (!source) {
+        continue;
+      }
+
+      detach(source.entry);
+      detach(target.entry);
+      source.siblings.splice(source.siblings.indexOf(source.entry), 1);
+      target.siblings.splice(
+        target.siblings.indexOf(target.entry),
+        1,
+        this.comparePair(
+          source.symbol,
+          target.symbol,
+          source.file,
+          target.file,
+          true
+        )
+      );
+    }
+  }
+
+  private compareSymbols(old: SymbolNode, symbol: SymbolNode): string[] {
+    const details: string[] = [];
+
+    const oldSignature = old.node.signature
+      ? SignatureUtils.format(old.node.signature)
+      : undefined;
+    const signature = symbol.node.signature
+      ? SignatureUtils.format(symbol.node.signature)
+      : undefined;
+    if (oldSignature !== signature) {
+      details.push(
+        `signature changed from "${oldSignature ?? ''}" to "${signature ?? ''}"`
+      );
+    }
+
+    const oldModifiers = this.getModifiers(old.node);
+    const modifiers = this.getModifiers(symbol.node);
+    for (const modifier of modifiers) {
+      if (!oldModifiers.includes(modifier)) {
+        details.push(`became ${modifier}`);
+      }
+    }
+    for (const modifier of oldModifiers) {
+      if (!modifiers.includes(modifier)) {
+        details.push(`no longer ${modifier}`);
+      }
+    }
+
+    const oldLines = this.getLineCount(old.node);
+    const lines = this.getLineCount(symbol.node);
+    if (oldLines !== lines) {
+      details.push(`resized from ${oldLines} to ${lines} lines`);
+    } else if (
+      details.length === 0 &&
+      symbol.children.length === 0 &&
+      !this.isSameTokens(old.tokens, symbol.tokens)
+    ) {
+      // Members report their own changes, so only leaves compare bodies
+      details.push('body changed');
+    }
+
+    return details;
+  }
+
+  private getModifiers(node: NodeInfo): string[] {
+    return [...(node.exported ? ['exported'] : []), ...(node.modifiers ?? [])];
+  }
+
+  private getLineCount(node: NodeInfo): number {
+    return node.end.row - node.start.row + 1;
+  }
+
+  private describe(
+    symbol: SymbolNode,
+    status: OutlineChangeStatus
+  ): Omit<OutlineDiffEntry, 'details' | 'children'> {
+    const { node } = symbol;
+    return {
+      status,
+      kind: symbol.kind,
+      type: node.type,
+      name: symbol.name,
+      path: symbol.path,
+      line: node.start.row + 1,
+      lines: this.getLineCount(node),
+      ...(node.signature
+        ? { signature: SignatureUtils.format(node.signature) }
+        : {}),
+    };
+  }
+
+  /**
+   * Drop unchanged entries that have no changed members
+   * @private
+   */
+  private prune(entries: OutlineDiffEntry[]): OutlineDiffEntry[] {
+    return entries.filter((entry) => {
+      entry.children = this.prune(entry.children);
+      return entry.status !== 'unchanged' || entry.children.length > 0;
+    });
+  }
+
+  private summarize(files: OutlineFileDiff[]): OutlineDiffSummary {
+    const summary: OutlineDiffSummary = {
+      added: 0,
+      removed: 0,
+      modified: 0,
+      moved: 0,
+      renamed: 0,
+    };
+    const count = (entries: OutlineDiffEntry[]): void => {
+      for (const entry of entries) {
+        if (entry.status !== 'unchanged') {
+          summary[entry.status]++;
+        }
+        count(entry.children);
+      }
+    };
+    for (const file of files) {
+      count(file.entries);
+    }
+    return summary;
+  }
+
+  /**
+   * Named symbols of a file as a tree, skipping the unnamed and
+   * non-declaration nodes between them and the locals of function bodies
+   * @private
+   */
+  private collectSymbols(
+    file: DiffFile | undefined,
+    sources: Map<string, string[]>
+  ): SymbolNode[] {
+    if (!file?.outline) {
+      return [];
+    }
+    const lines = sources.get(file.path) ?? [];
+
+    const collect = (node: NodeInfo, scope: string): SymbolNode[] =>
+      (node.children ?? []).flatMap((child): SymbolNode[] => {
+        if (!child.name || !isSymbolType(child.type)) {
+          return collect(child, scope);
+        }
+        const path = scope ? `${scope}.${child.name}` : child.name;
+        const kind = getSymbolKind(child.type);
+        return [
+          {
+            node: child,
+            name: child.name,
+            kind,
+            path,
+            tokens: this.tokenize(child, child.name, lines),
+            children: BODY_KINDS.includes(kind) ? [] : collect(child, path),
+          },
+        ];
+      });
+
+    return collect(file.outline, '');
+  }
+
+  private tokenize(node: NodeInfo, name: string, lines: string[]): string[] {
+    const { start, end } = node;
+    const text =
+      start.row === end.row
+        ? (lines[start.row] ?? '').substring(start.column, end.column)
+        : [
+            (lines[start.row] ?? '').substring(start.column),
+            ...lines.slice(start.row + 1, end.row),
+            (lines[end.row] ?? '').substring(0, end.column),
+          ].join('\n');
+
+    return (text.match(TOKEN_PATTERN) ?? []).map((token) =>
+      token === name ? NAME_TOKEN : token
+    );
+  }
+
+  private findMostSimilar(
+    symbol: SymbolNode,
+    candidates: SymbolNode[],
+    threshold: number
+  ): SymbolNode | undefined {
+    let best: SymbolNode | undefined;
+    let bestScore = threshold;
+    for (const candidate of candidates) {
+      const score = this.getSimilarity(symbol.tokens, candidate.tokens);
+      if (score >= bestScore) {
+        best = candidate;
+        bestScore = score;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Dice coefficient of two token multisets
+   * @private
+   */
+  private getSimilarity(a: string[], b: string[]): number {
+    if (a.length === 0 && b.length === 0) {
+      return 1;
+    }
+
+    const counts = new Map<string, number>();
+    for (const token of a) {
+      counts.set(token, (counts.get(token) ?? 0) + 1);
+    }
+    let shared = 0;
+    for (const token of b) {
+      const count = counts.get(token) ?? 0;
+      if (count > 0) {
+        shared++;
+        counts.set(token, count - 1);
+      }
+    }
+    return (2 * shared) / (a.length + b.length);
+  }
+
+  private isSameTokens(a: string[], b: string[]): boolean {
+    return a.length === b.length && a.every((token, i) => token === b[i]);
+  }
+}
@@ -0,0 +1,271 @@
+import { describe, it, expect } from 'vitest';
+import { Parser } from '@sammons/code-outline-parser';
+import { OutlineDiffer } from './outline-differ.js';
+import type {
+  DiffFile,
+  OutlineDiff,
+  OutlineDiffEntry,
+} from './outline-differ.js';
+import { OutlineDiffRenderer } from './outline-diff-renderer.js';
+
+const parser = new Parser();
+
+function file(path: string, lines: string[]): DiffFile {
+  const source = lines.join('\n');
+  return {
+    path,
+    outline: parser.parseSource(source, 'typescript'),
+    source,
+  };
+}
+
+// "status kind path" of every entry, depth first
+function flatten(diff: OutlineDiff): string[] {
+  const walk = (entries: OutlineDiffEntry[]): string[] =>
+    entries.flatMap((entry) => [
+      `${entry.status} ${entry.kind} ${entry.path}`,
+      ...walk(entry.children),
+    ]);
+  return diff.files.flatMap((fileDiff) => walk(fileDiff.entries));
+}
+
+const SERVICE = [
+  'export class UserService {',
+  '  find(id: string): User {',
+  '    return this.users.get(id);',
+  '  }',
+  '',
+  '  save(user: User): void {',
+  '    this.users.set(user.id, user);',
+  '  }',
+  '}',
+];
+
+describe('OutlineDiffer', () => {
+  const differ = new OutlineDiffer();
+
+  it('should report nothing for identical versions', () => {
+    const diff = differ.diff(
+      [file('a.ts', SERVICE)],
+      [
+        file(
+          'a.ts',
+          SERVICE.map((line) => line.replace(/^ {2}/, '    '))
+        ),
+      ]
+    );
+
+    expect(diff.files).toEqual([
+      { file: 'a.ts', status: 'unchanged', entries: [] },
+    ]);
+    expect(diff.summary).toEqual({
+      added: 0,
+      removed: 0,
+      modified: 0,
+      moved: 0,
+      renamed: 0,
+    });
+  });
+
+  it('should report added, removed and modified members under their class', () => {
+    const diff = differ.diff(
+      [file('a.ts', SERVICE)],
+      [
+        file('a.ts', [
+          'export class UserService {',
+          '  find(id: string, cache?: boolean): User {',
+          '    return this.users.get(id);',
+          '  }',
+          '',
+          '  remove(id: string): void {}',
+          '}',
+        ]),
+      ]
+    );
+
+    expect(flatten(diff)).toEqual([
+      'modified class UserService',
+      'modified method UserService.find',
+      'added method UserService.remove',
+      'removed method UserService.save',
+    ]);
+    const find = diff.files[0].entries[0].children[0];
+    expect(find.details).toEqual([
+      'signature changed from "(id: string): User" to "(id: string, cache?: boolean): User"',
+    ]);
+    expect(find.signature).toBe('(id: string, cache?: boolean): User');
+  });
+
+  it('should report resized symbols and changed bodies', () => {
+    const diff = differ.diff(
+      [file('a.ts', SERVICE)],
+      [
+        file('a.ts', [
+          'export class UserService {',
+          '  find(id: string): User {',
+          '    const user = this.users.get(id);',
+          '    return user;',
+          '  }',
+          '',
+          '  save(user: User): void {',
+          '    this.store.set(user.id, user);',
+          '  }',
+          '}',
+        ]),
+      ]
+    );
+
+    expect(
+      diff.files[0].entries[0].children.map(({ name, details }) => [
+        name,
+        details,
+      ])
+    ).toEqual([
+      ['find', ['resized from 3 to 4 lines']],
+      ['save', ['body changed']],
+    ]);
+  });
+
+  it('should detect renamed symbols by their bodies', () => {
+    const diff = differ.diff(
+      [file('a.ts', SERVICE)],
+      [
+        file(
+          'a.ts',
+          SERVICE.map((line) => line.replace('find(', 'lookup('))
+        ),
+      ]
+    );
+
+    const [entry] = diff.files[0].entries[0].children;
+    expect(entry).toMatchObject({
+      status: 'renamed',
+      name: 'lookup',
+      from: { file: 'a.ts', path: 'UserService.find', line: 2 },
+    });
+    expect(diff.summary.renamed).toBe(1);
+  });
+
+  it('should not call small unrelated declarations renames', () => {
+    const diff = differ.diff(
+      [file('a.ts', ['export function open(): void {}'])],
+      [file('a.ts', ['export function close(): void {}'])]
+    );
+
+    expect(flatten(diff)).toEqual([
+      'added function close',
+      'removed function open',
+    ]);
+  });
+
+  it('should detect members moved between classes and files', () => {
+    const diff = differ.diff(
+      [
+        file('service.ts', SERVICE),
+        file('store.ts', ['export class Store {}']),
+      ],
+      [
+        file('service.ts', [
+          'export class UserService {',
+          '  find(id: string): User {',
+          '    return this.users.get(id);',
+          '  }',
+          '}',
+        ]),
+        file('store.ts', [
+          'export class Store {',
+          '  save(user: User): void {',
+          '    this.users.set(user.id, user);',
+          '  }',
+          '}',
+        ]),
+      ]
+    );
+
+    expect(flatten(diff)).toEqual([
+      'modified class UserService',
+      'modified class Store',
+      'moved method Store.save',
+    ]);
+    expect(diff.files[1].entries[0].children[0].from).toEqual({
+      file: 'service.ts',
+      path: 'UserService.save',
+      line: 6,
+    });
+  });
+
+  it('should move containers together with their members', () => {
+    const diff = differ.diff(
+      [file('a.ts', SERVICE), file('b.ts', [])],
+      [file('a.ts', []), file('b.ts', SERVICE)]
+    );
+
+    expect(flatten(diff)).toEqual(['moved class UserService']);
+    expect(diff.summary.moved).toBe(1);
+  });
+
+  it('should mark files that exist in one version only', () => {
+    const diff = differ.diff(
+      [file('old.ts', ['export const a = 1;'])],
+      [file('new.ts', ['export type B = string;'])]
+    );
+
+    expect(diff.files.map(({ file, status }) => `${status} ${file}`)).toEqual([
+      'added new.ts',
+      'removed old.ts',
+    ]);
+    expect(flatten(diff)).toEqual(['added type B', 'removed variable a']);
+  });
+
+  it('should skip files that failed to parse', () => {
+    const diff = differ.diff(
+      [file('a.ts', SERVICE)],
+      [{ path: 'a.ts', outline: null, source: '' }]
+    );
+
+    expect(diff.files).toEqual([]);
+  });
+});
+
+describe('OutlineDiffRenderer', () => {
+  const diff = new OutlineDiffer().diff(
+    [file('a.ts', SERVICE)],
+    [
+      file('a.ts', [
+        'export class UserService {',
+        '  lookup(id: string): User {',
+        '    return this.users.get(id);',
+        '  }',
+        '}',
+        'export const VERSION = 2;',
+      ]),
+    ]
+  );
+  const renderer = new OutlineDiffRenderer({ old: 'git:main:src', new: 'src' });
+
+  it('should render changed symbols as a tree', () => {
+    expect(renderer.render(diff, 'ascii').split('\n')).toEqual([
+      'Outline diff git:main:src → src',
+      '',
+      '📁 a.ts',
+      '├─ ~ class UserService :1  resized from 9 to 5 lines',
+      '│  ├─ ✎ method lookup(id: string): User :2  renamed from UserService.find (a.ts:2)',
+      '│  └─ - method save(user: User): void :6',
+      '└─ + variable VERSION :6',
+      '',
+      '1 added, 1 removed, 1 modified, 1 renamed',
+    ]);
+  });
+
+  it('should render JSON with the compared versions', () => {
+    const output = JSON.parse(renderer.render(diff, 'json'));
+
+    expect(output.old).toBe('git:main:src');
+    expect(output.new).toBe('src');
+    expect(output.files[0].entries[1]).toMatchObject({
+      status: 'added',
+      name: 'VERSION',
+      line: 6,
+    });
+  });
+});
@@ -1,13 +1,34 @@
+import { stat } from 'node:fs/promises';
 import { resolve } from 'node:path';
 import fg from 'fast-glob';
-import type { NodeInfo } from '@sammons/code-outline-parser';
-import { Parser } from '@sammons/code-outline-parser';
+import type { Diagnostic, NodeInfo } from '@sammons/code-outline-parser';
+import { FileReader, Parser } from '@sammons/code-outline-parser';
+import { OutlineCache } from './outline-cache.js';
+import type { CachedOutline } from './outline-cache.js';
+import { ParseWorkerPool, runParseTask } from './parse-worker-pool.js';
+import type { ParseTask } from './parse-worker-pool.js';
 
 export interface ProcessedFile {
   file: string;
   outline: NodeInfo | null;
+  diagnostics?: Diagnostic[];
 }
 
+/**
+ * Bounds on how much work processFiles keeps in memory at once
+ */
+export interface ProcessingLimits {
+  /** Files read and parsed at the same time */
+  concurrency: number;
+  /** Files larger than this many bytes are skipped */
+  maxFileSize: number;
+}
+
+export const DEFAULT_LIMITS: ProcessingLimits = {
+  concurrency: 64,
+  maxFileSize: 1024 * 1024,
+};
+
 export class FileProcessorError extends Error {
   constructor(message: string) {
     super(message);
@@ -17,9 +38,14 @@ export class FileProcessorError extends Error {
 
 export class FileProcessor {
   private parser: Parser;
+  private fileReader: FileReader;
+  private cache?: OutlineCache;
+  private pool?: ParseWorkerPool;
+  private limits: ProcessingLimits = DEFAULT_LIMITS;
 
   constructor() {
     this.parser = new Parser();
+    this.fileReader = new FileReader();
   }
 
   public async findFiles(pattern: string): Promise<string[]> {
@@ -37,16 +63,53 @@ export class FileProcessor {
     return files;
   }
 
+  /**
+   * Parse files on worker threads
+   * @param jobs - Number of threads; 1 parses in the current thread
+   */
+  public useWorkers(jobs: number): void {
+    void this.pool?.close();
+    this.pool = jobs > 1 ? new ParseWorkerPool(jobs) : undefined;
+  }
+
+  public setLimits(limits: ProcessingLimits): void {
+    this.limits = limits;
+  }
+
+  /**
+   * Reuse outlines stored on disk by earlier runs, or stop using a cache
+   */
+  public useCache(cache: OutlineCache | undefined): void {
+    this.cache = cache;
+  }
+
   private async parseFile(
     file: string,
     depth: number,
     namedOnly: boolean
   ): Promise<ProcessedFile> {
     try {
-      const outline = await this.parser.parseFile(file, depth, namedOnly);
+      // Huge and minified files are skipped before they are read; missing
+      // files fail below with the parser's error
+      const size = await stat(file).then(
+        (stats) => stats.size,
+        (): number => 0
+      );
+      if (size > this.limits.maxFileSize) {
+        console.error(
+          `Skipping ${file}: ${formatFileSize(size)} exceeds the ${formatFileSize(this.limits.maxFileSize)} limit (--max-file-size)`
+        );
+        return { file: resolve(file), outline: null };
+      }
+
+      const { outline, diagnostics } =
+        this.cache && this.isSupported(file)
+          ? await this.parseCached(file, depth, namedOnly, this.cache)
+          : await this.parse({ file, depth, namedOnly });
       return {
         file: resolve(file),
         outline,
+        diagnostics,
       };
     } catch (error: unknown) {
       const errorMessage =
@@ -59,16 +122,136 @@ export class FileProcessor {
     }
   }
 
+  /**
+   * Outline of a file from the cache, parsing and storing it on a miss
+   * @private
+   */
+  private async parseCached(
+    file: string,
+    depth: number,
+    namedOnly: boolean,
+    cache: OutlineCache
+  ): Promise<CachedOutline> {
+    const content = await this.fileReader.readFile(file);
+    const key = OutlineCache.getKey(
+      content,
+      this.fileReader.getSymbolPath(file),
+      depth,
+      namedOnly
+    );
+
+    const cached = await cache.get(key);
+    if (cached) {
+      return cached;
+    }
+    const parsed = await this.parse({ file, depth, namedOnly, content });
+    await cache.set(key, parsed);
+    return parsed;
+  }
+
+  /**
+   * Parse on the worker pool when there is one, in this thread otherwise
+   * @private
+   */
+  private async parse(task: ParseTask): Promise<CachedOutline> {
+    if (this.pool) {
+      return await this.pool.parse(task);
+    }
+    // Strings cut from the source keep all of it in memory; copying the
+    // outline lets the source be collected once the file is done
+    return structuredClone(
+      await runParseTask(task, this.parser, this.fileReader)
+    );
+  }
+
+  /**
+   * Whether the parser supports the language of a file
+   */
+  public isSupported(file: string): boolean {
+    return this.parser.isFileSupported(file);
+  }
+
+  /**
+   * Parse contents that are not read from the working tree, such as a file
+   * at a git revision
+   * @param file - Path the contents belong to, which selects the language
+   * @param content - Source text
+   */
+  public processSource(
+    file: string,
+    content: string,
+    depth: number,
+    namedOnly: boolean
+  ): ProcessedFile {
+    try {
+      if (!this.parser.isFileSupported(file)) {
+        throw new Error(`Unsupported file type: ${file}`);
+      }
+      const { outline, diagnostics } = this.parser.parseSourceWithDiagnostics(
+        content,
+        this.fileReader.getFileType(file),
+        depth,
+        namedOnly
+      );
+      return { file, outline, diagnostics };
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error occurred';
+      console.error(`Error parsing ${file}:`, errorMessage);
+      return { file, outline: null };
+    }
+  }
+
+  /**
+   * Parse files with bounded concurrency
+   * @param onResult - Called with every result in file order, as soon as the
+   * file and every file before it are done, for streaming output. Results
+   * are released once reported, so memory stays bounded by the concurrency.
+   * @returns Results in file order, or none when onResult is given
+   */
   public async processFiles(
     files: string[],
     depth: number,
-    namedOnly: boolean
+    namedOnly: boolean,
+    onResult?: (result: ProcessedFile) => void | Promise<void>
   ): Promise<ProcessedFile[]> {
-    // Process files in parallel using Promise.all
-    const parsePromises = files.map((file) =>
-      this.parseFile(file, depth, namedOnly)
+    // Process at most `concurrency` files at a time; results keep the
+    // order of the files even when they finish out of order
+    const results = new Array<ProcessedFile | undefined>(files.length);
+    let next = 0;
+    let reported = 0;
+    const processNext = async (): Promise<void> => {
+      while (next < files.length) {
+        const index = next++;
+        results[index] = await this.parseFile(files[index], depth, namedOnly);
+
+        let result = results[reported];
+        while (onResult && result) {
+          results[reported++] = undefined;
+          await onResult(result);
+          result = results[reported];
+        }
+      }
+    };
+
+    await Promise.all(
+      Array.from(
+        { length: Math.min(this.limits.concurrency, files.length) },
+        processNext
+      )
     );
+    return results.filter((result) => result !== undefined);
+  }
+}
 
-    return await Promise.all(parsePromises);
+/**
+ * Size in bytes as shown to the user ("512 KB", "1.5 MB")
+ */
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
   }
+  const [value, unit] =
+    bytes < 1024 * 1024 ? [bytes / 1024, 'KB'] : [bytes / 1024 / 1024, 'MB'];
+  return `${Number(value.toFixed(1))} ${unit}`;
 }
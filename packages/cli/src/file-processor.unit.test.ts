@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Parser } from '@sammons/code-outline-parser';
+import { FileProcessor } from './file-processor.js';
+
+describe('FileProcessor limits', () => {
+  let dir: string;
+  let files: string[];
+  let processor: FileProcessor;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'file-processor-'));
+    files = ['a', 'b', 'c', 'd', 'e'].map((name) => {
+      const file = join(dir, `${name}.ts`);
+      writeFileSync(file, `export function ${name}(): void {}`);
+      return file;
+    });
+    processor = new FileProcessor();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should parse at most `concurrency` files at a time, in file order', async () => {
+    const parse = Parser.prototype.parseFileWithDiagnostics;
+    let running = 0;
+    let mostRunning = 0;
+    vi.spyOn(Parser.prototype, 'parseFileWithDiagnostics').mockImplementation(
+      async function (this: Parser, ...args) {
+        running++;
+        mostRunning = Math.max(mostRunning, running);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        running--;
+        return parse.apply(this, args);
+      }
+    );
+    processor.setLimits({ concurrency: 2, maxFileSize: 1024 });
+
+    const results = await processor.processFiles(files, Infinity, true);
+
+    expect(mostRunning).toBe(2);
+    expect(results.map((result) => result.outline?.children?.[0].name)).toEqual(
+      ['a', 'b', 'c', 'd', 'e']
+    );
+  });
+
+  it('should report results in file order and release them', async () => {
+    const reported: string[] = [];
+    processor.setLimits({ concurrency: 3, maxFileSize: 1024 });
+
+    const results = await processor.processFiles(
+      files,
+      Infinity,
+      true,
+      (result) => {
+        reported.push(result.file);
+      }
+    );
+
+    expect(reported).toEqual(files);
+    // Streamed results are not kept for the end of the run
+    expect(results).toEqual([]);
+  });
+
+  it('should skip and report files larger than maxFileSize', async () => {
+    const consoleError = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => {});
+    writeFileSync(files[1], `var x = 1;`.repeat(300));
+    processor.setLimits({ concurrency: 2, maxFileSize: 2048 });
+
+    const [small, large] = await processor.processFiles(
+      files.slice(0, 2),
+      Infinity,
+      true
+    );
+
+    expect(small.outline).not.toBeNull();
+    expect(large).toEqual({ file: files[1], outline: null });
+    expect(consoleError).toHaveBeenCalledWith(
+      `Skipping ${files[1]}: 2.9 KB exceeds the 2 KB limit (--max-file-size)`
+    );
+  });
+});
@@ -0,0 +1,277 @@
+import { execFileSync } from 'node:child_process';
+import { isAbsolute, join, relative, resolve, sep } from 'node:path';
+import type { ResolverHost } from '../graph/index.js';
+import { GlobMatcher } from './glob-matcher.js';
+
+export class GitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GitError';
+  }
+}
+
+/**
+ * Lines of a diff hunk in the new version of a file (1-based, inclusive).
+ * Pure deletions are empty ranges (end = start - 1) between two lines.
+ */
+export interface ChangedLines {
+  start: number;
+  end: number;
+  /** True when the hunk only adds lines */
+  added: boolean;
+}
+
+/**
+ * A file that differs from the compared revision
+ */
+export interface ChangedFile {
+  /** Absolute path */
+  file: string;
+  /** True for new and untracked files */
+  added: boolean;
+  hunks: ChangedLines[];
+}
+
+// Hunk header of a zero-context diff: @@ -12,3 +12,5 @@
+const HUNK_PATTERN = /^@@ -\d+(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * GitRepository reads files at a revision straight from git objects,
+ * without checking the revision out
+ */
+export class GitRepository {
+  private trees = new Map<string, Set<string>>();
+  private blobs = new Map<string, string>();
+
+  /**
+   * @param root - Absolute path of the working tree root
+   */
+  private constructor(readonly root: string) {}
+
+  /**
+   * Open the repository containing a directory
+   * @param cwd - Directory inside the working tree (default: the working directory)
+   * @throws GitError when the directory is not inside a git working tree
+   */
+  static open(cwd: string = process.cwd()): GitRepository {
+    // --show-cdup keeps the root relative to cwd, so symlinked paths stay intact
+    const cdup = GitRepository.git(cwd, ['rev-parse', '--show-cdup']).trim();
+    return new GitRepository(resolve(cwd, cdup));
+  }
+
+  /**
+   * Resolve a revision (branch, tag, commit or expression like HEAD~2)
+   * @returns The full commit hash
+   * @throws GitError when the revision does not name a commit
+   */
+  resolveRevision(revision: string): string {
+    try {
+      return this.run(['rev-parse', '--verify', `${revision}^{commit}`]).trim();
+    } catch {
+      throw new GitError(`Unknown git revision: ${revision}`);
+    }
+  }
+
+  /**
+   * Absolute paths of the files in a revision
+   * @param pattern - Optional glob relative to the repository root
+   */
+  listFiles(revision: string, pattern?: string): string[] {
+    const matcher = pattern ? new GlobMatcher(pattern) : undefined;
+    return [...this.getTree(revision)]
+      .filter((path) => !matcher || matcher.matches(path))
+      .map((path) => join(this.root, path));
+  }
+
+  /**
+   * Contents of a file at a revision
+   * @param path - Absolute path, or path relative to the repository root
+   * @returns The contents, or undefined when the file does not exist there
+   */
+  readFile(revision: string, path: string): string | undefined {
+    const repoPath = this.toRepoPath(path);
+    if (repoPath === undefined || !this.getTree(revision).has(repoPath)) {
+      return undefined;
+    }
+
+    const key = `${revision}:${repoPath}`;
+    let contents = this.blobs.get(key);
+    if (contents === undefined) {
+      contents = this.run(['cat-file', 'blob', key]);
+      this.blobs.set(key, contents);
+    }
+    return contents;
+  }
+
+  /**
+   * Files of the working tree that differ from a revision, including
+   * staged, unstaged and untracked changes; deleted files are left out
+   */
+  getChangesSince(revision: string): ChangedFile[] {
+    const changes = this.diff([this.resolveRevision(revision)]);
+    const untracked = this.run([
+      'ls-files',
+      '--others',
+      '--exclude-standard',
+      '-z',
+    ])
+      .split('\0')
+      .filter(Boolean);
+
+    return [
+      ...changes,
+      ...untracked.map(
+        (path): ChangedFile => ({
+          file: join(this.root, path),
+          added: true,
+          hunks: [],
+        })
+      ),
+    ];
+  }
+
+  /**
+   * Files with changes staged for the next commit; deleted files are left
+   * out
+   */
+  getStagedChanges(): ChangedFile[] {
+    return this.diff(['--cached']);
+  }
+
+  /**
+   * File access for the module resolver that sees the files of a revision
+   */
+  createHost(revision: string): ResolverHost {
+    return {
+      fileExists: (path): boolean => {
+        const repoPath = this.toRepoPath(path);
+        return repoPath !== undefined && this.getTree(revision).has(repoPath);
+      },
+      readFile: (path): string | undefined => this.readFile(revision, path),
+    };
+  }
+
+  /**
+   * Path relative to the repository root with forward slashes, or
+   * undefined for paths outside the repository
+   */
+  toRepoPath(path: string): string | undefined {
+    const repoPath = relative(this.root, resolve(this.root, path));
+    return repoPath.startsWith('..') || isAbsolute(repoPath)
+      ? undefined
+      : repoPath.split(sep).join('/');
+  }
+
+  private diff(args: string[]): ChangedFile[] {
+    const output = this.run([
+      'diff',
+      ...args,
+      '--unified=0',
+      '--no-color',
+      '--no-ext-diff',
+      '--diff-filter=d',
+      '--src-prefix=a/',
+      '--dst-prefix=b/',
+    ]);
+
+    const files: ChangedFile[] = [];
+    let current: ChangedFile | undefined;
+    let fromNothing = false;
+    for (const line of output.split('\n')) {
+      if (line.startsWith('diff --git ')) {
+        current = undefined;
+        fromNothing = false;
+      } else if (line.startsWith('--- ')) {
+        fromNothing = line === '--- /dev/null';
+      } else if (line.startsWith('+++ b/') || line.startsWith('+++ "b/')) {
+        const path = GitRepository.unquote(line.substring(4)).substring(2);
+        current = {
+          file: join(this.root, path),
+          added: fromNothing,
+          hunks: [],
+        };
+        files.push(current);
+      } else if (current) {
+        const hunk = HUNK_PATTERN.exec(line);
+        if (hunk) {
+          const start = Number(hunk[2]);
+          const count = Number(hunk[3] ?? '1');
+          current.hunks.push(
+            count === 0
+              ? // Deleted lines sat between line start and start + 1
+                { start: start + 1, end: start, added: false }
+              : { start, end: start + count - 1, added: hunk[1] === '0' }
+          );
+        }
+      }
+    }
+    return files;
+  }
+
+  /**
+   * Path as printed by git, which quotes paths with unusual characters and
+   * escapes their bytes like C strings
+   * @private
+   */
+  private static unquote(path: string): string {
+    const trimmed = path.replace(/\t$/, '');
+    if (!trimmed.startsWith('"')) {
+      return trimmed;
+    }
+
+    const bytes: number[] = [];
+    const escapes: Record<string, string> = {
+      n: '\n',
+      t: '\t',
+      '"': '"',
+      '\\': '\\',
+    };
+    const body = trimmed.slice(1, -1);
+    for (let i = 0; i < body.length; i++) {
+      if (body[i] !== '\\') {
+        bytes.push(...Buffer.from(body[i]));
+      } else if (/[0-7]{3}/.test(body.substring(i + 1, i + 4))) {
+        bytes.push(parseInt(body.substring(i + 1, i + 4), 8));
+        i += 3;
+      } else {
+        bytes.push(...Buffer.from(escapes[body[i + 1]] ?? body[i + 1]));
+        i += 1;
+      }
+    }
+    return Buffer.from(bytes).toString('utf-8');
+  }
+
+  private getTree(revision: string): Set<string> {
+    let tree = this.trees.get(revision);
+    if (!tree) {
+      tree = new Set(
+        this.run(['ls-tree', '-r', '-z', '--name-only', revision])
+          .split('\0')
+          .filter(Boolean)
+      );
+      this.trees.set(revision, tree);
+    }
+    return tree;
+  }
+
+  private run(args: string[]): string {
+    return GitRepository.git(this.root, args);
+  }
+
+  private static git(cwd: string, args: string[]): string {
+    try {
+      return execFileSync('git', args, {
+        cwd,
+        encoding: 'utf-8',
+        maxBuffer: 256 * 1024 * 1024,
+        stdio: ['ignore', 'pipe', 'pipe'],
+      });
+    } catch (error: unknown) {
+      const stderr =
+        error && typeof error === 'object' && 'stderr' in error
+          ? String(error.stderr).trim()
+          : '';
+      throw new GitError(`git ${args[0]} failed${stderr ? `: ${stderr}` : ''}`);
+    }
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * GlobMatcher tests paths against a glob pattern (`*`, `**`, `?`,
+ * `[abc]` and `{a,b}`), for files that are not on disk such as the files of
+ * a git revision
+ */
+export class GlobMatcher {
+  private regex: RegExp;
+
+  /**
+   * @param pattern - Glob with forward slashes, e.g. "src/{cli,lib}.ts"
+   */
+  constructor(pattern: string) {
+    this.regex = new RegExp(`^${GlobMatcher.toRegExpSource(pattern)}$`);
+  }
+
+  /**
+   * Whether a path matches the pattern
+   * @param path - Path with forward slashes, relative like the pattern
+   */
+  matches(path: string): boolean {
+    return this.regex.test(path);
+  }
+
+  private static toRegExpSource(pattern: string): string {
+    let source = '';
+    let braces = 0;
+
+    for (let i = 0; i < pattern.length; i++) {
+      const char = pattern[i];
+
+      if (char === '*' && pattern[i + 1] === '*') {
+        // "**/" matches zero or more directories, a trailing "**" anything
+        if (pattern[i + 2] === '/') {
+          source += '(?:[^/]*/)*';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else if (char === '*') {
+        source += '[^/]*';
+      } else if (char === '?') {
+        source += '[^/]';
+      } else if (char === '[') {
+        const end = pattern.indexOf(']', i + 1);
+        if (end === -1) {
+          source += '\\[';
+        } else {
+          source += `[${pattern.substring(i + 1, end).replace(/^!/, '^')}]`;
+          i = end;
+        }
+      } else if (char === '{') {
+        braces++;
+        source += '(?:';
+      } else if (char === '}' && braces > 0) {
+        braces--;
+        source += ')';
+      } else if (char === ',' && braces > 0) {
+        source += '|';
+      } else {
+        source += char.replace(/[.+^$()|\\]/g, '\\$&');
+      }
+    }
+
+    return source;
+  }
+}
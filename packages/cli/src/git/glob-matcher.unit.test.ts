@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { GlobMatcher } from './glob-matcher.js';
+
+describe('GlobMatcher', () => {
+  it('should keep single stars within a directory', () => {
+    const matcher = new GlobMatcher('packages/*/src/index.ts');
+
+    expect(matcher.matches('packages/cli/src/index.ts')).toBe(true);
+    expect(matcher.matches('packages/cli/nested/src/index.ts')).toBe(false);
+  });
+
+  it('should match any number of directories with a double star', () => {
+    const matcher = new GlobMatcher('src/**/*.ts');
+
+    expect(matcher.matches('src/index.ts')).toBe(true);
+    expect(matcher.matches('src/graph/deep/file.ts')).toBe(true);
+    expect(matcher.matches('lib/index.ts')).toBe(false);
+  });
+
+  it('should support alternatives, character classes and literal dots', () => {
+    const matcher = new GlobMatcher('src/{cli,lib}[0-9]?.ts');
+
+    expect(matcher.matches('src/cli1a.ts')).toBe(true);
+    expect(matcher.matches('src/lib2b.ts')).toBe(true);
+    expect(matcher.matches('src/app1a.ts')).toBe(false);
+    expect(matcher.matches('src/cli1axts')).toBe(false);
+  });
+});
@@ -0,0 +1,3 @@
+export type { ChangedFile, ChangedLines } from './git-repository.js';
+export { GitError, GitRepository } from './git-repository.js';
+export { GlobMatcher } from './glob-matcher.js';
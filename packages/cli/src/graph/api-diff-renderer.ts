@@ -0,0 +1,143 @@
+import type { ApiChange, SemverBump } from './api-differ.js';
+
+// Output formats of API diffs
+export const API_DIFF_FORMATS = ['ascii', 'json', 'markdown'] as const;
+export type ApiDiffFormat = (typeof API_DIFF_FORMATS)[number];
+
+export function isApiDiffFormat(format: string): format is ApiDiffFormat {
+  return (API_DIFF_FORMATS as readonly string[]).includes(format);
+}
+
+/**
+ * API changes of every entry point between two revisions
+ */
+export interface ApiDiffReport {
+  /** Revisions as given by the user */
+  base: string;
+  head: string;
+  /** Suggested release for all entry points together */
+  bump: SemverBump;
+  entries: Array<{ entry: string; changes: ApiChange[] }>;
+}
+
+export interface ApiDiffRenderOptions {
+  /** Label of a file (default: the path itself) */
+  label?: (file: string) => string;
+}
+
+const CHANGE_SYMBOLS: Record<ApiChange['change'], string> = {
+  added: '+',
+  removed: '-',
+  changed: '~',
+};
+
+const CHANGE_LABELS: Record<ApiChange['change'], string> = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Changed',
+};
+
+/**
+ * ApiDiffRenderer prints an API diff as text, JSON or a Markdown section
+ * for pull requests and changelogs
+ */
+export class ApiDiffRenderer {
+  private label: (file: string) => string;
+
+  constructor(options: ApiDiffRenderOptions = {}) {
+    this.label = options.label ?? ((file): string => file);
+  }
+
+  render(report: ApiDiffReport, format: ApiDiffFormat): string {
+    switch (format) {
+      case 'ascii':
+        return this.renderAscii(report);
+      case 'json':
+        return this.renderJson(report);
+      case 'markdown':
+        return this.renderMarkdown(report);
+      default: {
+        const exhaustiveCheck: never = format;
+        throw new Error(`Unknown API diff format: ${String(exhaustiveCheck)}`);
+      }
+    }
+  }
+
+  private renderAscii(report: ApiDiffReport): string {
+    const lines = [`API changes ${report.base}..${report.head}`];
+
+    for (const { entry, changes } of report.entries) {
+      lines.push('', this.label(entry));
+      if (changes.length === 0) {
+        lines.push('  (no API changes)');
+      }
+      for (const change of changes) {
+        lines.push(
+          `  ${CHANGE_SYMBOLS[change.change]} ${change.kind} ${change.name}  ${this.getLocation(change)}  [${change.bump}]`
+        );
+        for (const detail of change.details) {
+          lines.push(`      ${detail}`);
+        }
+      }
+    }
+
+    lines.push('', `Suggested version bump: ${report.bump}`);
+    return lines.join('\n');
+  }
+
+  private renderJson(report: ApiDiffReport): string {
+    return JSON.stringify(
+      {
+        ...report,
+        entries: report.entries.map(({ entry, changes }) => ({
+          entry: this.label(entry),
+          changes: changes.map((change) => ({
+            ...change,
+            file: this.label(change.file),
+          })),
+        })),
+      },
+      null,
+      2
+    );
+  }
+
+  private renderMarkdown(report: ApiDiffReport): string {
+    const lines = [
+      `## API changes (\`${report.base}\` → \`${report.head}\`)`,
+      '',
+      `Suggested version bump: **${report.bump}**`,
+    ];
+
+    for (const { entry, changes } of report.entries) {
+      lines.push('', `### \`${this.label(entry)}\``, '');
+      if (changes.length === 0) {
+        lines.push('_No public API changes._');
+        continue;
+      }
+
+      lines.push(
+        '| Change | Symbol | Kind | Declared in | Bump | Details |',
+        '| --- | --- | --- | --- | --- | --- |'
+      );
+      for (const change of changes) {
+        const details = change.details
+          .map((detail) => this.escapeCell(detail))
+          .join('<br>');
+        lines.push(
+          `| ${CHANGE_LABELS[change.change]} | \`${change.name}\` | ${change.kind} | \`${this.getLocation(change)}\` | ${change.bump} | ${details} |`
+        );
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  private getLocation(change: ApiChange): string {
+    return `${this.label(change.file)}:${change.line}`;
+  }
+
+  private escapeCell(text: string): string {
+    return text.replace(/\|/g, '\\|').replace(/</g, '&lt;');
+  }
+}
@@ -0,0 +1,570 @@
+import type {
+  NodeInfo,
+  ParameterInfo,
+  Position,
+  SignatureInfo,
+} from '@sammons/code-outline-parser';
+import { getSymbolKind } from '@sammons/code-outline-parser';
+import type { ApiSymbol } from './api-surface.js';
+
+export const SEMVER_BUMPS = ['patch', 'minor', 'major'] as const;
+export type SemverBump = (typeof SEMVER_BUMPS)[number];
+
+/**
+ * A difference between the public symbols of two revisions
+ */
+export interface ApiChange {
+  change: 'added' | 'removed' | 'changed';
+  name: string;
+  /** Symbol kind, e.g. "function" or "class" */
+  kind: string;
+  /** Declaring file at head (at base for removed symbols) */
+  file: string;
+  /** 1-based line of the declaration */
+  line: number;
+  bump: SemverBump;
+  /** What changed, for changed symbols */
+  details: string[];
+}
+
+/**
+ * The public symbols of an entry point at one revision
+ */
+export interface ApiSnapshot {
+  symbols: ApiSymbol[];
+  /** Source text of a declaring file, to compare declarations by their text */
+  readFile(file: string): string | undefined;
+}
+
+interface Difference {
+  message: string;
+  bump: SemverBump;
+}
+
+// Nodes whose children are the members of a class, interface or enum
+const MEMBER_CONTAINERS = [
+  'class_body',
+  'interface_body',
+  'enum_body',
+  'object_type',
+];
+
+// Declarations compared by their type annotation rather than their text
+const ANNOTATED_TYPES = [
+  'variable_declarator',
+  'public_field_definition',
+  'property_signature',
+];
+
+const VISIBILITY = ['public', 'protected', 'private'];
+
+// String and template literals, whose text is never a comment
+const STRING_LITERAL =
+  /'(?:[^'\\\n]|\\.)*'|"(?:[^"\\\n]|\\.)*"|`(?:[^`\\]|\\.)*`/;
+
+/**
+ * ApiDiffer compares the public API of two revisions and classifies each
+ * change as a major, minor or patch release
+ */
+export class ApiDiffer {
+  /**
+   * Compare two snapshots of an entry point
+   * @returns Changes in name order
+   */
+  diff(base: ApiSnapshot, head: ApiSnapshot): ApiChange[] {
+    const baseSymbols = new Map(base.symbols.map((s) => [s.name, s]));
+    const headSymbols = new Map(head.symbols.map((s) => [s.name, s]));
+    const names = [
+      ...new Set([...baseSymbols.keys(), ...headSymbols.keys()]),
+    ].sort();
+
+    const changes: ApiChange[] = [];
+    for (const name of names) {
+      const before = baseSymbols.get(name);
+      const after = headSymbols.get(name);
+
+      if (!before && after) {
+        changes.push(this.createChange('added', after, 'minor', []));
+      } else if (before && !after) {
+        changes.push(this.createChange('removed', before, 'major', []));
+      } else if (before && after) {
+        const differences = this.compareSymbols(before, after, base, head);
+        if (differences.length > 0) {
+          changes.push(
+            this.createChange(
+              'changed',
+              after,
+              ApiDiffer.getBump(differences),
+              differences.map((difference) => difference.message)
+            )
+          );
+        }
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * The release a set of changes requires: major for breaking changes,
+   * minor for additions and patch when the API is unchanged
+   */
+  static getBump(changes: Array<{ bump: SemverBump }>): SemverBump {
+    return changes.reduce<SemverBump>(
+      (bump, change) =>
+        SEMVER_BUMPS.indexOf(change.bump) > SEMVER_BUMPS.indexOf(bump)
+          ? change.bump
+          : bump,
+      'patch'
+    );
+  }
+
+  private createChange(
+    change: ApiChange['change'],
+    symbol: ApiSymbol,
+    bump: SemverBump,
+    details: string[]
+  ): ApiChange {
+    return {
+      change,
+      name: symbol.name,
+      kind: this.getKind(symbol.node),
+      file: symbol.file,
+      line: symbol.line,
+      bump,
+      details,
+    };
+  }
+
+  private compareSymbols(
+    before: ApiSymbol,
+    after: ApiSymbol,
+    base: ApiSnapshot,
+    head: ApiSnapshot
+  ): Difference[] {
+    const differences: Difference[] = [];
+    if (!before.typeOnly && after.typeOnly) {
+      differences.push({
+        message: 'now exported as a type only',
+        bump: 'major',
+      });
+    } else if (before.typeOnly && !after.typeOnly) {
+      differences.push({ message: 'now exported as a value', bump: 'minor' });
+    }
+
+    return [
+      ...differences,
+      ...this.compareNodes(
+        before.node,
+        after.node,
+        base.readFile(before.file),
+        head.readFile(after.file)
+      ),
+    ];
+  }
+
+  /**
+   * Compare two declarations: their kind, modifiers, signature, members
+   * and, for declarations the outline has no structure for, their text
+   * @private
+   */
+  private compareNodes(
+    before: NodeInfo,
+    after: NodeInfo,
+    baseSource: string | undefined,
+    headSource: string | undefined
+  ): Difference[] {
+    if (before.type !== after.type) {
+      return [
+        {
+          message: `changed from ${this.getKind(before)} to ${this.getKind(after)}`,
+          bump: 'major',
+        },
+      ];
+    }
+
+    const differences = this.compareModifiers(before, after);
+
+    if (before.signature && after.signature) {
+      differences.push(
+        ...this.compareSignatures(before.signature, after.signature)
+      );
+    } else if (before.signature || after.signature) {
+      differences.push({ message: 'signature changed', bump: 'major' });
+    }
+
+    const baseMembers = this.getMembers(before);
+    const headMembers = this.getMembers(after);
+    if (baseMembers || headMembers) {
+      // Type parameters and heritage clauses precede the body
+      const baseHeader = this.getHeaderText(before, baseSource);
+      const headHeader = this.getHeaderText(after, headSource);
+      if (!this.isSameText(baseHeader, headHeader)) {
+        differences.push({
+          message: `declaration changed from "${baseHeader}" to "${headHeader}"`,
+          bump: 'major',
+        });
+      }
+      differences.push(
+        ...this.compareMembers(
+          baseMembers ?? [],
+          headMembers ?? [],
+          after.type === 'interface_declaration',
+          baseSource,
+          headSource
+        )
+      );
+    } else if (!before.signature && !after.signature && !before.exportInfo) {
+      const baseText = this.getDeclarationText(before, baseSource);
+      const headText = this.getDeclarationText(after, headSource);
+      if (!this.isSameText(baseText, headText)) {
+        const subject = ANNOTATED_TYPES.includes(after.type)
+          ? 'type'
+          : 'definition';
+        differences.push({
+          message: `${subject} changed from "${baseText}" to "${headText}"`,
+          bump: 'major',
+        });
+      }
+    }
+
+    return differences;
+  }
+
+  private compareModifiers(before: NodeInfo, after: NodeInfo): Difference[] {
+    const differences: Difference[] = [];
+    const had = (modifier: string): boolean =>
+      before.modifiers?.includes(modifier) ?? false;
+    const has = (modifier: string): boolean =>
+      after.modifiers?.includes(modifier) ?? false;
+
+    if (had('optional') && !has('optional')) {
+      differences.push({ message: 'became required', bump: 'major' });
+    } else if (!had('optional') && has('optional')) {
+      differences.push({ message: 'became optional', bump: 'minor' });
+    }
+
+    for (const modifier of ['readonly', 'abstract']) {
+      if (!had(modifier) && has(modifier)) {
+        differences.push({ message: `became ${modifier}`, bump: 'major' });
+      } else if (had(modifier) && !has(modifier)) {
+        differences.push({ message: `no longer ${modifier}`, bump: 'minor' });
+      }
+    }
+
+    if (had('static') !== has('static')) {
+      differences.push({
+        message: has('static') ? 'became static' : 'no longer static',
+        bump: 'major',
+      });
+    }
+
+    const baseVisibility = this.getVisibility(before);
+    const headVisibility = this.getVisibility(after);
+    if (baseVisibility !== headVisibility) {
+      differences.push({
+        message: `became ${VISIBILITY[headVisibility]}`,
+        bump: headVisibility > baseVisibility ? 'major' : 'minor',
+      });
+    }
+
+    return differences;
+  }
+
+  private compareSignatures(
+    before: SignatureInfo,
+    after: SignatureInfo
+  ): Difference[] {
+    const differences: Difference[] = [];
+    const length = Math.max(before.parameters.length, after.parameters.length);
+
+    for (let i = 0; i < length; i++) {
+      const baseParameter = before.parameters[i];
+      const headParameter = after.parameters[i];
+
+      if (!baseParameter) {
+        differences.push(
+          this.isOptional(headParameter)
+            ? {
+                message: `added optional parameter "${headParameter.name}"`,
+                bump: 'minor',
+              }
+            : {
+                message: `added required parameter "${headParameter.name}"`,
+                bump: 'major',
+              }
+        );
+      } else if (!headParameter) {
+        differences.push({
+          message: `removed parameter "${baseParameter.name}"`,
+          bump: 'major',
+        });
+      } else {
+        differences.push(
+          ...this.compareParameters(baseParameter, headParameter)
+        );
+      }
+    }
+
+    const baseReturn = before.returnType ?? '(inferred)';
+    const headReturn = after.returnType ?? '(inferred)';
+    if (
+      !this.isSameText(this.normalize(baseReturn), this.normalize(headReturn))
+    ) {
+      differences.push({
+        message: `return type changed from "${baseReturn}" to "${headReturn}"`,
+        bump: 'major',
+      });
+    }
+
+    const baseTypeParameters = (before.typeParameters ?? []).join(', ');
+    const headTypeParameters = (after.typeParameters ?? []).join(', ');
+    if (!this.isSameText(baseTypeParameters, headTypeParameters)) {
+      differences.push({
+        message: `type parameters changed from <${baseTypeParameters}> to <${headTypeParameters}>`,
+        bump: 'major',
+      });
+    }
+
+    return differences;
+  }
+
+  private compareParameters(
+    before: ParameterInfo,
+    after: ParameterInfo
+  ): Difference[] {
+    const differences: Difference[] = [];
+    const name = after.name;
+
+    if (this.isOptional(before) && !this.isOptional(after)) {
+      differences.push({
+        message: `parameter "${name}" became required`,
+        bump: 'major',
+      });
+    } else if (!this.isOptional(before) && this.isOptional(after)) {
+      differences.push({
+        message: `parameter "${name}" became optional`,
+        bump: 'minor',
+      });
+    }
+
+    if (Boolean(before.rest) !== Boolean(after.rest)) {
+      differences.push({
+        message: after.rest
+          ? `parameter "${name}" became a rest parameter`
+          : `parameter "${name}" is no longer a rest parameter`,
+        bump: 'major',
+      });
+    }
+
+    const baseType = before.type ?? '(inferred)';
+    const headType = after.type ?? '(inferred)';
+    if (!this.isSameText(this.normalize(baseType), this.normalize(headType))) {
+      differences.push({
+        message: `parameter "${name}" type changed from "${baseType}" to "${headType}"`,
+        bump: 'major',
+      });
+    }
+
+    return differences;
+  }
+
+  private compareMembers(
+    before: NodeInfo[],
+    after: NodeInfo[],
+    isInterface: boolean,
+    baseSource: string | undefined,
+    headSource: string | undefined
+  ): Difference[] {
+    const baseMembers = this.indexMembers(before);
+    const headMembers = this.indexMembers(after);
+    const differences: Difference[] = [];
+
+    for (const [key, member] of baseMembers) {
+      const headMember = headMembers.get(key);
+      if (!headMember) {
+        differences.push({ message: `removed member "${key}"`, bump: 'major' });
+        continue;
+      }
+      for (const difference of this.compareNodes(
+        member,
+        headMember,
+        baseSource,
+        headSource
+      )) {
+        differences.push({
+          ...difference,
+          message: `member "${key}" ${difference.message}`,
+        });
+      }
+    }
+
+    for (const [key, member] of headMembers) {
+      if (baseMembers.has(key)) {
+        continue;
+      }
+      // Implementations of an interface must provide its new required members
+      differences.push(
+        isInterface && !member.modifiers?.includes('optional')
+          ? { message: `added required member "${key}"`, bump: 'major' }
+          : { message: `added member "${key}"`, bump: 'minor' }
+      );
+    }
+
+    return differences;
+  }
+
+  /**
+   * Public members by name ("static name" for static members); undefined
+   * for declarations without a body
+   * @private
+   */
+  private getMembers(node: NodeInfo): NodeInfo[] | undefined {
+    const containers = (node.children ?? []).filter((child) =>
+      MEMBER_CONTAINERS.includes(child.type)
+    );
+    return containers.length > 0
+      ? containers.flatMap((container) => container.children ?? [])
+      : undefined;
+  }
+
+  private indexMembers(members: NodeInfo[]): Map<string, NodeInfo> {
+    const index = new Map<string, NodeInfo>();
+    for (const member of members) {
+      if (
+        !member.name ||
+        member.name.startsWith('#') ||
+        member.modifiers?.includes('private')
+      ) {
+        continue;
+      }
+      const key = member.modifiers?.includes('static')
+        ? `static ${member.name}`
+        : member.name;
+      // Overloads and accessor pairs are compared by their first declaration
+      if (!index.has(key)) {
+        index.set(key, member);
+      }
+    }
+    return index;
+  }
+
+  private getVisibility(node: NodeInfo): number {
+    const visibility = VISIBILITY.findIndex((modifier) =>
+      node.modifiers?.includes(modifier)
+    );
+    return Math.max(visibility, 0);
+  }
+
+  private isOptional(parameter: ParameterInfo): boolean {
+    return (
+      parameter.optional === true ||
+      parameter.rest === true ||
+      parameter.defaultValue !== undefined
+    );
+  }
+
+  private getKind(node: NodeInfo): string {
+    return node.exportInfo ? 're-export' : getSymbolKind(node.type);
+  }
+
+  /**
+   * Text of a declaration on one line; for variables, fields and
+   * properties only their type annotation
+   * @private
+   */
+  private getDeclarationText(
+    node: NodeInfo,
+    source: string | undefined
+  ): string {
+    const text = this.normalize(this.sliceText(source, node.start, node.end));
+    if (!ANNOTATED_TYPES.includes(node.type)) {
+      return text;
+    }
+
+    // "readonly name?: Type = value" -> "Type"
+    const declaration = text.replace(/\s*=(?![=>]).*$/, '');
+    const colon = declaration.indexOf(':');
+    return colon === -1
+      ? '(inferred)'
+      : declaration.substring(colon + 1).trim();
+  }
+
+  /**
+   * Text of a class or interface declaration before its body
+   * @private
+   */
+  private getHeaderText(node: NodeInfo, source: string | undefined): string {
+    const body = node.children?.find((child) =>
+      MEMBER_CONTAINERS.includes(child.type)
+    );
+    return this.normalize(
+      this.sliceText(source, node.start, body?.start ?? node.end)
+    );
+  }
+
+  private sliceText(
+    source: string | undefined,
+    start: Position,
+    end: Position
+  ): string {
+    if (source === undefined) {
+      return '';
+    }
+    const lines = source.split('\n').slice(start.row, end.row + 1);
+    if (lines.length === 0) {
+      return '';
+    }
+    lines[lines.length - 1] = lines[lines.length - 1].substring(0, end.column);
+    lines[0] = lines[0].substring(start.column);
+    return lines.join('\n');
+  }
+
+  /**
+   * Collapse comments and whitespace so text can be shown on one line.
+   * String literals are kept as written, so the "//" of 'http://x' does not
+   * start a comment.
+   * @private
+   */
+  private normalize(text: string): string {
+    const withoutComments = this.replaceOutsideStrings(
+      text,
+      /\/\*[\s\S]*?\*\/|\/\/[^\n]*/,
+      () => ' '
+    );
+    return this.replaceOutsideStrings(withoutComments, /\s+/, () => ' ')
+      .trim()
+      .replace(/[;,]$/, '');
+  }
+
+  /**
+   * Whether two normalized texts differ only in spacing around punctuation
+   * @private
+   */
+  private isSameText(a: string, b: string): boolean {
+    const compact = (text: string): string =>
+      this.replaceOutsideStrings(text, /\s*[(){}<>[\],;:|&?=]\s*/, (match) =>
+        match.trim()
+      );
+    return compact(a) === compact(b);
+  }
+
+  /**
+   * Replace the matches of a pattern that are not inside a string literal
+   * @private
+   */
+  private replaceOutsideStrings(
+    text: string,
+    pattern: RegExp,
+    replace: (match: string) => string
+  ): string {
+    const combined = new RegExp(
+      `(${STRING_LITERAL.source})|${pattern.source}`,
+      'g'
+    );
+    return text.replace(
+      combined,
+      (match, literal: string | undefined) => literal ?? replace(match)
+    );
+  }
+}
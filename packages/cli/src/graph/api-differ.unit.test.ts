@@ -0,0 +1,384 @@
+import { describe, it, expect } from 'vitest';
+import type { NodeInfo, SignatureInfo } from '@sammons/code-outline-parser';
+import { ApiDiffer } from './api-differ.js';
+import type { ApiChange, ApiSnapshot } from './api-differ.js';
+import { ApiDiffRenderer, isApiDiffFormat } from './api-diff-renderer.js';
+import type { ApiDiffReport } from './api-diff-renderer.js';
+import type { ApiSymbol } from './api-surface.js';
+
+function node(
+  type: string,
+  row: number,
+  extra: Partial<NodeInfo> = {}
+): NodeInfo {
+  return {
+    type,
+    start: { row, column: 0 },
+    end: { row, column: 80 },
+    ...extra,
+  };
+}
+
+function fn(name: string, signature: SignatureInfo): ApiSymbol {
+  return symbol(name, node('function_declaration', 0, { name, signature }));
+}
+
+function symbol(
+  name: string,
+  declaration: NodeInfo,
+  typeOnly = false
+): ApiSymbol {
+  return {
+    name,
+    file: '/pkg/src/index.ts',
+    line: declaration.start.row + 1,
+    typeOnly,
+    node: declaration,
+  };
+}
+
+function snapshot(symbols: ApiSymbol[], source = ''): ApiSnapshot {
+  return { symbols, readFile: () => source };
+}
+
+const details = (changes: ApiChange[]): string[] =>
+  changes.flatMap((change) => change.details);
+
+describe('ApiDiffer', () => {
+  const differ = new ApiDiffer();
+
+  it('should report added and removed symbols', () => {
+    const changes = differ.diff(
+      snapshot([fn('connect', { parameters: [] })]),
+      snapshot([fn('open', { parameters: [] })])
+    );
+
+    expect(changes).toEqual([
+      {
+        change: 'removed',
+        name: 'connect',
+        kind: 'function',
+        file: '/pkg/src/index.ts',
+        line: 1,
+        bump: 'major',
+        details: [],
+      },
+      {
+        change: 'added',
+        name: 'open',
+        kind: 'function',
+        file: '/pkg/src/index.ts',
+        line: 1,
+        bump: 'minor',
+        details: [],
+      },
+    ]);
+    expect(ApiDiffer.getBump(changes)).toBe('major');
+  });
+
+  it('should classify parameter changes', () => {
+    const changes = differ.diff(
+      snapshot([
+        fn('connect', {
+          parameters: [
+            { name: 'url', type: 'string' },
+            { name: 'options', type: 'Options', optional: true },
+          ],
+          returnType: 'Client',
+        }),
+        fn('close', {
+          parameters: [{ name: 'client', type: 'Client' }],
+        }),
+      ]),
+      snapshot([
+        fn('connect', {
+          parameters: [
+            { name: 'url', type: 'string | URL' },
+            { name: 'options', type: 'Options' },
+          ],
+          returnType: 'Promise<Client>',
+        }),
+        fn('close', {
+          parameters: [
+            { name: 'client', type: 'Client' },
+            { name: 'force', type: 'boolean', defaultValue: 'false' },
+          ],
+        }),
+      ])
+    );
+
+    expect(changes.map((change) => [change.name, change.bump])).toEqual([
+      ['close', 'minor'],
+      ['connect', 'major'],
+    ]);
+    expect(details(changes)).toEqual([
+      'added optional parameter "force"',
+      'parameter "url" type changed from "string" to "string | URL"',
+      'parameter "options" became required',
+      'return type changed from "Client" to "Promise<Client>"',
+    ]);
+  });
+
+  it('should ignore whitespace and parameter renames', () => {
+    const changes = differ.diff(
+      snapshot([
+        fn('map', {
+          typeParameters: ['T'],
+          parameters: [{ name: 'items', type: 'Array<T>' }],
+          returnType: '{ a: T }',
+        }),
+      ]),
+      snapshot([
+        fn('map', {
+          typeParameters: ['T'],
+          parameters: [{ name: 'list', type: 'Array< T >' }],
+          returnType: '{a:T}',
+        }),
+      ])
+    );
+
+    expect(changes).toEqual([]);
+    expect(ApiDiffer.getBump(changes)).toBe('patch');
+  });
+
+  it('should compare members of classes and interfaces', () => {
+    const baseSource = [
+      'interface Options {',
+      '  retries: number;',
+      '  timeout?: number;',
+      '}',
+      'class Client {',
+      '  send(body: string): void {}',
+      '  close(): void {}',
+      '}',
+    ].join('\n');
+    const headSource = [
+      'interface Options {',
+      '  retries: string;',
+      '  timeout: number;',
+      '  signal: AbortSignal;',
+      '}',
+      'class Client {',
+      '  send(body: string): void {}',
+      '  private flush(): void {}',
+      '  static create(): Client {}',
+      '}',
+    ].join('\n');
+
+    const property = (row: number, name: string, optional = false): NodeInfo =>
+      node('property_signature', row, {
+        name,
+        end: { row, column: 40 },
+        ...(optional ? { modifiers: ['optional'] } : {}),
+      });
+    const method = (
+      row: number,
+      name: string,
+      modifiers: string[] = []
+    ): NodeInfo =>
+      node('method_definition', row, {
+        name,
+        signature: { parameters: [], returnType: 'void' },
+        ...(modifiers.length > 0 ? { modifiers } : {}),
+      });
+    const body = (type: string, members: NodeInfo[]): NodeInfo =>
+      node(type, members[0].start.row, { children: members });
+
+    const changes = differ.diff(
+      snapshot(
+        [
+          symbol(
+            'Options',
+            node('interface_declaration', 0, {
+              name: 'Options',
+              children: [
+                body('interface_body', [
+                  property(1, 'retries'),
+                  property(2, 'timeout', true),
+                ]),
+              ],
+            }),
+            true
+          ),
+          symbol(
+            'Client',
+            node('class_declaration', 4, {
+              name: 'Client',
+              children: [
+                body('class_body', [method(5, 'send'), method(6, 'close')]),
+              ],
+            })
+          ),
+        ],
+        baseSource
+      ),
+      snapshot(
+        [
+          symbol(
+            'Options',
+            node('interface_declaration', 0, {
+              name: 'Options',
+              children: [
+                body('interface_body', [
+                  property(1, 'retries'),
+                  property(2, 'timeout'),
+                  property(3, 'signal'),
+                ]),
+              ],
+            }),
+            true
+          ),
+          symbol(
+            'Client',
+            node('class_declaration', 5, {
+              name: 'Client',
+              children: [
+                body('class_body', [
+                  method(6, 'send'),
+                  method(7, 'flush', ['private']),
+                  method(8, 'create', ['static']),
+                ]),
+              ],
+            })
+          ),
+        ],
+        headSource
+      )
+    );
+
+    expect(changes.map((change) => change.details)).toEqual([
+      ['removed member "close"', 'added member "static create"'],
+      [
+        'member "retries" type changed from "number" to "string"',
+        'member "timeout" became required',
+        'added required member "signal"',
+      ],
+    ]);
+    expect(changes.map((change) => change.bump)).toEqual(['major', 'major']);
+  });
+
+  it('should keep "//" inside string literal types', () => {
+    const alias = symbol(
+      'Url',
+      node('type_alias_declaration', 0, { name: 'Url' }),
+      true
+    );
+
+    const changed = differ.diff(
+      snapshot([alias], "type Url = 'http://x' | 'https://x';"),
+      snapshot([alias], "type Url = 'http://y' | 'https://y';")
+    );
+    const unchanged = differ.diff(
+      snapshot([alias], "type Url = 'http://x'; // base url"),
+      snapshot([alias], "type Url = /* base */ 'http://x';")
+    );
+
+    expect(details(changed)).toEqual([
+      `definition changed from "type Url = 'http://x' | 'https://x'" to "type Url = 'http://y' | 'https://y'"`,
+    ]);
+    expect(unchanged).toEqual([]);
+  });
+
+  it('should report kind and export changes', () => {
+    const changes = differ.diff(
+      snapshot([
+        symbol('Config', node('class_declaration', 0, { name: 'Config' })),
+        symbol('Id', node('type_alias_declaration', 1, { name: 'Id' }), true),
+      ]),
+      snapshot([
+        symbol(
+          'Config',
+          node('interface_declaration', 0, { name: 'Config' }),
+          true
+        ),
+        symbol('Id', node('type_alias_declaration', 1, { name: 'Id' }), true),
+      ])
+    );
+
+    expect(details(changes)).toEqual([
+      'now exported as a type only',
+      'changed from class to interface',
+    ]);
+  });
+});
+
+describe('ApiDiffRenderer', () => {
+  const report: ApiDiffReport = {
+    base: 'main',
+    head: 'HEAD',
+    bump: 'major',
+    entries: [
+      {
+        entry: '/pkg/src/index.ts',
+        changes: [
+          {
+            change: 'changed',
+            name: 'connect',
+            kind: 'function',
+            file: '/pkg/src/client.ts',
+            line: 4,
+            bump: 'major',
+            details: [
+              'parameter "options" became required',
+              'type parameters changed from <T> to <T | U>',
+            ],
+          },
+          {
+            change: 'added',
+            name: 'close',
+            kind: 'function',
+            file: '/pkg/src/client.ts',
+            line: 9,
+            bump: 'minor',
+            details: [],
+          },
+        ],
+      },
+      { entry: '/pkg/src/cli.ts', changes: [] },
+    ],
+  };
+  const renderer = new ApiDiffRenderer({
+    label: (file): string => file.replace('/pkg/', ''),
+  });
+
+  it('should validate formats', () => {
+    expect(isApiDiffFormat('markdown')).toBe(true);
+    expect(isApiDiffFormat('yaml')).toBe(false);
+  });
+
+  it('should render text with details under each change', () => {
+    expect(renderer.render(report, 'ascii').split('\n')).toEqual([
+      'API changes main..HEAD',
+      '',
+      'src/index.ts',
+      '  ~ function connect  src/client.ts:4  [major]',
+      '      parameter "options" became required',
+      '      type parameters changed from <T> to <T | U>',
+      '  + function close  src/client.ts:9  [minor]',
+      '',
+      'src/cli.ts',
+      '  (no API changes)',
+      '',
+      'Suggested version bump: major',
+    ]);
+  });
+
+  it('should render JSON with labelled paths', () => {
+    const output = JSON.parse(renderer.render(report, 'json'));
+
+    expect(output.bump).toBe('major');
+    expect(output.entries[0].entry).toBe('src/index.ts');
+    expect(output.entries[0].changes[0].file).toBe('src/client.ts');
+  });
+
+  it('should render a Markdown table per entry point', () => {
+    const markdown = renderer.render(report, 'markdown');
+
+    expect(markdown).toContain('## API changes (`main` → `HEAD`)');
+    expect(markdown).toContain('Suggested version bump: **major**');
+    expect(markdown).toContain(
+      '| Changed | `connect` | function | `src/client.ts:4` | major | parameter "options" became required<br>type parameters changed from &lt;T> to &lt;T \\| U> |'
+    );
+    expect(markdown).toContain('### `src/cli.ts`\n\n_No public API changes._');
+  });
+});
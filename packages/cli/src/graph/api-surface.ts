@@ -0,0 +1,193 @@
+import type { NodeInfo } from '@sammons/code-outline-parser';
+import type { ModuleIndex } from './module-index.js';
+
+// Statements whose children can be the declaration of an exported name
+const DECLARATION_WRAPPERS = [
+  'export_statement',
+  'lexical_declaration',
+  'variable_declaration',
+  'ambient_declaration',
+];
+
+const TYPE_DECLARATIONS = ['interface_declaration', 'type_alias_declaration'];
+
+/**
+ * A symbol consumers can import from an entry point
+ */
+export interface ApiSymbol {
+  /** Name consumers import ("default" for default exports) */
+  name: string;
+  /** Absolute path of the file that declares the symbol */
+  file: string;
+  /** 1-based line of the declaration */
+  line: number;
+  typeOnly: boolean;
+  /**
+   * The declaration, or the export statement for namespace re-exports and
+   * names re-exported from packages
+   */
+  node: NodeInfo;
+}
+
+/**
+ * An `export * from` statement whose module could not be analyzed, so the
+ * names it forwards are unknown
+ */
+export interface UnfollowedExport {
+  file: string;
+  /** 1-based line of the export statement */
+  line: number;
+  source: string;
+}
+
+export interface ApiSurface {
+  /** Public symbols in name order */
+  symbols: ApiSymbol[];
+  unfollowed: UnfollowedExport[];
+}
+
+/**
+ * ApiSurfaceBuilder flattens the exports of an entry file into the symbols
+ * it makes public, tracing re-exports and barrels to the declarations
+ */
+export class ApiSurfaceBuilder {
+  /**
+   * @param index - Imports and exports of the entry and every module it re-exports from
+   * @param outlines - Parsed outlines of the indexed files
+   */
+  constructor(
+    private index: ModuleIndex,
+    private outlines: Map<string, NodeInfo | null>
+  ) {}
+
+  /**
+   * Build the public API of an entry file
+   * @param entry - Absolute path of an indexed entry file
+   */
+  build(entry: string): ApiSurface {
+    const symbols: ApiSymbol[] = [];
+    for (const name of [...this.index.getExportNames(entry)].sort()) {
+      const declaration = this.trace(entry, name, false, new Set());
+      if (declaration) {
+        symbols.push({ name, ...declaration });
+      }
+    }
+
+    return { symbols, unfollowed: this.findUnfollowed(entry, new Set()) };
+  }
+
+  /**
+   * Follow an exported name to the file and node that declare it
+   * @private
+   */
+  private trace(
+    file: string,
+    name: string,
+    typeOnly: boolean,
+    seen: Set<string>
+  ): Omit<ApiSymbol, 'name'> | undefined {
+    const key = `${file}#${name}`;
+    if (seen.has(key)) {
+      return undefined;
+    }
+    seen.add(key);
+
+    const moduleExport = this.index
+      .get(file)
+      ?.exports.find((candidate) => candidate.name === name);
+    if (!moduleExport) {
+      for (const source of this.index.getStarSources(file, name)) {
+        const declaration = this.trace(source, name, typeOnly, seen);
+        if (declaration) {
+          return declaration;
+        }
+      }
+      return undefined;
+    }
+
+    const isTypeOnly = typeOnly || moduleExport.typeOnly;
+    if (moduleExport.from && moduleExport.local !== '*') {
+      const declaration = this.trace(
+        moduleExport.from,
+        moduleExport.local,
+        isTypeOnly,
+        seen
+      );
+      if (declaration) {
+        return declaration;
+      }
+    }
+
+    const node =
+      (moduleExport.from || moduleExport.source
+        ? undefined
+        : this.findDeclaration(file, moduleExport.local)) ??
+      this.findStatement(file, moduleExport.line);
+    if (!node) {
+      return undefined;
+    }
+
+    return {
+      file,
+      line: node.start.row + 1,
+      typeOnly: isTypeOnly || TYPE_DECLARATIONS.includes(node.type),
+      node,
+    };
+  }
+
+  /**
+   * Find the top-level declaration of a local name
+   * @private
+   */
+  private findDeclaration(file: string, local: string): NodeInfo | undefined {
+    const search = (nodes: NodeInfo[]): NodeInfo | undefined => {
+      for (const node of nodes) {
+        if (DECLARATION_WRAPPERS.includes(node.type)) {
+          const declaration = search(node.children ?? []);
+          if (declaration) {
+            return declaration;
+          }
+        } else if (node.name === local && !node.importInfo) {
+          return node;
+        }
+      }
+      return undefined;
+    };
+
+    return search(this.outlines.get(file)?.children ?? []);
+  }
+
+  private findStatement(file: string, line: number): NodeInfo | undefined {
+    return this.outlines
+      .get(file)
+      ?.children?.find(
+        (node) => node.exportInfo !== undefined && node.start.row + 1 === line
+      );
+  }
+
+  /**
+   * Collect `export * from` statements reached from a file that point to
+   * packages or unresolved modules
+   * @private
+   */
+  private findUnfollowed(file: string, seen: Set<string>): UnfollowedExport[] {
+    if (seen.has(file)) {
+      return [];
+    }
+    seen.add(file);
+
+    const unfollowed: UnfollowedExport[] = [];
+    for (const { name, from, source, line } of this.index.get(file)?.exports ??
+      []) {
+      if (name !== '*') {
+        continue;
+      }
+      if (from) {
+        unfollowed.push(...this.findUnfollowed(from, seen));
+      } else if (source) {
+        unfollowed.push({ file, line, source });
+      }
+    }
+    return unfollowed;
+  }
+}
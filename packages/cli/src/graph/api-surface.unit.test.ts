@@ -0,0 +1,202 @@
+import { describe, it, expect } from 'vitest';
+import type { ExportBinding, NodeInfo } from '@sammons/code-outline-parser';
+import { ApiSurfaceBuilder } from './api-surface.js';
+import type { ApiSurface } from './api-surface.js';
+import { ModuleIndex } from './module-index.js';
+import { ModuleResolver } from './module-resolver.js';
+
+const FILES = [
+  '/pkg/src/index.ts',
+  '/pkg/src/client.ts',
+  '/pkg/src/utils/index.ts',
+  '/pkg/src/utils/strings.ts',
+  '/pkg/src/types.ts',
+];
+
+const resolver = new ModuleResolver({
+  host: {
+    fileExists: (path) => FILES.includes(path),
+    readFile: () => undefined,
+  },
+});
+
+function node(
+  type: string,
+  row: number,
+  extra: Partial<NodeInfo> = {}
+): NodeInfo {
+  return {
+    type,
+    start: { row, column: 0 },
+    end: { row, column: 20 },
+    ...extra,
+  };
+}
+
+const named = (exported: string, local = exported): ExportBinding => ({
+  exported,
+  local,
+  typeOnly: false,
+});
+
+/** `export <declaration>` */
+function exported(row: number, declaration: NodeInfo): NodeInfo {
+  const name = declaration.name ?? 'default';
+  return node('export_statement', row, {
+    name,
+    exportInfo: {
+      bindings: [
+        {
+          exported: name,
+          local: name,
+          typeOnly: declaration.type === 'interface_declaration',
+        },
+      ],
+      typeOnly: false,
+    },
+    children: [declaration],
+  });
+}
+
+/** `export { ... } from source`, or `export { ... }` without a source */
+function reExport(
+  row: number,
+  bindings: ExportBinding[],
+  source?: string
+): NodeInfo {
+  return node('export_statement', row, {
+    exportInfo: {
+      ...(source ? { source } : {}),
+      bindings,
+      typeOnly: false,
+    },
+  });
+}
+
+function build(
+  modules: Record<string, NodeInfo[]>,
+  entry = '/pkg/src/index.ts'
+): ApiSurface {
+  const index = new ModuleIndex(resolver);
+  const outlines = new Map<string, NodeInfo | null>();
+  for (const [file, statements] of Object.entries(modules)) {
+    const outline = node('program', 0, { children: statements });
+    index.add(file, outline);
+    outlines.set(file, outline);
+  }
+  return new ApiSurfaceBuilder(index, outlines).build(entry);
+}
+
+const locations = (surface: ApiSurface): string[] =>
+  surface.symbols.map(
+    ({ name, file, line, node }) => `${name} ${file}:${line} ${node.type}`
+  );
+
+describe('ApiSurfaceBuilder', () => {
+  it('should list declarations exported by the entry file', () => {
+    const surface = build({
+      '/pkg/src/index.ts': [
+        exported(0, node('class_declaration', 0, { name: 'Client' })),
+        node('lexical_declaration', 4, {
+          name: 'const VERSION',
+          children: [node('variable_declarator', 4, { name: 'VERSION' })],
+        }),
+        reExport(5, [named('VERSION')]),
+        exported(7, node('interface_declaration', 7, { name: 'Options' })),
+      ],
+    });
+
+    expect(locations(surface)).toEqual([
+      'Client /pkg/src/index.ts:1 class_declaration',
+      'Options /pkg/src/index.ts:8 interface_declaration',
+      'VERSION /pkg/src/index.ts:5 variable_declarator',
+    ]);
+    expect(surface.symbols.map((symbol) => symbol.typeOnly)).toEqual([
+      false,
+      true,
+      false,
+    ]);
+    expect(surface.unfollowed).toEqual([]);
+  });
+
+  it('should trace re-exports and export * barrels to declarations', () => {
+    const surface = build({
+      '/pkg/src/index.ts': [
+        reExport(0, [named('createClient', 'connect')], './client'),
+        reExport(1, [named('*')], './utils'),
+      ],
+      '/pkg/src/client.ts': [
+        exported(2, node('function_declaration', 2, { name: 'connect' })),
+      ],
+      '/pkg/src/utils/index.ts': [
+        reExport(0, [named('*')], './strings'),
+        reExport(1, [named('*')], 'lodash-es'),
+      ],
+      '/pkg/src/utils/strings.ts': [
+        exported(0, node('function_declaration', 0, { name: 'slugify' })),
+        exported(3, node('function_declaration', 3, { name: 'default' })),
+      ],
+    });
+
+    expect(locations(surface)).toEqual([
+      'createClient /pkg/src/client.ts:3 function_declaration',
+      'slugify /pkg/src/utils/strings.ts:1 function_declaration',
+    ]);
+    expect(surface.unfollowed).toEqual([
+      { file: '/pkg/src/utils/index.ts', line: 2, source: 'lodash-es' },
+    ]);
+  });
+
+  it('should keep type-only re-exports type-only', () => {
+    const surface = build({
+      '/pkg/src/index.ts': [
+        node('export_statement', 0, {
+          exportInfo: {
+            source: './client',
+            bindings: [{ exported: 'Client', local: 'Client', typeOnly: true }],
+            typeOnly: true,
+          },
+        }),
+      ],
+      '/pkg/src/client.ts': [
+        exported(0, node('class_declaration', 0, { name: 'Client' })),
+      ],
+    });
+
+    expect(surface.symbols).toMatchObject([
+      { name: 'Client', file: '/pkg/src/client.ts', typeOnly: true },
+    ]);
+  });
+
+  it('should list namespace and package re-exports at their export statement', () => {
+    const surface = build({
+      '/pkg/src/index.ts': [
+        reExport(0, [named('strings', '*')], './utils/strings'),
+        reExport(1, [named('debounce')], 'lodash-es'),
+      ],
+      '/pkg/src/utils/strings.ts': [
+        exported(0, node('function_declaration', 0, { name: 'slugify' })),
+      ],
+    });
+
+    expect(locations(surface)).toEqual([
+      'debounce /pkg/src/index.ts:2 export_statement',
+      'strings /pkg/src/index.ts:1 export_statement',
+    ]);
+  });
+
+  it('should stop at re-export cycles', () => {
+    const surface = build({
+      '/pkg/src/index.ts': [reExport(0, [named('*')], './types')],
+      '/pkg/src/types.ts': [
+        reExport(0, [named('*')], './index'),
+        exported(1, node('type_alias_declaration', 1, { name: 'Id' })),
+      ],
+    });
+
+    expect(locations(surface)).toEqual([
+      'Id /pkg/src/types.ts:2 type_alias_declaration',
+    ]);
+    expect(surface.symbols[0].typeOnly).toBe(true);
+  });
+});
@@ -0,0 +1,197 @@
+import type { ImportEdge, ImportGraph } from './import-graph.js';
+
+/**
+ * An import cycle: a chain of import sites leading back to its first file
+ */
+export interface ImportCycle {
+  /** Files of the strongly connected component the cycle belongs to */
+  files: string[];
+  /** Import sites in cycle order; the last one imports the first file */
+  steps: ImportEdge[];
+  /** True when the cycle only exists through type-only imports */
+  typeOnly: boolean;
+}
+
+export interface CycleDetectorOptions {
+  /** Ignore type-only imports, which are erased at runtime */
+  ignoreTypeOnly?: boolean;
+}
+
+/**
+ * CycleDetector finds the strongly connected components of an import graph
+ * and reports one representative cycle for each
+ */
+export class CycleDetector {
+  constructor(private options: CycleDetectorOptions = {}) {}
+
+  /**
+   * Find import cycles
+   * @param graph - The import graph
+   * @returns One cycle per strongly connected component, in file order
+   */
+  findCycles(graph: ImportGraph): ImportCycle[] {
+    const internalEdges = graph.edges.filter((edge) => !edge.external);
+    const valueCycles = this.collectCycles(
+      graph.files,
+      internalEdges.filter((edge) => !edge.typeOnly),
+      false
+    );
+    if (this.options.ignoreTypeOnly) {
+      return this.sortCycles(valueCycles);
+    }
+
+    // Components that only close through type-only imports
+    const inValueCycle = new Set(valueCycles.flatMap((cycle) => cycle.files));
+    const typeOnlyCycles = this.collectCycles(
+      graph.files,
+      internalEdges,
+      true
+    ).filter((cycle) => !cycle.files.some((file) => inValueCycle.has(file)));
+
+    return this.sortCycles([...valueCycles, ...typeOnlyCycles]);
+  }
+
+  private collectCycles(
+    files: string[],
+    edges: ImportEdge[],
+    typeOnly: boolean
+  ): ImportCycle[] {
+    const outgoing = new Map<string, ImportEdge[]>();
+    for (const edge of edges) {
+      outgoing.set(edge.from, [...(outgoing.get(edge.from) ?? []), edge]);
+    }
+
+    const cycles: ImportCycle[] = [];
+    for (const component of this.findComponents(files, outgoing)) {
+      const isCycle =
+        component.length > 1 ||
+        (outgoing.get(component[0]) ?? []).some(
+          (edge) => edge.to === component[0]
+        );
+      if (!isCycle) {
+        continue;
+      }
+
+      const members = [...component].sort();
+      cycles.push({
+        files: members,
+        steps: this.findPath(members[0], new Set(members), outgoing),
+        typeOnly,
+      });
+    }
+
+    return cycles;
+  }
+
+  private sortCycles(cycles: ImportCycle[]): ImportCycle[] {
+    return cycles.sort((a, b) => a.files[0].localeCompare(b.files[0]));
+  }
+
+  /**
+   * Tarjan's strongly connected components, iteratively so deep import
+   * chains cannot overflow the stack
+   * @private
+   */
+  private findComponents(
+    files: string[],
+    outgoing: Map<string, ImportEdge[]>
+  ): string[][] {
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const onStack = new Set<string>();
+    const stack: string[] = [];
+    const components: string[][] = [];
+
+    for (const root of files) {
+      if (index.has(root)) {
+        continue;
+      }
+
+      const work: Array<{ file: string; next: number }> = [
+        { file: root, next: 0 },
+      ];
+      while (work.length > 0) {
+        const frame = work[work.length - 1];
+        const { file } = frame;
+
+        if (frame.next === 0) {
+          index.set(file, index.size);
+          lowLink.set(file, index.get(file)!);
+          stack.push(file);
+          onStack.add(file);
+        }
+
+        const edges = outgoing.get(file) ?? [];
+        if (frame.next < edges.length) {
+          const target = edges[frame.next++].to;
+          if (!index.has(target)) {
+            work.push({ file: target, next: 0 });
+          } else if (onStack.has(target)) {
+            lowLink.set(file, Math.min(lowLink.get(file)!, index.get(target)!));
+          }
+          continue;
+        }
+
+        work.pop();
+        const parent = work[work.length - 1];
+        if (parent) {
+          lowLink.set(
+            parent.file,
+            Math.min(lowLink.get(parent.file)!, lowLink.get(file)!)
+          );
+        }
+
+        if (lowLink.get(file) === index.get(file)) {
+          const component: string[] = [];
+          let member: string;
+          do {
+            member = stack.pop()!;
+            onStack.delete(member);
+            component.push(member);
+          } while (member !== file);
+          components.push(component);
+        }
+      }
+    }
+
+    return components;
+  }
+
+  /**
+   * Shortest chain of imports from a file back to itself within a component
+   * @private
+   */
+  private findPath(
+    start: string,
+    members: Set<string>,
+    outgoing: Map<string, ImportEdge[]>
+  ): ImportEdge[] {
+    const via = new Map<string, ImportEdge>();
+    const queue = [start];
+
+    for (let i = 0; i < queue.length; i++) {
+      const file = queue[i];
+      for (const edge of outgoing.get(file) ?? []) {
+        if (!members.has(edge.to)) {
+          continue;
+        }
+
+        if (edge.to === start) {
+          const steps = [edge];
+          for (let step = via.get(file); step; step = via.get(step.from)) {
+            steps.unshift(step);
+          }
+          return steps;
+        }
+
+        if (!via.has(edge.to)) {
+          via.set(edge.to, edge);
+          queue.push(edge.to);
+        }
+      }
+    }
+
+    // Unreachable: every member of a component lies on a cycle
+    return [];
+  }
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { CycleDetector } from './cycle-detector.js';
+import type { ImportEdge, ImportGraph } from './import-graph.js';
+
+function edge(
+  from: string,
+  to: string,
+  line: number,
+  typeOnly = false
+): ImportEdge {
+  return {
+    from,
+    to,
+    specifier: `./${to}`,
+    line,
+    kind: 'import',
+    typeOnly,
+    names: [],
+    external: false,
+  };
+}
+
+function graph(files: string[], edges: ImportEdge[]): ImportGraph {
+  return { files, edges, unresolved: [] };
+}
+
+const route = (steps: ImportEdge[]): string[] =>
+  steps.map((step) => `${step.from}:${step.line}`);
+
+describe('CycleDetector', () => {
+  it('should report nothing for an acyclic graph', () => {
+    const acyclic = graph(
+      ['a', 'b', 'c'],
+      [edge('a', 'b', 1), edge('b', 'c', 1), edge('a', 'c', 2)]
+    );
+
+    expect(new CycleDetector().findCycles(acyclic)).toEqual([]);
+  });
+
+  it('should print each cycle as a chain starting at its first file', () => {
+    const cyclic = graph(
+      ['c', 'b', 'a', 'd'],
+      [
+        edge('a', 'b', 1),
+        edge('b', 'c', 4),
+        edge('c', 'a', 7),
+        edge('c', 'd', 8),
+      ]
+    );
+
+    const [cycle, ...rest] = new CycleDetector().findCycles(cyclic);
+
+    expect(rest).toEqual([]);
+    expect(cycle.files).toEqual(['a', 'b', 'c']);
+    expect(cycle.typeOnly).toBe(false);
+    expect(route(cycle.steps)).toEqual(['a:1', 'b:4', 'c:7']);
+    expect(cycle.steps.at(-1)?.to).toBe('a');
+  });
+
+  it('should find self-imports and separate components', () => {
+    const cyclic = graph(
+      ['a', 'b', 'x', 'y'],
+      [
+        edge('a', 'a', 3),
+        edge('x', 'y', 1),
+        edge('y', 'x', 2),
+        edge('a', 'x', 5),
+      ]
+    );
+
+    const cycles = new CycleDetector().findCycles(cyclic);
+
+    expect(cycles.map((cycle) => cycle.files)).toEqual([['a'], ['x', 'y']]);
+    expect(route(cycles[0].steps)).toEqual(['a:3']);
+  });
+
+  it('should use the shortest chain through a component', () => {
+    const cyclic = graph(
+      ['a', 'b', 'c'],
+      [
+        edge('a', 'b', 1),
+        edge('b', 'c', 1),
+        edge('c', 'a', 1),
+        edge('b', 'a', 2),
+      ]
+    );
+
+    const [cycle] = new CycleDetector().findCycles(cyclic);
+
+    expect(cycle.files).toEqual(['a', 'b', 'c']);
+    expect(route(cycle.steps)).toEqual(['a:1', 'b:2']);
+  });
+
+  it('should distinguish cycles that only close through type-only imports', () => {
+    const mixed = graph(
+      ['a', 'b', 'x', 'y'],
+      [
+        edge('a', 'b', 1),
+        edge('b', 'a', 2, true),
+        edge('x', 'y', 1),
+        edge('y', 'x', 2),
+        edge('y', 'x', 3, true),
+      ]
+    );
+
+    const cycles = new CycleDetector().findCycles(mixed);
+
+    expect(
+      cycles.map((cycle) => [cycle.files.join(','), cycle.typeOnly])
+    ).toEqual([
+      ['a,b', true],
+      ['x,y', false],
+    ]);
+    expect(cycles[0].steps.map((step) => step.typeOnly)).toEqual([false, true]);
+    // Value cycles are reported through value imports only
+    expect(route(cycles[1].steps)).toEqual(['x:1', 'y:2']);
+  });
+
+  it('should ignore type-only imports when asked', () => {
+    const typeCycle = graph(
+      ['a', 'b'],
+      [edge('a', 'b', 1), edge('b', 'a', 2, true)]
+    );
+
+    expect(
+      new CycleDetector({ ignoreTypeOnly: true }).findCycles(typeCycle)
+    ).toEqual([]);
+  });
+
+  it('should ignore external modules', () => {
+    const external = graph(['a'], [{ ...edge('a', 'a', 1), external: true }]);
+
+    expect(new CycleDetector().findCycles(external)).toEqual([]);
+  });
+});
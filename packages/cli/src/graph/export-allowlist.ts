@@ -0,0 +1,56 @@
+import { dirname, resolve } from 'node:path';
+
+/**
+ * ExportAllowlist matches exports that are intentionally public. Each line
+ * of an allowlist file is one entry:
+ *
+ *   src/api.ts#createClient   one export of a file
+ *   src/api.ts                every export of a file
+ *   createClient              an export name in any file
+ *
+ * Blank lines and lines starting with "#" are ignored; file paths are
+ * relative to the allowlist file
+ */
+export class ExportAllowlist {
+  private names = new Set<string>();
+  private files = new Set<string>();
+  private exports = new Set<string>();
+
+  /**
+   * @param text - Allowlist file contents
+   * @param allowlistPath - Path of the allowlist file
+   */
+  constructor(text: string, allowlistPath: string) {
+    const baseDir = dirname(resolve(allowlistPath));
+
+    for (const rawLine of text.split('\n')) {
+      const line = rawLine.trim();
+      if (line === '' || line.startsWith('#')) {
+        continue;
+      }
+
+      const separator = line.lastIndexOf('#');
+      if (separator !== -1) {
+        const file = resolve(baseDir, line.substring(0, separator));
+        this.exports.add(`${file}#${line.substring(separator + 1)}`);
+      } else if (line.includes('/') || line.includes('.')) {
+        this.files.add(resolve(baseDir, line));
+      } else {
+        this.names.add(line);
+      }
+    }
+  }
+
+  /**
+   * Whether an export is allowlisted
+   * @param file - Absolute path of the exporting file
+   * @param name - Exported name
+   */
+  has(file: string, name: string): boolean {
+    return (
+      this.names.has(name) ||
+      this.files.has(file) ||
+      this.exports.has(`${file}#${name}`)
+    );
+  }
+}
@@ -0,0 +1,203 @@
+import type { ImportEdge, ImportGraph } from './import-graph.js';
+
+// Output formats of dependency graphs
+export const GRAPH_FORMATS = ['ascii', 'json', 'dot', 'mermaid'] as const;
+export type GraphFormat = (typeof GRAPH_FORMATS)[number];
+
+export function isGraphFormat(format: string): format is GraphFormat {
+  return (GRAPH_FORMATS as readonly string[]).includes(format);
+}
+
+export interface GraphRenderOptions {
+  /** Include packages and Node.js built-ins as nodes */
+  includeExternal?: boolean;
+  /** Label of a file node (default: the path itself) */
+  label?: (file: string) => string;
+}
+
+interface GraphNode {
+  id: string;
+  external: boolean;
+}
+
+/**
+ * GraphRenderer prints an import graph as text, JSON, Graphviz DOT or a
+ * Mermaid flowchart
+ */
+export class GraphRenderer {
+  private label: (file: string) => string;
+
+  constructor(private options: GraphRenderOptions = {}) {
+    this.label = options.label ?? ((file): string => file);
+  }
+
+  render(graph: ImportGraph, format: GraphFormat): string {
+    switch (format) {
+      case 'ascii':
+        return this.renderAscii(graph);
+      case 'json':
+        return this.renderJson(graph);
+      case 'dot':
+        return this.renderDot(graph);
+      case 'mermaid':
+        return this.renderMermaid(graph);
+      default: {
+        const exhaustiveCheck: never = format;
+        throw new Error(`Unknown graph format: ${String(exhaustiveCheck)}`);
+      }
+    }
+  }
+
+  private renderAscii(graph: ImportGraph): string {
+    const lines: string[] = [];
+
+    for (const file of graph.files) {
+      lines.push(this.label(file));
+
+      const edges = this.getEdges(graph).filter((edge) => edge.from === file);
+      if (edges.length === 0) {
+        lines.push('  (no dependencies)');
+      }
+      for (const edge of edges) {
+        const notes = [`line ${edge.line}`];
+        if (edge.kind === 'export') {
+          notes.push('re-export');
+        }
+        if (edge.typeOnly) {
+          notes.push('type-only');
+        }
+        if (edge.external) {
+          notes.push('external');
+        }
+        lines.push(`  → ${this.getNodeId(edge)} (${notes.join(', ')})`);
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  private renderJson(graph: ImportGraph): string {
+    return JSON.stringify(
+      {
+        nodes: this.getNodes(graph),
+        edges: this.getEdges(graph).map((edge) => ({
+          from: this.label(edge.from),
+          to: this.getNodeId(edge),
+          specifier: edge.specifier,
+          line: edge.line,
+          kind: edge.kind,
+          typeOnly: edge.typeOnly,
+          names: edge.names,
+        })),
+        unresolved: graph.unresolved.map((entry) => ({
+          ...entry,
+          from: this.label(entry.from),
+        })),
+      },
+      null,
+      2
+    );
+  }
+
+  private renderDot(graph: ImportGraph): string {
+    const quote = (value: string): string =>
+      `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+    const lines = [
+      'digraph dependencies {',
+      '  rankdir=LR;',
+      '  node [shape=box];',
+    ];
+    for (const node of this.getNodes(graph)) {
+      lines.push(
+        node.external
+          ? `  ${quote(node.id)} [shape=ellipse];`
+          : `  ${quote(node.id)};`
+      );
+    }
+    for (const { from, to, typeOnly } of this.getLinks(graph)) {
+      lines.push(
+        `  ${quote(from)} -> ${quote(to)}${typeOnly ? ' [style=dashed]' : ''};`
+      );
+    }
+    lines.push('}');
+
+    return lines.join('\n');
+  }
+
+  private renderMermaid(graph: ImportGraph): string {
+    const nodeIds = new Map<string, string>();
+    const lines = ['graph LR'];
+
+    for (const node of this.getNodes(graph)) {
+      const nodeId = `n${nodeIds.size}`;
+      nodeIds.set(node.id, nodeId);
+      const label = node.id.replace(/"/g, '#quot;');
+      lines.push(
+        node.external ? `  ${nodeId}(["${label}"])` : `  ${nodeId}["${label}"]`
+      );
+    }
+    for (const { from, to, typeOnly } of this.getLinks(graph)) {
+      lines.push(
+        `  ${nodeIds.get(from)} ${typeOnly ? '-.->' : '-->'} ${nodeIds.get(to)}`
+      );
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Analyzed files followed by the modules they import
+   * @private
+   */
+  private getNodes(graph: ImportGraph): GraphNode[] {
+    const nodes = new Map<string, GraphNode>();
+    for (const file of graph.files) {
+      nodes.set(this.label(file), { id: this.label(file), external: false });
+    }
+    for (const edge of this.getEdges(graph)) {
+      const id = this.getNodeId(edge);
+      if (!nodes.has(id)) {
+        nodes.set(id, { id, external: edge.external });
+      }
+    }
+    return [...nodes.values()];
+  }
+
+  private getEdges(graph: ImportGraph): ImportEdge[] {
+    return this.options.includeExternal
+      ? graph.edges
+      : graph.edges.filter((edge) => !edge.external);
+  }
+
+  /**
+   * One link per pair of modules; type-only when every edge between them is
+   * @private
+   */
+  private getLinks(
+    graph: ImportGraph
+  ): Array<{ from: string; to: string; typeOnly: boolean }> {
+    const links = new Map<
+      string,
+      { from: string; to: string; typeOnly: boolean }
+    >();
+
+    for (const edge of this.getEdges(graph)) {
+      const from = this.label(edge.from);
+      const to = this.getNodeId(edge);
+      const key = `${from}\0${to}`;
+      const link = links.get(key);
+      if (link) {
+        link.typeOnly &&= edge.typeOnly;
+      } else {
+        links.set(key, { from, to, typeOnly: edge.typeOnly });
+      }
+    }
+
+    return [...links.values()];
+  }
+
+  private getNodeId(edge: ImportEdge): string {
+    return edge.external ? edge.to : this.label(edge.to);
+  }
+}
@@ -0,0 +1,105 @@
+import type { NodeInfo } from '@sammons/code-outline-parser';
+import type { ModuleResolver } from './module-resolver.js';
+
+/**
+ * An import or re-export of one module by another
+ */
+export interface ImportEdge {
+  /** Absolute path of the importing file */
+  from: string;
+  /** Absolute path of the imported file, or the package name for external modules */
+  to: string;
+  /** Module specifier as written */
+  specifier: string;
+  /** 1-based line of the statement */
+  line: number;
+  /** `export ... from` statements are re-exports */
+  kind: 'import' | 'export';
+  typeOnly: boolean;
+  /** Names taken from the imported module ("default", "*" for namespaces) */
+  names: string[];
+  external: boolean;
+}
+
+/**
+ * A specifier that could not be resolved to a file
+ */
+export interface UnresolvedImport {
+  from: string;
+  specifier: string;
+  line: number;
+}
+
+/**
+ * File-level dependency graph of a set of modules
+ */
+export interface ImportGraph {
+  /** Absolute paths of the analyzed files */
+  files: string[];
+  edges: ImportEdge[];
+  /** Relative and aliased specifiers that did not match any file */
+  unresolved: UnresolvedImport[];
+}
+
+/**
+ * ImportGraphBuilder resolves the import and re-export statements of parsed
+ * outlines into a dependency graph
+ */
+export class ImportGraphBuilder {
+  constructor(private resolver: ModuleResolver) {}
+
+  /**
+   * Build the graph of a set of parsed files
+   * @param results - Files with outlines that include their top-level statements
+   * @returns Graph edges in file and source order
+   */
+  build(
+    results: Array<{ file: string; outline: NodeInfo | null }>
+  ): ImportGraph {
+    const graph: ImportGraph = { files: [], edges: [], unresolved: [] };
+
+    for (const { file, outline } of results) {
+      graph.files.push(file);
+
+      // Module dependencies can only be declared at the top level
+      for (const statement of outline?.children ?? []) {
+        this.addStatement(graph, file, statement);
+      }
+    }
+
+    return graph;
+  }
+
+  private addStatement(
+    graph: ImportGraph,
+    file: string,
+    statement: NodeInfo
+  ): void {
+    const { importInfo, exportInfo } = statement;
+    const source = importInfo?.source ?? exportInfo?.source;
+    if (!source) {
+      return;
+    }
+
+    const line = statement.start.row + 1;
+    const resolved = this.resolver.resolve(source, file);
+    const to = resolved.external ? resolved.packageName : resolved.path;
+    if (!to) {
+      graph.unresolved.push({ from: file, specifier: source, line });
+      return;
+    }
+
+    graph.edges.push({
+      from: file,
+      to,
+      specifier: source,
+      line,
+      kind: importInfo ? 'import' : 'export',
+      typeOnly: Boolean(importInfo?.typeOnly ?? exportInfo?.typeOnly),
+      names: importInfo
+        ? importInfo.bindings.map((binding) => binding.imported)
+        : (exportInfo?.bindings ?? []).map((binding) => binding.local),
+      external: resolved.external,
+    });
+  }
+}
@@ -0,0 +1,215 @@
+import { describe, it, expect } from 'vitest';
+import type { NodeInfo } from '@sammons/code-outline-parser';
+import { ImportGraphBuilder } from './import-graph.js';
+import type { ImportGraph } from './import-graph.js';
+import { GraphRenderer, isGraphFormat } from './graph-renderer.js';
+import { ModuleResolver } from './module-resolver.js';
+
+function statement(row: number, extra: Partial<NodeInfo>): NodeInfo {
+  return {
+    type: extra.importInfo ? 'import_statement' : 'export_statement',
+    start: { row, column: 0 },
+    end: { row, column: 20 },
+    ...extra,
+  };
+}
+
+function program(children: NodeInfo[]): NodeInfo {
+  return {
+    type: 'program',
+    start: { row: 0, column: 0 },
+    end: { row: 10, column: 0 },
+    children,
+  };
+}
+
+const resolver = new ModuleResolver({
+  host: {
+    fileExists: (path) =>
+      ['/src/a.ts', '/src/b.ts', '/src/types.ts'].includes(path),
+    readFile: () => undefined,
+  },
+});
+
+function buildGraph(): ImportGraph {
+  return new ImportGraphBuilder(resolver).build([
+    {
+      file: '/src/a.ts',
+      outline: program([
+        statement(0, {
+          importInfo: {
+            source: './b',
+            bindings: [{ imported: 'b', local: 'b', typeOnly: false }],
+            typeOnly: false,
+          },
+        }),
+        statement(1, {
+          importInfo: {
+            source: './types.js',
+            bindings: [{ imported: 'T', local: 'T', typeOnly: true }],
+            typeOnly: true,
+          },
+        }),
+        statement(2, {
+          importInfo: { source: 'react', bindings: [], typeOnly: false },
+        }),
+        statement(3, {
+          importInfo: { source: './gone', bindings: [], typeOnly: false },
+        }),
+      ]),
+    },
+    {
+      file: '/src/b.ts',
+      outline: program([
+        statement(4, {
+          exportInfo: {
+            source: './types',
+            bindings: [{ exported: '*', local: '*', typeOnly: false }],
+            typeOnly: false,
+          },
+        }),
+        statement(5, {
+          exportInfo: {
+            bindings: [{ exported: 'b', local: 'b', typeOnly: false }],
+            typeOnly: false,
+          },
+        }),
+      ]),
+    },
+    { file: '/src/broken.ts', outline: null },
+  ]);
+}
+
+describe('ImportGraphBuilder', () => {
+  it('should resolve imports and re-exports into edges', () => {
+    const graph = buildGraph();
+
+    expect(graph.files).toEqual(['/src/a.ts', '/src/b.ts', '/src/broken.ts']);
+    expect(graph.edges).toEqual([
+      {
+        from: '/src/a.ts',
+        to: '/src/b.ts',
+        specifier: './b',
+        line: 1,
+        kind: 'import',
+        typeOnly: false,
+        names: ['b'],
+        external: false,
+      },
+      {
+        from: '/src/a.ts',
+        to: '/src/types.ts',
+        specifier: './types.js',
+        line: 2,
+        kind: 'import',
+        typeOnly: true,
+        names: ['T'],
+        external: false,
+      },
+      {
+        from: '/src/a.ts',
+        to: 'react',
+        specifier: 'react',
+        line: 3,
+        kind: 'import',
+        typeOnly: false,
+        names: [],
+        external: true,
+      },
+      {
+        from: '/src/b.ts',
+        to: '/src/types.ts',
+        specifier: './types',
+        line: 5,
+        kind: 'export',
+        typeOnly: false,
+        names: ['*'],
+        external: false,
+      },
+    ]);
+    expect(graph.unresolved).toEqual([
+      { from: '/src/a.ts', specifier: './gone', line: 4 },
+    ]);
+  });
+});
+
+describe('GraphRenderer', () => {
+  const label = (file: string): string => file.replace('/src/', '');
+
+  it('should validate graph formats', () => {
+    expect(isGraphFormat('mermaid')).toBe(true);
+    expect(isGraphFormat('yaml')).toBe(false);
+  });
+
+  it('should list dependencies under each file', () => {
+    const output = new GraphRenderer({ label }).render(buildGraph(), 'ascii');
+
+    expect(output.split('\n')).toEqual([
+      'a.ts',
+      '  → b.ts (line 1)',
+      '  → types.ts (line 2, type-only)',
+      'b.ts',
+      '  → types.ts (line 5, re-export)',
+      'broken.ts',
+      '  (no dependencies)',
+    ]);
+  });
+
+  it('should only include external modules when asked', () => {
+    const graph = buildGraph();
+    const withoutExternal = JSON.parse(
+      new GraphRenderer({ label }).render(graph, 'json')
+    );
+    const withExternal = JSON.parse(
+      new GraphRenderer({ label, includeExternal: true }).render(graph, 'json')
+    );
+
+    expect(withoutExternal.nodes).toEqual([
+      { id: 'a.ts', external: false },
+      { id: 'b.ts', external: false },
+      { id: 'broken.ts', external: false },
+      { id: 'types.ts', external: false },
+    ]);
+    expect(withExternal.nodes).toContainEqual({ id: 'react', external: true });
+    expect(withExternal.edges[2]).toEqual({
+      from: 'a.ts',
+      to: 'react',
+      specifier: 'react',
+      line: 3,
+      kind: 'import',
+      typeOnly: false,
+      names: [],
+    });
+    expect(withoutExternal.unresolved).toEqual([
+      { from: 'a.ts', specifier: './gone', line: 4 },
+    ]);
+  });
+
+  it('should render DOT with dashed type-only links', () => {
+    const output = new GraphRenderer({ label, includeExternal: true }).render(
+      buildGraph(),
+      'dot'
+    );
+
+    expect(output).toContain('digraph dependencies {');
+    expect(output).toContain('"react" [shape=ellipse];');
+    expect(output).toContain('"a.ts" -> "b.ts";');
+    expect(output).toContain('"a.ts" -> "types.ts" [style=dashed];');
+    expect(output.endsWith('}')).toBe(true);
+  });
+
+  it('should render Mermaid flowcharts', () => {
+    const output = new GraphRenderer({ label }).render(buildGraph(), 'mermaid');
+
+    expect(output.split('\n')).toEqual([
+      'graph LR',
+      '  n0["a.ts"]',
+      '  n1["b.ts"]',
+      '  n2["broken.ts"]',
+      '  n3["types.ts"]',
+      '  n0 --> n1',
+      '  n0 -.-> n3',
+      '  n1 --> n3',
+    ]);
+  });
+});
@@ -0,0 +1,46 @@
+export type {
+  ModuleResolverOptions,
+  PackageEntry,
+  ResolvedModule,
+  ResolverHost,
+} from './module-resolver.js';
+export { ModuleResolver, fileSystemHost } from './module-resolver.js';
+export type { TsconfigPaths } from './tsconfig-reader.js';
+export { TsconfigReader } from './tsconfig-reader.js';
+export type {
+  ImportEdge,
+  ImportGraph,
+  UnresolvedImport,
+} from './import-graph.js';
+export { ImportGraphBuilder } from './import-graph.js';
+export type { CycleDetectorOptions, ImportCycle } from './cycle-detector.js';
+export { CycleDetector } from './cycle-detector.js';
+export type {
+  ModuleExport,
+  ModuleImport,
+  ModuleRecord,
+} from './module-index.js';
+export { ModuleIndex } from './module-index.js';
+export type { UnusedExport } from './unused-export-finder.js';
+export { UnusedExportFinder } from './unused-export-finder.js';
+export { ExportAllowlist } from './export-allowlist.js';
+export type { ApiSurface, ApiSymbol, UnfollowedExport } from './api-surface.js';
+export { ApiSurfaceBuilder } from './api-surface.js';
+export type { ApiChange, ApiSnapshot, SemverBump } from './api-differ.js';
+export { ApiDiffer, SEMVER_BUMPS } from './api-differ.js';
+export type {
+  ApiDiffFormat,
+  ApiDiffRenderOptions,
+  ApiDiffReport,
+} from './api-diff-renderer.js';
+export {
+  API_DIFF_FORMATS,
+  ApiDiffRenderer,
+  isApiDiffFormat,
+} from './api-diff-renderer.js';
+export type { GraphFormat, GraphRenderOptions } from './graph-renderer.js';
+export {
+  GRAPH_FORMATS,
+  GraphRenderer,
+  isGraphFormat,
+} from './graph-renderer.js';
@@ -0,0 +1,167 @@
+import type { NodeInfo } from '@sammons/code-outline-parser';
+import type { ModuleResolver } from './module-resolver.js';
+
+/**
+ * A name exported by a module
+ */
+export interface ModuleExport {
+  /** Exported name ("*" for `export * from`) */
+  name: string;
+  /** Local name, or the name in the module it is re-exported from ("*" for namespaces) */
+  local: string;
+  /** 1-based line of the export statement */
+  line: number;
+  typeOnly: boolean;
+  /** Specifier of `export ... from` statements */
+  source?: string;
+  /** Resolved file the name is re-exported from */
+  from?: string;
+}
+
+/**
+ * A name a module imports from another analyzed module
+ */
+export interface ModuleImport {
+  /** Name in the imported module ("default", or "*" for namespaces) */
+  imported: string;
+  local: string;
+  /** 1-based line of the import statement */
+  line: number;
+  typeOnly: boolean;
+  /** Resolved file; undefined for packages and unresolved specifiers */
+  from?: string;
+}
+
+export interface ModuleRecord {
+  file: string;
+  exports: ModuleExport[];
+  imports: ModuleImport[];
+}
+
+/**
+ * ModuleIndex records the resolved imports and exports of parsed files so
+ * names can be traced through re-exports and barrel files
+ */
+export class ModuleIndex {
+  private modules = new Map<string, ModuleRecord>();
+
+  constructor(private resolver: ModuleResolver) {}
+
+  /**
+   * Index a parsed file
+   * @param file - Absolute path of the file
+   * @param outline - Outline including its top-level statements
+   */
+  add(file: string, outline: NodeInfo | null): ModuleRecord {
+    const record: ModuleRecord = { file, exports: [], imports: [] };
+    const resolveFile = (source: string): string | undefined => {
+      const resolved = this.resolver.resolve(source, file);
+      return resolved.external ? undefined : resolved.path;
+    };
+
+    for (const statement of outline?.children ?? []) {
+      const line = statement.start.row + 1;
+      const { importInfo, exportInfo } = statement;
+
+      if (importInfo) {
+        const from = resolveFile(importInfo.source);
+        for (const binding of importInfo.bindings) {
+          record.imports.push({
+            ...binding,
+            line,
+            ...(from ? { from } : {}),
+          });
+        }
+      }
+
+      if (exportInfo) {
+        const from = exportInfo.source
+          ? resolveFile(exportInfo.source)
+          : undefined;
+        for (const binding of exportInfo.bindings) {
+          record.exports.push({
+            name: binding.exported,
+            local: binding.local,
+            line,
+            typeOnly: binding.typeOnly,
+            ...(exportInfo.source ? { source: exportInfo.source } : {}),
+            ...(from ? { from } : {}),
+          });
+        }
+      }
+    }
+
+    // `import { x } from './a'; export { x };` re-exports a's x
+    for (const moduleExport of record.exports) {
+      const binding = moduleExport.from
+        ? undefined
+        : record.imports.find((entry) => entry.local === moduleExport.local);
+      if (binding?.from) {
+        moduleExport.from = binding.from;
+        moduleExport.local = binding.imported;
+      }
+    }
+
+    this.modules.set(file, record);
+    return record;
+  }
+
+  get(file: string): ModuleRecord | undefined {
+    return this.modules.get(file);
+  }
+
+  has(file: string): boolean {
+    return this.modules.has(file);
+  }
+
+  get records(): ModuleRecord[] {
+    return [...this.modules.values()];
+  }
+
+  /**
+   * Names a module exports, including names forwarded by `export * from`
+   * (which never forwards "default")
+   * @param file - Absolute path of an indexed file
+   */
+  getExportNames(file: string, seen = new Set<string>()): Set<string> {
+    const names = new Set<string>();
+    const record = this.modules.get(file);
+    if (!record || seen.has(file)) {
+      return names;
+    }
+    seen.add(file);
+
+    for (const moduleExport of record.exports) {
+      if (moduleExport.name !== '*') {
+        names.add(moduleExport.name);
+      } else if (moduleExport.from) {
+        for (const name of this.getExportNames(moduleExport.from, seen)) {
+          if (name !== 'default') {
+            names.add(name);
+          }
+        }
+      }
+    }
+
+    return names;
+  }
+
+  /**
+   * Modules that `export * from` statements of a file forward a name from
+   * @param file - Absolute path of an indexed file
+   * @param name - Exported name the file does not export itself
+   */
+  getStarSources(file: string, name: string): string[] {
+    if (name === 'default') {
+      return [];
+    }
+
+    return (this.modules.get(file)?.exports ?? [])
+      .filter(
+        (moduleExport): moduleExport is ModuleExport & { from: string } =>
+          moduleExport.name === '*' && moduleExport.from !== undefined
+      )
+      .map((moduleExport) => moduleExport.from)
+      .filter((from) => this.getExportNames(from).has(name));
+  }
+}
@@ -0,0 +1,457 @@
+import { existsSync, readFileSync, statSync } from 'node:fs';
+import { builtinModules } from 'node:module';
+import {
+  dirname,
+  extname,
+  isAbsolute,
+  join,
+  relative,
+  resolve,
+} from 'node:path';
+import type { TsconfigPaths } from './tsconfig-reader.js';
+
+// Extensions tried, in order, for extensionless specifiers
+const SOURCE_EXTENSIONS = [
+  '.ts',
+  '.tsx',
+  '.d.ts',
+  '.js',
+  '.jsx',
+  '.mjs',
+  '.cjs',
+  '.mts',
+  '.cts',
+];
+
+// TypeScript sources that compile to a JavaScript extension ("./a.js" -> a.ts)
+const SOURCE_EXTENSIONS_FOR_OUTPUT: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts'],
+};
+
+// package.json "exports" conditions honoured, in priority order
+const DEFAULT_CONDITIONS = ['types', 'import', 'require', 'node', 'default'];
+
+/**
+ * File access used by the resolver, so modules can be resolved against
+ * something other than the working tree
+ */
+export interface ResolverHost {
+  /** True when the path exists and is a file */
+  fileExists(path: string): boolean;
+  /** File contents, or undefined when the file does not exist */
+  readFile(path: string): string | undefined;
+}
+
+export interface ModuleResolverOptions extends TsconfigPaths {
+  host?: ResolverHost;
+  /** package.json "exports" conditions (default: types, import, require, node, default) */
+  conditions?: string[];
+}
+
+/**
+ * Where a module specifier points to
+ */
+export interface ResolvedModule {
+  specifier: string;
+  /** Absolute path of the resolved file, undefined when it was not found */
+  path?: string;
+  /** True for packages and Node.js built-ins */
+  external: boolean;
+  /** Package name of external modules, e.g. "react" or "node:fs" */
+  packageName?: string;
+}
+
+/**
+ * An entry point of a package
+ */
+export interface PackageEntry {
+  /** Subpath consumers import, e.g. "." or "./utils" */
+  subpath: string;
+  /** Absolute path of the entry file, undefined when it was not found */
+  path?: string;
+}
+
+interface PackageJson {
+  main?: unknown;
+  types?: unknown;
+  typings?: unknown;
+  module?: unknown;
+  exports?: unknown;
+}
+
+/**
+ * Reads from the file system
+ */
+export const fileSystemHost: ResolverHost = {
+  fileExists: (path) => existsSync(path) && statSync(path).isFile(),
+  readFile: (path) =>
+    existsSync(path) && statSync(path).isFile()
+      ? readFileSync(path, 'utf-8')
+      : undefined,
+};
+
+/**
+ * ModuleResolver maps import specifiers to files the way TypeScript's
+ * bundler resolution does: relative paths, extensionless imports, index
+ * files, tsconfig `paths`/`baseUrl` aliases and package.json `exports`
+ */
+export class ModuleResolver {
+  private host: ResolverHost;
+  private conditions: string[];
+
+  constructor(private options: ModuleResolverOptions = {}) {
+    this.host = options.host ?? fileSystemHost;
+    this.conditions = options.conditions ?? DEFAULT_CONDITIONS;
+  }
+
+  /**
+   * Resolve a module specifier
+   * @param specifier - The specifier as written, e.g. "./utils" or "react"
+   * @param fromFile - Absolute path of the importing file
+   * @returns The resolved module; `path` is undefined when no file matched
+   */
+  resolve(specifier: string, fromFile: string): ResolvedModule {
+    if (this.isRelative(specifier)) {
+      return {
+        specifier,
+        path: this.resolveFileOrDirectory(
+          resolve(dirname(fromFile), specifier)
+        ),
+        external: false,
+      };
+    }
+
+    if (specifier.startsWith('node:') || builtinModules.includes(specifier)) {
+      return { specifier, external: true, packageName: specifier };
+    }
+
+    const aliased = this.resolveAlias(specifier);
+    if (aliased) {
+      return { specifier, path: aliased, external: false };
+    }
+
+    const packageName = this.getPackageName(specifier);
+    return {
+      specifier,
+      path: this.resolvePackage(specifier, packageName, dirname(fromFile)),
+      external: true,
+      packageName,
+    };
+  }
+
+  /**
+   * List the entry points of a package: every subpath of its package.json
+   * "exports" map ("*" patterns are skipped), or its main entry
+   * @param packageDir - Absolute path of the package directory
+   * @throws Error when the directory has no valid package.json
+   */
+  resolvePackageEntries(packageDir: string): PackageEntry[] {
+    const packageJson = this.readPackageJson(packageDir);
+    if (!packageJson) {
+      throw new Error(`No valid package.json in ${packageDir}`);
+    }
+
+    const { exports } = packageJson;
+    if (exports === undefined) {
+      return [{ subpath: '.', path: this.resolveDirectory(packageDir) }];
+    }
+
+    const subpaths =
+      this.isRecord(exports) &&
+      Object.keys(exports).every((key) => key.startsWith('.'))
+        ? Object.keys(exports).filter((key) => !key.includes('*'))
+        : ['.'];
+    return subpaths.map((subpath) => ({
+      subpath,
+      path: this.resolveExports(packageDir, exports, subpath),
+    }));
+  }
+
+  private isRelative(specifier: string): boolean {
+    return (
+      specifier === '.' ||
+      specifier === '..' ||
+      specifier.startsWith('./') ||
+      specifier.startsWith('../') ||
+      specifier.startsWith('/')
+    );
+  }
+
+  /**
+   * Resolve through tsconfig `paths` patterns, then `baseUrl`
+   * @private
+   */
+  private resolveAlias(specifier: string): string | undefined {
+    const { paths, pathsBase, baseUrl } = this.options;
+
+    if (paths && pathsBase) {
+      for (const [pattern, targets] of Object.entries(paths)) {
+        const match = this.matchPattern(pattern, specifier);
+        if (match === undefined) {
+          continue;
+        }
+        for (const target of targets) {
+          const path = this.resolveFileOrDirectory(
+            resolve(pathsBase, target.replace('*', match))
+          );
+          if (path) {
+            return path;
+          }
+        }
+      }
+    }
+
+    return baseUrl
+      ? this.resolveFileOrDirectory(resolve(baseUrl, specifier))
+      : undefined;
+  }
+
+  /**
+   * Match a pattern with at most one "*" wildcard
+   * @returns The text matched by the wildcard ("" for exact patterns), or
+   * undefined when the specifier does not match
+   * @private
+   */
+  private matchPattern(pattern: string, specifier: string): string | undefined {
+    const star = pattern.indexOf('*');
+    if (star === -1) {
+      return pattern === specifier ? '' : undefined;
+    }
+
+    const prefix = pattern.substring(0, star);
+    const suffix = pattern.substring(star + 1);
+    if (
+      specifier.length >= prefix.length + suffix.length &&
+      specifier.startsWith(prefix) &&
+      specifier.endsWith(suffix)
+    ) {
+      return specifier.substring(
+        prefix.length,
+        specifier.length - suffix.length
+      );
+    }
+    return undefined;
+  }
+
+  private getPackageName(specifier: string): string {
+    const segments = specifier.split('/');
+    return specifier.startsWith('@')
+      ? segments.slice(0, 2).join('/')
+      : segments[0];
+  }
+
+  /**
+   * Find the package in the nearest node_modules and resolve the subpath
+   * @private
+   */
+  private resolvePackage(
+    specifier: string,
+    packageName: string,
+    fromDir: string
+  ): string | undefined {
+    const subpath = `.${specifier.substring(packageName.length)}`;
+
+    for (let dir = fromDir; ; dir = dirname(dir)) {
+      const packageDir = join(dir, 'node_modules', packageName);
+      const packageJson = this.readPackageJson(packageDir);
+      if (packageJson) {
+        if (packageJson.exports !== undefined) {
+          return this.resolveExports(packageDir, packageJson.exports, subpath);
+        }
+        return subpath === '.'
+          ? this.resolveDirectory(packageDir)
+          : this.resolveFileOrDirectory(join(packageDir, subpath));
+      }
+      if (dirname(dir) === dir) {
+        return undefined;
+      }
+    }
+  }
+
+  /**
+   * Resolve a subpath through a package.json "exports" field
+   * @private
+   */
+  private resolveExports(
+    packageDir: string,
+    exports: unknown,
+    subpath: string
+  ): string | undefined {
+    // "exports": "./index.js" or { "import": ... } only define the root
+    if (
+      !this.isRecord(exports) ||
+      !Object.keys(exports).every((key) => key.startsWith('.'))
+    ) {
+      return subpath === '.'
+        ? this.resolveExportTarget(packageDir, exports, '')
+        : undefined;
+    }
+
+    const entries = Object.entries(exports);
+    const exact = entries.find(([key]) => key === subpath);
+    if (exact) {
+      return this.resolveExportTarget(packageDir, exact[1], '');
+    }
+
+    // Longest matching "./features/*" style pattern wins
+    let best: { match: string; target: unknown; length: number } | undefined;
+    for (const [key, target] of entries) {
+      const match = key.includes('*')
+        ? this.matchPattern(key, subpath)
+        : undefined;
+      if (match !== undefined && (!best || key.length > best.length)) {
+        best = { match, target, length: key.length };
+      }
+    }
+    return best
+      ? this.resolveExportTarget(packageDir, best.target, best.match)
+      : undefined;
+  }
+
+  private resolveExportTarget(
+    packageDir: string,
+    target: unknown,
+    match: string
+  ): string | undefined {
+    if (typeof target === 'string') {
+      const path = join(packageDir, target.replace(/\*/g, match));
+      return (
+        this.resolveSource(path) ??
+        (this.host.fileExists(path) ? path : this.resolveFileOrDirectory(path))
+      );
+    }
+
+    if (Array.isArray(target)) {
+      for (const candidate of target) {
+        const path = this.resolveExportTarget(packageDir, candidate, match);
+        if (path) {
+          return path;
+        }
+      }
+      return undefined;
+    }
+
+    if (this.isRecord(target)) {
+      // Conditions are checked in the order the package lists them
+      for (const [condition, value] of Object.entries(target)) {
+        if (this.conditions.includes(condition)) {
+          const path = this.resolveExportTarget(packageDir, value, match);
+          if (path) {
+            return path;
+          }
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Resolve a path as a file (trying extensions) or as a directory
+   * @private
+   */
+  private resolveFileOrDirectory(path: string): string | undefined {
+    return this.resolveFile(path) ?? this.resolveDirectory(path);
+  }
+
+  private resolveFile(path: string): string | undefined {
+    const source = this.resolveSource(path);
+    if (source) {
+      return source;
+    }
+
+    const extension = extname(path);
+    const base = path.substring(0, path.length - extension.length);
+
+    // ESM-style TypeScript imports name the compiled file ("./a.js")
+    for (const sourceExtension of SOURCE_EXTENSIONS_FOR_OUTPUT[extension] ??
+      []) {
+      if (this.host.fileExists(base + sourceExtension)) {
+        return base + sourceExtension;
+      }
+    }
+
+    if (this.host.fileExists(path)) {
+      return path;
+    }
+
+    return SOURCE_EXTENSIONS.map((candidate) => path + candidate).find(
+      (candidate) => this.host.fileExists(candidate)
+    );
+  }
+
+  /**
+   * Resolve a file in the tsconfig outDir ("dist/index.d.ts") to its source
+   * in rootDir ("src/index.ts")
+   * @private
+   */
+  private resolveSource(path: string): string | undefined {
+    const { outDir, rootDir } = this.options;
+    if (!outDir || !rootDir) {
+      return undefined;
+    }
+
+    const outputPath = relative(outDir, path);
+    if (
+      outputPath === '' ||
+      outputPath.startsWith('..') ||
+      isAbsolute(outputPath)
+    ) {
+      return undefined;
+    }
+    const sourcePath = join(rootDir, outputPath).replace(
+      /\.d\.([mc]?)ts$/,
+      '.$1js'
+    );
+    // Guard against a rootDir inside outDir
+    return relative(outDir, sourcePath).startsWith('..')
+      ? this.resolveFile(sourcePath)
+      : undefined;
+  }
+
+  /**
+   * Resolve a directory through its package.json entry or index file
+   * @private
+   */
+  private resolveDirectory(dir: string): string | undefined {
+    const packageJson = this.readPackageJson(dir);
+    if (packageJson) {
+      for (const field of [
+        packageJson.types,
+        packageJson.typings,
+        packageJson.module,
+        packageJson.main,
+      ]) {
+        const path =
+          typeof field === 'string'
+            ? this.resolveFile(join(dir, field))
+            : undefined;
+        if (path) {
+          return path;
+        }
+      }
+    }
+
+    return this.resolveFile(join(dir, 'index'));
+  }
+
+  private readPackageJson(dir: string): PackageJson | undefined {
+    const text = this.host.readFile(join(dir, 'package.json'));
+    if (text === undefined) {
+      return undefined;
+    }
+    try {
+      const json: unknown = JSON.parse(text);
+      return this.isRecord(json) ? json : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private isRecord(value: unknown): value is Record<string, unknown> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+  }
+}
@@ -0,0 +1,271 @@
+import { describe, it, expect } from 'vitest';
+import type { ResolverHost } from './module-resolver.js';
+import { ModuleResolver } from './module-resolver.js';
+import { TsconfigReader } from './tsconfig-reader.js';
+
+function createHost(files: Record<string, string>): ResolverHost {
+  return {
+    fileExists: (path) => path in files,
+    readFile: (path) => files[path],
+  };
+}
+
+const FILES: Record<string, string> = {
+  '/repo/src/index.ts': '',
+  '/repo/src/utils.ts': '',
+  '/repo/src/view.tsx': '',
+  '/repo/src/styles.css': '',
+  '/repo/src/api/index.ts': '',
+  '/repo/src/lib/math.js': '',
+  '/repo/src/app/main.ts': '',
+  '/repo/packages/shared/package.json': JSON.stringify({
+    types: './src/index.ts',
+  }),
+  '/repo/packages/shared/src/index.ts': '',
+  '/repo/node_modules/exported/package.json': JSON.stringify({
+    exports: {
+      '.': { types: './dist/index.d.ts', default: './dist/index.js' },
+      './feature': './dist/feature.js',
+      './plugins/*': { import: './dist/plugins/*.mjs' },
+      './internal/*': null,
+    },
+  }),
+  '/repo/node_modules/exported/dist/index.d.ts': '',
+  '/repo/node_modules/exported/dist/index.js': '',
+  '/repo/node_modules/exported/dist/feature.js': '',
+  '/repo/node_modules/exported/dist/plugins/cache.mjs': '',
+  '/repo/node_modules/@scope/classic/package.json': JSON.stringify({
+    main: 'lib/main.js',
+  }),
+  '/repo/node_modules/@scope/classic/lib/main.js': '',
+};
+
+describe('ModuleResolver', () => {
+  const from = '/repo/src/index.ts';
+  const resolver = new ModuleResolver({ host: createHost(FILES) });
+
+  describe('relative specifiers', () => {
+    it('should try source extensions for extensionless imports', () => {
+      expect(resolver.resolve('./utils', from)).toEqual({
+        specifier: './utils',
+        path: '/repo/src/utils.ts',
+        external: false,
+      });
+      expect(resolver.resolve('./view', from).path).toBe('/repo/src/view.tsx');
+    });
+
+    it('should map compiled extensions back to TypeScript sources', () => {
+      expect(resolver.resolve('./utils.js', from).path).toBe(
+        '/repo/src/utils.ts'
+      );
+      expect(resolver.resolve('./lib/math.js', from).path).toBe(
+        '/repo/src/lib/math.js'
+      );
+    });
+
+    it('should resolve directories through index files', () => {
+      expect(resolver.resolve('./api', from).path).toBe(
+        '/repo/src/api/index.ts'
+      );
+      expect(resolver.resolve('..', '/repo/src/api/index.ts').path).toBe(
+        '/repo/src/index.ts'
+      );
+    });
+
+    it('should resolve directories through their package.json', () => {
+      expect(resolver.resolve('../packages/shared', from).path).toBe(
+        '/repo/packages/shared/src/index.ts'
+      );
+    });
+
+    it('should keep existing non-source files', () => {
+      expect(resolver.resolve('./styles.css', from).path).toBe(
+        '/repo/src/styles.css'
+      );
+    });
+
+    it('should leave missing files unresolved', () => {
+      expect(resolver.resolve('./missing', from)).toEqual({
+        specifier: './missing',
+        path: undefined,
+        external: false,
+      });
+    });
+  });
+
+  describe('packages', () => {
+    it('should treat Node.js built-ins as external', () => {
+      expect(resolver.resolve('node:fs', from)).toEqual({
+        specifier: 'node:fs',
+        external: true,
+        packageName: 'node:fs',
+      });
+      expect(resolver.resolve('path', from).packageName).toBe('path');
+    });
+
+    it('should resolve package.json exports with conditions', () => {
+      expect(resolver.resolve('exported', from)).toEqual({
+        specifier: 'exported',
+        path: '/repo/node_modules/exported/dist/index.d.ts',
+        external: true,
+        packageName: 'exported',
+      });
+      expect(resolver.resolve('exported/feature', from).path).toBe(
+        '/repo/node_modules/exported/dist/feature.js'
+      );
+    });
+
+    it('should resolve subpath patterns and honour blocked subpaths', () => {
+      expect(resolver.resolve('exported/plugins/cache', from).path).toBe(
+        '/repo/node_modules/exported/dist/plugins/cache.mjs'
+      );
+      expect(
+        resolver.resolve('exported/internal/secret', from).path
+      ).toBeUndefined();
+      expect(resolver.resolve('exported/unlisted', from).path).toBeUndefined();
+    });
+
+    it('should fall back to main for packages without exports', () => {
+      expect(resolver.resolve('@scope/classic', from)).toEqual({
+        specifier: '@scope/classic',
+        path: '/repo/node_modules/@scope/classic/lib/main.js',
+        external: true,
+        packageName: '@scope/classic',
+      });
+    });
+
+    it('should report unknown packages as external without a path', () => {
+      expect(resolver.resolve('left-pad/lib', from)).toEqual({
+        specifier: 'left-pad/lib',
+        path: undefined,
+        external: true,
+        packageName: 'left-pad',
+      });
+    });
+  });
+
+  describe('package entries', () => {
+    const lib = new ModuleResolver({
+      host: createHost({
+        ...FILES,
+        '/repo/packages/lib/package.json': JSON.stringify({
+          exports: {
+            '.': { types: './dist/index.d.ts', import: './dist/index.js' },
+            './cli': './dist/cli/index.js',
+            './missing': './dist/missing.js',
+            './plugins/*': './dist/plugins/*.js',
+          },
+        }),
+        '/repo/packages/lib/src/index.ts': '',
+        '/repo/packages/lib/src/cli/index.ts': '',
+      }),
+      outDir: '/repo/packages/lib/dist',
+      rootDir: '/repo/packages/lib/src',
+    });
+
+    it('should list export subpaths mapped from outDir to their sources', () => {
+      expect(lib.resolvePackageEntries('/repo/packages/lib')).toEqual([
+        { subpath: '.', path: '/repo/packages/lib/src/index.ts' },
+        { subpath: './cli', path: '/repo/packages/lib/src/cli/index.ts' },
+        { subpath: './missing', path: undefined },
+      ]);
+    });
+
+    it('should fall back to the main entry without exports', () => {
+      expect(resolver.resolvePackageEntries('/repo/packages/shared')).toEqual([
+        { subpath: '.', path: '/repo/packages/shared/src/index.ts' },
+      ]);
+    });
+
+    it('should reject directories without package.json', () => {
+      expect(() => resolver.resolvePackageEntries('/repo/src')).toThrow(
+        'No valid package.json in /repo/src'
+      );
+    });
+  });
+
+  describe('tsconfig aliases', () => {
+    const aliased = new ModuleResolver({
+      host: createHost(FILES),
+      baseUrl: '/repo/src',
+      pathsBase: '/repo',
+      paths: {
+        '@app/*': ['src/app/*'],
+        '@shared': ['missing/shared', 'packages/shared'],
+      },
+    });
+
+    it('should resolve wildcard and exact paths patterns', () => {
+      expect(aliased.resolve('@app/main', from)).toEqual({
+        specifier: '@app/main',
+        path: '/repo/src/app/main.ts',
+        external: false,
+      });
+      expect(aliased.resolve('@shared', from).path).toBe(
+        '/repo/packages/shared/src/index.ts'
+      );
+    });
+
+    it('should resolve non-relative specifiers against baseUrl', () => {
+      expect(aliased.resolve('api', from).path).toBe('/repo/src/api/index.ts');
+      expect(aliased.resolve('exported', from).external).toBe(true);
+    });
+  });
+});
+
+describe('TsconfigReader', () => {
+  it('should read paths and baseUrl through extends chains', () => {
+    const reader = new TsconfigReader(
+      createHost({
+        '/repo/tsconfig.base.json': `{
+          // Shared settings
+          "compilerOptions": {
+            "baseUrl": "./src",
+            "paths": { "@app/*": ["app/*"], },
+          },
+        }`,
+        '/repo/packages/web/tsconfig.json': `{
+          "extends": "../../tsconfig.base.json",
+          /* "paths" is inherited */
+          "compilerOptions": { "outDir": "dist//out" }
+        }`,
+      })
+    );
+
+    expect(reader.read('/repo/packages/web/tsconfig.json')).toEqual({
+      baseUrl: '/repo/src',
+      paths: { '@app/*': ['app/*'] },
+      pathsBase: '/repo/src',
+      outDir: '/repo/packages/web/dist/out',
+    });
+  });
+
+  it('should resolve paths relative to the config without baseUrl', () => {
+    const reader = new TsconfigReader(
+      createHost({
+        '/repo/tsconfig.json': JSON.stringify({
+          compilerOptions: { paths: { '~/*': ['./src/*'] } },
+        }),
+      })
+    );
+
+    expect(reader.read('/repo/tsconfig.json')).toEqual({
+      paths: { '~/*': ['./src/*'] },
+      pathsBase: '/repo',
+    });
+  });
+
+  it('should return empty settings for missing configs', () => {
+    const reader = new TsconfigReader(createHost({}));
+    expect(reader.read('/repo/tsconfig.json')).toEqual({});
+  });
+
+  it('should reject invalid JSON', () => {
+    const reader = new TsconfigReader(
+      createHost({ '/repo/tsconfig.json': '{ "compilerOptions": ' })
+    );
+    expect(() => reader.read('/repo/tsconfig.json')).toThrow(
+      /Invalid tsconfig \/repo\/tsconfig.json/
+    );
+  });
+});
@@ -0,0 +1,158 @@
+import { dirname, isAbsolute, join, resolve } from 'node:path';
+import type { ResolverHost } from './module-resolver.js';
+
+/**
+ * Module resolution settings read from a tsconfig.json
+ */
+export interface TsconfigPaths {
+  /** Absolute directory non-relative specifiers are resolved against */
+  baseUrl?: string;
+  /** Path alias patterns, e.g. { "@app/*": ["src/app/*"] } */
+  paths?: Record<string, string[]>;
+  /** Absolute directory alias targets are relative to */
+  pathsBase?: string;
+  /** Absolute directory compiled files are written to */
+  outDir?: string;
+  /** Absolute directory of the sources compiled into outDir */
+  rootDir?: string;
+}
+
+interface CompilerOptionsJson {
+  baseUrl?: unknown;
+  paths?: unknown;
+  outDir?: unknown;
+  rootDir?: unknown;
+}
+
+/**
+ * TsconfigReader loads `baseUrl`, `paths`, `outDir` and `rootDir` from a
+ * tsconfig.json, following `extends` chains
+ */
+export class TsconfigReader {
+  constructor(private host: ResolverHost) {}
+
+  /**
+   * Read the path settings of a tsconfig file
+   * @param configPath - Absolute path of the tsconfig.json
+   * @returns The merged settings (empty when the file does not exist)
+   * @throws Error when a config in the chain is not valid JSON
+   */
+  read(configPath: string): TsconfigPaths {
+    return this.readConfig(configPath, new Set());
+  }
+
+  private readConfig(configPath: string, seen: Set<string>): TsconfigPaths {
+    const text = this.host.readFile(configPath);
+    if (text === undefined || seen.has(configPath)) {
+      return {};
+    }
+    seen.add(configPath);
+
+    let json: { extends?: unknown; compilerOptions?: CompilerOptionsJson };
+    try {
+      json = JSON.parse(TsconfigReader.stripJsonComments(text));
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error occurred';
+      throw new Error(`Invalid tsconfig ${configPath}: ${errorMessage}`);
+    }
+
+    // Settings of later bases override earlier ones, the config itself wins
+    const bases = Array.isArray(json.extends) ? json.extends : [json.extends];
+    let result: TsconfigPaths = {};
+    for (const base of bases) {
+      if (typeof base === 'string') {
+        const basePath = this.resolveExtends(base, dirname(configPath));
+        if (basePath) {
+          result = { ...result, ...this.readConfig(basePath, seen) };
+        }
+      }
+    }
+
+    const configDir = dirname(configPath);
+    const { baseUrl, paths, outDir, rootDir } = json.compilerOptions ?? {};
+    if (typeof baseUrl === 'string') {
+      result.baseUrl = resolve(configDir, baseUrl);
+    }
+    if (typeof outDir === 'string') {
+      result.outDir = resolve(configDir, outDir);
+    }
+    if (typeof rootDir === 'string') {
+      result.rootDir = resolve(configDir, rootDir);
+    }
+    if (paths && typeof paths === 'object') {
+      result.paths = Object.fromEntries(
+        Object.entries(paths).filter(
+          (entry): entry is [string, string[]] =>
+            Array.isArray(entry[1]) &&
+            entry[1].every((target) => typeof target === 'string')
+        )
+      );
+      result.pathsBase = configDir;
+    }
+    // Aliases are relative to baseUrl when one is set
+    if (result.baseUrl) {
+      result.pathsBase = result.baseUrl;
+    }
+
+    return result;
+  }
+
+  /**
+   * Remove comments and trailing commas so tsconfig (JSONC) text can be
+   * parsed with JSON.parse
+   */
+  static stripJsonComments(text: string): string {
+    let output = '';
+    let inString = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      const next = text[i + 1];
+
+      if (inString) {
+        output += char;
+        if (char === '\\') {
+          output += next ?? '';
+          i++;
+        } else if (char === '"') {
+          inString = false;
+        }
+      } else if (char === '"') {
+        inString = true;
+        output += char;
+      } else if (char === '/' && next === '/') {
+        while (i < text.length && text[i] !== '\n') {
+          i++;
+        }
+        output += '\n';
+      } else if (char === '/' && next === '*') {
+        const end = text.indexOf('*/', i + 2);
+        i = end === -1 ? text.length : end + 1;
+      } else {
+        output += char;
+      }
+    }
+
+    return output.replace(/,(\s*[}\]])/g, '$1');
+  }
+
+  private resolveExtends(base: string, fromDir: string): string | undefined {
+    if (base.startsWith('.') || isAbsolute(base)) {
+      const path = resolve(fromDir, base);
+      return path.endsWith('.json') ? path : `${path}.json`;
+    }
+
+    // Shared configs published as packages, e.g. "@tsconfig/node20/tsconfig.json"
+    const file = base.endsWith('.json') ? base : join(base, 'tsconfig.json');
+    for (let dir = fromDir; ; dir = dirname(dir)) {
+      const candidate = join(dir, 'node_modules', file);
+      if (this.host.fileExists(candidate)) {
+        return candidate;
+      }
+      if (dirname(dir) === dir) {
+        return undefined;
+      }
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import type { ModuleIndex } from './module-index.js';
+
+/**
+ * An exported name no analyzed module imports
+ */
+export interface UnusedExport {
+  file: string;
+  /** 1-based line of the export statement */
+  line: number;
+  name: string;
+  typeOnly: boolean;
+  /** True for names re-exported from another module */
+  reExport: boolean;
+}
+
+/**
+ * UnusedExportFinder reports exports that are not imported by any other
+ * indexed module, following re-exports, namespace imports and `export *`
+ */
+export class UnusedExportFinder {
+  private used = new Map<string, Set<string>>();
+
+  constructor(private index: ModuleIndex) {}
+
+  /**
+   * Find unused exports
+   * @param entries - Absolute paths of entry files, whose exports are public
+   * @returns Unused exports in file and line order
+   */
+  find(entries: string[] = []): UnusedExport[] {
+    this.used.clear();
+
+    for (const record of this.index.records) {
+      for (const { from, imported } of record.imports) {
+        if (!from || from === record.file) {
+          continue;
+        }
+        if (imported === '*') {
+          this.markAllUsed(from);
+        } else {
+          this.markUsed(from, imported);
+        }
+      }
+    }
+
+    for (const entry of entries) {
+      this.markAllUsed(entry);
+    }
+
+    const entrySet = new Set(entries);
+    const unused: UnusedExport[] = [];
+    for (const record of this.index.records) {
+      if (entrySet.has(record.file)) {
+        continue;
+      }
+
+      const usedNames = this.used.get(record.file);
+      for (const moduleExport of record.exports) {
+        if (moduleExport.name === '*' || usedNames?.has(moduleExport.name)) {
+          continue;
+        }
+        unused.push({
+          file: record.file,
+          line: moduleExport.line,
+          name: moduleExport.name,
+          typeOnly: moduleExport.typeOnly,
+          reExport: moduleExport.from !== undefined,
+        });
+      }
+    }
+
+    return unused.sort(
+      (a, b) => a.file.localeCompare(b.file) || a.line - b.line
+    );
+  }
+
+  /**
+   * Mark a name as imported and forward the use to the module it is
+   * re-exported from
+   * @private
+   */
+  private markUsed(file: string, name: string): void {
+    const record = this.index.get(file);
+    const usedNames = this.used.get(file) ?? new Set<string>();
+    if (!record || usedNames.has(name)) {
+      return;
+    }
+    usedNames.add(name);
+    this.used.set(file, usedNames);
+
+    const ownExports = record.exports.filter(
+      (moduleExport) => moduleExport.name === name
+    );
+    for (const { from, local } of ownExports) {
+      if (!from) {
+        continue;
+      }
+      if (local === '*') {
+        this.markAllUsed(from);
+      } else {
+        this.markUsed(from, local);
+      }
+    }
+
+    if (ownExports.length === 0) {
+      for (const source of this.index.getStarSources(file, name)) {
+        this.markUsed(source, name);
+      }
+    }
+  }
+
+  private markAllUsed(file: string): void {
+    for (const name of this.index.getExportNames(file)) {
+      this.markUsed(file, name);
+    }
+  }
+}
@@ -0,0 +1,308 @@
+import { describe, it, expect } from 'vitest';
+import type {
+  ExportBinding,
+  ImportBinding,
+  NodeInfo,
+} from '@sammons/code-outline-parser';
+import { ExportAllowlist } from './export-allowlist.js';
+import { ModuleIndex } from './module-index.js';
+import { ModuleResolver } from './module-resolver.js';
+import { UnusedExportFinder } from './unused-export-finder.js';
+import type { UnusedExport } from './unused-export-finder.js';
+
+const FILES = [
+  '/src/index.ts',
+  '/src/api.ts',
+  '/src/barrel.ts',
+  '/src/util.ts',
+  '/src/types.ts',
+  '/src/consumer.ts',
+];
+
+const resolver = new ModuleResolver({
+  host: {
+    fileExists: (path) => FILES.includes(path),
+    readFile: () => undefined,
+  },
+});
+
+const imported = (name: string): ImportBinding =>
+  name.startsWith('* as ')
+    ? { imported: '*', local: name.substring(5), typeOnly: false }
+    : { imported: name, local: name, typeOnly: false };
+
+/** `export { local as exported }`, or a re-export when the statement has a source */
+const named = (exported: string, local = exported): ExportBinding => ({
+  exported,
+  local,
+  typeOnly: false,
+});
+
+const declared = (name: string, typeOnly = false): ExportBinding => ({
+  exported: name,
+  local: name,
+  typeOnly,
+});
+
+function importOf(row: number, source: string, names: string[]): NodeInfo {
+  return {
+    type: 'import_statement',
+    start: { row, column: 0 },
+    end: { row, column: 20 },
+    importInfo: {
+      source,
+      bindings: names.map(imported),
+      typeOnly: false,
+    },
+  };
+}
+
+function exportOf(
+  row: number,
+  bindings: ExportBinding[],
+  source?: string
+): NodeInfo {
+  return {
+    type: 'export_statement',
+    start: { row, column: 0 },
+    end: { row, column: 20 },
+    exportInfo: {
+      ...(source ? { source } : {}),
+      bindings,
+      typeOnly: bindings.every((entry) => entry.typeOnly),
+    },
+  };
+}
+
+function program(children: NodeInfo[]): NodeInfo {
+  return {
+    type: 'program',
+    start: { row: 0, column: 0 },
+    end: { row: 10, column: 0 },
+    children,
+  };
+}
+
+function buildIndex(modules: Record<string, NodeInfo[]>): ModuleIndex {
+  const index = new ModuleIndex(resolver);
+  for (const [file, statements] of Object.entries(modules)) {
+    index.add(file, program(statements));
+  }
+  return index;
+}
+
+const names = (unused: UnusedExport[]): string[] =>
+  unused.map(({ file, name }) => `${file}#${name}`);
+
+describe('ModuleIndex', () => {
+  it('should resolve imports and exports of internal modules', () => {
+    const index = buildIndex({
+      '/src/index.ts': [
+        importOf(0, './util', ['helper']),
+        importOf(1, 'react', ['useState']),
+        exportOf(2, [named('*')], './api'),
+      ],
+    });
+
+    const record = index.get('/src/index.ts');
+    expect(record?.imports).toEqual([
+      {
+        imported: 'helper',
+        local: 'helper',
+        typeOnly: false,
+        line: 1,
+        from: '/src/util.ts',
+      },
+      {
+        imported: 'useState',
+        local: 'useState',
+        typeOnly: false,
+        line: 2,
+      },
+    ]);
+    expect(record?.exports).toEqual([
+      {
+        name: '*',
+        local: '*',
+        line: 3,
+        typeOnly: false,
+        source: './api',
+        from: '/src/api.ts',
+      },
+    ]);
+  });
+
+  it('should treat an imported name that is exported again as a re-export', () => {
+    const index = buildIndex({
+      '/src/barrel.ts': [
+        importOf(0, './util', ['helper']),
+        exportOf(1, [named('aid', 'helper')]),
+      ],
+    });
+
+    expect(index.get('/src/barrel.ts')?.exports).toEqual([
+      {
+        name: 'aid',
+        local: 'helper',
+        line: 2,
+        typeOnly: false,
+        from: '/src/util.ts',
+      },
+    ]);
+  });
+
+  it('should forward names through export * except default', () => {
+    const index = buildIndex({
+      '/src/util.ts': [
+        exportOf(0, [declared('helper')]),
+        exportOf(1, [declared('default')]),
+      ],
+      '/src/barrel.ts': [exportOf(0, [named('*')], './util')],
+    });
+
+    expect([...index.getExportNames('/src/barrel.ts')]).toEqual(['helper']);
+    expect(index.getStarSources('/src/barrel.ts', 'helper')).toEqual([
+      '/src/util.ts',
+    ]);
+    expect(index.getStarSources('/src/barrel.ts', 'default')).toEqual([]);
+  });
+});
+
+describe('UnusedExportFinder', () => {
+  it('should report exports nothing imports', () => {
+    const index = buildIndex({
+      '/src/util.ts': [
+        exportOf(0, [declared('helper')]),
+        exportOf(3, [declared('unusedHelper')]),
+        exportOf(5, [declared('Options', true)]),
+      ],
+      '/src/consumer.ts': [
+        importOf(0, './util', ['helper']),
+        exportOf(2, [declared('run')]),
+      ],
+    });
+
+    expect(new UnusedExportFinder(index).find()).toEqual([
+      {
+        file: '/src/consumer.ts',
+        line: 3,
+        name: 'run',
+        typeOnly: false,
+        reExport: false,
+      },
+      {
+        file: '/src/util.ts',
+        line: 4,
+        name: 'unusedHelper',
+        typeOnly: false,
+        reExport: false,
+      },
+      {
+        file: '/src/util.ts',
+        line: 6,
+        name: 'Options',
+        typeOnly: true,
+        reExport: false,
+      },
+    ]);
+  });
+
+  it('should treat exports of entry files as used', () => {
+    const index = buildIndex({
+      '/src/index.ts': [
+        exportOf(0, [named('createClient')], './api'),
+        exportOf(1, [declared('version')]),
+      ],
+      '/src/api.ts': [
+        exportOf(0, [declared('createClient')]),
+        exportOf(1, [declared('internal')]),
+      ],
+    });
+
+    expect(
+      names(new UnusedExportFinder(index).find(['/src/index.ts']))
+    ).toEqual(['/src/api.ts#internal']);
+  });
+
+  it('should follow renamed re-exports and export * chains', () => {
+    const index = buildIndex({
+      '/src/index.ts': [
+        exportOf(0, [named('makeClient', 'createClient')], './barrel'),
+      ],
+      '/src/barrel.ts': [
+        exportOf(0, [named('*')], './api'),
+        exportOf(1, [named('*')], './types'),
+      ],
+      '/src/api.ts': [
+        exportOf(0, [declared('createClient')]),
+        exportOf(1, [declared('closeClient')]),
+      ],
+      '/src/types.ts': [exportOf(0, [declared('Client', true)])],
+    });
+
+    expect(
+      names(new UnusedExportFinder(index).find(['/src/index.ts']))
+    ).toEqual(['/src/api.ts#closeClient', '/src/types.ts#Client']);
+  });
+
+  it('should mark every export used by a namespace import or re-export', () => {
+    const index = buildIndex({
+      '/src/consumer.ts': [importOf(0, './util', ['* as util'])],
+      '/src/index.ts': [exportOf(0, [named('api', '*')], './barrel')],
+      '/src/barrel.ts': [exportOf(0, [named('*')], './api')],
+      '/src/util.ts': [exportOf(0, [declared('a'), declared('b')])],
+      '/src/api.ts': [exportOf(0, [declared('createClient')])],
+    });
+
+    expect(new UnusedExportFinder(index).find(['/src/index.ts'])).toEqual([]);
+  });
+
+  it('should report unused re-exports of non-entry files', () => {
+    const index = buildIndex({
+      '/src/barrel.ts': [exportOf(0, [named('helper')], './util')],
+      '/src/util.ts': [exportOf(0, [declared('helper')])],
+    });
+
+    expect(new UnusedExportFinder(index).find()).toEqual([
+      {
+        file: '/src/barrel.ts',
+        line: 1,
+        name: 'helper',
+        typeOnly: false,
+        reExport: true,
+      },
+      {
+        file: '/src/util.ts',
+        line: 1,
+        name: 'helper',
+        typeOnly: false,
+        reExport: false,
+      },
+    ]);
+  });
+});
+
+describe('ExportAllowlist', () => {
+  const allowlist = new ExportAllowlist(
+    [
+      '# Public API used by plugins',
+      'src/api.ts#createClient',
+      '',
+      'src/types.ts',
+      'VERSION',
+    ].join('\n'),
+    '/project/.unused-exports'
+  );
+
+  it('should match names in a file, whole files and bare names', () => {
+    expect(allowlist.has('/project/src/api.ts', 'createClient')).toBe(true);
+    expect(allowlist.has('/project/src/api.ts', 'closeClient')).toBe(false);
+    expect(allowlist.has('/project/src/types.ts', 'Client')).toBe(true);
+    expect(allowlist.has('/project/src/util.ts', 'VERSION')).toBe(true);
+  });
+
+  it('should ignore comments and blank lines', () => {
+    expect(allowlist.has('/project/src/util.ts', 'Public')).toBe(false);
+    expect(allowlist.has('/project/src/util.ts', '')).toBe(false);
+  });
+});
@@ -5,6 +5,52 @@ export { CLIOrchestrator } from './cli-orchestrator';
 export { CLIArgumentParser } from './cli-argument-parser';
 export { FileProcessor } from './file-processor';
 export { CLIOutputHandler } from './cli-output-handler';
+export { OutlineFilter } from './outline-filter';
+export { ChangedSymbolFilter } from './changed-symbol-filter';
+export { OutlineWatcher } from './outline-watcher';
+export { OutlineCache } from './outline-cache';
+export { ParseWorkerPool } from './parse-worker-pool';
+export {
+  ApiCommand,
+  ApiDiffCommand,
+  AtCommand,
+  CacheCommand,
+  CyclesCommand,
+  DepsCommand,
+  DiffCommand,
+  FindCommand,
+  ShowCommand,
+  UnusedExportsCommand,
+} from './commands';
+export {
+  ApiDiffer,
+  ApiSurfaceBuilder,
+  CycleDetector,
+  GraphRenderer,
+  ImportGraphBuilder,
+  ModuleIndex,
+  ModuleResolver,
+  TsconfigReader,
+  UnusedExportFinder,
+} from './graph';
+export { GitRepository } from './git';
+export { OutlineDiffer } from './diff';
+export type {
+  ApiChange,
+  ApiSymbol,
+  ImportCycle,
+  ImportEdge,
+  ImportGraph,
+  ResolvedModule,
+  ResolverHost,
+  UnusedExport,
+} from './graph';
+export type { OutlineDiff, OutlineDiffEntry } from './diff';
+export type { WatchEvent } from './outline-watcher';
+export type { CachedOutline, OutlineCacheStats } from './outline-cache';
+export type { ParseTask } from './parse-worker-pool';
+export type { ProcessingLimits } from './file-processor';
+export type { OutputSummary } from './cli-output-handler';
 
 // Convenience function for simple usage
 export async function parseFiles(
@@ -13,6 +59,7 @@ export async function parseFiles(
     format?: 'ascii' | 'json' | 'yaml';
     depth?: number;
     namedOnly?: boolean;
+    docs?: boolean;
     output?: string;
   }
 ): Promise<string> {
@@ -40,7 +87,9 @@ export async function parseFiles(
 
   // Format output
   const { Formatter } = await import('@sammons/code-outline-formatter');
-  const formatter = new Formatter(options?.format ?? 'ascii');
+  const formatter = new Formatter(options?.format ?? 'ascii', false, {
+    showDocs: options?.docs,
+  });
 
   const output = formatter.format(results);
 
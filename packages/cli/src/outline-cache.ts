@@ -0,0 +1,233 @@
+import { createHash } from 'node:crypto';
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  rmdir,
+  stat,
+  utimes,
+  writeFile,
+} from 'node:fs/promises';
+import { join } from 'node:path';
+import type { Diagnostic, NodeInfo } from '@sammons/code-outline-parser';
+import { version } from '../package.json';
+
+export const DEFAULT_CACHE_DIR = '.code-outline-cache';
+
+// Entries unused for this long are removed by prune
+const PRUNE_AGE = 30 * 24 * 60 * 60 * 1000;
+
+// Marks the directory as a cache (https://bford.info/cachedir/), so prune
+// never deletes from a directory the cache did not create
+const MARKER_FILE = 'CACHEDIR.TAG';
+const MARKER = [
+  'Signature: 8a477f597d28d172789f06886806bc55',
+  '# This file is a cache directory tag created by code-outline.',
+  '',
+].join('\n');
+
+// Layout of entries: <version>/<key prefix>/<key>.json, plus temporary
+// files of interrupted writes
+const VERSION_PATTERN = /^\d+\.\d+\.\d+(?:[-+][\w.+-]*)?$/;
+const PREFIX_PATTERN = /^[0-9a-f]{2}$/;
+const ENTRY_PATTERN = /^[0-9a-f]{64}\.json(?:\.\d+\.tmp)?$/;
+
+export class OutlineCacheError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OutlineCacheError';
+  }
+}
+
+export interface CachedOutline {
+  outline: NodeInfo | null;
+  diagnostics: Diagnostic[];
+}
+
+export interface OutlineCacheStats {
+  hits: number;
+  misses: number;
+}
+
+export interface PruneResult {
+  removed: number;
+  kept: number;
+}
+
+/**
+ * OutlineCache stores outlines on disk, keyed by the content of the file,
+ * its path, the traversal options and the tool version. Entries live in
+ * `<directory>/<version>/<key prefix>/<key>.json`, so upgrading the tool
+ * never reads outlines an older version wrote.
+ */
+export class OutlineCache {
+  private hits = 0;
+  private misses = 0;
+  private marked = false;
+
+  constructor(public readonly directory: string) {}
+
+  /**
+   * Cache key of an outline
+   * @param content - Source text of the file
+   * @param symbolPath - Path used in the file's qualified names
+   */
+  static getKey(
+    content: string,
+    symbolPath: string,
+    depth: number,
+    namedOnly: boolean
+  ): string {
+    return createHash('sha256')
+      .update(`${symbolPath}\0${depth}\0${namedOnly}\0`)
+      .update(createHash('sha256').update(content).digest('hex'))
+      .digest('hex');
+  }
+
+  /**
+   * Cached outline for a key, or undefined on a miss. Unreadable entries
+   * count as misses.
+   */
+  async get(key: string): Promise<CachedOutline | undefined> {
+    const path = this.getPath(key);
+    try {
+      const entry = JSON.parse(await readFile(path, 'utf-8')) as CachedOutline;
+      // Hits keep the entry from being pruned
+      const now = new Date();
+      await utimes(path, now, now);
+      this.hits++;
+      return entry;
+    } catch {
+      this.misses++;
+      return undefined;
+    }
+  }
+
+  /**
+   * Store an outline. The cache is best effort: failing to write an entry
+   * does not fail the run.
+   */
+  async set(key: string, entry: CachedOutline): Promise<void> {
+    const path = this.getPath(key);
+    // Write to a temporary file first so concurrent runs never read a
+    // partial entry
+    const temporary = `${path}.${process.pid}.tmp`;
+    try {
+      await mkdir(join(path, '..'), { recursive: true });
+      await this.mark();
+      await writeFile(temporary, JSON.stringify(entry));
+      await rename(temporary, path);
+    } catch {
+      await rm(temporary, { force: true });
+    }
+  }
+
+  getStats(): OutlineCacheStats {
+    return { hits: this.hits, misses: this.misses };
+  }
+
+  /**
+   * Remove the entries of other tool versions and the entries no run has
+   * used for 30 days. Only files laid out like cache entries are removed.
+   * @throws OutlineCacheError when the directory exists but is not a cache
+   */
+  async prune(now = Date.now()): Promise<PruneResult> {
+    const result: PruneResult = { removed: 0, kept: 0 };
+    const entries = await OutlineCache.list(this.directory);
+    if (entries.length === 0) {
+      return result;
+    }
+    if (!entries.includes(MARKER_FILE)) {
+      throw new OutlineCacheError(
+        `${this.directory} is not an outline cache (no ${MARKER_FILE}); refusing to prune it`
+      );
+    }
+
+    for (const entry of entries.filter((name) => VERSION_PATTERN.test(name))) {
+      const path = join(this.directory, entry);
+      for (const file of await OutlineCache.listFiles(path)) {
+        const { mtimeMs } = await stat(file);
+        if (entry !== version || now - mtimeMs > PRUNE_AGE) {
+          await rm(file, { force: true });
+          result.removed++;
+        } else {
+          result.kept++;
+        }
+      }
+      if (entry !== version) {
+        await OutlineCache.removeEmpty(path);
+      }
+    }
+    return result;
+  }
+
+  private getPath(key: string): string {
+    return join(this.directory, version, key.substring(0, 2), `${key}.json`);
+  }
+
+  /**
+   * Write the cache directory tag once per instance
+   * @private
+   */
+  private async mark(): Promise<void> {
+    if (this.marked) {
+      return;
+    }
+    // Fails when the directory is already tagged
+    await writeFile(join(this.directory, MARKER_FILE), MARKER, {
+      flag: 'wx',
+    }).catch(() => undefined);
+    this.marked = true;
+  }
+
+  /**
+   * Entries of a directory, or none when it does not exist
+   * @private
+   */
+  private static async list(directory: string): Promise<string[]> {
+    try {
+      return await readdir(directory);
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Entry files of a version directory; anything else is left alone
+   * @private
+   */
+  private static async listFiles(directory: string): Promise<string[]> {
+    const files: string[] = [];
+    for (const prefix of await OutlineCache.list(directory)) {
+      if (!PREFIX_PATTERN.test(prefix)) {
+        continue;
+      }
+      const prefixPath = join(directory, prefix);
+      const entries = await readdir(prefixPath, { withFileTypes: true }).catch(
+        () => []
+      );
+      for (const entry of entries) {
+        if (entry.isFile() && ENTRY_PATTERN.test(entry.name)) {
+          files.push(join(prefixPath, entry.name));
+        }
+      }
+    }
+    return files;
+  }
+
+  /**
+   * Remove the prefix directories and the version directory when pruning
+   * left them empty
+   * @private
+   */
+  private static async removeEmpty(directory: string): Promise<void> {
+    for (const prefix of await OutlineCache.list(directory)) {
+      if (PREFIX_PATTERN.test(prefix)) {
+        await rmdir(join(directory, prefix)).catch(() => undefined);
+      }
+    }
+    await rmdir(directory).catch(() => undefined);
+  }
+}
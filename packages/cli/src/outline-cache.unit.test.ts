@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  rmSync,
+  utimesSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { version } from '../package.json';
+import { OutlineCache } from './outline-cache.js';
+import type { CachedOutline } from './outline-cache.js';
+
+const ENTRY: CachedOutline = {
+  outline: {
+    type: 'program',
+    start: { row: 0, column: 0 },
+    end: { row: 0, column: 16 },
+    children: [
+      {
+        type: 'function_declaration',
+        name: 'a',
+        start: { row: 0, column: 0 },
+        end: { row: 0, column: 16 },
+      },
+    ],
+  },
+  diagnostics: [],
+};
+
+describe('OutlineCache', () => {
+  let dir: string;
+  let cache: OutlineCache;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'outline-cache-'));
+    cache = new OutlineCache(dir);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should return stored outlines and count hits and misses', async () => {
+    const key = OutlineCache.getKey('function a() {}', 'a.js', Infinity, true);
+
+    expect(await cache.get(key)).toBeUndefined();
+    await cache.set(key, ENTRY);
+
+    expect(await cache.get(key)).toEqual(ENTRY);
+    expect(cache.getStats()).toEqual({ hits: 1, misses: 1 });
+  });
+
+  it('should key outlines by content, path and traversal options', () => {
+    const key = OutlineCache.getKey('function a() {}', 'a.js', Infinity, true);
+
+    expect(
+      new Set([
+        key,
+        OutlineCache.getKey('function b() {}', 'a.js', Infinity, true),
+        OutlineCache.getKey('function a() {}', 'b.js', Infinity, true),
+        OutlineCache.getKey('function a() {}', 'a.js', 2, true),
+        OutlineCache.getKey('function a() {}', 'a.js', Infinity, false),
+      ]).size
+    ).toBe(5);
+    expect(OutlineCache.getKey('function a() {}', 'a.js', Infinity, true)).toBe(
+      key
+    );
+  });
+
+  it('should treat unreadable entries as misses', async () => {
+    const key = OutlineCache.getKey('', 'a.js', Infinity, true);
+    mkdirSync(join(dir, version, key.substring(0, 2)), { recursive: true });
+    writeFileSync(join(dir, version, key.substring(0, 2), `${key}.json`), '{');
+
+    expect(await cache.get(key)).toBeUndefined();
+    expect(cache.getStats()).toEqual({ hits: 0, misses: 1 });
+  });
+
+  it('should prune entries of other versions and unused entries', async () => {
+    const fresh = OutlineCache.getKey('fresh', 'a.js', Infinity, true);
+    const stale = OutlineCache.getKey('stale', 'a.js', Infinity, true);
+    await cache.set(fresh, ENTRY);
+    await cache.set(stale, ENTRY);
+    const lastUsed = new Date(Date.now() - 31 * 24 * 60 * 60 * 1000);
+    const stalePath = join(
+      dir,
+      version,
+      stale.substring(0, 2),
+      `${stale}.json`
+    );
+    utimesSync(stalePath, lastUsed, lastUsed);
+    const old = OutlineCache.getKey('old', 'a.js', Infinity, true);
+    mkdirSync(join(dir, '0.0.1', old.substring(0, 2)), { recursive: true });
+    writeFileSync(join(dir, '0.0.1', old.substring(0, 2), `${old}.json`), '{}');
+
+    expect(await cache.prune()).toEqual({ removed: 2, kept: 1 });
+    expect(existsSync(stalePath)).toBe(false);
+    expect(existsSync(join(dir, '0.0.1'))).toBe(false);
+    expect(await cache.get(fresh)).toEqual(ENTRY);
+  });
+
+  it('should leave files that are not cache entries alone', async () => {
+    const key = OutlineCache.getKey('a', 'a.js', Infinity, true);
+    await cache.set(key, ENTRY);
+    mkdirSync(join(dir, 'keepme'));
+    writeFileSync(join(dir, 'keepme', 'data.txt'), 'data');
+    writeFileSync(join(dir, 'notes.md'), 'notes');
+    mkdirSync(join(dir, '0.0.1', 'ab'), { recursive: true });
+    writeFileSync(join(dir, '0.0.1', 'ab', 'notes.json'), '{}');
+    writeFileSync(join(dir, version, 'README'), 'readme');
+
+    expect(await cache.prune()).toEqual({ removed: 0, kept: 1 });
+    expect(existsSync(join(dir, 'keepme', 'data.txt'))).toBe(true);
+    expect(existsSync(join(dir, 'notes.md'))).toBe(true);
+    expect(existsSync(join(dir, '0.0.1', 'ab', 'notes.json'))).toBe(true);
+    expect(existsSync(join(dir, version, 'README'))).toBe(true);
+  });
+
+  it('should refuse to prune a directory the cache did not create', async () => {
+    writeFileSync(join(dir, 'notes.md'), 'notes');
+    mkdirSync(join(dir, '0.0.1'));
+
+    await expect(cache.prune()).rejects.toThrow(
+      'is not an outline cache (no CACHEDIR.TAG); refusing to prune it'
+    );
+    expect(existsSync(join(dir, 'notes.md'))).toBe(true);
+    expect(existsSync(join(dir, '0.0.1'))).toBe(true);
+  });
+
+  it('should prune a missing directory without failing', async () => {
+    expect(await new OutlineCache(join(dir, 'missing')).prune()).toEqual({
+      removed: 0,
+      kept: 0,
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import type { NodeInfo } from '@sammons/code-outline-parser';
+import { TreeUtils } from '@sammons/code-outline-parser';
+import type { ProcessedFile } from './file-processor.js';
+
+export interface OutlineFilterOptions {
+  exportedOnly?: boolean;
+  hidePrivate?: boolean;
+}
+
+/**
+ * Applies modifier-based filters (--exported-only, --hide-private) to parsed outlines
+ */
+export class OutlineFilter {
+  constructor(private options: OutlineFilterOptions) {}
+
+  public isActive(): boolean {
+    return (
+      this.options.exportedOnly === true || this.options.hidePrivate === true
+    );
+  }
+
+  public apply<T extends ProcessedFile>(results: T[]): T[] {
+    if (!this.isActive()) {
+      return results;
+    }
+
+    return results.map((result) => ({
+      ...result,
+      outline: result.outline ? this.filterOutline(result.outline) : null,
+    }));
+  }
+
+  private filterOutline(outline: NodeInfo): NodeInfo {
+    return TreeUtils.pruneTree(outline, (node, depth) => {
+      // Export status only matters for top-level statements
+      if (this.options.exportedOnly && depth === 1 && node.exported !== true) {
+        return false;
+      }
+      if (this.options.hidePrivate && node.modifiers?.includes('private')) {
+        return false;
+      }
+      return true;
+    });
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import type { NodeInfo } from '@sammons/code-outline-parser';
+import { OutlineFilter } from './outline-filter.js';
+import type { ProcessedFile } from './file-processor.js';
+
+function node(
+  type: string,
+  name: string,
+  extra: Partial<NodeInfo> = {},
+  children?: NodeInfo[]
+): NodeInfo {
+  return {
+    type,
+    name,
+    start: { row: 0, column: 0 },
+    end: { row: 0, column: 0 },
+    ...extra,
+    ...(children ? { children } : {}),
+  };
+}
+
+function createResults(): ProcessedFile[] {
+  return [
+    {
+      file: '/src/service.ts',
+      outline: {
+        type: 'program',
+        start: { row: 0, column: 0 },
+        end: { row: 10, column: 0 },
+        children: [
+          node('class_declaration', 'Service', { exported: true }, [
+            node('method_definition', 'run', { modifiers: ['public'] }),
+            node('method_definition', 'reset', { modifiers: ['private'] }),
+            node('public_field_definition', '#state', {
+              modifiers: ['private'],
+            }),
+          ]),
+          node('function_declaration', 'helper', { exported: false }),
+        ],
+      },
+    },
+    { file: '/src/broken.ts', outline: null },
+  ];
+}
+
+function names(result: ProcessedFile): Array<string | undefined> {
+  const collect = (n: NodeInfo): Array<string | undefined> => [
+    n.name,
+    ...(n.children ?? []).flatMap(collect),
+  ];
+  return result.outline ? collect(result.outline).slice(1) : [];
+}
+
+describe('OutlineFilter', () => {
+  it('should return results untouched when no filter is enabled', () => {
+    const results = createResults();
+    const filter = new OutlineFilter({});
+
+    expect(filter.isActive()).toBe(false);
+    expect(filter.apply(results)).toBe(results);
+  });
+
+  it('should keep only exported top-level declarations', () => {
+    const [service, broken] = new OutlineFilter({ exportedOnly: true }).apply(
+      createResults()
+    );
+
+    expect(names(service)).toEqual(['Service', 'run', 'reset', '#state']);
+    expect(broken.outline).toBeNull();
+  });
+
+  it('should drop private members', () => {
+    const [service] = new OutlineFilter({ hidePrivate: true }).apply(
+      createResults()
+    );
+
+    expect(names(service)).toEqual(['Service', 'run', 'helper']);
+  });
+
+  it('should combine both filters', () => {
+    const [service] = new OutlineFilter({
+      exportedOnly: true,
+      hidePrivate: true,
+    }).apply(createResults());
+
+    expect(names(service)).toEqual(['Service', 'run']);
+  });
+});
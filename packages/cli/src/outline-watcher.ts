@@ -0,0 +1,272 @@
+import { readdirSync, statSync, watch } from 'node:fs';
+import type { Dirent, FSWatcher, Stats } from 'node:fs';
+import { dirname, join, relative, resolve, sep } from 'node:path';
+import fg from 'fast-glob';
+import type { FileProcessor, ProcessedFile } from './file-processor.js';
+import { GlobMatcher } from './git/index.js';
+
+export type WatchEventType = 'added' | 'changed' | 'removed';
+
+/**
+ * A file whose outline appeared, changed or disappeared. Removed files
+ * have a null outline.
+ */
+export interface WatchEvent extends ProcessedFile {
+  event: WatchEventType;
+}
+
+export interface OutlineWatcherOptions {
+  depth: number;
+  namedOnly: boolean;
+  /** Quiet period in milliseconds before a burst of changes is reparsed */
+  debounce?: number;
+}
+
+const DEFAULT_DEBOUNCE = 100;
+
+// Directories findFiles skips, and dotfiles fast-glob skips by default
+const IGNORED_PATH = /(?:^|\/)(?:node_modules\/|dist\/|build\/|\.)/;
+
+// Characters that start a glob in a path segment
+const GLOB_CHARS = /[*?[{]/;
+
+/**
+ * OutlineWatcher keeps the outlines of the files matching a pattern up to
+ * date, reparsing only the files that change and reporting them in
+ * debounced batches. Only the directories the pattern can match below its
+ * static base are watched, skipping ignored ones such as node_modules.
+ */
+export class OutlineWatcher {
+  private files = new Map<string, ProcessedFile>();
+  private pending = new Set<string>();
+  private matcher: GlobMatcher;
+  private root: string;
+  /** Directory levels below the root that can hold matches */
+  private maxDepth: number;
+  private watchers = new Map<string, FSWatcher>();
+  private onEvents?: (events: WatchEvent[]) => void;
+  private timer?: ReturnType<typeof setTimeout>;
+  private flushing: Promise<void> = Promise.resolve();
+
+  /**
+   * @param pattern - Glob of the watched files, relative to the working
+   * directory or absolute
+   */
+  constructor(
+    pattern: string,
+    private fileProcessor: FileProcessor,
+    private options: OutlineWatcherOptions
+  ) {
+    const absolute = OutlineWatcher.toPosix(resolve(pattern));
+    this.matcher = new GlobMatcher(absolute);
+
+    // Watch the deepest directory that holds every match
+    const segments = absolute.split('/');
+    const globIndex = segments.findIndex((segment) => GLOB_CHARS.test(segment));
+    this.root =
+      globIndex === -1
+        ? dirname(resolve(pattern))
+        : resolve(segments.slice(0, globIndex).join('/') || '/');
+    // "src/*.ts" only matches files in src, "src/**/*.ts" any level below
+    const dynamic = globIndex === -1 ? [] : segments.slice(globIndex);
+    this.maxDepth = dynamic.includes('**')
+      ? Infinity
+      : Math.max(dynamic.length - 1, 0);
+  }
+
+  /**
+   * Start watching
+   * @param initial - Outlines of the files that matched at startup
+   * @param onEvents - Called with every debounced batch of changes
+   */
+  start(
+    initial: ProcessedFile[],
+    onEvents: (events: WatchEvent[]) => void
+  ): void {
+    for (const result of initial) {
+      this.files.set(result.file, result);
+    }
+    this.onEvents = onEvents;
+    this.watchDirectory(this.root, 0);
+  }
+
+  stop(): void {
+    clearTimeout(this.timer);
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+    this.onEvents = undefined;
+  }
+
+  /**
+   * Directories being watched
+   */
+  getWatchedDirectories(): string[] {
+    return [...this.watchers.keys()].sort();
+  }
+
+  /**
+   * Current outlines, in the order the files first appeared
+   */
+  getResults(): ProcessedFile[] {
+    return [...this.files.values()];
+  }
+
+  /**
+   * Watch a directory and the subdirectories the pattern can match in
+   * @private
+   */
+  private watchDirectory(directory: string, depth: number): void {
+    if (this.watchers.has(directory) || this.isIgnored(directory)) {
+      return;
+    }
+
+    let watcher: FSWatcher;
+    try {
+      watcher = watch(directory, (_eventType, filename) => {
+        if (!filename) {
+          return;
+        }
+        const path = join(directory, filename.toString());
+        if (depth < this.maxDepth && OutlineWatcher.stat(path)?.isDirectory()) {
+          this.watchDirectory(path, depth + 1);
+        }
+        this.schedule(path);
+      });
+    } catch {
+      return; // Removed before it could be watched
+    }
+    // Watchers of deleted directories end with an error
+    watcher.on('error', () => this.unwatch(directory));
+    this.watchers.set(directory, watcher);
+
+    if (depth < this.maxDepth) {
+      const entries = OutlineWatcher.readDirectory(directory);
+      for (const entry of entries.filter((entry) => entry.isDirectory())) {
+        this.watchDirectory(join(directory, entry.name), depth + 1);
+      }
+    }
+  }
+
+  /**
+   * Stop watching a directory and the directories below it
+   * @private
+   */
+  private unwatch(directory: string): void {
+    for (const [path, watcher] of this.watchers) {
+      if (path === directory || path.startsWith(directory + sep)) {
+        watcher.close();
+        this.watchers.delete(path);
+      }
+    }
+  }
+
+  private isIgnored(directory: string): boolean {
+    const path = OutlineWatcher.toPosix(relative(this.root, directory));
+    return path !== '' && IGNORED_PATH.test(`${path}/`);
+  }
+
+  private schedule(path: string): void {
+    this.pending.add(path);
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      // Batches are reparsed one at a time so events keep their order
+      this.flushing = this.flushing.then(async () => {
+        const events = await this.flush();
+        if (events.length > 0) {
+          this.onEvents?.(events);
+        }
+      });
+    }, this.options.debounce ?? DEFAULT_DEBOUNCE);
+  }
+
+  /**
+   * Reparse the files behind the pending paths. Removals come first, then
+   * additions and changes, each sorted by path.
+   * @private
+   */
+  private async flush(): Promise<WatchEvent[]> {
+    const paths = [...this.pending];
+    this.pending.clear();
+
+    const changed = new Set<string>();
+    const removed = new Set<string>();
+    for (const path of paths) {
+      const stats = OutlineWatcher.stat(path);
+      if (!stats) {
+        this.unwatch(path);
+      }
+      if (stats?.isFile()) {
+        changed.add(path);
+        continue;
+      }
+      if (stats?.isDirectory()) {
+        // A directory moved into place reports itself, not its files
+        const files = await fg(
+          `${fg.escapePath(OutlineWatcher.toPosix(path))}/**/*`,
+          { absolute: true }
+        );
+        files.forEach((file) => changed.add(resolve(file)));
+      }
+      // Deleting or moving a directory away removes the files inside
+      for (const file of this.files.keys()) {
+        if (file === path || file.startsWith(path + sep)) {
+          if (!OutlineWatcher.stat(file)?.isFile()) {
+            removed.add(file);
+          }
+        }
+      }
+    }
+
+    const events: WatchEvent[] = [];
+    for (const file of [...removed].sort()) {
+      this.files.delete(file);
+      events.push({ event: 'removed', file, outline: null });
+    }
+
+    const results = await this.fileProcessor.processFiles(
+      [...changed].filter((file) => this.isWatched(file)).sort(),
+      this.options.depth,
+      this.options.namedOnly
+    );
+    for (const result of results) {
+      const previous = this.files.get(result.file);
+      this.files.set(result.file, result);
+      if (!previous) {
+        events.push({ event: 'added', ...result });
+      } else if (JSON.stringify(previous) !== JSON.stringify(result)) {
+        // Saves that leave the outline as it was are not reported
+        events.push({ event: 'changed', ...result });
+      }
+    }
+    return events;
+  }
+
+  private isWatched(file: string): boolean {
+    return (
+      this.matcher.matches(OutlineWatcher.toPosix(file)) &&
+      !IGNORED_PATH.test(OutlineWatcher.toPosix(relative(this.root, file)))
+    );
+  }
+
+  private static readDirectory(directory: string): Dirent[] {
+    try {
+      return readdirSync(directory, { withFileTypes: true });
+    } catch {
+      return [];
+    }
+  }
+
+  private static stat(path: string): Stats | undefined {
+    try {
+      return statSync(path);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private static toPosix(path: string): string {
+    return path.split(sep).join('/');
+  }
+}
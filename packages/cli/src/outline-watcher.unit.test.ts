@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  mkdirSync,
+  mkdtempSync,
+  renameSync,
+  rmSync,
+  unlinkSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileProcessor } from './file-processor.js';
+import { OutlineWatcher } from './outline-watcher.js';
+import type { WatchEvent } from './outline-watcher.js';
+
+describe('OutlineWatcher', () => {
+  const fileProcessor = new FileProcessor();
+  let dir: string;
+  let watcher: OutlineWatcher;
+  let batches: WatchEvent[][];
+  let waiting: (() => void) | undefined;
+
+  // Resolves with the next batch of events
+  const nextBatch = (): Promise<WatchEvent[]> =>
+    new Promise((resolve) => {
+      waiting = (): void => resolve(batches[batches.length - 1]);
+    });
+
+  // "event name" of every event in a batch
+  const describeBatch = (events: WatchEvent[]): string[] =>
+    events.map(
+      ({ event, file }) => `${event} ${file.substring(dir.length + 1)}`
+    );
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'outline-watcher-'));
+    writeFileSync(join(dir, 'a.ts'), 'export function a(): void {}');
+    writeFileSync(join(dir, 'notes.md'), '# Notes');
+
+    const initial = await fileProcessor.processFiles(
+      [join(dir, 'a.ts')],
+      Infinity,
+      true
+    );
+    batches = [];
+    watcher = new OutlineWatcher(join(dir, '**/*.ts'), fileProcessor, {
+      depth: Infinity,
+      namedOnly: true,
+      debounce: 50,
+    });
+    watcher.start(initial, (events) => {
+      batches.push(events);
+      waiting?.();
+    });
+  });
+
+  afterEach(() => {
+    watcher.stop();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should report changed and new files in one debounced batch', async () => {
+    const batch = nextBatch();
+    writeFileSync(join(dir, 'a.ts'), 'export function a(x: number): void {}');
+    writeFileSync(join(dir, 'a.ts'), 'export function a(y: string): void {}');
+    writeFileSync(join(dir, 'b.ts'), 'export class B {}');
+    writeFileSync(join(dir, 'notes.md'), '# More notes');
+
+    expect(describeBatch(await batch)).toEqual(['changed a.ts', 'added b.ts']);
+    expect(batches).toHaveLength(1);
+    expect(
+      watcher.getResults().map(({ file }) => file.substring(dir.length + 1))
+    ).toEqual(['a.ts', 'b.ts']);
+  });
+
+  it('should report renames as a removal and an addition', async () => {
+    const batch = nextBatch();
+    renameSync(join(dir, 'a.ts'), join(dir, 'renamed.ts'));
+
+    const events = await batch;
+    expect(describeBatch(events)).toEqual(['removed a.ts', 'added renamed.ts']);
+    expect(events[0].outline).toBeNull();
+  });
+
+  it('should report deleted files and skip saves that keep the outline', async () => {
+    const batch = nextBatch();
+    writeFileSync(join(dir, 'a.ts'), 'export function a(): void {}');
+    // Give the unchanged save its own batch before the delete
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    unlinkSync(join(dir, 'a.ts'));
+
+    expect(describeBatch(await batch)).toEqual(['removed a.ts']);
+    expect(watcher.getResults()).toEqual([]);
+  });
+
+  it('should watch new directories and report the files inside', async () => {
+    const batch = nextBatch();
+    mkdirSync(join(dir, 'src'));
+    writeFileSync(join(dir, 'src', 'c.ts'), 'export function c(): void {}');
+
+    expect(describeBatch(await batch)).toEqual(['added src/c.ts']);
+    expect(watcher.getWatchedDirectories()).toEqual([dir, join(dir, 'src')]);
+  });
+});
+
+describe('OutlineWatcher directories', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'outline-watcher-'));
+    for (const path of ['src/nested', 'node_modules/pkg', '.git/objects']) {
+      mkdirSync(join(dir, path), { recursive: true });
+    }
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const watchedDirectories = (pattern: string): string[] => {
+    const watcher = new OutlineWatcher(
+      join(dir, pattern),
+      new FileProcessor(),
+      {
+        depth: Infinity,
+        namedOnly: true,
+      }
+    );
+    watcher.start([], () => {});
+    const directories = watcher.getWatchedDirectories();
+    watcher.stop();
+    return directories.map((directory) => directory.substring(dir.length));
+  };
+
+  it('should only watch the base directory of a single-level pattern', () => {
+    expect(watchedDirectories('*.ts')).toEqual(['']);
+    expect(watchedDirectories('src/*.ts')).toEqual(['/src']);
+    expect(watchedDirectories('*/*.ts')).toEqual(['', '/src']);
+  });
+
+  it('should watch every level of a recursive pattern except ignored directories', () => {
+    expect(watchedDirectories('**/*.ts')).toEqual(['', '/src', '/src/nested']);
+  });
+});
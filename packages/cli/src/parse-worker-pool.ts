@@ -0,0 +1,144 @@
+import { Worker } from 'node:worker_threads';
+import { extname, join } from 'node:path';
+import type { FileReader, Parser } from '@sammons/code-outline-parser';
+import type { CachedOutline } from './outline-cache.js';
+
+export interface ParseTask {
+  file: string;
+  depth: number;
+  namedOnly: boolean;
+  /** Source already read by the caller; the file is read when absent */
+  content?: string;
+}
+
+/**
+ * Message a worker answers a task with
+ */
+export type ParseTaskResult = CachedOutline | { error: string };
+
+interface PendingTask {
+  task: ParseTask;
+  resolve: (result: CachedOutline) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Parse a task in the current thread
+ */
+export async function runParseTask(
+  task: ParseTask,
+  parser: Parser,
+  fileReader: FileReader
+): Promise<CachedOutline> {
+  return task.content === undefined
+    ? await parser.parseFileWithDiagnostics(
+        task.file,
+        task.depth,
+        task.namedOnly
+      )
+    : parser.parseSourceWithDiagnostics(
+        task.content,
+        fileReader.getFileType(task.file),
+        task.depth,
+        task.namedOnly,
+        task.file
+      );
+}
+
+/**
+ * ParseWorkerPool parses files on worker threads, each with its own
+ * tree-sitter parsers. Workers start on demand, take one task at a time and
+ * stay alive between batches without keeping the process running.
+ */
+export class ParseWorkerPool {
+  private workers = new Set<Worker>();
+  private idle: Worker[] = [];
+  private running = new Map<Worker, PendingTask>();
+  private queue: PendingTask[] = [];
+
+  /**
+   * @param size - Maximum number of worker threads
+   */
+  constructor(public readonly size: number) {}
+
+  /**
+   * Parse a file on the next free worker
+   * @throws Error when parsing fails or the worker exits
+   */
+  parse(task: ParseTask): Promise<CachedOutline> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ task, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Stop every worker
+   */
+  async close(): Promise<void> {
+    const workers = [...this.workers];
+    this.workers.clear();
+    this.idle = [];
+    await Promise.all(workers.map((worker) => worker.terminate()));
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      const worker =
+        this.idle.pop() ??
+        (this.workers.size < this.size ? this.spawn() : undefined);
+      if (!worker) {
+        return;
+      }
+
+      const pending = this.queue.shift();
+      if (pending) {
+        this.running.set(worker, pending);
+        // Busy workers keep the process alive until their result arrives
+        worker.ref();
+        worker.postMessage(pending.task);
+      }
+    }
+  }
+
+  private spawn(): Worker {
+    // Running from source (tsx, vitest) loads the worker through tsx
+    const extension = extname(__filename);
+    const worker = new Worker(join(__dirname, `parse-worker${extension}`), {
+      execArgv:
+        extension === '.ts'
+          ? ['--require', require.resolve('tsx/cjs')]
+          : undefined,
+    });
+    this.workers.add(worker);
+
+    worker.on('message', (result: ParseTaskResult) => {
+      const pending = this.running.get(worker);
+      this.running.delete(worker);
+      worker.unref();
+      this.idle.push(worker);
+
+      if ('error' in result) {
+        pending?.reject(new Error(result.error));
+      } else {
+        pending?.resolve(result);
+      }
+      this.dispatch();
+    });
+    worker.on('error', (error) => {
+      this.running.get(worker)?.reject(error);
+      this.running.delete(worker);
+    });
+    worker.on('exit', () => {
+      this.workers.delete(worker);
+      this.idle = this.idle.filter((idle) => idle !== worker);
+      this.running
+        .get(worker)
+        ?.reject(new Error('Parse worker exited unexpectedly'));
+      this.running.delete(worker);
+      // Replace the worker for the tasks still queued
+      this.dispatch();
+    });
+    return worker;
+  }
+}
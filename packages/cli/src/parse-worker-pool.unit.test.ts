@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileReader, Parser } from '@sammons/code-outline-parser';
+import { ParseWorkerPool, runParseTask } from './parse-worker-pool.js';
+
+describe('ParseWorkerPool', () => {
+  let dir: string;
+  let pool: ParseWorkerPool;
+  let files: string[];
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'parse-worker-pool-'));
+    files = ['a', 'b', 'c', 'd', 'e'].map((name, i) => {
+      const file = join(dir, `${name}.ts`);
+      // Files of different sizes so workers finish out of order
+      writeFileSync(
+        file,
+        `export class ${name.toUpperCase()} {\n${'  m(): void {}\n'.repeat(
+          (5 - i) * 40
+        )}}\n`
+      );
+      return file;
+    });
+    pool = new ParseWorkerPool(2);
+  });
+
+  afterAll(async () => {
+    await pool.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should return outlines in task order, as parsed in this thread', async () => {
+    const tasks = files.map((file) => ({ file, depth: 2, namedOnly: true }));
+
+    const results = await Promise.all(tasks.map((task) => pool.parse(task)));
+
+    const parser = new Parser();
+    const fileReader = new FileReader();
+    expect(results).toEqual(
+      await Promise.all(
+        tasks.map((task) => runParseTask(task, parser, fileReader))
+      )
+    );
+    expect(results.map((result) => result.outline?.children?.[0].name)).toEqual(
+      ['A', 'B', 'C', 'D', 'E']
+    );
+  });
+
+  it('should parse contents read by the caller', async () => {
+    const { outline, diagnostics } = await pool.parse({
+      file: join(dir, 'unsaved.ts'),
+      depth: Infinity,
+      namedOnly: true,
+      content: 'function unsaved(): void {}',
+    });
+
+    expect(outline?.children?.[0].name).toBe('unsaved');
+    expect(outline?.children?.[0].qualifiedName).toMatch(
+      /unsaved\.ts#unsaved$/
+    );
+    expect(diagnostics).toEqual([]);
+  });
+
+  it('should reject tasks that fail to parse', async () => {
+    await expect(
+      pool.parse({ file: join(dir, 'missing.ts'), depth: 1, namedOnly: true })
+    ).rejects.toThrow(/Failed to parse file .*missing\.ts/);
+  });
+});
@@ -0,0 +1,20 @@
+import { parentPort } from 'node:worker_threads';
+import { FileReader, Parser } from '@sammons/code-outline-parser';
+import { runParseTask } from './parse-worker-pool.js';
+import type { ParseTask, ParseTaskResult } from './parse-worker-pool.js';
+
+// Entry point of the ParseWorkerPool threads: parses one task per message
+const parser = new Parser();
+const fileReader = new FileReader();
+
+parentPort?.on('message', async (task: ParseTask) => {
+  let result: ParseTaskResult;
+  try {
+    result = await runParseTask(task, parser, fileReader);
+  } catch (error: unknown) {
+    result = {
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    };
+  }
+  parentPort?.postMessage(result);
+});
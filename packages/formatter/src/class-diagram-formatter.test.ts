@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import type { NodeInfo } from '@sammons/code-outline-parser';
+import { ClassDiagramFormatter } from './class-diagram-formatter';
+
+function node(
+  type: string,
+  name: string,
+  fields: Partial<NodeInfo> = {}
+): NodeInfo {
+  return {
+    type,
+    name,
+    start: { row: 0, column: 0 },
+    end: { row: 0, column: 0 },
+    ...fields,
+  };
+}
+
+function program(children: NodeInfo[]): NodeInfo {
+  return {
+    type: 'program',
+    start: { row: 0, column: 0 },
+    end: { row: 0, column: 0 },
+    children,
+  };
+}
+
+describe('ClassDiagramFormatter', () => {
+  const results = [
+    {
+      file: 'src/base.ts',
+      outline: program([
+        node('interface_declaration', 'Store', {
+          children: [
+            node('property_signature', 'size'),
+            node('method_signature', 'get', {
+              signature: {
+                parameters: [{ name: 'key', type: 'string' }],
+                returnType: 'Map<string, T>',
+              },
+            }),
+          ],
+        }),
+        node('abstract_class_declaration', 'Base', {
+          children: [
+            {
+              type: 'class_body',
+              start: { row: 0, column: 0 },
+              end: { row: 0, column: 0 },
+              children: [
+                node('public_field_definition', '#secret'),
+                node('abstract_method_signature', 'load', {
+                  modifiers: ['protected', 'abstract'],
+                  signature: { parameters: [], returnType: 'void' },
+                }),
+                node('method_definition', 'create', {
+                  modifiers: ['static'],
+                  signature: {
+                    parameters: [
+                      { name: 'options', type: '{ id: string }' },
+                      { name: 'retries', defaultValue: '3' },
+                    ],
+                  },
+                }),
+              ],
+            },
+          ],
+        }),
+      ]),
+    },
+    {
+      file: 'src/user.ts',
+      outline: program([
+        node('import_statement', 'Model', {
+          importInfo: {
+            source: './base',
+            bindings: [{ imported: 'Base', local: 'Model', typeOnly: false }],
+            typeOnly: false,
+          },
+        }),
+        node('class_declaration', 'User', {
+          heritage: { extends: ['Model'], implements: ['Store', 'Missing'] },
+          children: [
+            node('public_field_definition', 'name', {
+              modifiers: ['private'],
+            }),
+          ],
+        }),
+        node('class_declaration', 'Admin', {
+          heritage: { extends: ['User'] },
+        }),
+      ]),
+    },
+    { file: 'src/empty.ts', outline: null },
+  ];
+
+  it('should draw a Mermaid class diagram', () => {
+    const diagram = new ClassDiagramFormatter('mermaid').format(results);
+
+    expect(diagram).toBe(
+      [
+        'classDiagram',
+        '  class Store {',
+        '    <<interface>>',
+        '    +size',
+        '    +get(key: string) Map~string, T~',
+        '  }',
+        '  class Base {',
+        '    <<abstract>>',
+        '    -secret',
+        '    #load() void*',
+        '    +create(options: object, retries)$',
+        '  }',
+        '  class User {',
+        '    -name',
+        '  }',
+        '  class Admin',
+        '  Base <|-- User',
+        '  Store <|.. User',
+        '  User <|-- Admin',
+      ].join('\n')
+    );
+  });
+
+  it('should draw a Graphviz diagram with a cluster per file', () => {
+    const diagram = new ClassDiagramFormatter('dot').format(results);
+
+    expect(diagram).toContain('subgraph cluster_0 {\n    label="src/base.ts";');
+    expect(diagram).toContain(
+      '"Store" [label="{«interface»\\nStore|+size\\l|+get(key: string): Map\\<string, T\\>\\l}"];'
+    );
+    expect(diagram).toContain(
+      '"Base" [label="{«abstract»\\nBase|-secret\\l|#load(): void\\l+create(options: \\{ id: string \\}, retries)\\l}"];'
+    );
+    expect(diagram).toContain('"User" -> "Base" [arrowhead=empty];');
+    expect(diagram).toContain(
+      '"User" -> "Store" [arrowhead=empty, style=dashed];'
+    );
+    expect(diagram).not.toContain('Missing');
+  });
+
+  it('should give classes sharing a name their own nodes', () => {
+    const diagram = new ClassDiagramFormatter('mermaid').format([
+      {
+        file: 'src/a.ts',
+        outline: program([node('class_declaration', 'Config')]),
+      },
+      {
+        file: 'src/b.ts',
+        outline: program([
+          node('class_declaration', 'Config'),
+          node('class_declaration', 'AppConfig', {
+            heritage: { extends: ['Config'] },
+          }),
+        ]),
+      },
+    ]);
+
+    expect(diagram).toContain('  class Config\n  class Config_2["Config"]');
+    // Base classes in the same file win over those in other files
+    expect(diagram).toContain('  Config_2 <|-- AppConfig');
+  });
+});
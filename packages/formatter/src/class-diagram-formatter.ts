@@ -0,0 +1,311 @@
+import type { NodeInfo, SignatureInfo } from '@sammons/code-outline-parser';
+import { isSymbolType, SignatureUtils } from '@sammons/code-outline-parser';
+
+export type ClassDiagramFormat = 'mermaid' | 'dot';
+
+const CLASS_TYPES = ['class_declaration', 'abstract_class_declaration'];
+const FIELD_TYPES = ['public_field_definition', 'property_signature'];
+const METHOD_TYPES = [
+  'method_definition',
+  'method_signature',
+  'abstract_method_signature',
+];
+
+interface DiagramMember {
+  name: string;
+  /** UML visibility: + public, - private, # protected */
+  visibility: '+' | '-' | '#';
+  static: boolean;
+  abstract: boolean;
+  signature?: SignatureInfo;
+}
+
+interface DiagramClass {
+  /** Unique identifier in the diagram */
+  id: string;
+  name: string;
+  file: string;
+  stereotype?: 'interface' | 'abstract';
+  heritage: NodeInfo['heritage'];
+  fields: DiagramMember[];
+  methods: DiagramMember[];
+  /** Names the file imports, by local name */
+  imports: Map<string, string>;
+}
+
+interface DiagramEdge {
+  from: DiagramClass;
+  to: DiagramClass;
+  kind: 'extends' | 'implements';
+}
+
+/**
+ * ClassDiagramFormatter draws the classes and interfaces of outlines as a
+ * Mermaid or Graphviz DOT class diagram. Members get their UML visibility
+ * from modifiers, and extends/implements edges connect declarations found
+ * in the outlined files; base types declared elsewhere are left out.
+ */
+export class ClassDiagramFormatter {
+  constructor(private diagramFormat: ClassDiagramFormat) {}
+
+  /**
+   * @param results - Outlines with paths as they should appear in the diagram
+   */
+  format(results: Array<{ file: string; outline: NodeInfo | null }>): string {
+    const classes = this.collectClasses(results);
+    const edges = this.resolveEdges(classes);
+
+    return this.diagramFormat === 'mermaid'
+      ? this.renderMermaid(classes, edges)
+      : this.renderDot(classes, edges);
+  }
+
+  private renderMermaid(classes: DiagramClass[], edges: DiagramEdge[]): string {
+    // Mermaid writes generics as List~T~, and braces would end the class
+    // block, so object types are shortened to "object"
+    const escape = (text: string): string => {
+      let escaped = text.replace(/[<>]/g, '~');
+      while (/\{[^{}]*\}/.test(escaped)) {
+        escaped = escaped.replace(/\{[^{}]*\}/g, 'object');
+      }
+      return escaped;
+    };
+    const lines = ['classDiagram'];
+
+    for (const diagramClass of classes) {
+      const label =
+        diagramClass.id === diagramClass.name ? '' : `["${diagramClass.name}"]`;
+      const members = [...diagramClass.fields, ...diagramClass.methods];
+      if (!diagramClass.stereotype && members.length === 0) {
+        lines.push(`  class ${diagramClass.id}${label}`);
+        continue;
+      }
+
+      lines.push(`  class ${diagramClass.id}${label} {`);
+      if (diagramClass.stereotype) {
+        lines.push(`    <<${diagramClass.stereotype}>>`);
+      }
+      for (const member of members) {
+        // Mermaid marks static members with $ and abstract ones with *
+        const classifier = member.static ? '$' : member.abstract ? '*' : '';
+        lines.push(
+          `    ${member.visibility}${escape(this.formatMember(member, ' '))}${classifier}`
+        );
+      }
+      lines.push('  }');
+    }
+    for (const { from, to, kind } of edges) {
+      lines.push(
+        `  ${to.id} ${kind === 'extends' ? '<|--' : '<|..'} ${from.id}`
+      );
+    }
+
+    return lines.join('\n');
+  }
+
+  private renderDot(classes: DiagramClass[], edges: DiagramEdge[]): string {
+    const quote = (value: string): string =>
+      `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+    // Characters with a meaning in record labels
+    const escape = (text: string): string =>
+      text.replace(/[\\{}|<>"]/g, '\\$&');
+
+    const lines = [
+      'digraph classes {',
+      '  rankdir=BT;',
+      '  node [shape=record];',
+    ];
+
+    const files = [...new Set(classes.map(({ file }) => file))];
+    files.forEach((file, index) => {
+      lines.push(`  subgraph cluster_${index} {`, `    label=${quote(file)};`);
+      for (const diagramClass of classes.filter(
+        (candidate) => candidate.file === file
+      )) {
+        const title = diagramClass.stereotype
+          ? `«${diagramClass.stereotype}»\\n${escape(diagramClass.name)}`
+          : escape(diagramClass.name);
+        const sections = [diagramClass.fields, diagramClass.methods].map(
+          (members) =>
+            members
+              .map(
+                (member) =>
+                  `${member.visibility}${escape(this.formatMember(member, ': '))}\\l`
+              )
+              .join('')
+        );
+        lines.push(
+          `    ${quote(diagramClass.id)} [label="{${title}|${sections.join('|')}}"];`
+        );
+      }
+      lines.push('  }');
+    });
+    for (const { from, to, kind } of edges) {
+      lines.push(
+        `  ${quote(from.id)} -> ${quote(to.id)} [arrowhead=empty${kind === 'implements' ? ', style=dashed' : ''}];`
+      );
+    }
+    lines.push('}');
+
+    return lines.join('\n');
+  }
+
+  /**
+   * "name" for fields, "name(a: T) R" for methods, with the return type
+   * after the given separator
+   * @private
+   */
+  private formatMember(member: DiagramMember, separator: string): string {
+    if (!member.signature) {
+      return member.name;
+    }
+    const { parameters, returnType } = member.signature;
+    const text = `${member.name}(${parameters
+      .map((param) =>
+        SignatureUtils.formatParameter({ ...param, defaultValue: undefined })
+      )
+      .join(', ')})`;
+    return returnType ? `${text}${separator}${returnType}` : text;
+  }
+
+  private collectClasses(
+    results: Array<{ file: string; outline: NodeInfo | null }>
+  ): DiagramClass[] {
+    const classes: DiagramClass[] = [];
+    const names = new Map<string, number>();
+
+    const visit = (
+      node: NodeInfo,
+      file: string,
+      imports: Map<string, string>
+    ): void => {
+      const isClass = CLASS_TYPES.includes(node.type);
+      if (node.name && (isClass || node.type === 'interface_declaration')) {
+        // Declarations sharing a name get numbered ids
+        const count = (names.get(node.name) ?? 0) + 1;
+        names.set(node.name, count);
+
+        const members = this.getMembers(node);
+        classes.push({
+          id: count === 1 ? node.name : `${node.name}_${count}`,
+          name: node.name,
+          file,
+          ...(isClass
+            ? node.type === 'abstract_class_declaration'
+              ? { stereotype: 'abstract' }
+              : {}
+            : { stereotype: 'interface' }),
+          heritage: node.heritage,
+          fields: members.filter(({ signature }) => !signature),
+          methods: members.filter(({ signature }) => signature),
+          imports,
+        });
+      }
+      node.children?.forEach((child) => visit(child, file, imports));
+    };
+
+    for (const { file, outline } of results) {
+      if (outline) {
+        visit(outline, file, this.getImports(outline));
+      }
+    }
+    return classes;
+  }
+
+  /**
+   * Fields and methods of a class or interface, including those nested in
+   * unnamed bodies
+   * @private
+   */
+  private getMembers(node: NodeInfo): DiagramMember[] {
+    const members: DiagramMember[] = [];
+
+    for (const child of node.children ?? []) {
+      const isMethod = METHOD_TYPES.includes(child.type);
+      if (child.name && (isMethod || FIELD_TYPES.includes(child.type))) {
+        const modifiers = child.modifiers ?? [];
+        const isPrivate =
+          modifiers.includes('private') || child.name.startsWith('#');
+        members.push({
+          name: child.name.replace(/^#/, ''),
+          visibility: isPrivate
+            ? '-'
+            : modifiers.includes('protected')
+              ? '#'
+              : '+',
+          static: modifiers.includes('static'),
+          abstract: modifiers.includes('abstract'),
+          // Methods without parameters still get parentheses
+          ...(isMethod
+            ? { signature: child.signature ?? { parameters: [] } }
+            : {}),
+        });
+      } else if (!isSymbolType(child.type)) {
+        members.push(...this.getMembers(child));
+      }
+    }
+    return members;
+  }
+
+  /**
+   * Names bound by the imports of a file, mapped to the names their modules
+   * export them as
+   * @private
+   */
+  private getImports(outline: NodeInfo): Map<string, string> {
+    const imports = new Map<string, string>();
+    for (const child of outline.children ?? []) {
+      for (const binding of child.importInfo?.bindings ?? []) {
+        imports.set(binding.local, binding.imported);
+      }
+    }
+    return imports;
+  }
+
+  /**
+   * Edges to the declarations each class extends or implements. A base type
+   * is looked up in the same file first, then by its unique name in the
+   * other files.
+   * @private
+   */
+  private resolveEdges(classes: DiagramClass[]): DiagramEdge[] {
+    const edges: DiagramEdge[] = [];
+
+    const resolve = (
+      diagramClass: DiagramClass,
+      type: string
+    ): DiagramClass | undefined => {
+      // "models.Base" refers to Base; aliased imports to their exported name
+      const local = type.split('.').pop() ?? type;
+      const name = diagramClass.imports.get(local) ?? local;
+
+      const candidates = classes.filter(
+        (candidate) => candidate.name === name && candidate !== diagramClass
+      );
+      const sameFile = candidates.filter(
+        (candidate) =>
+          candidate.file === diagramClass.file &&
+          !diagramClass.imports.has(local)
+      );
+      if (sameFile.length > 0) {
+        return sameFile[0];
+      }
+      const elsewhere = candidates.filter(
+        (candidate) => candidate.file !== diagramClass.file
+      );
+      return elsewhere.length === 1 ? elsewhere[0] : undefined;
+    };
+
+    for (const diagramClass of classes) {
+      for (const kind of ['extends', 'implements'] as const) {
+        for (const type of diagramClass.heritage?.[kind] ?? []) {
+          const target = resolve(diagramClass, type);
+          if (target) {
+            edges.push({ from: diagramClass, to: target, kind });
+          }
+        }
+      }
+    }
+    return edges;
+  }
+}
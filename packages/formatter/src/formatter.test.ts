@@ -1,4 +1,8 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Script } from 'node:vm';
 import { Formatter } from './formatter';
 import type { NodeInfo } from '@sammons/code-outline-parser';
 
@@ -141,6 +145,266 @@ describe('Formatter', () => {
       expect(Array.isArray(parsed)).toBe(true);
       expect(parsed).toHaveLength(0);
     });
+
+    it('should format a single file like a JSON entry', () => {
+      const [entry] = JSON.parse(formatter.format([sampleResults[0]]));
+
+      expect(formatter.formatRecord(sampleResults[0])).toEqual(entry);
+      expect(formatter.formatRecord(sampleResults[1])).toEqual({
+        file: '/path/to/empty.js',
+        absolutePath: '/path/to/empty.js',
+        outline: null,
+      });
+    });
+  });
+
+  describe('NDJSON format', () => {
+    it('should print one JSON entry per line, without empty files', () => {
+      const formatter = new Formatter('ndjson');
+
+      const lines = formatter.format(sampleResults).split('\n');
+
+      expect(lines.map((line) => JSON.parse(line))).toEqual(
+        JSON.parse(new Formatter('json').format(sampleResults))
+      );
+    });
+  });
+
+  describe('markdown format', () => {
+    it('should render a heading and nested symbol list per file', () => {
+      const result = new Formatter('markdown').format(sampleResults);
+
+      expect(result).toBe(
+        [
+          '## `/path/to/test.js`',
+          '',
+          '- `function` **greet** ([L2](/path/to/test.js#L2))',
+          '- `class` **Person** ([L6](/path/to/test.js#L6))',
+          '  - `method` **getName** ([L7](/path/to/test.js#L7))',
+          '',
+          '## `/path/to/another.js`',
+          '',
+          '_No symbols._',
+        ].join('\n')
+      );
+    });
+
+    it('should list declarations inside exports and bodies', () => {
+      const result = new Formatter('markdown').format([
+        {
+          file: '/path/to/cache.ts',
+          outline: {
+            type: 'program',
+            start: { row: 0, column: 0 },
+            end: { row: 5, column: 0 },
+            children: [
+              {
+                type: 'export_statement',
+                name: 'Cache',
+                start: { row: 0, column: 0 },
+                end: { row: 4, column: 1 },
+                children: [
+                  {
+                    type: 'class_declaration',
+                    name: 'Cache',
+                    exported: true,
+                    start: { row: 0, column: 7 },
+                    end: { row: 4, column: 1 },
+                    children: [
+                      {
+                        type: 'method_definition',
+                        name: 'get_entry',
+                        modifiers: ['static', 'async'],
+                        start: { row: 1, column: 2 },
+                        end: { row: 3, column: 3 },
+                        signature: {
+                          parameters: [{ name: 'key', type: 'string' }],
+                          returnType: 'Promise<Entry>',
+                        },
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        },
+      ]);
+
+      expect(result).toContain(
+        '- `class` _export_ **Cache** ([L1](/path/to/cache.ts#L1))\n' +
+          '  - `method` _static async_ **get\\_entry**`(key: string): Promise<Entry>` ([L2](/path/to/cache.ts#L2))'
+      );
+    });
+
+    it('should fill the link template with the file and line', () => {
+      const result = new Formatter('markdown', false, {
+        linkTemplate: 'https://github.com/org/repo/blob/main/{file}#L{line}',
+      }).format([
+        {
+          file: `${process.cwd()}/src/my file.ts`,
+          outline: sampleNodeInfo,
+        },
+      ]);
+
+      expect(result).toContain(
+        '[L2](https://github.com/org/repo/blob/main/src/my%20file.ts#L2)'
+      );
+    });
+
+    it('should add a table of contents and collapsible files', () => {
+      const result = new Formatter('markdown', false, {
+        collapsible: true,
+        tableOfContents: true,
+      }).format([
+        ...sampleResults,
+        { file: '/path/to/test-js', outline: sampleNodeInfo },
+      ]);
+
+      expect(result).toContain(
+        [
+          '## Contents',
+          '',
+          '- [/path/to/test.js](#pathtotestjs)',
+          '- [/path/to/another.js](#pathtoanotherjs)',
+          '- [/path/to/test-js](#pathtotest-js)',
+        ].join('\n')
+      );
+      expect(result).toContain(
+        [
+          '## `/path/to/test.js`',
+          '',
+          '<details>',
+          '<summary>3 symbol(s)</summary>',
+          '',
+          '- `function` **greet** ([L2](/path/to/test.js#L2))',
+        ].join('\n')
+      );
+      expect(result.match(/<\/details>/g)).toHaveLength(3);
+    });
+
+    it('should show diagnostics, doc summaries and change markers', () => {
+      const result = new Formatter('markdown', false, {
+        showDocs: true,
+      }).format([
+        {
+          file: '/path/to/broken.ts',
+          diagnostics: [
+            {
+              severity: 'error',
+              message: 'Syntax error near <',
+              start: { row: 4, column: 2 },
+              end: { row: 4, column: 3 },
+            },
+          ],
+          outline: {
+            type: 'program',
+            start: { row: 0, column: 0 },
+            end: { row: 5, column: 0 },
+            children: [
+              {
+                type: 'function_declaration',
+                name: 'load',
+                change: 'added',
+                doc: { summary: 'Load the *current* config' },
+                start: { row: 0, column: 0 },
+                end: { row: 2, column: 1 },
+              },
+            ],
+          },
+        },
+      ]);
+
+      expect(result).toContain(
+        '> ⚠ Syntax error near \\< ([L5](/path/to/broken.ts#L5))'
+      );
+      expect(result).toContain(
+        '- `function` **load** ([L1](/path/to/broken.ts#L1)) _(added)_ — Load the \\*current\\* config'
+      );
+    });
+  });
+
+  describe('HTML format', () => {
+    const testDir = mkdtempSync(join(tmpdir(), 'formatter-html-'));
+    const sourceFile = join(testDir, 'greet.js');
+    writeFileSync(
+      sourceFile,
+      'function greet(name) {\n  return "</script>" + name;\n}\n'
+    );
+
+    const htmlResults = [
+      {
+        file: sourceFile,
+        outline: {
+          type: 'program',
+          start: { row: 0, column: 0 },
+          end: { row: 3, column: 0 },
+          children: [
+            {
+              type: 'function_declaration',
+              name: 'greet',
+              modifiers: ['async'],
+              start: { row: 0, column: 0 },
+              end: { row: 2, column: 1 },
+              signature: { parameters: [{ name: 'name' }] },
+            },
+          ],
+        } as NodeInfo,
+      },
+      { file: join(testDir, 'missing.js'), outline: sampleNodeInfo },
+      { file: join(testDir, 'empty.js'), outline: null },
+    ];
+
+    afterAll(() => {
+      rmSync(testDir, { recursive: true, force: true });
+    });
+
+    function getData(html: string): any {
+      const match = html.match(
+        /<script type="application\/json" id="outline-data">(.*?)<\/script>/s
+      );
+      return JSON.parse(match?.[1] ?? 'null');
+    }
+
+    it('should embed the outline and sources of every file', () => {
+      const html = new Formatter('html').format(htmlResults);
+      const data = getData(html);
+
+      expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+      expect(data.files.map((file: any) => file.source)).toEqual([
+        'function greet(name) {\n  return "</script>" + name;\n}\n',
+        null,
+      ]);
+      expect(data.files[0].nodes[0]).toEqual({
+        t: 'function_declaration',
+        n: 'greet',
+        m: 'async',
+        g: '(name)',
+        s: 0,
+        e: 2,
+      });
+      expect(data.kinds).toMatchObject({
+        function_declaration: 'function',
+        method_definition: 'method',
+      });
+      expect(data.colors.class_declaration).toBe('green');
+    });
+
+    it('should not load anything from the network', () => {
+      const html = new Formatter('html').format(htmlResults);
+
+      expect(html).not.toMatch(/\s(src|href)=/);
+      // Sources cannot end the data block early
+      expect(html.match(/<\/script>/g)).toHaveLength(2);
+    });
+
+    it('should include a script that parses', () => {
+      const html = new Formatter('html').format(htmlResults);
+      const scripts = [...html.matchAll(/<script>(.*?)<\/script>/gs)];
+
+      expect(scripts).toHaveLength(1);
+      expect(() => new Script(scripts[0][1])).not.toThrow();
+    });
   });
 
   describe('YAML format', () => {
@@ -282,6 +546,311 @@ describe('Formatter', () => {
     });
   });
 
+  describe('function signatures', () => {
+    const signatureResults = [
+      {
+        file: '/path/to/service.ts',
+        outline: {
+          type: 'program',
+          start: { row: 0, column: 0 },
+          end: { row: 5, column: 0 },
+          children: [
+            {
+              type: 'function_declaration',
+              name: 'getUser',
+              start: { row: 1, column: 0 },
+              end: { row: 3, column: 1 },
+              signature: {
+                parameters: [
+                  { name: 'id', type: 'number' },
+                  { name: 'opts', type: 'Options', optional: true },
+                ],
+                returnType: 'Promise<User>',
+              },
+            },
+          ],
+        } as NodeInfo,
+      },
+    ];
+
+    it('should render signatures inline in ASCII output', () => {
+      const result = stripAnsi(new Formatter('ascii').format(signatureResults));
+
+      expect(result).toContain(
+        'function_declaration: getUser(id: number, opts?: Options): Promise<User>'
+      );
+    });
+
+    it('should render signatures inline in LLMText output', () => {
+      const result = new Formatter('llmtext').format(signatureResults);
+
+      expect(result).toContain(
+        'function_declaration_getUser(id: number, opts?: Options): Promise<User> 2'
+      );
+    });
+
+    it('should expose structured signatures in JSON output', () => {
+      const parsed = JSON.parse(new Formatter('json').format(signatureResults));
+
+      expect(parsed[0].outline.children[0].signature).toEqual(
+        signatureResults[0].outline.children![0].signature
+      );
+    });
+  });
+
+  describe('documentation', () => {
+    const docResults = [
+      {
+        file: '/path/to/docs.ts',
+        outline: {
+          type: 'program',
+          start: { row: 0, column: 0 },
+          end: { row: 5, column: 0 },
+          children: [
+            {
+              type: 'function_declaration',
+              name: 'load',
+              start: { row: 2, column: 0 },
+              end: { row: 4, column: 1 },
+              doc: {
+                summary: 'Loads the config.',
+                params: [{ name: 'path', description: 'Config path' }],
+              },
+            },
+          ],
+        } as NodeInfo,
+      },
+    ];
+
+    it('should omit docs unless showDocs is enabled', () => {
+      const json = JSON.parse(new Formatter('json').format(docResults));
+      const ascii = stripAnsi(new Formatter('ascii').format(docResults));
+
+      expect(json[0].outline.children[0].doc).toBeUndefined();
+      expect(ascii).not.toContain('Loads the config.');
+    });
+
+    it('should include full structured docs in JSON and YAML', () => {
+      const options = { showDocs: true };
+      const json = JSON.parse(
+        new Formatter('json', false, options).format(docResults)
+      );
+      const yaml = new Formatter('yaml', false, options).format(docResults);
+
+      expect(json[0].outline.children[0].doc).toEqual(
+        docResults[0].outline.children![0].doc
+      );
+      expect(yaml).toContain('summary: Loads the config.');
+      expect(yaml).toContain('description: Config path');
+    });
+
+    it('should show summary lines in ASCII and LLMText', () => {
+      const options = { showDocs: true };
+      const ascii = stripAnsi(
+        new Formatter('ascii', false, options).format(docResults)
+      );
+      const llmtext = new Formatter('llmtext', true, options).format(
+        docResults
+      );
+
+      expect(ascii).toContain(
+        'function_declaration: load [3:0] :3 // Loads the config.'
+      );
+      expect(llmtext).toContain(
+        'function_declaration_load 3 // Loads the config.'
+      );
+    });
+  });
+
+  describe('modifiers', () => {
+    const modifierResults = [
+      {
+        file: '/path/to/cache.ts',
+        outline: {
+          type: 'program',
+          start: { row: 0, column: 0 },
+          end: { row: 5, column: 0 },
+          children: [
+            {
+              type: 'class_declaration',
+              name: 'Cache',
+              exported: true,
+              start: { row: 0, column: 0 },
+              end: { row: 4, column: 1 },
+              children: [
+                {
+                  type: 'public_field_definition',
+                  name: 'entries',
+                  modifiers: ['private', 'static', 'readonly'],
+                  start: { row: 1, column: 2 },
+                  end: { row: 1, column: 30 },
+                },
+              ],
+            },
+          ],
+        } as NodeInfo,
+      },
+    ];
+
+    it('should render modifiers before the node type in ASCII', () => {
+      const result = stripAnsi(new Formatter('ascii').format(modifierResults));
+
+      expect(result).toContain('export class_declaration: Cache');
+      expect(result).toContain(
+        'private static readonly public_field_definition: entries'
+      );
+    });
+
+    it('should render modifiers before entries in LLMText', () => {
+      const result = new Formatter('llmtext').format(modifierResults);
+
+      expect(result).toContain('export class_declaration_Cache 1');
+      expect(result).toContain(
+        'private static readonly public_field_definition_entries 2'
+      );
+    });
+
+    it('should include modifiers and exported flags in JSON', () => {
+      const parsed = JSON.parse(new Formatter('json').format(modifierResults));
+      const cache = parsed[0].outline.children[0];
+
+      expect(cache.exported).toBe(true);
+      expect(cache.children[0].modifiers).toEqual([
+        'private',
+        'static',
+        'readonly',
+      ]);
+    });
+  });
+
+  describe('change markers', () => {
+    const changedResults = [
+      {
+        file: '/path/to/cart.ts',
+        outline: {
+          type: 'program',
+          start: { row: 0, column: 0 },
+          end: { row: 9, column: 0 },
+          children: [
+            {
+              type: 'class_declaration',
+              name: 'Cart',
+              change: 'modified',
+              start: { row: 0, column: 0 },
+              end: { row: 8, column: 1 },
+              children: [
+                {
+                  type: 'method_definition',
+                  name: 'clear',
+                  change: 'added',
+                  start: { row: 6, column: 2 },
+                  end: { row: 7, column: 3 },
+                },
+              ],
+            },
+          ],
+        } as NodeInfo,
+      },
+    ];
+
+    it('should mark added and modified nodes in ASCII', () => {
+      const result = stripAnsi(new Formatter('ascii').format(changedResults));
+
+      expect(result).toContain('└─ ~ class_declaration: Cart');
+      expect(result).toContain('└─ + method_definition: clear');
+    });
+
+    it('should mark added and modified entries in LLMText', () => {
+      const result = new Formatter('llmtext').format(changedResults);
+
+      expect(result).toContain(
+        '# Changed entries start with + (added) or ~ (modified)'
+      );
+      expect(result).toContain('~ class_declaration_Cart 1');
+      expect(result).toContain('+ method_definition_clear 7');
+    });
+
+    it('should keep the change field in JSON and YAML', () => {
+      const parsed = JSON.parse(new Formatter('json').format(changedResults));
+
+      expect(parsed[0].outline.children[0].change).toBe('modified');
+      expect(new Formatter('yaml').format(changedResults)).toContain(
+        'change: added'
+      );
+    });
+
+    it('should not explain markers when nothing changed', () => {
+      const result = new Formatter('llmtext').format(sampleResults);
+
+      expect(result).not.toContain('# Changed entries');
+    });
+  });
+
+  describe('diagnostics', () => {
+    const diagnosticResults = [
+      {
+        file: '/path/to/broken.ts',
+        outline: {
+          type: 'program',
+          start: { row: 0, column: 0 },
+          end: { row: 2, column: 0 },
+          children: [
+            {
+              type: 'function_declaration',
+              name: 'ok',
+              start: { row: 1, column: 0 },
+              end: { row: 1, column: 16 },
+            },
+          ],
+        } as NodeInfo,
+        diagnostics: [
+          {
+            severity: 'error' as const,
+            message: 'Syntax error: unexpected ";"',
+            start: { row: 0, column: 14 },
+            end: { row: 0, column: 15 },
+          },
+        ],
+      },
+      {
+        file: '/path/to/clean.ts',
+        outline: {
+          type: 'program',
+          start: { row: 0, column: 0 },
+          end: { row: 1, column: 0 },
+        } as NodeInfo,
+        diagnostics: [],
+      },
+    ];
+
+    it('should render diagnostics as warnings under the file in ASCII', () => {
+      const result = stripAnsi(
+        new Formatter('ascii').format(diagnosticResults)
+      );
+
+      expect(result).toContain('⚠ Syntax error: unexpected ";" [1:14]');
+      expect(result.indexOf('⚠')).toBeLessThan(
+        result.indexOf('function_declaration: ok')
+      );
+    });
+
+    it('should include diagnostics only for files that have them in JSON', () => {
+      const parsed = JSON.parse(
+        new Formatter('json').format(diagnosticResults)
+      );
+
+      expect(parsed[0].diagnostics).toEqual(diagnosticResults[0].diagnostics);
+      expect(parsed[1]).not.toHaveProperty('diagnostics');
+    });
+
+    it('should include diagnostics in YAML', () => {
+      const result = new Formatter('yaml').format(diagnosticResults);
+
+      expect(result).toContain('diagnostics:');
+      expect(result).toContain('severity: error');
+    });
+  });
+
   describe('LLMText format', () => {
     let formatter: Formatter;
 
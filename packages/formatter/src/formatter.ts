@@ -2,15 +2,92 @@ import * as YAML from 'yaml';
 import pc from 'picocolors';
 import { relative } from 'node:path';
 import { readFileSync } from 'node:fs';
-import type { NodeInfo } from '@sammons/code-outline-parser';
+import type { Diagnostic, NodeInfo } from '@sammons/code-outline-parser';
+import {
+  getSymbolKind,
+  isSymbolType,
+  SignatureUtils,
+} from '@sammons/code-outline-parser';
+import { renderHtmlPage, type HtmlNode } from './html-template';
+import { ClassDiagramFormatter } from './class-diagram-formatter';
+import { TagsFormatter } from './tags-formatter';
+
+// Relative link to a line, as GitHub renders it
+const DEFAULT_LINK_TEMPLATE = '{file}#L{line}';
+
+type NodeColor =
+  | 'blue'
+  | 'green'
+  | 'yellow'
+  | 'magenta'
+  | 'cyan'
+  | 'red'
+  | 'white'
+  | 'gray';
+
+// Color categories of node types in the ascii and html formats (default: white)
+const NODE_COLORS: Record<string, NodeColor> = {
+  function_declaration: 'blue',
+  class_declaration: 'green',
+  method_definition: 'yellow',
+  interface_declaration: 'magenta',
+  type_alias_declaration: 'cyan',
+  enum_declaration: 'red',
+  variable_declarator: 'white',
+  import_statement: 'gray',
+  export_statement: 'gray',
+};
+
+export interface FormatterOptions {
+  /** Show doc summaries (ascii/llmtext/markdown) or full structured docs (json/yaml) */
+  showDocs?: boolean;
+  /**
+   * markdown: link target of a line, with {file} and {line} placeholders
+   * (default: {file}#L{line})
+   */
+  linkTemplate?: string;
+  /** markdown: fold the symbols of each file into a <details> block */
+  collapsible?: boolean;
+  /** markdown: start with links to every file */
+  tableOfContents?: boolean;
+}
+
+/**
+ * Entry of the json format for one file
+ */
+export interface OutlineRecord {
+  /** Path relative to the working directory */
+  file: string;
+  absolutePath: string;
+  outline: (NodeInfo & { file?: string }) | null;
+  diagnostics?: Diagnostic[];
+}
 
 export class Formatter {
   constructor(
-    private outputFormat: 'json' | 'yaml' | 'ascii' | 'llmtext',
-    private llmtext?: boolean
+    private outputFormat:
+      | 'json'
+      | 'yaml'
+      | 'ascii'
+      | 'llmtext'
+      | 'ndjson'
+      | 'markdown'
+      | 'html'
+      | 'mermaid'
+      | 'dot'
+      | 'ctags'
+      | 'etags',
+    private llmtext?: boolean,
+    private options: FormatterOptions = {}
   ) {}
 
-  format(results: Array<{ file: string; outline: NodeInfo | null }>): string {
+  format(
+    results: Array<{
+      file: string;
+      outline: NodeInfo | null;
+      diagnostics?: Diagnostic[];
+    }>
+  ): string {
     // Convert absolute paths to relative paths
     const cwd = process.cwd();
     const resultsWithRelativePaths = results.map((result) => ({
@@ -28,6 +105,22 @@ export class Formatter {
         return this.formatASCII(resultsWithRelativePaths);
       case 'llmtext':
         return this.formatLLMText(resultsWithRelativePaths);
+      case 'ndjson':
+        return this.formatNDJSON(results);
+      case 'markdown':
+        return this.formatMarkdown(resultsWithRelativePaths);
+      case 'html':
+        return this.formatHTML(resultsWithRelativePaths);
+      case 'mermaid':
+      case 'dot':
+        return new ClassDiagramFormatter(this.outputFormat).format(
+          resultsWithRelativePaths
+        );
+      case 'ctags':
+      case 'etags':
+        return new TagsFormatter(this.outputFormat).format(
+          resultsWithRelativePaths
+        );
       default: {
         const exhaustiveCheck: never = this.outputFormat;
         throw new Error(`Unknown format: ${String(exhaustiveCheck)}`);
@@ -35,6 +128,26 @@ export class Formatter {
     }
   }
 
+  /**
+   * The json format entry of a single file, for streaming outlines one file
+   * at a time. Files without an outline keep `outline: null`.
+   */
+  formatRecord(result: {
+    file: string;
+    outline: NodeInfo | null;
+    diagnostics?: Diagnostic[];
+  }): OutlineRecord {
+    const file = this.getRelativePath(result.file, process.cwd());
+    return {
+      file,
+      absolutePath: result.file,
+      outline: result.outline
+        ? this.addFileToNodes(result.outline, file)
+        : null,
+      ...this.getDiagnosticsField(result.diagnostics),
+    };
+  }
+
   private getRelativePath(filePath: string, cwd: string): string {
     const relativePath = relative(cwd, filePath);
     // If the file is outside the current directory, use the absolute path
@@ -45,6 +158,7 @@ export class Formatter {
     results: Array<{
       file: string;
       outline: NodeInfo | null;
+      diagnostics?: Diagnostic[];
       absolutePath?: string;
     }>
   ): string {
@@ -54,14 +168,33 @@ export class Formatter {
       file: result.file,
       absolutePath: result.absolutePath,
       outline: this.addFileToNodes(result.outline!, result.file),
+      ...this.getDiagnosticsField(result.diagnostics),
     }));
     return JSON.stringify(enhanced, null, 2);
   }
 
+  /**
+   * One json format entry per line, for consumers that read outlines file
+   * by file
+   */
+  private formatNDJSON(
+    results: Array<{
+      file: string;
+      outline: NodeInfo | null;
+      diagnostics?: Diagnostic[];
+    }>
+  ): string {
+    return results
+      .filter((result) => result.outline !== null)
+      .map((result) => JSON.stringify(this.formatRecord(result)))
+      .join('\n');
+  }
+
   private formatYAML(
     results: Array<{
       file: string;
       outline: NodeInfo | null;
+      diagnostics?: Diagnostic[];
       absolutePath?: string;
     }>
   ): string {
@@ -71,15 +204,29 @@ export class Formatter {
       file: result.file,
       absolutePath: result.absolutePath,
       outline: this.addFileToNodes(result.outline!, result.file),
+      ...this.getDiagnosticsField(result.diagnostics),
     }));
     return YAML.stringify(enhanced);
   }
 
+  private getDiagnosticsField(diagnostics?: Diagnostic[]): {
+    diagnostics?: Diagnostic[];
+  } {
+    // Clean files keep the original output shape
+    return diagnostics && diagnostics.length > 0 ? { diagnostics } : {};
+  }
+
   private addFileToNodes(
     node: NodeInfo,
     filePath: string
   ): NodeInfo & { file?: string } {
-    const enhancedNode: NodeInfo & { file?: string } = { ...node };
+    const { doc, ...fields } = node;
+    const enhancedNode: NodeInfo & { file?: string } = { ...fields };
+
+    // Structured docs are opt-in to keep the default output compact
+    if (doc && this.options.showDocs) {
+      enhancedNode.doc = doc;
+    }
 
     // Add file path to named nodes for easy reference
     if (node.name) {
@@ -100,17 +247,21 @@ export class Formatter {
     results: Array<{
       file: string;
       outline: NodeInfo | null;
+      diagnostics?: Diagnostic[];
       absolutePath?: string;
     }>
   ): string {
     const output: string[] = [];
 
-    for (const { file, outline } of results) {
+    for (const { file, outline, diagnostics } of results) {
       if (!outline) {
         continue;
       }
       // Show the file as part of the tree structure
       output.push(`\n📁 ${pc.bold(pc.cyan(file))}`);
+      for (const diagnostic of diagnostics ?? []) {
+        output.push(this.formatDiagnosticASCII(diagnostic));
+      }
       if (outline.children && outline.children.length > 0) {
         // Format children with the file as the root
         outline.children.forEach((child, index) => {
@@ -126,6 +277,11 @@ export class Formatter {
     return output.join('\n');
   }
 
+  private formatDiagnosticASCII(diagnostic: Diagnostic): string {
+    const location = `${diagnostic.start.row + 1}:${diagnostic.start.column}`;
+    return pc.yellow(`  ⚠ ${diagnostic.message} ${pc.gray(`[${location}]`)}`);
+  }
+
   private formatNodeASCII(
     node: NodeInfo,
     indent: number,
@@ -138,19 +294,18 @@ export class Formatter {
 
     let nodeStr = `${indentStr}${prefix}`;
 
-    const typeColors: Record<string, (str: string) => string> = {
-      function_declaration: pc.blue,
-      class_declaration: pc.green,
-      method_definition: pc.yellow,
-      interface_declaration: pc.magenta,
-      type_alias_declaration: pc.cyan,
-      enum_declaration: pc.red,
-      variable_declarator: pc.white,
-      import_statement: pc.gray,
-      export_statement: pc.gray,
-    };
+    // Diff status from --changed-symbols
+    if (node.change) {
+      nodeStr += node.change === 'added' ? pc.green('+ ') : pc.yellow('~ ');
+    }
+
+    // Modifiers read like source: "export async function_declaration: load"
+    const keywords = this.getModifierKeywords(node);
+    if (keywords.length > 0) {
+      nodeStr += pc.italic(pc.dim(`${keywords.join(' ')} `));
+    }
 
-    const colorFn = typeColors[node.type] || pc.white;
+    const colorFn = pc[NODE_COLORS[node.type] ?? 'white'];
 
     if (node.name) {
       nodeStr += colorFn(`${node.type}: ${pc.bold(node.name)}`);
@@ -158,6 +313,11 @@ export class Formatter {
       nodeStr += colorFn(node.type);
     }
 
+    // Render function signatures inline after the name
+    if (node.signature) {
+      nodeStr += colorFn(SignatureUtils.format(node.signature));
+    }
+
     // Add line:column information
     nodeStr += pc.gray(` [${node.start.row + 1}:${node.start.column}]`);
 
@@ -167,6 +327,11 @@ export class Formatter {
       nodeStr += pc.dim(` :${node.start.row + 1}`);
     }
 
+    const docSummary = this.getDocSummary(node);
+    if (docSummary) {
+      nodeStr += pc.dim(` // ${docSummary}`);
+    }
+
     lines.push(nodeStr);
 
     if (node.children) {
@@ -183,6 +348,199 @@ export class Formatter {
     return lines.join('\n');
   }
 
+  /**
+   * A heading and a nested list of symbols per file, for GitHub-style
+   * viewers. Only declarations are listed; the declarations inside exports,
+   * bodies and other statements move up to the nearest listed parent.
+   */
+  private formatMarkdown(
+    results: Array<{
+      file: string;
+      outline: NodeInfo | null;
+      diagnostics?: Diagnostic[];
+    }>
+  ): string {
+    const { collapsible, tableOfContents } = this.options;
+    const anchors = new Set<string>(tableOfContents ? ['contents'] : []);
+    const files = results
+      .filter((result) => result.outline !== null)
+      .map((result) => ({
+        ...result,
+        anchor: this.getMarkdownAnchor(result.file, anchors),
+        symbols: this.formatNodesMarkdown(
+          result.outline?.children ?? [],
+          result.file,
+          ''
+        ),
+      }));
+
+    const output: string[] = [];
+    if (tableOfContents && files.length > 0) {
+      output.push('## Contents', '');
+      for (const { file, anchor } of files) {
+        output.push(`- [${this.escapeMarkdown(file)}](#${anchor})`);
+      }
+      output.push('');
+    }
+
+    for (const { file, diagnostics, symbols } of files) {
+      output.push(`## \`${file}\``, '');
+      for (const diagnostic of diagnostics ?? []) {
+        const line = diagnostic.start.row + 1;
+        output.push(
+          `> ⚠ ${this.escapeMarkdown(diagnostic.message)} ([L${line}](${this.getLineLink(file, line)}))`,
+          ''
+        );
+      }
+
+      const list = symbols.length > 0 ? symbols.join('\n') : '_No symbols._';
+      if (collapsible) {
+        output.push(
+          '<details>',
+          `<summary>${symbols.length} symbol(s)</summary>`,
+          '',
+          list,
+          '',
+          '</details>',
+          ''
+        );
+      } else {
+        output.push(list, '');
+      }
+    }
+
+    return output.join('\n').trimEnd();
+  }
+
+  private formatNodesMarkdown(
+    nodes: NodeInfo[],
+    file: string,
+    indent: string
+  ): string[] {
+    const lines: string[] = [];
+
+    for (const node of nodes) {
+      const children = node.children ?? [];
+      if (!node.name || !isSymbolType(node.type)) {
+        lines.push(...this.formatNodesMarkdown(children, file, indent));
+        continue;
+      }
+
+      // "- `method` _static async_ **load**`(): void` ([L12](a.ts#L12))"
+      const line = node.start.row + 1;
+      let entry = `${indent}- \`${getSymbolKind(node.type)}\``;
+      const keywords = this.getModifierKeywords(node);
+      if (keywords.length > 0) {
+        entry += ` _${keywords.join(' ')}_`;
+      }
+      entry += ` **${this.escapeMarkdown(node.name)}**`;
+      if (node.signature) {
+        entry += this.toInlineCode(SignatureUtils.format(node.signature));
+      }
+      entry += ` ([L${line}](${this.getLineLink(file, line)}))`;
+      if (node.change) {
+        entry += ` _(${node.change})_`;
+      }
+
+      const docSummary = this.getDocSummary(node);
+      if (docSummary) {
+        entry += ` — ${this.escapeMarkdown(docSummary)}`;
+      }
+
+      lines.push(
+        entry,
+        ...this.formatNodesMarkdown(children, file, `${indent}  `)
+      );
+    }
+
+    return lines;
+  }
+
+  /**
+   * Self-contained page with a collapsible tree per file, symbol search, kind
+   * filters and the source of every node as it was when the page was
+   * generated
+   */
+  private formatHTML(
+    results: Array<{
+      file: string;
+      outline: NodeInfo | null;
+      diagnostics?: Diagnostic[];
+      absolutePath?: string;
+    }>
+  ): string {
+    const kinds: Record<string, string> = {};
+    const toHtmlNode = (node: NodeInfo): HtmlNode => {
+      kinds[node.type] = getSymbolKind(node.type);
+      const keywords = this.getModifierKeywords(node);
+      const docSummary = this.getDocSummary(node);
+      return {
+        t: node.type,
+        ...(node.name ? { n: node.name } : {}),
+        ...(keywords.length > 0 ? { m: keywords.join(' ') } : {}),
+        ...(node.signature ? { g: SignatureUtils.format(node.signature) } : {}),
+        ...(docSummary ? { d: docSummary } : {}),
+        ...(node.change ? { x: node.change } : {}),
+        s: node.start.row,
+        e: node.end.row,
+        ...(node.children?.length ? { c: node.children.map(toHtmlNode) } : {}),
+      };
+    };
+
+    const files = results.flatMap(
+      ({ file, outline, diagnostics, absolutePath }) =>
+        outline
+          ? [
+              {
+                file,
+                source: this.readSource(absolutePath ?? file),
+                diagnostics: diagnostics ?? [],
+                nodes: (outline.children ?? []).map(toHtmlNode),
+              },
+            ]
+          : []
+    );
+
+    return renderHtmlPage({ colors: NODE_COLORS, kinds, files });
+  }
+
+  private getLineLink(file: string, line: number): string {
+    return (this.options.linkTemplate ?? DEFAULT_LINK_TEMPLATE)
+      .replaceAll('{file}', encodeURI(file))
+      .replaceAll('{line}', String(line));
+  }
+
+  /**
+   * Anchor GitHub gives the heading of a file, numbered like GitHub when
+   * two headings share one
+   * @private
+   */
+  private getMarkdownAnchor(file: string, used: Set<string>): string {
+    const base = file
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+      .replace(/\s/g, '-');
+
+    let anchor = base;
+    for (let i = 1; used.has(anchor); i++) {
+      anchor = `${base}-${i}`;
+    }
+    used.add(anchor);
+    return anchor;
+  }
+
+  private escapeMarkdown(text: string): string {
+    return text.replace(/[\\`*_[\]<>|]/g, '\\$&');
+  }
+
+  /**
+   * Code span that may itself contain backticks
+   * @private
+   */
+  private toInlineCode(text: string): string {
+    return text.includes('`') ? `\`\` ${text} \`\`` : `\`${text}\``;
+  }
+
   private formatLLMText(
     results: Array<{
       file: string;
@@ -214,6 +572,14 @@ export class Formatter {
     );
     output.push('# Import/export names joined with underscore: imp_parseArgs');
     output.push('# Variables and functions show actual names after type');
+    output.push('# Functions include their signature: fn_name(a: T): R');
+    output.push('# Modifiers precede entries: export static mth_name 12');
+    if (this.options.showDocs) {
+      output.push('# Doc summaries follow // after the line number');
+    }
+    if (filtered.some(({ outline }) => this.hasChanges(outline!))) {
+      output.push('# Changed entries start with + (added) or ~ (modified)');
+    }
     output.push('');
 
     // Add path variable definitions if any
@@ -382,10 +748,22 @@ export class Formatter {
         }
       }
 
+      const signature = child.signature
+        ? SignatureUtils.format(child.signature)
+        : '';
+
       // Ultra minimal: "type_name line" or "type name line"
-      const parts = name
-        ? [`${type}_${name}`, line.toString()]
-        : [type, line.toString()];
+      const parts = [
+        ...(child.change ? [child.change === 'added' ? '+' : '~'] : []),
+        ...this.getModifierKeywords(child),
+        name ? `${type}_${name}${signature}` : `${type}${signature}`,
+        line.toString(),
+      ];
+
+      const docSummary = this.getDocSummary(child);
+      if (docSummary) {
+        parts.push(`// ${docSummary}`);
+      }
       lines.push(indent + parts.join(' '));
 
       if (child.children?.length) {
@@ -403,6 +781,46 @@ export class Formatter {
     return lines.join('\n');
   }
 
+  private hasChanges(node: NodeInfo): boolean {
+    return (
+      node.change !== undefined ||
+      (node.children ?? []).some((child) => this.hasChanges(child))
+    );
+  }
+
+  private getModifierKeywords(node: NodeInfo): string[] {
+    const keywords = node.modifiers ? [...node.modifiers] : [];
+
+    // export_statement nodes are exports by definition
+    if (node.exported && node.type !== 'export_statement') {
+      keywords.unshift('export');
+    }
+    return keywords;
+  }
+
+  private getDocSummary(node: NodeInfo): string | undefined {
+    if (!this.options.showDocs || !node.doc) {
+      return undefined;
+    }
+
+    const { summary, deprecated } = node.doc;
+    if (deprecated) {
+      const reason = deprecated === true ? '' : ` ${deprecated}`;
+      return summary
+        ? `@deprecated${reason} - ${summary}`
+        : `@deprecated${reason}`;
+    }
+    return summary;
+  }
+
+  private readSource(filePath: string): string | null {
+    try {
+      return readFileSync(filePath, 'utf8');
+    } catch {
+      return null; // File might have been removed since it was parsed
+    }
+  }
+
   private getFileLineCount(filePath: string): number | null {
     try {
       const content = readFileSync(filePath, 'utf8');
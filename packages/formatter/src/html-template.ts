@@ -0,0 +1,303 @@
+import type { Diagnostic } from '@sammons/code-outline-parser';
+
+/**
+ * Node of the data embedded in the html format, with short keys to keep
+ * reports of large trees small
+ */
+export interface HtmlNode {
+  /** Node type */
+  t: string;
+  /** Name */
+  n?: string;
+  /** Modifier keywords, e.g. "export async" */
+  m?: string;
+  /** Formatted signature */
+  g?: string;
+  /** Doc summary */
+  d?: string;
+  /** Diff status from --changed-symbols */
+  x?: 'added' | 'modified';
+  /** First and last row, 0-based */
+  s: number;
+  e: number;
+  c?: HtmlNode[];
+}
+
+export interface HtmlFile {
+  file: string;
+  /** Source at generation time, or null when it could not be read */
+  source: string | null;
+  diagnostics: Diagnostic[];
+  nodes: HtmlNode[];
+}
+
+export interface HtmlOutlineData {
+  /** Color category of each node type, as in the ascii format */
+  colors: Record<string, string>;
+  /** Symbol kind of each node type, used by the kind filter */
+  kinds: Record<string, string>;
+  files: HtmlFile[];
+}
+
+// Terminal colors of the ascii format, readable on a light background
+const STYLES = `
+:root { color-scheme: light; font: 14px/1.45 system-ui, sans-serif; color: #24292f; }
+body { margin: 0; }
+header { position: sticky; top: 0; z-index: 1; display: flex; flex-wrap: wrap; gap: 8px 16px; align-items: center; padding: 10px 16px; background: #f6f8fa; border-bottom: 1px solid #d0d7de; }
+h1 { margin: 0; font-size: 16px; }
+#search { flex: 0 1 280px; padding: 4px 8px; font: inherit; }
+#kinds label { margin-right: 10px; white-space: nowrap; }
+#summary { color: #57606a; }
+main { display: grid; grid-template-columns: minmax(0, 1fr) minmax(0, 1fr); }
+#files, aside { padding: 8px 16px; }
+aside { position: sticky; top: 52px; align-self: start; max-height: calc(100vh - 68px); overflow: auto; border-left: 1px solid #d0d7de; }
+ul { list-style: none; margin: 0; padding-left: 18px; }
+#files > details > ul, .results { padding-left: 4px; }
+summary { cursor: pointer; }
+.leaf { padding-left: 14px; }
+.file { font-weight: 600; color: #0550ae; }
+.node { cursor: pointer; font-family: ui-monospace, monospace; font-size: 13px; }
+.node:hover { background: #eaeef2; }
+.name { font-weight: 700; }
+.modifiers, .doc, .path { color: #6e7781; font-style: italic; }
+.line { color: #6e7781; }
+.added { color: #1a7f37; }
+.modified { color: #9a6700; }
+.diagnostic { color: #9a6700; padding-left: 18px; }
+.more { color: #6e7781; padding: 4px; }
+.c-blue { color: #0969da; }
+.c-green { color: #1a7f37; }
+.c-yellow { color: #9a6700; }
+.c-magenta { color: #8250df; }
+.c-cyan { color: #1b7c83; }
+.c-red { color: #cf222e; }
+.c-white { color: #24292f; }
+.c-gray { color: #6e7781; }
+#source-title { margin: 4px 0 8px; font-size: 14px; word-break: break-all; }
+#source { margin: 0; font: 12px/1.5 ui-monospace, monospace; white-space: pre; overflow: auto; }
+.source-number { display: inline-block; min-width: 4ch; margin-right: 12px; color: #8c959f; text-align: right; user-select: none; }
+`;
+
+// Renders the tree lazily: children are only built when their parent is
+// expanded, so the page stays responsive with thousands of files
+const SCRIPT = `
+(function () {
+  var MAX_RESULTS = 500;
+  var data = JSON.parse(document.getElementById('outline-data').textContent);
+  var filesEl = document.getElementById('files');
+  var searchEl = document.getElementById('search');
+  var kindsEl = document.getElementById('kinds');
+  var titleEl = document.getElementById('source-title');
+  var sourceEl = document.getElementById('source');
+  var hidden = new Set();
+  var sourceLines = new Map();
+
+  function el(tag, className, text) {
+    var element = document.createElement(tag);
+    if (className) element.className = className;
+    if (text !== undefined) element.textContent = text;
+    return element;
+  }
+
+  function kindOf(node) {
+    return data.kinds[node.t] || node.t;
+  }
+
+  // Nodes of hidden kinds stay when one of their descendants is shown
+  function isVisible(node) {
+    return !hidden.has(kindOf(node)) || (node.c || []).some(isVisible);
+  }
+
+  function label(node, file) {
+    var row = el('span', 'node');
+    if (node.x) row.appendChild(el('span', node.x, node.x === 'added' ? '+ ' : '~ '));
+    if (node.m) row.appendChild(el('span', 'modifiers', node.m + ' '));
+    var color = 'c-' + (data.colors[node.t] || 'white');
+    row.appendChild(el('span', color, node.n ? node.t + ': ' : node.t));
+    if (node.n) row.appendChild(el('span', color + ' name', node.n));
+    if (node.g) row.appendChild(el('span', color, node.g));
+    row.appendChild(el('span', 'line', ' :' + (node.s + 1)));
+    if (node.d) row.appendChild(el('span', 'doc', ' // ' + node.d));
+    row.addEventListener('click', function (event) {
+      // Selecting a symbol does not expand or collapse it
+      event.preventDefault();
+      showSource(file, node);
+    });
+    return row;
+  }
+
+  function renderNode(node, file) {
+    var children = (node.c || []).filter(isVisible);
+    if (children.length === 0) {
+      var leaf = el('li', 'leaf');
+      leaf.appendChild(label(node, file));
+      return leaf;
+    }
+    var item = el('li');
+    item.appendChild(collapsible(label(node, file), function () {
+      return renderList(children, file);
+    }));
+    return item;
+  }
+
+  function renderList(nodes, file) {
+    var list = el('ul');
+    nodes.forEach(function (node) {
+      list.appendChild(renderNode(node, file));
+    });
+    return list;
+  }
+
+  function collapsible(title, render) {
+    var details = el('details');
+    var summary = el('summary');
+    summary.appendChild(title);
+    details.appendChild(summary);
+    details.addEventListener('toggle', function () {
+      if (details.open && details.children.length === 1) {
+        details.appendChild(render());
+      }
+    });
+    return details;
+  }
+
+  function renderFile(file) {
+    var title = el('span', 'file', file.file);
+    if (file.diagnostics.length > 0) {
+      title.appendChild(el('span', 'modified', ' \\u26a0 ' + file.diagnostics.length));
+    }
+    return collapsible(title, function () {
+      var content = el('div');
+      file.diagnostics.forEach(function (diagnostic) {
+        content.appendChild(el('div', 'diagnostic', '\\u26a0 ' + diagnostic.message +
+          ' [' + (diagnostic.start.row + 1) + ':' + diagnostic.start.column + ']'));
+      });
+      content.appendChild(renderList(file.nodes.filter(isVisible), file));
+      return content;
+    });
+  }
+
+  function renderResults(query) {
+    var list = el('ul', 'results');
+    var count = 0;
+    function visit(nodes, file, path) {
+      nodes.forEach(function (node) {
+        if (node.n && !hidden.has(kindOf(node)) && node.n.toLowerCase().indexOf(query) !== -1) {
+          count++;
+          if (count <= MAX_RESULTS) {
+            var item = el('li');
+            item.appendChild(label(node, file));
+            item.appendChild(el('span', 'path', ' ' + path.join(' \\u203a ')));
+            list.appendChild(item);
+          }
+        }
+        visit(node.c || [], file, node.n ? path.concat(node.n) : path);
+      });
+    }
+    data.files.forEach(function (file) {
+      visit(file.nodes, file, [file.file]);
+    });
+    filesEl.appendChild(list);
+    if (count === 0) filesEl.appendChild(el('div', 'more', 'No matching symbols'));
+    if (count > MAX_RESULTS) {
+      filesEl.appendChild(el('div', 'more', (count - MAX_RESULTS) + ' more; refine the search'));
+    }
+  }
+
+  function render() {
+    filesEl.textContent = '';
+    var query = searchEl.value.trim().toLowerCase();
+    if (query) {
+      renderResults(query);
+      return;
+    }
+    data.files.forEach(function (file) {
+      filesEl.appendChild(renderFile(file));
+    });
+  }
+
+  function showSource(file, node) {
+    titleEl.textContent = file.file + ':' + (node.s + 1);
+    sourceEl.textContent = '';
+    if (file.source === null) {
+      sourceEl.textContent = 'Source was not available when the report was generated';
+      return;
+    }
+    if (!sourceLines.has(file)) sourceLines.set(file, file.source.split('\\n'));
+    var lines = sourceLines.get(file);
+    for (var row = node.s; row <= node.e && row < lines.length; row++) {
+      var line = el('div');
+      line.appendChild(el('span', 'source-number', String(row + 1)));
+      line.appendChild(document.createTextNode(lines[row]));
+      sourceEl.appendChild(line);
+    }
+  }
+
+  Array.from(new Set(Object.values(data.kinds))).sort().forEach(function (kind) {
+    var option = el('label');
+    var checkbox = el('input');
+    checkbox.type = 'checkbox';
+    checkbox.checked = true;
+    checkbox.addEventListener('change', function () {
+      if (checkbox.checked) hidden.delete(kind);
+      else hidden.add(kind);
+      render();
+    });
+    option.appendChild(checkbox);
+    option.appendChild(document.createTextNode(' ' + kind));
+    kindsEl.appendChild(option);
+  });
+
+  var timer;
+  searchEl.addEventListener('input', function () {
+    clearTimeout(timer);
+    timer = setTimeout(render, 150);
+  });
+
+  render();
+})();
+`;
+
+/**
+ * Page of the html format. Styles, script and outline data are inlined, so
+ * the file works offline and can be shared as is.
+ * @param data - Outline data embedded in the page
+ */
+export function renderHtmlPage(data: HtmlOutlineData): string {
+  const symbols = data.files.reduce(
+    (count, file) => count + countNodes(file.nodes),
+    0
+  );
+  // "<" is escaped so sources containing </script> cannot end the data block
+  const json = JSON.stringify(data).replace(/</g, '\\u003c');
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    '<title>Code Outline</title>',
+    `<style>${STYLES}</style>`,
+    '</head>',
+    '<body>',
+    '<header>',
+    '<h1>Code Outline</h1>',
+    `<span id="summary">${data.files.length} file(s), ${symbols} node(s)</span>`,
+    '<input id="search" type="search" placeholder="Search symbols" autofocus>',
+    '<span id="kinds"></span>',
+    '</header>',
+    '<main>',
+    '<div id="files"></div>',
+    '<aside><h2 id="source-title">Select a symbol to see its source</h2><pre id="source"></pre></aside>',
+    '</main>',
+    `<script type="application/json" id="outline-data">${json}</script>`,
+    `<script>${SCRIPT}</script>`,
+    '</body>',
+    '</html>',
+  ].join('\n');
+}
+
+function countNodes(nodes: HtmlNode[]): number {
+  return nodes.reduce((count, node) => count + 1 + countNodes(node.c ?? []), 0);
+}
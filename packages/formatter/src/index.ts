@@ -1 +1,4 @@
 export * from './formatter';
+export * from './sarif-formatter';
+export * from './class-diagram-formatter';
+export * from './tags-formatter';
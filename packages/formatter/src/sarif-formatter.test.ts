@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { resolve } from 'node:path';
+import { SarifFormatter } from './sarif-formatter';
+
+describe('SarifFormatter', () => {
+  const results = [
+    {
+      file: resolve(process.cwd(), 'src/broken.ts'),
+      diagnostics: [
+        {
+          severity: 'error' as const,
+          message: 'Missing ")"',
+          start: { row: 2, column: 4 },
+          end: { row: 2, column: 4 },
+        },
+      ],
+    },
+    { file: resolve(process.cwd(), 'src/clean.ts'), diagnostics: [] },
+    { file: resolve(process.cwd(), 'src/failed.ts') },
+  ];
+
+  it('should produce a SARIF 2.1.0 log', () => {
+    const log = JSON.parse(new SarifFormatter('1.2.3').format(results));
+
+    expect(log.version).toBe('2.1.0');
+    expect(log.$schema).toContain('sarif-2.1.0');
+    expect(log.runs).toHaveLength(1);
+    expect(log.runs[0].tool.driver).toMatchObject({
+      name: 'code-outline',
+      version: '1.2.3',
+      rules: [{ id: 'syntax-error' }],
+    });
+  });
+
+  it('should emit one result per diagnostic with 1-based regions', () => {
+    const log = JSON.parse(new SarifFormatter().format(results));
+
+    expect(log.runs[0].results).toEqual([
+      {
+        ruleId: 'syntax-error',
+        level: 'error',
+        message: { text: 'Missing ")"' },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: 'src/broken.ts' },
+              region: {
+                startLine: 3,
+                startColumn: 5,
+                endLine: 3,
+                endColumn: 5,
+              },
+            },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('should produce an empty result list when there are no diagnostics', () => {
+    const log = JSON.parse(
+      new SarifFormatter().format([{ file: '/tmp/clean.ts', diagnostics: [] }])
+    );
+
+    expect(log.runs[0].results).toEqual([]);
+    expect(log.runs[0].tool.driver).not.toHaveProperty('version');
+  });
+});
@@ -0,0 +1,71 @@
+import { relative, sep } from 'node:path';
+import type { Diagnostic } from '@sammons/code-outline-parser';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const SYNTAX_ERROR_RULE = 'syntax-error';
+
+/**
+ * SarifFormatter renders parse diagnostics as a SARIF 2.1.0 log so CI
+ * systems can annotate the offending lines
+ */
+export class SarifFormatter {
+  constructor(private toolVersion?: string) {}
+
+  format(results: Array<{ file: string; diagnostics?: Diagnostic[] }>): string {
+    const cwd = process.cwd();
+
+    const sarifResults = results.flatMap(({ file, diagnostics }) =>
+      (diagnostics ?? []).map((diagnostic) => ({
+        ruleId: SYNTAX_ERROR_RULE,
+        level: diagnostic.severity,
+        message: { text: diagnostic.message },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: this.toArtifactUri(file, cwd) },
+              // SARIF lines and columns are 1-based
+              region: {
+                startLine: diagnostic.start.row + 1,
+                startColumn: diagnostic.start.column + 1,
+                endLine: diagnostic.end.row + 1,
+                endColumn: diagnostic.end.column + 1,
+              },
+            },
+          },
+        ],
+      }))
+    );
+
+    const log = {
+      $schema: SARIF_SCHEMA,
+      version: '2.1.0',
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: 'code-outline',
+              ...(this.toolVersion ? { version: this.toolVersion } : {}),
+              rules: [
+                {
+                  id: SYNTAX_ERROR_RULE,
+                  shortDescription: {
+                    text: 'Source could not be parsed without error recovery',
+                  },
+                },
+              ],
+            },
+          },
+          results: sarifResults,
+        },
+      ],
+    };
+
+    return JSON.stringify(log, null, 2);
+  }
+
+  private toArtifactUri(filePath: string, cwd: string): string {
+    const relativePath = relative(cwd, filePath);
+    const uriPath = relativePath.startsWith('..') ? filePath : relativePath;
+    return uriPath.split(sep).join('/');
+  }
+}
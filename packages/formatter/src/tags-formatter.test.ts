@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { NodeInfo } from '@sammons/code-outline-parser';
+import { TagsFormatter } from './tags-formatter';
+
+function node(
+  type: string,
+  name: string,
+  row: number,
+  fields: Partial<NodeInfo> = {}
+): NodeInfo {
+  return {
+    type,
+    name,
+    start: { row, column: 0 },
+    end: { row, column: 0 },
+    ...fields,
+  };
+}
+
+describe('TagsFormatter', () => {
+  const source = [
+    'export const VERSION = "1.0";',
+    'export class ApiClient {',
+    '  private token = "";',
+    '  get(path: string): string {',
+    '    const url = `/${path}`;',
+    '    return url;',
+    '  }',
+    '}',
+  ].join('\n');
+  let dir: string;
+  let results: Array<{
+    file: string;
+    outline: NodeInfo | null;
+    absolutePath: string;
+  }>;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'tags-formatter-'));
+    writeFileSync(join(dir, 'client.ts'), source);
+    results = [
+      {
+        file: 'src/client.ts',
+        absolutePath: join(dir, 'client.ts'),
+        outline: {
+          type: 'program',
+          start: { row: 0, column: 0 },
+          end: { row: 7, column: 1 },
+          children: [
+            node('variable_declarator', 'VERSION', 0, {
+              start: { row: 0, column: 13 },
+              modifiers: ['export', 'const'],
+            }),
+            node('class_declaration', 'ApiClient', 1, {
+              start: { row: 1, column: 7 },
+              children: [
+                node('public_field_definition', 'token', 2, {
+                  start: { row: 2, column: 2 },
+                  modifiers: ['private'],
+                }),
+                node('method_definition', 'get', 3, {
+                  start: { row: 3, column: 2 },
+                  signature: {
+                    parameters: [{ name: 'path', type: 'string' }],
+                    returnType: 'string',
+                  },
+                  children: [
+                    node('variable_declarator', 'url', 4, {
+                      modifiers: ['const'],
+                    }),
+                  ],
+                }),
+              ],
+            }),
+          ],
+        },
+      },
+    ];
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should write sorted ctags lines with kinds, scopes and signatures', () => {
+    const lines = new TagsFormatter('ctags').format(results).split('\n');
+
+    expect(lines[0]).toBe(
+      '!_TAG_FILE_FORMAT\t2\t/extended format; --format=1 will not append ;" to lines/'
+    );
+    expect(lines.filter((line) => !line.startsWith('!_TAG_'))).toEqual([
+      'ApiClient\tsrc/client.ts\t/^export class ApiClient {$/;"\tc\tline:2',
+      'VERSION\tsrc/client.ts\t/^export const VERSION = "1.0";$/;"\tC\tline:1',
+      'get\tsrc/client.ts\t/^  get(path: string): string {$/;"\tm\tline:4\tclass:ApiClient\tsignature:(path: string)\ttyperef:typename:string',
+      'token\tsrc/client.ts\t/^  private token = "";$/;"\tp\tline:3\tclass:ApiClient\taccess:private',
+    ]);
+  });
+
+  it('should keep tabs in the search pattern of indented members', () => {
+    writeFileSync(join(dir, 'tabs.ts'), 'class A {\n\tload(): void {}\n}');
+    const output = new TagsFormatter('ctags').format([
+      {
+        file: 'tabs.ts',
+        absolutePath: join(dir, 'tabs.ts'),
+        outline: node('class_declaration', 'A', 0, {
+          children: [node('method_definition', 'load', 1)],
+        }),
+      },
+    ]);
+
+    expect(output).toContain(
+      'load\ttabs.ts\t/^\tload(): void {}$/;"\tm\tline:2\tclass:A'
+    );
+  });
+
+  it('should address tags by line number when the source is missing', () => {
+    const output = new TagsFormatter('ctags').format([
+      { ...results[0], absolutePath: join(dir, 'missing.ts') },
+    ]);
+
+    expect(output).toContain('ApiClient\tsrc/client.ts\t2;"\tc\tline:2');
+  });
+
+  it('should write an etags section with byte offsets', () => {
+    const output = new TagsFormatter('etags').format(results);
+    const content = [
+      'export const VERSION\x7fVERSION\x011,0',
+      'export class ApiClient\x7fApiClient\x012,30',
+      '  private token\x7ftoken\x013,55',
+      '  get\x7fget\x014,77',
+      '',
+    ].join('\n');
+
+    expect(output).toBe(
+      `\f\nsrc/client.ts,${Buffer.byteLength(content)}\n${content}`.replace(
+        /\n$/,
+        ''
+      )
+    );
+  });
+
+  it('should find names after non-ASCII characters in etags', () => {
+    const line = 'const a = "éééééééééééééééé x"; const x = 1;';
+    writeFileSync(join(dir, 'unicode.ts'), line);
+    const output = new TagsFormatter('etags').format([
+      {
+        file: 'unicode.ts',
+        absolutePath: join(dir, 'unicode.ts'),
+        outline: node('variable_declarator', 'x', 0, {
+          start: { row: 0, column: line.lastIndexOf('x =') },
+        }),
+      },
+    ]);
+
+    expect(output).toContain(
+      'const a = "éééééééééééééééé x"; const x\x7fx\x011,0'
+    );
+  });
+});
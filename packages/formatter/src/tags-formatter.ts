@@ -0,0 +1,278 @@
+import { readFileSync } from 'node:fs';
+import type { NodeInfo } from '@sammons/code-outline-parser';
+import {
+  getSymbolKind,
+  isSymbolType,
+  SignatureUtils,
+} from '@sammons/code-outline-parser';
+
+export type TagsFormat = 'ctags' | 'etags';
+
+// Kind letters of Universal Ctags' TypeScript parser
+const KIND_LETTERS: Record<string, string> = {
+  function: 'f',
+  class: 'c',
+  interface: 'i',
+  enum: 'g',
+  method: 'm',
+  property: 'p',
+  variable: 'v',
+  constant: 'C',
+  type: 'a',
+  namespace: 'n',
+};
+
+// Kinds that other tags name as their scope, e.g. "class:ApiClient"
+const SCOPE_KINDS = [
+  'class',
+  'interface',
+  'enum',
+  'namespace',
+  'function',
+  'method',
+  'variable',
+  'constant',
+];
+
+const CTAGS_HEADER = [
+  '!_TAG_FILE_FORMAT\t2\t/extended format; --format=1 will not append ;" to lines/',
+  '!_TAG_FILE_SORTED\t1\t/0=unsorted, 1=sorted, 2=foldcase/',
+  '!_TAG_PROGRAM_NAME\tcode-outline\t//',
+  '!_TAG_PROGRAM_URL\thttps://github.com/sammons2/code-outline-cli\t//',
+];
+
+interface Tag {
+  name: string;
+  file: string;
+  kind: string;
+  /** 0-based */
+  row: number;
+  column: number;
+  /** e.g. "class:ns.ApiClient" */
+  scope?: string;
+  access?: 'private' | 'protected';
+  signature?: string;
+  returnType?: string;
+}
+
+interface SourceFile {
+  file: string;
+  /** Lines of the source, or null when it could not be read */
+  lines: string[] | null;
+  tags: Tag[];
+}
+
+/**
+ * TagsFormatter writes the declarations of outlines as a Universal Ctags
+ * (extended format) or Emacs etags file for editor navigation. Local
+ * variables of functions and methods are left out, as ctags does.
+ */
+export class TagsFormatter {
+  constructor(private tagsFormat: TagsFormat) {}
+
+  /**
+   * @param results - Outlines with paths as they should appear in the tags
+   * file, and the absolute paths their sources are read from
+   */
+  format(
+    results: Array<{
+      file: string;
+      outline: NodeInfo | null;
+      absolutePath?: string;
+    }>
+  ): string {
+    const files = results.flatMap(({ file, outline, absolutePath }) =>
+      outline
+        ? [
+            {
+              file,
+              lines: this.readLines(absolutePath ?? file),
+              tags: this.collectTags(outline, file),
+            },
+          ]
+        : []
+    );
+
+    return this.tagsFormat === 'ctags'
+      ? this.formatCtags(files)
+      : this.formatEtags(files);
+  }
+
+  private formatCtags(files: SourceFile[]): string {
+    const lines = files.flatMap(({ lines: source, tags }) =>
+      tags.map((tag) => ({ tag, line: this.formatCtagsLine(tag, source) }))
+    );
+    // Sorted by name so editors can binary search the file
+    lines.sort(
+      (a, b) =>
+        this.compare(a.tag.name, b.tag.name) ||
+        this.compare(a.tag.file, b.tag.file) ||
+        a.tag.row - b.tag.row
+    );
+
+    return [...CTAGS_HEADER, ...lines.map(({ line }) => line)].join('\n');
+  }
+
+  private formatCtagsLine(tag: Tag, source: string[] | null): string {
+    const line = source?.[tag.row]?.replace(/\r$/, '');
+    // Search patterns keep working after lines above the tag change
+    const address =
+      line === undefined
+        ? String(tag.row + 1)
+        : `/^${line.replace(/[\\/]/g, '\\$&')}$/`;
+
+    const fields = [tag.kind, `line:${tag.row + 1}`];
+    if (tag.scope) {
+      fields.push(tag.scope);
+    }
+    if (tag.access) {
+      fields.push(`access:${tag.access}`);
+    }
+    if (tag.signature) {
+      fields.push(`signature:${tag.signature}`);
+    }
+    if (tag.returnType) {
+      fields.push(`typeref:typename:${tag.returnType}`);
+    }
+
+    // Fields cannot contain tabs or line breaks; the address can, since it
+    // ends at ;"
+    const clean = (field: string): string => field.replace(/[\t\r\n]+/g, ' ');
+    return [
+      clean(tag.name),
+      clean(tag.file),
+      `${address};"`,
+      ...fields.map(clean),
+    ].join('\t');
+  }
+
+  /**
+   * One section per file: a form feed line, "file,size" and one
+   * "text\x7fname\x01line,offset" line per tag, where text is the line up
+   * to the end of the name and offset is the byte offset of the line
+   * @private
+   */
+  private formatEtags(files: SourceFile[]): string {
+    const sections = files.map(({ file, lines, tags }) => {
+      const offsets = this.getLineOffsets(lines ?? []);
+      const content = tags
+        .map((tag) => {
+          const line = lines?.[tag.row] ?? '';
+          const nameEnd = line.indexOf(tag.name, tag.column);
+          const text =
+            nameEnd === -1
+              ? tag.name
+              : line.slice(0, nameEnd + tag.name.length);
+          return `${text}\x7f${tag.name}\x01${tag.row + 1},${offsets[tag.row] ?? 0}\n`;
+        })
+        .join('');
+      return `\f\n${file},${Buffer.byteLength(content)}\n${content}`;
+    });
+
+    // The caller prints the final line break
+    return sections.join('').replace(/\n$/, '');
+  }
+
+  private collectTags(outline: NodeInfo, file: string): Tag[] {
+    const tags: Tag[] = [];
+
+    const visit = (
+      node: NodeInfo,
+      scopes: Array<{ kind: string; name: string }>
+    ): void => {
+      let childScopes = scopes;
+
+      if (node.name && isSymbolType(node.type)) {
+        const kind = this.getKind(node);
+        const scope = scopes[scopes.length - 1];
+        const isLocal =
+          (kind === 'variable' || kind === 'constant') &&
+          (scope?.kind === 'function' || scope?.kind === 'method');
+        if (isLocal) {
+          return;
+        }
+
+        const modifiers = node.modifiers ?? [];
+        const access = modifiers.includes('private')
+          ? 'private'
+          : modifiers.includes('protected')
+            ? 'protected'
+            : undefined;
+        tags.push({
+          name: node.name,
+          file,
+          kind: KIND_LETTERS[kind] ?? kind,
+          row: node.start.row,
+          column: node.start.column,
+          ...(scope
+            ? {
+                scope: `${scope.kind}:${scopes.map(({ name }) => name).join('.')}`,
+              }
+            : {}),
+          ...(access ? { access } : {}),
+          ...(node.signature
+            ? {
+                signature: SignatureUtils.format({
+                  ...node.signature,
+                  returnType: undefined,
+                }),
+              }
+            : {}),
+          ...(node.signature?.returnType
+            ? { returnType: node.signature.returnType }
+            : {}),
+        });
+
+        if (SCOPE_KINDS.includes(kind)) {
+          childScopes = [...scopes, { kind, name: node.name }];
+        }
+      }
+
+      node.children?.forEach((child) => visit(child, childScopes));
+    };
+
+    visit(outline, []);
+    return tags;
+  }
+
+  /**
+   * Friendly kind of a declaration, with const variables as constants
+   * @private
+   */
+  private getKind(node: NodeInfo): string {
+    const kind = getSymbolKind(node.type);
+    return kind === 'variable' && node.modifiers?.includes('const')
+      ? 'constant'
+      : kind;
+  }
+
+  /**
+   * Byte offset of the start of every line
+   * @private
+   */
+  private getLineOffsets(lines: string[]): number[] {
+    const offsets: number[] = [];
+    let offset = 0;
+    for (const line of lines) {
+      offsets.push(offset);
+      offset += Buffer.byteLength(line) + 1;
+    }
+    return offsets;
+  }
+
+  private readLines(filePath: string): string[] | null {
+    try {
+      return readFileSync(filePath, 'utf8').split('\n');
+    } catch {
+      return null; // File might have been removed since it was parsed
+    }
+  }
+
+  /**
+   * Byte order, which is what sorted tags files use
+   * @private
+   */
+  private compare(a: string, b: string): number {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+}
@@ -1,11 +1,14 @@
 import type TreeSitterParser from 'tree-sitter';
-import type { NodeInfo } from './types';
+import { createHash } from 'node:crypto';
+import type { ExportInfo, ImportInfo, NodeInfo } from './types';
 import {
   isContainerType,
   isStructuralType,
   isInsignificantType,
+  isScopeType,
 } from './types';
 import { NameExtractor } from './name-extractor';
+import { DocExtractor } from './doc-extractor';
 import { TreeUtils } from './tree-utils';
 
 /**
@@ -16,16 +19,58 @@ export interface TraversalOptions {
   maxDepth: number;
   /** Only include nodes with names */
   namedOnly: boolean;
+  /** Path used to prefix qualified names (e.g. "src/api/client.ts") */
+  filePath?: string;
+  /** Outlines of unchanged subtrees from a previous version of the tree */
+  cache?: SubtreeCache;
 }
 
+/**
+ * Outlines extracted from an earlier version of a tree, which lets an
+ * incremental reparse skip the statements and members an edit did not touch
+ */
+export interface SubtreeCache {
+  /**
+   * Outline extracted earlier for a node, or undefined when the node
+   * changed since
+   * @param key - Depth and enclosing scopes the outline was extracted with
+   */
+  get(
+    node: TreeSitterParser.SyntaxNode,
+    key: string
+  ): NodeInfo | null | undefined;
+  /**
+   * Remember the outline extracted for a node
+   */
+  set(
+    node: TreeSitterParser.SyntaxNode,
+    key: string,
+    info: NodeInfo | null
+  ): void;
+}
+
+// Bodies whose statements and members are cached one by one
+const CACHED_PARENT_TYPES = [
+  'program',
+  'class_body',
+  'interface_body',
+  'object_type',
+  'enum_body',
+  'statement_block',
+];
+
 /**
  * ASTTraverser handles tree traversal logic for extracting node information
  */
 export class ASTTraverser {
   private nameExtractor: NameExtractor;
+  private docExtractor: DocExtractor;
+  // Occurrences of each qualified name and type seen in the current tree
+  private symbolOrdinals = new Map<string, number>();
 
-  constructor(nameExtractor?: NameExtractor) {
+  constructor(nameExtractor?: NameExtractor, docExtractor?: DocExtractor) {
     this.nameExtractor = nameExtractor ?? new NameExtractor();
+    this.docExtractor = docExtractor ?? new DocExtractor();
   }
 
   /**
@@ -42,7 +87,11 @@ export class ASTTraverser {
     options: TraversalOptions,
     currentDepth: number = 0
   ): NodeInfo | null {
-    const info = this.createNodeInfo(node, source);
+    if (currentDepth === 0) {
+      this.symbolOrdinals.clear();
+    }
+
+    const info = this.createNodeInfo(node, source, options);
 
     if (!this.shouldIncludeNode(info, options)) {
       return this.handleSpecialCases(node, source, options, currentDepth, info);
@@ -58,7 +107,8 @@ export class ASTTraverser {
    */
   private createNodeInfo(
     node: TreeSitterParser.SyntaxNode,
-    source: string
+    source: string,
+    options: TraversalOptions
   ): NodeInfo {
     const info: NodeInfo = {
       type: node.type,
@@ -72,14 +122,147 @@ export class ASTTraverser {
       },
     };
 
+    const importInfo = this.nameExtractor.extractImportInfo(node, source);
+    const exportInfo = this.nameExtractor.extractExportInfo(node, source);
+
     const name = this.nameExtractor.extractName(node, source);
     if (name) {
       info.name = name;
+      info.qualifiedName = this.buildQualifiedName(
+        node,
+        this.getSymbolName(node, name, importInfo ?? exportInfo),
+        source,
+        options
+      );
+      info.id = this.createSymbolId(info.qualifiedName, node.type);
+    }
+
+    const signature = this.nameExtractor.extractSignature(node, source);
+    if (signature) {
+      info.signature = signature;
+    }
+
+    const modifierInfo = this.nameExtractor.extractModifiers(node, source);
+    if (modifierInfo?.modifiers.length) {
+      info.modifiers = modifierInfo.modifiers;
+    }
+    if (modifierInfo?.exported !== undefined) {
+      info.exported = modifierInfo.exported;
+    }
+
+    const heritage = this.nameExtractor.extractHeritage(node, source);
+    if (heritage) {
+      info.heritage = heritage;
+    }
+
+    if (importInfo) {
+      info.importInfo = importInfo;
+    }
+
+    if (exportInfo) {
+      info.exportInfo = exportInfo;
+    }
+
+    const doc = this.docExtractor.extractDoc(node, source);
+    if (doc) {
+      info.doc = doc;
     }
 
     return info;
   }
 
+  /**
+   * Build the qualified name of a node from the names of its enclosing
+   * scopes, e.g. "src/api/client.ts#ApiClient.request"
+   * @private
+   */
+  private buildQualifiedName(
+    node: TreeSitterParser.SyntaxNode,
+    name: string,
+    source: string,
+    options: TraversalOptions
+  ): string {
+    const symbolPath = [...this.getScopePath(node, source), name].join('.');
+    return options.filePath ? `${options.filePath}#${symbolPath}` : symbolPath;
+  }
+
+  /**
+   * Name of a node in its qualified name. Import statements and export
+   * clauses are named by their sorted bindings and module rather than
+   * their text, e.g. "b, c from './x'", so reformatting keeps the name.
+   * @private
+   */
+  private getSymbolName(
+    node: TreeSitterParser.SyntaxNode,
+    name: string,
+    moduleInfo: ImportInfo | ExportInfo | undefined
+  ): string {
+    const isClause =
+      node.type === 'import_statement' ||
+      (node.type === 'export_statement' &&
+        node.namedChildren.some((child) => child.type === 'export_clause'));
+    if (!isClause || !moduleInfo) {
+      return name;
+    }
+
+    const bindings = moduleInfo.bindings
+      .map((binding) => {
+        const [from, to] =
+          'imported' in binding
+            ? [binding.imported, binding.local]
+            : [binding.local, binding.exported];
+        return from === to || from === 'default' ? to : `${from} as ${to}`;
+      })
+      .sort();
+    const module = moduleInfo.source ? `'${moduleInfo.source}'` : undefined;
+    if (bindings.length === 0) {
+      return module ?? name;
+    }
+    return module
+      ? `${bindings.join(', ')} from ${module}`
+      : bindings.join(', ');
+  }
+
+  /**
+   * Names of the scopes enclosing a node, outermost first
+   * @private
+   */
+  private getScopePath(
+    node: TreeSitterParser.SyntaxNode,
+    source: string
+  ): string[] {
+    const path: string[] = [];
+
+    for (let parent = node.parent; parent; parent = parent.parent) {
+      if (!isScopeType(parent.type)) {
+        continue;
+      }
+      const scopeName = this.nameExtractor.extractName(parent, source);
+      if (scopeName) {
+        path.unshift(scopeName);
+      }
+    }
+
+    return path;
+  }
+
+  /**
+   * Create an ID that only depends on the symbol's qualified name, type and
+   * position among identically named siblings (e.g. overloads), so it stays
+   * stable when the file is reformatted
+   * @private
+   */
+  private createSymbolId(qualifiedName: string, type: string): string {
+    const key = `${qualifiedName}\0${type}`;
+    const ordinal = this.symbolOrdinals.get(key) ?? 0;
+    this.symbolOrdinals.set(key, ordinal + 1);
+
+    return createHash('sha1')
+      .update(`${key}\0${ordinal}`)
+      .digest('hex')
+      .substring(0, 16);
+  }
+
   /**
    * Determine if a node should be included in the output
    * @private
@@ -224,7 +407,7 @@ export class ASTTraverser {
         currentDepth,
         options.namedOnly
       );
-      const childInfo = this.extractNodeInfo(child, source, options, nextDepth);
+      const childInfo = this.extractChild(child, source, options, nextDepth);
 
       if (childInfo) {
         children.push(childInfo);
@@ -234,6 +417,48 @@ export class ASTTraverser {
     return children;
   }
 
+  /**
+   * Extract a child node, reusing the cached outline of statements and
+   * members that did not change when a subtree cache is given
+   * @private
+   */
+  private extractChild(
+    node: TreeSitterParser.SyntaxNode,
+    source: string,
+    options: TraversalOptions,
+    depth: number
+  ): NodeInfo | null {
+    const { cache } = options;
+    if (!cache || !CACHED_PARENT_TYPES.includes(node.parent?.type ?? '')) {
+      return this.extractNodeInfo(node, source, options, depth);
+    }
+
+    const key = `${depth}\0${this.getScopePath(node, source).join('.')}`;
+    const cached = cache.get(node, key);
+    if (cached !== undefined) {
+      // Overload ordinals count across the file, so IDs are reassigned
+      if (cached) {
+        this.renumberSymbols(cached);
+      }
+      return cached;
+    }
+
+    const info = this.extractNodeInfo(node, source, options, depth);
+    cache.set(node, key, info);
+    return info;
+  }
+
+  /**
+   * Reassign the symbol IDs of a reused subtree in traversal order
+   * @private
+   */
+  private renumberSymbols(info: NodeInfo): void {
+    if (info.qualifiedName) {
+      info.id = this.createSymbolId(info.qualifiedName, info.type);
+    }
+    info.children?.forEach((child) => this.renumberSymbols(child));
+  }
+
   /**
    * Calculate the next depth for child traversal
    * @private
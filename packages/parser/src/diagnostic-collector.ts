@@ -0,0 +1,68 @@
+import type TreeSitterParser from 'tree-sitter';
+import type { Diagnostic } from './types';
+
+// Longest source excerpt quoted in a syntax error message
+const MAX_EXCERPT_LENGTH = 40;
+
+/**
+ * DiagnosticCollector turns the ERROR and MISSING nodes tree-sitter inserts
+ * during error recovery into diagnostics
+ */
+export class DiagnosticCollector {
+  /**
+   * Collect diagnostics for a syntax tree
+   * @param rootNode - The root node of the tree
+   * @returns Diagnostics in source order (empty when the tree parsed cleanly)
+   */
+  collect(rootNode: TreeSitterParser.SyntaxNode): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    this.visit(rootNode, diagnostics);
+    return diagnostics;
+  }
+
+  private visit(
+    node: TreeSitterParser.SyntaxNode,
+    diagnostics: Diagnostic[]
+  ): void {
+    if (node.isMissing) {
+      diagnostics.push({
+        severity: 'error',
+        message: `Missing ${node.isNamed ? node.type : `"${node.type}"`}`,
+        start: node.startPosition,
+        end: node.endPosition,
+      });
+      return;
+    }
+
+    if (node.type === 'ERROR') {
+      diagnostics.push({
+        severity: 'error',
+        message: this.describeError(node),
+        start: node.startPosition,
+        end: node.endPosition,
+      });
+      // Nested problems are part of the same unparseable region
+      return;
+    }
+
+    // Only subtrees flagged by tree-sitter can contain ERROR or MISSING nodes
+    for (const child of node.children) {
+      if (child.hasError || child.isMissing) {
+        this.visit(child, diagnostics);
+      }
+    }
+  }
+
+  private describeError(node: TreeSitterParser.SyntaxNode): string {
+    const text = node.text.replace(/\s+/g, ' ').trim();
+    if (!text) {
+      return 'Syntax error';
+    }
+
+    const excerpt =
+      text.length > MAX_EXCERPT_LENGTH
+        ? `${text.substring(0, MAX_EXCERPT_LENGTH - 3)}...`
+        : text;
+    return `Syntax error: unexpected "${excerpt}"`;
+  }
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { DocExtractor } from './doc-extractor';
+import { Parser } from './parser';
+import { TreeUtils } from './tree-utils';
+
+describe('DocExtractor', () => {
+  let extractor: DocExtractor;
+
+  beforeEach(() => {
+    extractor = new DocExtractor();
+  });
+
+  describe('parseComment', () => {
+    it('should split the summary from the remaining description', () => {
+      const doc = extractor.parseComment(`/**
+       * Fetches a user by id.
+       * Falls back to the cache.
+       *
+       * Network errors are retried twice.
+       */`);
+
+      expect(doc).toEqual({
+        summary: 'Fetches a user by id. Falls back to the cache.',
+        description: 'Network errors are retried twice.',
+      });
+    });
+
+    it('should parse @param tags with optional types and defaults', () => {
+      const doc = extractor.parseComment(`/**
+       * @param id - The user id
+       * @param {string} [name="guest"] Display name
+       */`);
+
+      expect(doc?.params).toEqual([
+        { name: 'id', description: 'The user id' },
+        { name: 'name', type: 'string', description: 'Display name' },
+      ]);
+    });
+
+    it('should parse @returns, @deprecated, @example and @internal tags', () => {
+      const doc = extractor.parseComment(`/**
+       * Legacy lookup.
+       * @returns {User} The matching user
+       * @deprecated Use findUser instead
+       * @example
+       *   const user = getUser(1);
+       *   console.log(user.name);
+       * @internal
+       */`);
+
+      expect(doc).toEqual({
+        summary: 'Legacy lookup.',
+        returns: 'The matching user',
+        deprecated: 'Use findUser instead',
+        examples: ['const user = getUser(1);\nconsole.log(user.name);'],
+        internal: true,
+      });
+    });
+
+    it('should mark bare @deprecated tags', () => {
+      expect(extractor.parseComment('/** @deprecated */')).toEqual({
+        deprecated: true,
+      });
+    });
+
+    it('should return undefined for empty blocks', () => {
+      expect(extractor.parseComment('/** */')).toBeUndefined();
+    });
+  });
+
+  describe('association with declarations', () => {
+    const parser = new Parser();
+
+    const findDoc = (source: string, name: string): unknown =>
+      TreeUtils.findNodesByName(parser.parseSource(source, 'typescript')!, name)
+        .map((node) => node.doc)
+        .find(Boolean);
+
+    it('should attach docs to exported functions', () => {
+      const source = `
+        /** Adds two numbers. */
+        export function add(a: number, b: number) { return a + b; }
+      `;
+
+      expect(findDoc(source, 'add')).toEqual({ summary: 'Adds two numbers.' });
+    });
+
+    it('should attach docs to variable declarators and class members', () => {
+      const source = `
+        /** The answer. */
+        const answer = 42;
+
+        class Service {
+          /** Cached entries. */
+          private cache = new Map();
+
+          /** Clears the cache. */
+          clear(): void {}
+        }
+      `;
+
+      expect(findDoc(source, 'answer')).toEqual({ summary: 'The answer.' });
+      expect(findDoc(source, 'cache')).toEqual({ summary: 'Cached entries.' });
+      expect(findDoc(source, 'clear')).toEqual({
+        summary: 'Clears the cache.',
+      });
+    });
+
+    it('should ignore line comments and detached blocks', () => {
+      const source = `
+        // Not documentation
+        function first() {}
+
+        /** Detached from the declaration below. */
+
+        function second() {}
+      `;
+
+      expect(findDoc(source, 'first')).toBeUndefined();
+      expect(findDoc(source, 'second')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,217 @@
+import type TreeSitterParser from 'tree-sitter';
+import type { DocInfo, DocParamInfo } from './types';
+import { isDocumentableType } from './types';
+
+// Parent node types that wrap a declaration without owning its comment
+const WRAPPER_TYPES = ['export_statement', 'ambient_declaration'];
+
+// Declaration lists whose first declarator inherits the leading comment
+const DECLARATION_LIST_TYPES = ['lexical_declaration', 'variable_declaration'];
+
+/**
+ * DocExtractor associates leading JSDoc/TSDoc blocks with the declarations
+ * they document and parses them into structured DocInfo
+ */
+export class DocExtractor {
+  /**
+   * Extract documentation for a syntax node
+   * @param node - The declaration node
+   * @param source - The source code string
+   * @returns Parsed documentation or undefined if the node is undocumented
+   */
+  extractDoc(
+    node: TreeSitterParser.SyntaxNode,
+    source: string
+  ): DocInfo | undefined {
+    if (!isDocumentableType(node.type)) {
+      return undefined;
+    }
+
+    const comment = this.findLeadingComment(node);
+    if (!comment) {
+      return undefined;
+    }
+
+    return this.parseComment(
+      source.substring(comment.startIndex, comment.endIndex)
+    );
+  }
+
+  /**
+   * Parse the text of a `/** ... *\/` block into structured documentation
+   * @param text - Raw comment text including delimiters
+   * @returns Parsed documentation or undefined if the block is empty
+   */
+  parseComment(text: string): DocInfo | undefined {
+    const lines = text
+      .replace(/^\/\*\*/, '')
+      .replace(/\*\/$/, '')
+      .split('\n')
+      .map((line) => line.replace(/^\s*\* ?/, '').trimEnd());
+
+    const descriptionLines: string[] = [];
+    const tags: Array<{ name: string; lines: string[] }> = [];
+
+    for (const line of lines) {
+      const tagMatch = /^\s*@(\w+)\s*(.*)$/.exec(line);
+      if (tagMatch) {
+        tags.push({ name: tagMatch[1], lines: [tagMatch[2]] });
+      } else if (tags.length > 0) {
+        tags[tags.length - 1].lines.push(line);
+      } else {
+        descriptionLines.push(line);
+      }
+    }
+
+    const doc: DocInfo = {};
+    this.applyDescription(doc, descriptionLines);
+    for (const tag of tags) {
+      this.applyTag(doc, tag.name, tag.lines);
+    }
+
+    return Object.keys(doc).length > 0 ? doc : undefined;
+  }
+
+  /**
+   * Find the doc comment immediately preceding a declaration
+   * @private
+   */
+  private findLeadingComment(
+    node: TreeSitterParser.SyntaxNode
+  ): TreeSitterParser.SyntaxNode | undefined {
+    let target = node;
+
+    // `const a = 1` and `export const a = 1` keep the comment above the statement
+    if (
+      target.parent &&
+      DECLARATION_LIST_TYPES.includes(target.parent.type) &&
+      target.parent.namedChildren.find((c) => c.type === 'variable_declarator')
+        ?.id === target.id
+    ) {
+      target = target.parent;
+    }
+
+    while (target.parent && WRAPPER_TYPES.includes(target.parent.type)) {
+      target = target.parent;
+    }
+
+    const previous = target.previousSibling;
+    if (
+      previous?.type !== 'comment' ||
+      previous.endPosition.row < target.startPosition.row - 1
+    ) {
+      return undefined;
+    }
+
+    const text = previous.text;
+    return text.startsWith('/**') && text !== '/**/' ? previous : undefined;
+  }
+
+  /**
+   * Split free text into a summary paragraph and the remaining description
+   * @private
+   */
+  private applyDescription(doc: DocInfo, lines: string[]): void {
+    const paragraphs = lines
+      .join('\n')
+      .split(/\n\s*\n/)
+      .map((paragraph) => paragraph.replace(/\s+/g, ' ').trim())
+      .filter((paragraph) => paragraph.length > 0);
+
+    if (paragraphs.length > 0) {
+      doc.summary = paragraphs[0];
+    }
+    if (paragraphs.length > 1) {
+      doc.description = paragraphs.slice(1).join('\n\n');
+    }
+  }
+
+  /**
+   * Apply a single block tag to the documentation
+   * @private
+   */
+  private applyTag(doc: DocInfo, tag: string, lines: string[]): void {
+    const text = lines.join(' ').replace(/\s+/g, ' ').trim();
+
+    switch (tag) {
+      case 'param':
+      case 'arg':
+      case 'argument': {
+        const param = this.parseParamTag(text);
+        if (param) {
+          (doc.params ??= []).push(param);
+        }
+        break;
+      }
+
+      case 'returns':
+      case 'return':
+        doc.returns = text.replace(/^\{[^}]*\}\s*/, '').replace(/^-\s*/, '');
+        break;
+
+      case 'deprecated':
+        doc.deprecated = text || true;
+        break;
+
+      case 'example': {
+        // Examples keep their line structure
+        const example = this.dedent(lines);
+        if (example) {
+          (doc.examples ??= []).push(example);
+        }
+        break;
+      }
+
+      case 'internal':
+        doc.internal = true;
+        break;
+
+      default:
+        break;
+    }
+  }
+
+  /**
+   * Parse `@param {type} [name=default] - description` style tags
+   * @private
+   */
+  private parseParamTag(text: string): DocParamInfo | undefined {
+    const match =
+      /^(?:\{([^}]*)\}\s*)?(\[[^\]]+\]|[^\s]+)\s*(?:-\s*)?(.*)$/.exec(text);
+    if (!match) {
+      return undefined;
+    }
+
+    const param: DocParamInfo = {
+      name: match[2]
+        .replace(/^\[|\]$/g, '')
+        .split('=')[0]
+        .trim(),
+    };
+    if (match[1]) {
+      param.type = match[1].trim();
+    }
+    if (match[3]) {
+      param.description = match[3];
+    }
+    return param;
+  }
+
+  /**
+   * Join lines, dropping blank edges and their shared indentation
+   * @private
+   */
+  private dedent(lines: string[]): string {
+    const content = lines
+      .join('\n')
+      .replace(/^\s*\n|\s+$/g, '')
+      .split('\n');
+    const indent = Math.min(
+      ...content
+        .filter((line) => line.trim().length > 0)
+        .map((line) => /^\s*/.exec(line)![0].length)
+    );
+
+    return content.map((line) => line.slice(indent)).join('\n');
+  }
+}
@@ -1,4 +1,35 @@
 import type TreeSitterParser from 'tree-sitter';
+import type {
+  ExportInfo,
+  HeritageInfo,
+  ImportInfo,
+  ModifierInfo,
+  SignatureInfo,
+} from '../types';
+
+// Keyword children that map directly onto declaration modifiers
+const MODIFIER_KEYWORDS = new Map([
+  ['static', 'static'],
+  ['readonly', 'readonly'],
+  ['async', 'async'],
+  ['abstract', 'abstract'],
+  ['declare', 'declare'],
+  ['override_modifier', 'override'],
+  ['get', 'get'],
+  ['set', 'set'],
+  ['accessor', 'accessor'],
+  ['const', 'const'],
+  ['*', 'generator'],
+  ['?', 'optional'],
+]);
+
+// Statements that wrap a declaration without being the declaration itself
+const DECLARATION_WRAPPER_TYPES = [
+  'lexical_declaration',
+  'variable_declaration',
+  'export_statement',
+  'ambient_declaration',
+];
 
 /**
  * Base interface for all name extractors
@@ -15,6 +46,61 @@ export interface BaseExtractor {
     source: string
   ): string | undefined;
 
+  /**
+   * Extract the call signature from a function-like syntax node
+   * @param node - The syntax node to extract the signature from
+   * @param source - The source code string
+   * @returns The extracted signature or undefined if the node has none
+   */
+  extractSignature?(
+    node: TreeSitterParser.SyntaxNode,
+    source: string
+  ): SignatureInfo | undefined;
+
+  /**
+   * Extract modifiers and export status from a declaration node
+   * @param node - The syntax node to inspect
+   * @param source - The source code string
+   * @returns Modifier information or undefined if the node is not a declaration
+   */
+  extractModifiers?(
+    node: TreeSitterParser.SyntaxNode,
+    source: string
+  ): ModifierInfo | undefined;
+
+  /**
+   * Extract the types a class or interface extends or implements
+   * @param node - The syntax node to inspect
+   * @param source - The source code string
+   * @returns Heritage information or undefined if the node has none
+   */
+  extractHeritage?(
+    node: TreeSitterParser.SyntaxNode,
+    source: string
+  ): HeritageInfo | undefined;
+
+  /**
+   * Extract the module specifier and bound names of an import statement
+   * @param node - The syntax node to inspect
+   * @param source - The source code string
+   * @returns Import information or undefined if the node is not an import
+   */
+  extractImportInfo?(
+    node: TreeSitterParser.SyntaxNode,
+    source: string
+  ): ImportInfo | undefined;
+
+  /**
+   * Extract the exported names of an export statement
+   * @param node - The syntax node to inspect
+   * @param source - The source code string
+   * @returns Export information or undefined if the node is not an export
+   */
+  extractExportInfo?(
+    node: TreeSitterParser.SyntaxNode,
+    source: string
+  ): ExportInfo | undefined;
+
   /**
    * Get the node types that this extractor can handle
    * @returns Array of node type strings
@@ -89,6 +175,26 @@ export class NodeUtils {
     return identifier ? this.getNodeText(identifier, source) : undefined;
   }
 
+  /**
+   * Extract node text with runs of whitespace collapsed to a single space
+   */
+  static getNormalizedText(
+    node: TreeSitterParser.SyntaxNode,
+    source: string
+  ): string {
+    return this.getNodeText(node, source).replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * Extract the type text from a type annotation node (without the leading colon)
+   */
+  static getTypeAnnotationText(
+    node: TreeSitterParser.SyntaxNode,
+    source: string
+  ): string {
+    return this.getNormalizedText(node, source).replace(/^:\s*/, '');
+  }
+
   /**
    * Clean string value by removing quotes
    */
@@ -116,4 +222,133 @@ export class NodeUtils {
       }
     }
   }
+
+  /**
+   * Collect modifier keywords (accessibility, static, async, ...) from the
+   * direct children of a declaration and its wrapping statements
+   */
+  static collectModifiers(
+    node: TreeSitterParser.SyntaxNode,
+    source: string
+  ): string[] {
+    const modifiers: string[] = [];
+    const add = (modifier: string): void => {
+      if (!modifiers.includes(modifier)) {
+        modifiers.push(modifier);
+      }
+    };
+
+    this.forEachChild(node, (child) => {
+      if (child.type === 'accessibility_modifier') {
+        add(this.getNodeText(child, source));
+      } else if (child.type === 'private_property_identifier') {
+        // `#field` members are private regardless of accessibility keywords
+        add('private');
+      } else {
+        const modifier = MODIFIER_KEYWORDS.get(child.type);
+        if (modifier) {
+          add(modifier);
+        }
+      }
+    });
+
+    for (const wrapper of this.getDeclarationWrappers(node)) {
+      if (wrapper.type === 'ambient_declaration') {
+        add('declare');
+      }
+      if (
+        wrapper.type === 'export_statement' &&
+        this.findChildByType(wrapper, 'default')
+      ) {
+        add('default');
+      }
+    }
+
+    return modifiers;
+  }
+
+  /**
+   * Get the chain of statements wrapping a declaration, innermost first
+   * (e.g. variable_declarator -> lexical_declaration -> export_statement)
+   */
+  static getDeclarationWrappers(
+    node: TreeSitterParser.SyntaxNode
+  ): TreeSitterParser.SyntaxNode[] {
+    const wrappers: TreeSitterParser.SyntaxNode[] = [];
+    let current = node.parent;
+
+    while (current && DECLARATION_WRAPPER_TYPES.includes(current.type)) {
+      wrappers.push(current);
+      current = current.parent;
+    }
+
+    return wrappers;
+  }
+
+  /**
+   * Check whether a declaration is exported, either directly
+   * (`export function f`) or through a local export clause (`export { f }`)
+   */
+  static isExported(
+    node: TreeSitterParser.SyntaxNode,
+    source: string,
+    name: string | undefined
+  ): boolean {
+    const wrappers = this.getDeclarationWrappers(node);
+    if (wrappers.some((wrapper) => wrapper.type === 'export_statement')) {
+      return true;
+    }
+
+    const statement = wrappers[wrappers.length - 1] ?? node;
+    if (!name || statement.parent?.type !== 'program') {
+      return false;
+    }
+
+    return this.isNameExportedByClause(statement.parent, source, name);
+  }
+
+  /**
+   * Check whether a top-level name is listed in a local export clause or
+   * exported as `export default name`
+   */
+  private static isNameExportedByClause(
+    program: TreeSitterParser.SyntaxNode,
+    source: string,
+    name: string
+  ): boolean {
+    for (const statement of this.findChildrenByType(
+      program,
+      'export_statement'
+    )) {
+      // Re-exports (`export { x } from './x'`) refer to other modules
+      if (statement.childForFieldName('source')) {
+        continue;
+      }
+
+      const value = statement.childForFieldName('value');
+      if (value?.type === 'identifier') {
+        if (this.getNodeText(value, source) === name) {
+          return true;
+        }
+        continue;
+      }
+
+      const clause = this.findChildByType(statement, 'export_clause');
+      if (!clause) {
+        continue;
+      }
+
+      const exported = this.findChildrenByType(clause, 'export_specifier').some(
+        (specifier) => {
+          const local = specifier.childForFieldName('name');
+          return local !== null && this.getNodeText(local, source) === name;
+        }
+      );
+      if (exported) {
+        return true;
+      }
+    }
+
+    return false;
+  }
 }
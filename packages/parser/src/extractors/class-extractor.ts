@@ -1,4 +1,5 @@
 import type TreeSitterParser from 'tree-sitter';
+import type { HeritageInfo, ModifierInfo } from '../types';
 import type { BaseExtractor } from './base-extractor';
 import { NodeUtils } from './base-extractor';
 
@@ -7,7 +8,11 @@ import { NodeUtils } from './base-extractor';
  */
 export class ClassExtractor implements BaseExtractor {
   getSupportedTypes(): string[] {
-    return ['class_declaration', 'interface_declaration'];
+    return [
+      'class_declaration',
+      'abstract_class_declaration',
+      'interface_declaration',
+    ];
   }
 
   extractName(
@@ -16,6 +21,7 @@ export class ClassExtractor implements BaseExtractor {
   ): string | undefined {
     switch (node.type) {
       case 'class_declaration':
+      case 'abstract_class_declaration':
         return this.extractClassName(node, source);
 
       case 'interface_declaration':
@@ -51,4 +57,79 @@ export class ClassExtractor implements BaseExtractor {
       'identifier',
     ]);
   }
+
+  extractModifiers(
+    node: TreeSitterParser.SyntaxNode,
+    source: string
+  ): ModifierInfo | undefined {
+    return {
+      modifiers: NodeUtils.collectModifiers(node, source),
+      exported: NodeUtils.isExported(
+        node,
+        source,
+        this.extractName(node, source)
+      ),
+    };
+  }
+
+  extractHeritage(
+    node: TreeSitterParser.SyntaxNode,
+    source: string
+  ): HeritageInfo | undefined {
+    const extendsTypes: string[] = [];
+    const implementsTypes: string[] = [];
+
+    for (const child of node.namedChildren) {
+      if (child.type === 'extends_type_clause') {
+        // interface I extends J, K
+        extendsTypes.push(...this.getTypeNames(child.namedChildren, source));
+      } else if (child.type === 'class_heritage') {
+        for (const clause of child.namedChildren) {
+          if (clause.type === 'extends_clause') {
+            const value = clause.childForFieldName('value');
+            if (value) {
+              extendsTypes.push(this.getTypeName(value, source));
+            }
+          } else if (clause.type === 'implements_clause') {
+            implementsTypes.push(
+              ...this.getTypeNames(clause.namedChildren, source)
+            );
+          } else if (clause.type !== 'comment') {
+            // JavaScript has the superclass expression directly under
+            // class_heritage
+            extendsTypes.push(this.getTypeName(clause, source));
+          }
+        }
+      }
+    }
+
+    if (extendsTypes.length === 0 && implementsTypes.length === 0) {
+      return undefined;
+    }
+    return {
+      ...(extendsTypes.length > 0 ? { extends: extendsTypes } : {}),
+      ...(implementsTypes.length > 0 ? { implements: implementsTypes } : {}),
+    };
+  }
+
+  private getTypeNames(
+    nodes: TreeSitterParser.SyntaxNode[],
+    source: string
+  ): string[] {
+    return nodes
+      .filter((node) => node.type !== 'comment')
+      .map((node) => this.getTypeName(node, source));
+  }
+
+  /**
+   * Name of a heritage type without its type arguments ("Map<K, V>" -> "Map")
+   */
+  private getTypeName(
+    node: TreeSitterParser.SyntaxNode,
+    source: string
+  ): string {
+    const name =
+      node.type === 'generic_type' ? node.childForFieldName('name') : null;
+    return NodeUtils.getNormalizedText(name ?? node, source);
+  }
 }
@@ -1,7 +1,16 @@
 import type TreeSitterParser from 'tree-sitter';
+import type { ModifierInfo, ParameterInfo, SignatureInfo } from '../types';
 import type { BaseExtractor } from './base-extractor';
 import { NodeUtils } from './base-extractor';
 
+// Function types that declare a statement-level binding and can be exported
+const DECLARATION_TYPES = [
+  'function_declaration',
+  'generator_function_declaration',
+  'async_function_declaration',
+  'function_signature',
+];
+
 /**
  * Extractor for function-related nodes (functions, methods, arrow functions)
  */
@@ -12,7 +21,10 @@ export class FunctionExtractor implements BaseExtractor {
       'function_expression',
       'generator_function_declaration',
       'async_function_declaration',
+      'function_signature',
       'method_definition',
+      'method_signature',
+      'abstract_method_signature',
       'arrow_function',
       'constructor',
     ];
@@ -27,9 +39,12 @@ export class FunctionExtractor implements BaseExtractor {
       case 'function_expression':
       case 'generator_function_declaration':
       case 'async_function_declaration':
+      case 'function_signature':
         return this.extractFunctionName(node, source);
 
       case 'method_definition':
+      case 'method_signature':
+      case 'abstract_method_signature':
         return this.extractMethodName(node, source);
 
       case 'arrow_function':
@@ -62,6 +77,7 @@ export class FunctionExtractor implements BaseExtractor {
   ): string | undefined {
     return NodeUtils.extractIdentifier(node, source, [
       'property_identifier',
+      'private_property_identifier',
       'identifier',
     ]);
   }
@@ -105,4 +121,135 @@ export class FunctionExtractor implements BaseExtractor {
 
     return undefined;
   }
+
+  extractSignature(
+    node: TreeSitterParser.SyntaxNode,
+    source: string
+  ): SignatureInfo | undefined {
+    // A bare arrow function parameter (`x => x`) has no formal_parameters node
+    const singleParameter = node.childForFieldName('parameter');
+    const parameters = node.childForFieldName('parameters');
+
+    if (!parameters && !singleParameter) {
+      return undefined;
+    }
+
+    const signature: SignatureInfo = {
+      parameters: singleParameter
+        ? [{ name: NodeUtils.getNodeText(singleParameter, source) }]
+        : this.extractParameters(parameters!, source),
+    };
+
+    const typeParameters = node.childForFieldName('type_parameters');
+    if (typeParameters) {
+      signature.typeParameters = NodeUtils.findChildrenByType(
+        typeParameters,
+        'type_parameter'
+      ).map((param) => NodeUtils.getNormalizedText(param, source));
+    }
+
+    const returnType = node.childForFieldName('return_type');
+    if (returnType) {
+      signature.returnType = NodeUtils.getTypeAnnotationText(
+        returnType,
+        source
+      );
+    }
+
+    return signature;
+  }
+
+  extractModifiers(
+    node: TreeSitterParser.SyntaxNode,
+    source: string
+  ): ModifierInfo | undefined {
+    const modifiers = NodeUtils.collectModifiers(node, source);
+
+    if (!DECLARATION_TYPES.includes(node.type)) {
+      return { modifiers };
+    }
+
+    return {
+      modifiers,
+      exported: NodeUtils.isExported(
+        node,
+        source,
+        this.extractName(node, source)
+      ),
+    };
+  }
+
+  /**
+   * Extract parameter details from a formal_parameters node
+   */
+  private extractParameters(
+    node: TreeSitterParser.SyntaxNode,
+    source: string
+  ): ParameterInfo[] {
+    return node.namedChildren
+      .filter((child) => child.type !== 'comment')
+      .map((child) => this.extractParameter(child, source));
+  }
+
+  /**
+   * Extract a single parameter, handling both TypeScript parameter wrappers
+   * and plain JavaScript patterns
+   */
+  private extractParameter(
+    node: TreeSitterParser.SyntaxNode,
+    source: string
+  ): ParameterInfo {
+    switch (node.type) {
+      case 'required_parameter':
+      case 'optional_parameter': {
+        const pattern = node.childForFieldName('pattern') ?? node;
+        const param = this.extractPattern(pattern, source);
+
+        const type = node.childForFieldName('type');
+        if (type) {
+          param.type = NodeUtils.getTypeAnnotationText(type, source);
+        }
+
+        const value = node.childForFieldName('value');
+        if (value) {
+          param.defaultValue = NodeUtils.getNormalizedText(value, source);
+        }
+
+        if (node.type === 'optional_parameter') {
+          param.optional = true;
+        }
+        return param;
+      }
+
+      case 'assignment_pattern': {
+        const left = node.childForFieldName('left') ?? node;
+        const param = this.extractPattern(left, source);
+        const right = node.childForFieldName('right');
+        if (right) {
+          param.defaultValue = NodeUtils.getNormalizedText(right, source);
+        }
+        return param;
+      }
+
+      default:
+        return this.extractPattern(node, source);
+    }
+  }
+
+  /**
+   * Extract the parameter name from a binding pattern
+   */
+  private extractPattern(
+    node: TreeSitterParser.SyntaxNode,
+    source: string
+  ): ParameterInfo {
+    if (node.type === 'rest_pattern') {
+      return {
+        name: NodeUtils.getNormalizedText(node, source).replace(/^\.\.\./, ''),
+        rest: true,
+      };
+    }
+
+    return { name: NodeUtils.getNormalizedText(node, source) };
+  }
 }
@@ -1,7 +1,34 @@
 import type TreeSitterParser from 'tree-sitter';
+import type {
+  ExportBinding,
+  ExportInfo,
+  ImportBinding,
+  ImportInfo,
+  ModifierInfo,
+} from '../types';
 import type { BaseExtractor } from './base-extractor';
 import { NodeUtils } from './base-extractor';
 
+// Declarations whose name is bound by an export statement
+const NAMED_DECLARATION_TYPES = [
+  'function_declaration',
+  'generator_function_declaration',
+  'function_signature',
+  'class_declaration',
+  'abstract_class_declaration',
+  'enum_declaration',
+  'interface_declaration',
+  'type_alias_declaration',
+  'internal_module',
+  'module',
+];
+
+// Declarations that only exist at the type level
+const TYPE_DECLARATION_TYPES = [
+  'interface_declaration',
+  'type_alias_declaration',
+];
+
 /**
  * Extractor for import and export statements
  */
@@ -40,6 +67,15 @@ export class ImportExportExtractor implements BaseExtractor {
       return this.extractImportClauseNames(importClause, source);
     }
 
+    // import fs = require('fs')
+    const requireClause = NodeUtils.findChildByType(
+      node,
+      'import_require_clause'
+    );
+    if (requireClause) {
+      return NodeUtils.extractIdentifier(requireClause, source);
+    }
+
     // Fallback: look for string (module source)
     return this.extractImportSource(node, source);
   }
@@ -202,4 +238,322 @@ export class ImportExportExtractor implements BaseExtractor {
 
     return undefined;
   }
+
+  extractModifiers(
+    node: TreeSitterParser.SyntaxNode,
+    _source: string
+  ): ModifierInfo | undefined {
+    const modifiers: string[] = [];
+
+    if (node.type === 'export_statement') {
+      if (NodeUtils.findChildByType(node, 'default')) {
+        modifiers.push('default');
+      }
+      if (NodeUtils.findChildByType(node, 'type')) {
+        modifiers.push('type');
+      }
+      return { modifiers, exported: true };
+    }
+
+    if (NodeUtils.findChildByType(node, 'type')) {
+      modifiers.push('type');
+    }
+    return { modifiers };
+  }
+
+  /**
+   * Extract the module specifier and bound names of an import statement
+   */
+  extractImportInfo(
+    node: TreeSitterParser.SyntaxNode,
+    source: string
+  ): ImportInfo | undefined {
+    if (node.type !== 'import_statement') {
+      return undefined;
+    }
+
+    // import fs = require('fs') keeps its source inside the clause
+    const requireClause = NodeUtils.findChildByType(
+      node,
+      'import_require_clause'
+    );
+    const sourceNode = (requireClause ?? node).childForFieldName('source');
+    if (!sourceNode) {
+      return undefined;
+    }
+
+    const statementTypeOnly = Boolean(NodeUtils.findChildByType(node, 'type'));
+    const bindings: ImportBinding[] = [];
+
+    const requireName = requireClause
+      ? NodeUtils.findChildByType(requireClause, 'identifier')
+      : undefined;
+    if (requireName) {
+      bindings.push({
+        imported: '*',
+        local: NodeUtils.getNodeText(requireName, source),
+        typeOnly: statementTypeOnly,
+      });
+    }
+
+    const importClause = NodeUtils.findChildByType(node, 'import_clause');
+    if (importClause) {
+      NodeUtils.forEachChild(importClause, (child) => {
+        bindings.push(
+          ...this.getImportBindings(child, source, statementTypeOnly)
+        );
+      });
+    }
+
+    return {
+      source: NodeUtils.cleanString(NodeUtils.getNodeText(sourceNode, source)),
+      bindings,
+      typeOnly: this.isTypeOnly(statementTypeOnly, bindings),
+    };
+  }
+
+  /**
+   * Get the bindings created by one part of an import clause
+   */
+  private getImportBindings(
+    node: TreeSitterParser.SyntaxNode,
+    source: string,
+    typeOnly: boolean
+  ): ImportBinding[] {
+    switch (node.type) {
+      case 'identifier':
+        return [
+          {
+            imported: 'default',
+            local: NodeUtils.getNodeText(node, source),
+            typeOnly,
+          },
+        ];
+
+      case 'namespace_import': {
+        const identifier = NodeUtils.findChildByType(node, 'identifier');
+        return identifier
+          ? [
+              {
+                imported: '*',
+                local: NodeUtils.getNodeText(identifier, source),
+                typeOnly,
+              },
+            ]
+          : [];
+      }
+
+      case 'named_imports':
+        return NodeUtils.findChildrenByType(node, 'import_specifier').flatMap(
+          (specifier) => {
+            const { name, alias } = this.getSpecifierNames(specifier, source);
+            return name
+              ? [
+                  {
+                    imported: name,
+                    local: alias ?? name,
+                    typeOnly:
+                      typeOnly ||
+                      Boolean(NodeUtils.findChildByType(specifier, 'type')),
+                  },
+                ]
+              : [];
+          }
+        );
+
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Extract the names an export statement makes public
+   */
+  extractExportInfo(
+    node: TreeSitterParser.SyntaxNode,
+    source: string
+  ): ExportInfo | undefined {
+    if (node.type !== 'export_statement') {
+      return undefined;
+    }
+
+    const statementTypeOnly = Boolean(NodeUtils.findChildByType(node, 'type'));
+    const isDefault = Boolean(NodeUtils.findChildByType(node, 'default'));
+    const sourceNode = node.childForFieldName('source');
+    const bindings: ExportBinding[] = [];
+
+    const exportClause = NodeUtils.findChildByType(node, 'export_clause');
+    const namespaceExport = NodeUtils.findChildByType(node, 'namespace_export');
+    const declaration = node.childForFieldName('declaration');
+    const value = node.childForFieldName('value');
+
+    if (exportClause) {
+      for (const specifier of NodeUtils.findChildrenByType(
+        exportClause,
+        'export_specifier'
+      )) {
+        const { name, alias } = this.getSpecifierNames(specifier, source);
+        if (name) {
+          bindings.push({
+            exported: alias ?? name,
+            local: name,
+            typeOnly:
+              statementTypeOnly ||
+              Boolean(NodeUtils.findChildByType(specifier, 'type')),
+          });
+        }
+      }
+    } else if (namespaceExport) {
+      const identifier = NodeUtils.findChildByType(namespaceExport, [
+        'identifier',
+        'string',
+      ]);
+      if (identifier) {
+        bindings.push({
+          exported: NodeUtils.cleanString(
+            NodeUtils.getNodeText(identifier, source)
+          ),
+          local: '*',
+          typeOnly: statementTypeOnly,
+        });
+      }
+    } else if (sourceNode && NodeUtils.findChildByType(node, '*')) {
+      bindings.push({ exported: '*', local: '*', typeOnly: statementTypeOnly });
+    } else if (declaration) {
+      bindings.push(
+        ...this.getDeclarationBindings(declaration, source, isDefault)
+      );
+    } else if (value && isDefault) {
+      bindings.push({
+        exported: 'default',
+        local:
+          value.type === 'identifier'
+            ? NodeUtils.getNodeText(value, source)
+            : 'default',
+        typeOnly: false,
+      });
+    }
+
+    return {
+      ...(sourceNode
+        ? {
+            source: NodeUtils.cleanString(
+              NodeUtils.getNodeText(sourceNode, source)
+            ),
+          }
+        : {}),
+      bindings,
+      typeOnly: this.isTypeOnly(statementTypeOnly, bindings),
+    };
+  }
+
+  /**
+   * Get the bindings of an exported declaration
+   */
+  private getDeclarationBindings(
+    declaration: TreeSitterParser.SyntaxNode,
+    source: string,
+    isDefault: boolean
+  ): ExportBinding[] {
+    // export declare ... wraps the actual declaration
+    const target =
+      declaration.type === 'ambient_declaration'
+        ? (declaration.namedChildren[0] ?? declaration)
+        : declaration;
+    const typeOnly = TYPE_DECLARATION_TYPES.includes(target.type);
+
+    let names: string[] = [];
+    if (
+      target.type === 'lexical_declaration' ||
+      target.type === 'variable_declaration'
+    ) {
+      names = NodeUtils.findChildrenByType(
+        target,
+        'variable_declarator'
+      ).flatMap((declarator) => {
+        const name = declarator.childForFieldName('name');
+        return name ? this.getPatternNames(name, source) : [];
+      });
+    } else if (NAMED_DECLARATION_TYPES.includes(target.type)) {
+      const name = target.childForFieldName('name');
+      // Namespaces export their first segment; ambient "module" strings bind nothing
+      if (name && name.type !== 'string') {
+        names = [NodeUtils.getNodeText(name, source).split('.')[0]];
+      }
+    }
+
+    if (isDefault) {
+      return [{ exported: 'default', local: names[0] ?? 'default', typeOnly }];
+    }
+    return names.map((name) => ({ exported: name, local: name, typeOnly }));
+  }
+
+  /**
+   * Get the identifiers bound by a (possibly destructuring) declarator name
+   */
+  private getPatternNames(
+    node: TreeSitterParser.SyntaxNode,
+    source: string
+  ): string[] {
+    switch (node.type) {
+      case 'identifier':
+      case 'shorthand_property_identifier_pattern':
+        return [NodeUtils.getNodeText(node, source)];
+
+      case 'pair_pattern': {
+        const value = node.childForFieldName('value');
+        return value ? this.getPatternNames(value, source) : [];
+      }
+
+      case 'assignment_pattern':
+      case 'object_assignment_pattern': {
+        const left = node.childForFieldName('left');
+        return left ? this.getPatternNames(left, source) : [];
+      }
+
+      case 'object_pattern':
+      case 'array_pattern':
+      case 'rest_pattern':
+        return node.namedChildren.flatMap((child) =>
+          this.getPatternNames(child, source)
+        );
+
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Get the name and optional alias of an import or export specifier
+   */
+  private getSpecifierNames(
+    specifier: TreeSitterParser.SyntaxNode,
+    source: string
+  ): { name?: string; alias?: string } {
+    const name = specifier.childForFieldName('name');
+    const alias = specifier.childForFieldName('alias');
+    return {
+      ...(name
+        ? { name: NodeUtils.cleanString(NodeUtils.getNodeText(name, source)) }
+        : {}),
+      ...(alias
+        ? {
+            alias: NodeUtils.cleanString(NodeUtils.getNodeText(alias, source)),
+          }
+        : {}),
+    };
+  }
+
+  /**
+   * A statement is type-only when marked as such or when every binding is
+   */
+  private isTypeOnly(
+    statementTypeOnly: boolean,
+    bindings: Array<{ typeOnly: boolean }>
+  ): boolean {
+    return (
+      statementTypeOnly ||
+      (bindings.length > 0 && bindings.every((binding) => binding.typeOnly))
+    );
+  }
 }
@@ -1,4 +1,5 @@
 import type TreeSitterParser from 'tree-sitter';
+import type { ModifierInfo } from '../types';
 import type { BaseExtractor } from './base-extractor';
 import { NodeUtils } from './base-extractor';
 
@@ -94,4 +95,18 @@ export class TypeExtractor implements BaseExtractor {
 
     return undefined;
   }
+
+  extractModifiers(
+    node: TreeSitterParser.SyntaxNode,
+    source: string
+  ): ModifierInfo | undefined {
+    return {
+      modifiers: NodeUtils.collectModifiers(node, source),
+      exported: NodeUtils.isExported(
+        node,
+        source,
+        this.extractName(node, source)
+      ),
+    };
+  }
 }
@@ -1,17 +1,33 @@
 import type TreeSitterParser from 'tree-sitter';
+import type { ModifierInfo, SignatureInfo } from '../types';
 import type { BaseExtractor } from './base-extractor';
 import { NodeUtils } from './base-extractor';
+import { FunctionExtractor } from './function-extractor';
+
+// Keywords that introduce variable declarations
+const DECLARATION_KINDS = ['const', 'let', 'var', 'using'];
+
+// Value node types whose signature is surfaced on the declaring node
+const FUNCTION_VALUE_TYPES = [
+  'arrow_function',
+  'function_expression',
+  'function',
+  'generator_function',
+];
 
 /**
  * Extractor for variable-related nodes (variables, properties, declarations)
  */
 export class VariableExtractor implements BaseExtractor {
+  private functionExtractor = new FunctionExtractor();
+
   getSupportedTypes(): string[] {
     return [
       'variable_declarator',
       'lexical_declaration',
       'variable_declaration',
       'public_field_definition',
+      'property_signature',
       'getter',
       'setter',
       'pair',
@@ -32,6 +48,7 @@ export class VariableExtractor implements BaseExtractor {
         return this.extractDeclarationName(node, source);
 
       case 'public_field_definition':
+      case 'property_signature':
       case 'getter':
       case 'setter':
         return this.extractPropertyName(node, source);
@@ -114,6 +131,7 @@ export class VariableExtractor implements BaseExtractor {
   ): string | undefined {
     return NodeUtils.extractIdentifier(node, source, [
       'property_identifier',
+      'private_property_identifier',
       'identifier',
     ]);
   }
@@ -154,4 +172,118 @@ export class VariableExtractor implements BaseExtractor {
     }
     return undefined;
   }
+
+  /**
+   * Surface the signature of a function assigned to a variable, field or
+   * object property, so `const f = (a: A) => {}` reads like a declaration
+   */
+  extractSignature(
+    node: TreeSitterParser.SyntaxNode,
+    source: string
+  ): SignatureInfo | undefined {
+    switch (node.type) {
+      case 'variable_declarator':
+      case 'public_field_definition':
+      case 'pair': {
+        const value = node.childForFieldName('value');
+        return value && FUNCTION_VALUE_TYPES.includes(value.type)
+          ? this.functionExtractor.extractSignature(value, source)
+          : undefined;
+      }
+
+      default:
+        return undefined;
+    }
+  }
+
+  extractModifiers(
+    node: TreeSitterParser.SyntaxNode,
+    source: string
+  ): ModifierInfo | undefined {
+    switch (node.type) {
+      case 'variable_declarator':
+        return this.extractDeclaratorModifiers(node, source);
+
+      case 'lexical_declaration':
+      case 'variable_declaration': {
+        // The declaration name already carries its keyword ("const a, b")
+        const info: ModifierInfo = {
+          modifiers: NodeUtils.collectModifiers(node, source).filter(
+            (modifier) => !DECLARATION_KINDS.includes(modifier)
+          ),
+        };
+        // A declaration list is exported when any of its declarators is
+        info.exported = NodeUtils.findChildrenByType(
+          node,
+          'variable_declarator'
+        ).some((declarator) =>
+          NodeUtils.isExported(
+            declarator,
+            source,
+            this.extractVariableDeclaratorName(declarator, source)
+          )
+        );
+        return info;
+      }
+
+      case 'public_field_definition':
+      case 'property_signature':
+        return { modifiers: NodeUtils.collectModifiers(node, source) };
+
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Modifiers of a single declarator, including async/generator markers of
+   * an assigned function
+   */
+  private extractDeclaratorModifiers(
+    node: TreeSitterParser.SyntaxNode,
+    source: string
+  ): ModifierInfo | undefined {
+    const declaration = node.parent;
+    if (!declaration) {
+      return undefined;
+    }
+
+    const info = this.withDeclarationKind(node, declaration, source);
+    const value = node.childForFieldName('value');
+    if (value && FUNCTION_VALUE_TYPES.includes(value.type)) {
+      for (const modifier of NodeUtils.collectModifiers(value, source)) {
+        if (!info.modifiers.includes(modifier)) {
+          info.modifiers.push(modifier);
+        }
+      }
+    }
+    return info;
+  }
+
+  /**
+   * Prefix the declaration keyword (const/let/var) to the collected modifiers
+   */
+  private withDeclarationKind(
+    node: TreeSitterParser.SyntaxNode,
+    declaration: TreeSitterParser.SyntaxNode,
+    source: string
+  ): ModifierInfo {
+    const keyword = declaration.child(0);
+    const kind = keyword ? NodeUtils.getNodeText(keyword, source) : undefined;
+    const modifiers = NodeUtils.collectModifiers(node, source).filter(
+      (modifier) => modifier !== kind
+    );
+
+    return {
+      modifiers:
+        kind && DECLARATION_KINDS.includes(kind)
+          ? [kind, ...modifiers]
+          : modifiers,
+      exported: NodeUtils.isExported(
+        node,
+        source,
+        this.extractName(node, source)
+      ),
+    };
+  }
 }
@@ -1,5 +1,9 @@
+import { existsSync, readFileSync } from 'node:fs';
 import { readFile } from 'node:fs/promises';
-import { extname } from 'node:path';
+import { dirname, extname, join, relative, resolve, sep } from 'node:path';
+
+// Files that mark the root of a repository or workspace
+const REPOSITORY_MARKERS = ['.git', 'pnpm-workspace.yaml', 'lerna.json'];
 
 /**
  * Supported file types for parsing
@@ -10,6 +14,9 @@ export type SupportedFileType = 'javascript' | 'typescript' | 'tsx';
  * FileReader handles file I/O operations for the parser
  */
 export class FileReader {
+  // Root of each directory looked up so far
+  private roots = new Map<string, string>();
+
   /**
    * Read file content from the filesystem
    * @param filePath - Path to the file to read
@@ -41,6 +48,77 @@ export class FileReader {
     }
   }
 
+  /**
+   * Path of a file as used in qualified names, with forward slashes on every
+   * platform. It is relative to the repository root (the nearest directory
+   * with .git or a workspace definition), so packages of a monorepo get
+   * distinct paths; outside repositories it is relative to the nearest
+   * package.json, or just the file name. It depends neither on the working
+   * directory nor on where the repository is checked out, so symbol ids
+   * don't either.
+   * @param filePath - Path to the file
+   */
+  getSymbolPath(filePath: string): string {
+    const absolutePath = resolve(filePath);
+    const root = this.findRoot(dirname(absolutePath));
+    return relative(root, absolutePath).split(sep).join('/');
+  }
+
+  /**
+   * Root the symbol paths of the files in a directory are relative to
+   * @private
+   */
+  private findRoot(directory: string): string {
+    let root = this.roots.get(directory);
+    if (root === undefined) {
+      root =
+        this.findUp(directory, (candidate) =>
+          this.isRepositoryRoot(candidate)
+        ) ??
+        this.findUp(directory, (candidate) =>
+          existsSync(join(candidate, 'package.json'))
+        ) ??
+        directory;
+      this.roots.set(directory, root);
+    }
+    return root;
+  }
+
+  /**
+   * Nearest directory, starting at the given one, that passes a test
+   * @private
+   */
+  private findUp(
+    directory: string,
+    test: (candidate: string) => boolean
+  ): string | undefined {
+    for (let candidate = directory; ; candidate = dirname(candidate)) {
+      if (test(candidate)) {
+        return candidate;
+      }
+      if (dirname(candidate) === candidate) {
+        return undefined;
+      }
+    }
+  }
+
+  private isRepositoryRoot(directory: string): boolean {
+    if (
+      REPOSITORY_MARKERS.some((marker) => existsSync(join(directory, marker)))
+    ) {
+      return true;
+    }
+    // npm and yarn workspaces are declared in package.json
+    try {
+      const manifest = JSON.parse(
+        readFileSync(join(directory, 'package.json'), 'utf-8')
+      ) as { workspaces?: unknown };
+      return manifest.workspaces !== undefined;
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Check if a file extension is supported
    * @param filePath - Path to the file
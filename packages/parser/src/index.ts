@@ -6,7 +6,13 @@ export * from './file-reader';
 export * from './parser-factory';
 export * from './name-extractor';
 export * from './ast-traverser';
+export * from './doc-extractor';
+export * from './diagnostic-collector';
+export * from './symbol-source-extractor';
+export * from './outline-session';
 
 // Types and utilities
 export * from './types';
 export * from './tree-utils';
+export * from './signature-utils';
+export * from './symbol-matcher';
@@ -1,4 +1,11 @@
 import type TreeSitterParser from 'tree-sitter';
+import type {
+  ExportInfo,
+  HeritageInfo,
+  ImportInfo,
+  ModifierInfo,
+  SignatureInfo,
+} from './types';
 import { ExtractorRegistry } from './extractors/extractor-registry';
 
 /**
@@ -24,4 +31,74 @@ export class NameExtractor {
     const extractor = this.registry.getExtractor(node.type);
     return extractor ? extractor.extractName(node, source) : undefined;
   }
+
+  /**
+   * Extract the call signature from a function-like syntax node
+   * @param node - The syntax node to extract the signature from
+   * @param source - The source code string
+   * @returns The extracted signature or undefined if the node has none
+   */
+  extractSignature(
+    node: TreeSitterParser.SyntaxNode,
+    source: string
+  ): SignatureInfo | undefined {
+    const extractor = this.registry.getExtractor(node.type);
+    return extractor?.extractSignature?.(node, source);
+  }
+
+  /**
+   * Extract modifiers and export status from a declaration node
+   * @param node - The syntax node to inspect
+   * @param source - The source code string
+   * @returns Modifier information or undefined if the node is not a declaration
+   */
+  extractModifiers(
+    node: TreeSitterParser.SyntaxNode,
+    source: string
+  ): ModifierInfo | undefined {
+    const extractor = this.registry.getExtractor(node.type);
+    return extractor?.extractModifiers?.(node, source);
+  }
+
+  /**
+   * Extract the types a class or interface extends or implements
+   * @param node - The syntax node to inspect
+   * @param source - The source code string
+   * @returns Heritage information or undefined if the node has none
+   */
+  extractHeritage(
+    node: TreeSitterParser.SyntaxNode,
+    source: string
+  ): HeritageInfo | undefined {
+    const extractor = this.registry.getExtractor(node.type);
+    return extractor?.extractHeritage?.(node, source);
+  }
+
+  /**
+   * Extract the module specifier and bound names of an import statement
+   * @param node - The syntax node to inspect
+   * @param source - The source code string
+   * @returns Import information or undefined if the node is not an import
+   */
+  extractImportInfo(
+    node: TreeSitterParser.SyntaxNode,
+    source: string
+  ): ImportInfo | undefined {
+    const extractor = this.registry.getExtractor(node.type);
+    return extractor?.extractImportInfo?.(node, source);
+  }
+
+  /**
+   * Extract the exported names of an export statement
+   * @param node - The syntax node to inspect
+   * @param source - The source code string
+   * @returns Export information or undefined if the node is not an export
+   */
+  extractExportInfo(
+    node: TreeSitterParser.SyntaxNode,
+    source: string
+  ): ExportInfo | undefined {
+    const extractor = this.registry.getExtractor(node.type);
+    return extractor?.extractExportInfo?.(node, source);
+  }
 }
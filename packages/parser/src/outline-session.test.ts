@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { OutlineSession } from './outline-session';
+import { NameExtractor } from './name-extractor';
+import type { TextEdit } from './types';
+
+const SOURCE = [
+  "import { Store } from './store';",
+  '',
+  '/** Adds two numbers */',
+  'function add(a: number, b: number): number {',
+  '  return a + b;',
+  '}',
+  '',
+  'class Cart {',
+  '  items: string[] = [];',
+  '',
+  '  add(item: string): void {',
+  '    this.items.push(item);',
+  '  }',
+  '',
+  '  clear(): void {',
+  '    this.items = [];',
+  '  }',
+  '}',
+  '',
+  'function total(cart: Cart): number {',
+  '  return cart.items.length;',
+  '}',
+  '',
+  'export { add };',
+].join('\n');
+
+// Edit replacing the text between two positions given as [row, column]
+function edit(
+  start: [number, number],
+  end: [number, number],
+  text: string
+): TextEdit {
+  return {
+    start: { row: start[0], column: start[1] },
+    end: { row: end[0], column: end[1] },
+    text,
+  };
+}
+
+describe('OutlineSession', () => {
+  let session: OutlineSession;
+
+  // Outline of the session's current source, parsed from scratch
+  const reparse = (file: string): unknown =>
+    new OutlineSession().open(file, session.getSource(file));
+
+  beforeEach(() => {
+    session = new OutlineSession();
+    session.open('src/cart.ts', SOURCE);
+  });
+
+  it('should outline an opened document', () => {
+    const outline = session.getOutline('src/cart.ts');
+
+    expect(outline?.type).toBe('program');
+    expect(outline?.children?.slice(0, 4).map((child) => child.name)).toEqual([
+      '{ Store }',
+      'add',
+      'Cart',
+      'total',
+    ]);
+    expect(outline?.children?.[1].qualifiedName).toBe('src/cart.ts#add');
+  });
+
+  it('should match a full parse after edits inside a method', () => {
+    const outline = session.applyEdit(
+      'src/cart.ts',
+      edit([11, 4], [11, 26], 'this.items.unshift(item);\n    return;')
+    );
+
+    expect(session.getSource('src/cart.ts')).toContain(
+      '    this.items.unshift(item);\n    return;\n  }'
+    );
+    expect(outline).toEqual(reparse('src/cart.ts'));
+  });
+
+  it('should move unchanged declarations below inserted lines', () => {
+    const outline = session.applyEdit(
+      'src/cart.ts',
+      edit([1, 0], [1, 0], '\nconst VERSION = 2;\n')
+    );
+
+    expect(outline).toEqual(reparse('src/cart.ts'));
+    expect(outline?.children?.[3]).toMatchObject({
+      name: 'Cart',
+      start: { row: 9, column: 0 },
+    });
+  });
+
+  it('should apply several edits in order', () => {
+    const outline = session.applyEdit('src/cart.ts', [
+      // Rename the class, then shift everything down by one line
+      edit([7, 6], [7, 10], 'ShoppingCart'),
+      edit([0, 0], [0, 0], '// header\n'),
+    ]);
+
+    expect(outline).toEqual(reparse('src/cart.ts'));
+    // Members follow the new class name
+    expect(
+      outline?.children?.[2].children?.[0].children?.map(
+        (child) => child.qualifiedName
+      )
+    ).toContain('src/cart.ts#ShoppingCart.clear');
+  });
+
+  it('should pick up edited doc comments of unchanged declarations', () => {
+    const outline = session.applyEdit(
+      'src/cart.ts',
+      edit([2, 4], [2, 20], 'Sums two numbers')
+    );
+
+    expect(outline).toEqual(reparse('src/cart.ts'));
+    expect(outline?.children?.[1].doc?.summary).toBe('Sums two numbers');
+  });
+
+  it('should update exported flags when an export clause changes', () => {
+    const outline = session.applyEdit(
+      'src/cart.ts',
+      edit([23, 9], [23, 12], 'add, total')
+    );
+
+    expect(outline).toEqual(reparse('src/cart.ts'));
+    expect(outline?.children?.[3]).toMatchObject({
+      name: 'total',
+      exported: true,
+    });
+  });
+
+  it('should only extract the declarations an edit touched', () => {
+    const extractName = vi.spyOn(NameExtractor.prototype, 'extractName');
+    reparse('src/cart.ts');
+    const fullCalls = extractName.mock.calls.length;
+    extractName.mockClear();
+
+    session.applyEdit('src/cart.ts', edit([20, 9], [20, 13], 'basket'));
+
+    expect(extractName.mock.calls.length).toBeGreaterThan(0);
+    expect(extractName.mock.calls.length).toBeLessThan(fullCalls / 2);
+    extractName.mockRestore();
+  });
+
+  it('should reject edits outside the document', () => {
+    expect(() =>
+      session.applyEdit('src/cart.ts', edit([40, 0], [40, 0], 'x'))
+    ).toThrow('Position 40:0 is outside the document');
+  });
+
+  it('should forget closed documents', () => {
+    session.close('src/cart.ts');
+
+    expect(() => session.getOutline('src/cart.ts')).toThrow(
+      'Document is not open: src/cart.ts'
+    );
+  });
+});
@@ -0,0 +1,379 @@
+import type TreeSitterParser from 'tree-sitter';
+import type { NodeInfo, Position, TextEdit } from './types';
+import { FileReader, type SupportedFileType } from './file-reader';
+import { ParserFactory } from './parser-factory';
+import {
+  ASTTraverser,
+  type SubtreeCache,
+  type TraversalOptions,
+} from './ast-traverser';
+import { NameExtractor } from './name-extractor';
+
+/**
+ * Options for opening a document in an OutlineSession
+ */
+export interface OpenDocumentOptions {
+  /** Language of the source (default: derived from the file extension) */
+  fileType?: SupportedFileType;
+  /** Maximum depth to traverse (default: Infinity) */
+  maxDepth?: number;
+  /** Only include nodes with names (default: true) */
+  namedOnly?: boolean;
+}
+
+/**
+ * Outline of a statement or member, keyed by tree-sitter node ID
+ */
+interface CachedSubtree {
+  /** Depth and enclosing scopes the outline was extracted with */
+  key: string;
+  /** Start of the node when the outline was extracted */
+  start: Position;
+  /** Source of the node, since IDs of edited trees can be reused */
+  text: string;
+  /** Node before it, which holds its doc comment */
+  previousId?: number;
+  info: NodeInfo | null;
+}
+
+interface OpenDocument {
+  fileType: SupportedFileType;
+  source: string;
+  tree: TreeSitterParser.Tree;
+  options: TraversalOptions;
+  outline: NodeInfo | null;
+  subtrees: Map<number, CachedSubtree>;
+  /** Top-level export clauses, which decide whether declarations are exported */
+  exportClauses: string;
+}
+
+/**
+ * OutlineSession keeps parsed documents open for editors, watchers and
+ * long-running servers. Edits are applied to the previous syntax tree, the
+ * source is reparsed incrementally and only the statements and members
+ * whose ranges changed are extracted again.
+ */
+export class OutlineSession {
+  private fileReader: FileReader;
+  private parserFactory: ParserFactory;
+  private astTraverser: ASTTraverser;
+  private documents = new Map<string, OpenDocument>();
+
+  constructor() {
+    this.fileReader = new FileReader();
+    this.parserFactory = ParserFactory.getInstance();
+    this.astTraverser = new ASTTraverser(new NameExtractor());
+  }
+
+  /**
+   * Parse a document and keep it open, replacing an open document with the
+   * same path
+   * @param filePath - Path of the document, used in qualified names
+   * @param source - Current contents of the document
+   * @param options - Language and traversal options
+   * @returns The outline of the document
+   */
+  open(
+    filePath: string,
+    source: string,
+    options: OpenDocumentOptions = {}
+  ): NodeInfo | null {
+    const fileType = options.fileType ?? this.fileReader.getFileType(filePath);
+    const tree = this.parserFactory.parseSource(source, fileType);
+
+    const document: OpenDocument = {
+      fileType,
+      source,
+      tree,
+      options: {
+        maxDepth: options.maxDepth ?? Infinity,
+        namedOnly: options.namedOnly ?? true,
+        filePath: this.fileReader.getSymbolPath(filePath),
+      },
+      outline: null,
+      subtrees: new Map(),
+      exportClauses: this.getExportClauses(tree),
+    };
+    this.extract(document);
+    this.documents.set(filePath, document);
+    return document.outline;
+  }
+
+  /**
+   * Apply text edits to an open document and update its outline
+   * incrementally
+   * @param filePath - Path the document was opened with
+   * @param edits - Edits in order; each one applies to the text left by the
+   * previous edit
+   * @returns The updated outline
+   * @throws Error when the document is not open or an edit lies outside it
+   */
+  applyEdit(filePath: string, edits: TextEdit | TextEdit[]): NodeInfo | null {
+    const document = this.getDocument(filePath);
+    const previousTree = document.tree;
+
+    // Span of all edits in the coordinates of the new source
+    let edited: [number, number] | undefined;
+    for (const edit of Array.isArray(edits) ? edits : [edits]) {
+      const startIndex = this.toIndex(document.source, edit.start);
+      const oldEndIndex = this.toIndex(document.source, edit.end);
+      if (oldEndIndex < startIndex) {
+        throw new Error(`Edit ends before it starts in ${filePath}`);
+      }
+      const newEndIndex = startIndex + edit.text.length;
+
+      previousTree.edit({
+        startIndex,
+        oldEndIndex,
+        newEndIndex,
+        startPosition: edit.start,
+        oldEndPosition: edit.end,
+        newEndPosition: this.getEndPosition(edit.start, edit.text),
+      });
+      document.source =
+        document.source.substring(0, startIndex) +
+        edit.text +
+        document.source.substring(oldEndIndex);
+
+      const shift = (index: number): number =>
+        index >= oldEndIndex
+          ? index + newEndIndex - oldEndIndex
+          : Math.min(index, newEndIndex);
+      edited = edited
+        ? [
+            Math.min(shift(edited[0]), startIndex),
+            Math.max(shift(edited[1]), newEndIndex),
+          ]
+        : [startIndex, newEndIndex];
+    }
+    if (!edited) {
+      return document.outline;
+    }
+
+    document.tree = this.parserFactory
+      .getParser(document.fileType)
+      .parse(document.source, previousTree);
+
+    // Declarations are re-extracted when an export clause may have changed
+    const exportClauses = this.getExportClauses(document.tree);
+    const reusable = exportClauses === document.exportClauses;
+    document.exportClauses = exportClauses;
+
+    const changed: Array<[number, number]> = [
+      edited,
+      ...previousTree
+        .getChangedRanges(document.tree)
+        .map((range): [number, number] => [range.startIndex, range.endIndex]),
+    ];
+    this.extract(document, reusable ? changed : undefined);
+    return document.outline;
+  }
+
+  /**
+   * Current outline of an open document
+   * @throws Error when the document is not open
+   */
+  getOutline(filePath: string): NodeInfo | null {
+    return this.getDocument(filePath).outline;
+  }
+
+  /**
+   * Current contents of an open document
+   * @throws Error when the document is not open
+   */
+  getSource(filePath: string): string {
+    return this.getDocument(filePath).source;
+  }
+
+  /**
+   * Close a document and release its syntax tree
+   */
+  close(filePath: string): void {
+    this.documents.delete(filePath);
+  }
+
+  /**
+   * Extract the outline of a document's current tree, reusing the outlines
+   * of subtrees that lie outside the changed ranges
+   * @param changed - Changed index ranges of the new source, or undefined to
+   * extract everything
+   * @private
+   */
+  private extract(
+    document: OpenDocument,
+    changed?: Array<[number, number]>
+  ): void {
+    const previous = document.subtrees;
+    const subtrees = new Map<number, CachedSubtree>();
+
+    const cache: SubtreeCache = {
+      get: (node, key): NodeInfo | null | undefined => {
+        const entry = previous.get(node.id);
+        if (
+          !changed ||
+          entry?.key !== key ||
+          entry.text !== node.text ||
+          entry.previousId !== node.previousSibling?.id ||
+          !this.isUntouched(node, changed)
+        ) {
+          return undefined;
+        }
+
+        const info = entry.info
+          ? this.moveNode(entry.info, entry.start, node.startPosition)
+          : null;
+        subtrees.set(node.id, {
+          key,
+          start: { ...node.startPosition },
+          text: node.text,
+          previousId: node.previousSibling?.id,
+          info,
+        });
+        this.carryOver(node, previous, subtrees);
+        return info;
+      },
+      set: (node, key, info): void => {
+        subtrees.set(node.id, {
+          key,
+          start: { ...node.startPosition },
+          text: node.text,
+          previousId: node.previousSibling?.id,
+          info,
+        });
+      },
+    };
+
+    document.outline = this.astTraverser.extractNodeInfo(
+      document.tree.rootNode,
+      document.source,
+      { ...document.options, cache }
+    );
+    document.subtrees = subtrees;
+  }
+
+  /**
+   * Keep the cached outlines of the statements and members inside a reused
+   * subtree, so later edits inside it can still reuse them
+   * @private
+   */
+  private carryOver(
+    node: TreeSitterParser.SyntaxNode,
+    previous: Map<number, CachedSubtree>,
+    subtrees: Map<number, CachedSubtree>
+  ): void {
+    for (const child of node.namedChildren) {
+      const entry = previous.get(child.id);
+      if (entry) {
+        subtrees.set(child.id, entry);
+      }
+      this.carryOver(child, previous, subtrees);
+    }
+  }
+
+  /**
+   * Whether no changed range touches a node or the comments and whitespace
+   * before it, which its documentation is read from
+   * @private
+   */
+  private isUntouched(
+    node: TreeSitterParser.SyntaxNode,
+    changed: Array<[number, number]>
+  ): boolean {
+    let previous = node.previousSibling;
+    while (previous?.type === 'comment') {
+      previous = previous.previousSibling;
+    }
+    const start = previous?.endIndex ?? node.parent?.startIndex ?? 0;
+
+    return changed.every(([from, to]) => to < start || from > node.endIndex);
+  }
+
+  /**
+   * Copy of an outline moved from one start position to another. Rows move
+   * by the same amount; columns only move on the first row.
+   * @private
+   */
+  private moveNode(info: NodeInfo, from: Position, to: Position): NodeInfo {
+    const move = (position: Position): Position =>
+      position.row === from.row
+        ? { row: to.row, column: position.column + to.column - from.column }
+        : { row: position.row + to.row - from.row, column: position.column };
+
+    const moved: NodeInfo = {
+      ...info,
+      start: move(info.start),
+      end: move(info.end),
+    };
+    if (info.children) {
+      moved.children = info.children.map((child) =>
+        this.moveNode(child, from, to)
+      );
+    }
+    return moved;
+  }
+
+  /**
+   * Text of the top-level export statements that export local names
+   * (`export { a, b }`, `export default a`)
+   * @private
+   */
+  private getExportClauses(tree: TreeSitterParser.Tree): string {
+    return tree.rootNode.namedChildren
+      .filter(
+        (node) =>
+          node.type === 'export_statement' &&
+          !node.childForFieldName('declaration')
+      )
+      .map((node) => node.text)
+      .join('\n');
+  }
+
+  /**
+   * Index of a position in the source
+   * @throws Error when the position lies outside the source
+   * @private
+   */
+  private toIndex(source: string, position: Position): number {
+    let lineStart = 0;
+    for (let row = 0; row < position.row; row++) {
+      const lineEnd = source.indexOf('\n', lineStart);
+      if (lineEnd === -1) {
+        throw new Error(
+          `Position ${position.row}:${position.column} is outside the document`
+        );
+      }
+      lineStart = lineEnd + 1;
+    }
+
+    const lineEnd = source.indexOf('\n', lineStart);
+    const lineLength = (lineEnd === -1 ? source.length : lineEnd) - lineStart;
+    if (position.column > lineLength) {
+      throw new Error(
+        `Position ${position.row}:${position.column} is outside the document`
+      );
+    }
+    return lineStart + position.column;
+  }
+
+  /**
+   * Position after inserting text at a position
+   * @private
+   */
+  private getEndPosition(start: Position, text: string): Position {
+    const lines = text.split('\n');
+    return lines.length === 1
+      ? { row: start.row, column: start.column + text.length }
+      : {
+          row: start.row + lines.length - 1,
+          column: lines[lines.length - 1].length,
+        };
+  }
+
+  private getDocument(filePath: string): OpenDocument {
+    const document = this.documents.get(filePath);
+    if (!document) {
+      throw new Error(`Document is not open: ${filePath}`);
+    }
+    return document;
+  }
+}
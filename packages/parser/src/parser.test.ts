@@ -1,9 +1,18 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type TreeSitterParser from 'tree-sitter';
 import { Parser } from './parser';
 import type { NodeInfo } from './types';
 import { TreeUtils } from './tree-utils';
-import { readFileSync } from 'node:fs';
-import { resolve } from 'node:path';
+import { NodeUtils } from './extractors/base-extractor';
+import {
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join, resolve } from 'node:path';
 
 describe('Parser', () => {
   let parser: Parser;
@@ -520,6 +529,659 @@ describe('Parser', () => {
     });
   });
 
+  describe('signature extraction', () => {
+    it('should capture parameters, type parameters and return types', () => {
+      const source = `
+        function find<T extends object>(
+          id: number,
+          label?: string,
+          limit = 10,
+          ...rest: T[]
+        ): Promise<T> {}
+      `;
+
+      const result = parser.parseSource(source, 'typescript');
+      const fn = result?.children?.find((c) => c.name === 'find');
+
+      expect(fn?.signature).toEqual({
+        typeParameters: ['T extends object'],
+        parameters: [
+          { name: 'id', type: 'number' },
+          { name: 'label', type: 'string', optional: true },
+          { name: 'limit', defaultValue: '10' },
+          { name: 'rest', type: 'T[]', rest: true },
+        ],
+        returnType: 'Promise<T>',
+      });
+    });
+
+    it('should capture method signatures inside classes and interfaces', () => {
+      const source = `
+        class UserService {
+          getUser(id: number): User | undefined { return undefined; }
+        }
+        interface Repository {
+          save(user: User): void;
+        }
+      `;
+
+      const result = parser.parseSource(source, 'typescript');
+      const methods = TreeUtils.filterNodes(
+        result!,
+        (node) => node.signature !== undefined
+      );
+
+      expect(methods.map((m) => [m.name, m.signature?.returnType])).toEqual([
+        ['getUser', 'User | undefined'],
+        ['save', 'void'],
+      ]);
+    });
+
+    it('should surface arrow function signatures on their declarator', () => {
+      const source = `
+        const createUser = (name, email = 'none') => ({ name, email });
+        const double = x => x * 2;
+      `;
+
+      const result = parser.parseSource(source, 'javascript');
+      const declarators = TreeUtils.findNodesByType(
+        result!,
+        'variable_declarator'
+      );
+
+      expect(declarators[0].signature?.parameters).toEqual([
+        { name: 'name' },
+        { name: 'email', defaultValue: "'none'" },
+      ]);
+      expect(declarators[1].signature?.parameters).toEqual([{ name: 'x' }]);
+    });
+
+    it('should not attach signatures to non-function nodes', () => {
+      const result = parser.parseSource('const answer = 42;', 'javascript');
+      const declarator = TreeUtils.findNodesByType(
+        result!,
+        'variable_declarator'
+      )[0];
+
+      expect(declarator.signature).toBeUndefined();
+    });
+  });
+
+  describe('heritage', () => {
+    const findNode = (root: NodeInfo | null, name: string): NodeInfo =>
+      TreeUtils.findNodesByName(root!, name)[0];
+
+    it('should record extended and implemented types without type arguments', () => {
+      const source = `
+        class Repository extends models.Base<User> implements Store, Cache<string> {}
+        interface Store extends Reader, Writer<string> {}
+        class Plain {}
+      `;
+
+      const result = parser.parseSource(source, 'typescript');
+
+      expect(findNode(result, 'Repository').heritage).toEqual({
+        extends: ['models.Base'],
+        implements: ['Store', 'Cache'],
+      });
+      expect(findNode(result, 'Store').heritage).toEqual({
+        extends: ['Reader', 'Writer'],
+      });
+      expect(findNode(result, 'Plain').heritage).toBeUndefined();
+    });
+
+    it('should record superclasses in JavaScript', () => {
+      const result = parser.parseSource(
+        'class Admin extends User {}',
+        'javascript'
+      );
+
+      expect(findNode(result, 'Admin').heritage).toEqual({
+        extends: ['User'],
+      });
+    });
+  });
+
+  describe('modifiers and export status', () => {
+    const findNode = (root: NodeInfo | null, name: string): NodeInfo =>
+      TreeUtils.findNodesByName(root!, name)[0];
+
+    it('should record class member modifiers', () => {
+      const source = `
+        abstract class Repository {
+          private static readonly cache = new Map();
+          #secret = 1;
+          protected abstract load(id: string): void;
+          override async *stream() {}
+        }
+      `;
+
+      const result = parser.parseSource(source, 'typescript');
+
+      expect(findNode(result, 'Repository').modifiers).toEqual(['abstract']);
+      expect(findNode(result, 'cache').modifiers).toEqual([
+        'private',
+        'static',
+        'readonly',
+      ]);
+      expect(findNode(result, '#secret').modifiers).toEqual(['private']);
+      expect(findNode(result, 'load').modifiers).toEqual([
+        'protected',
+        'abstract',
+      ]);
+      expect(findNode(result, 'stream').modifiers).toEqual([
+        'override',
+        'async',
+        'generator',
+      ]);
+    });
+
+    it('should not take Object.prototype keys for modifier keywords', () => {
+      const children = ['constructor', 'toString', 'static'].map((type) => ({
+        type,
+      }));
+      const node = {
+        parent: null,
+        childCount: children.length,
+        child: (index: number) => children[index],
+      } as unknown as TreeSitterParser.SyntaxNode;
+
+      expect(NodeUtils.collectModifiers(node, '')).toEqual(['static']);
+    });
+
+    it('should distinguish default, named and clause exports', () => {
+      const source = `
+        export default class Main {}
+        export function helper() {}
+        function internal() {}
+        const shared = 1;
+        export { shared };
+      `;
+
+      const result = parser.parseSource(source, 'typescript');
+
+      const main = TreeUtils.findNodesByType(result!, 'class_declaration')[0];
+      expect(main.exported).toBe(true);
+      expect(main.modifiers).toEqual(['default']);
+      expect(
+        TreeUtils.findNodesByType(result!, 'function_declaration').map((fn) => [
+          fn.name,
+          fn.exported,
+        ])
+      ).toEqual([
+        ['helper', true],
+        ['internal', false],
+      ]);
+      expect(findNode(result, 'shared').exported).toBe(true);
+    });
+
+    it('should record declare, const and async modifiers', () => {
+      const source = `
+        declare function external(): void;
+        const enum Direction { Up, Down }
+        let load = async () => {};
+        import type { Config } from './config';
+      `;
+
+      const result = parser.parseSource(source, 'typescript');
+
+      expect(findNode(result, 'external').modifiers).toEqual(['declare']);
+      expect(findNode(result, 'Direction').modifiers).toEqual(['const']);
+      expect(findNode(result, 'load').modifiers).toEqual(['let', 'async']);
+      expect(
+        TreeUtils.findNodesByType(result!, 'import_statement')[0].modifiers
+      ).toEqual(['type']);
+    });
+  });
+
+  describe('import and export info', () => {
+    const statements = (source: string, type: string): NodeInfo[] =>
+      TreeUtils.findNodesByType(
+        parser.parseSource(source, 'typescript')!,
+        type
+      );
+
+    it('should record import specifiers and bound names', () => {
+      const [named, namespace, typeOnly, sideEffect, required] = statements(
+        `
+        import main, { parse as parseArgs, type Options } from './args';
+        import * as path from 'node:path';
+        import type { Config } from '../config';
+        import './polyfills';
+        import fs = require('fs');
+      `,
+        'import_statement'
+      );
+
+      expect(named.importInfo).toEqual({
+        source: './args',
+        bindings: [
+          { imported: 'default', local: 'main', typeOnly: false },
+          { imported: 'parse', local: 'parseArgs', typeOnly: false },
+          { imported: 'Options', local: 'Options', typeOnly: true },
+        ],
+        typeOnly: false,
+      });
+      expect(namespace.importInfo?.bindings).toEqual([
+        { imported: '*', local: 'path', typeOnly: false },
+      ]);
+      expect(typeOnly.importInfo).toMatchObject({
+        source: '../config',
+        typeOnly: true,
+      });
+      expect(sideEffect.importInfo).toEqual({
+        source: './polyfills',
+        bindings: [],
+        typeOnly: false,
+      });
+      expect(required.importInfo).toEqual({
+        source: 'fs',
+        bindings: [{ imported: '*', local: 'fs', typeOnly: false }],
+        typeOnly: false,
+      });
+    });
+
+    it('should record exported names and re-export sources', () => {
+      const exports = statements(
+        `
+        export { parse as parseArgs, type Options } from './args';
+        export * from './utils';
+        export * as path from './path';
+        export const a = 1, { b, c: [d = 2] } = source;
+        export interface Shape {}
+        export default class Main {}
+        export { local as alias };
+      `,
+        'export_statement'
+      ).map((statement) => statement.exportInfo);
+
+      expect(exports).toEqual([
+        {
+          source: './args',
+          bindings: [
+            { exported: 'parseArgs', local: 'parse', typeOnly: false },
+            { exported: 'Options', local: 'Options', typeOnly: true },
+          ],
+          typeOnly: false,
+        },
+        {
+          source: './utils',
+          bindings: [{ exported: '*', local: '*', typeOnly: false }],
+          typeOnly: false,
+        },
+        {
+          source: './path',
+          bindings: [{ exported: 'path', local: '*', typeOnly: false }],
+          typeOnly: false,
+        },
+        {
+          bindings: [
+            { exported: 'a', local: 'a', typeOnly: false },
+            { exported: 'b', local: 'b', typeOnly: false },
+            { exported: 'd', local: 'd', typeOnly: false },
+          ],
+          typeOnly: false,
+        },
+        {
+          bindings: [{ exported: 'Shape', local: 'Shape', typeOnly: true }],
+          typeOnly: true,
+        },
+        {
+          bindings: [{ exported: 'default', local: 'Main', typeOnly: false }],
+          typeOnly: false,
+        },
+        {
+          bindings: [{ exported: 'alias', local: 'local', typeOnly: false }],
+          typeOnly: false,
+        },
+      ]);
+    });
+  });
+
+  describe('diagnostics', () => {
+    it('should return no diagnostics for valid source', () => {
+      const result = parser.parseSourceWithDiagnostics(
+        'function ok() {}',
+        'javascript'
+      );
+
+      expect(result.diagnostics).toEqual([]);
+      expect(result.outline).not.toBeNull();
+    });
+
+    it('should report ERROR nodes with their range', () => {
+      const result = parser.parseSourceWithDiagnostics(
+        'function ok() {}\nconst value = ;',
+        'javascript'
+      );
+
+      expect(result.diagnostics).toEqual([
+        {
+          severity: 'error',
+          message: 'Syntax error: unexpected "="',
+          start: { row: 1, column: 12 },
+          end: { row: 1, column: 13 },
+        },
+      ]);
+      // The rest of the file is still outlined
+      expect(TreeUtils.findNodesByName(result.outline!, 'ok')).toHaveLength(1);
+    });
+
+    it('should report MISSING nodes', () => {
+      const result = parser.parseSourceWithDiagnostics(
+        'if (ready { start(); }',
+        'typescript'
+      );
+
+      expect(result.diagnostics).toEqual([
+        expect.objectContaining({ severity: 'error', message: 'Missing ")"' }),
+      ]);
+    });
+
+    it('should include diagnostics when parsing files', async () => {
+      const filePath = resolve(
+        __dirname,
+        '../../../test/temp/parser-broken.ts'
+      );
+      mkdirSync(dirname(filePath), { recursive: true });
+      writeFileSync(filePath, 'class Broken { method( }');
+
+      try {
+        const result = await parser.parseFileWithDiagnostics(filePath);
+
+        expect(result.file).toBe(filePath);
+        expect(result.diagnostics).toHaveLength(1);
+        expect(result.diagnostics[0].start.row).toBe(0);
+      } finally {
+        rmSync(filePath, { force: true });
+      }
+    });
+  });
+
+  describe('qualified names and symbol ids', () => {
+    const collectSymbols = (
+      root: NodeInfo | null
+    ): Array<Pick<NodeInfo, 'type' | 'qualifiedName' | 'id'>> =>
+      TreeUtils.filterNodes(root!, (node) => Boolean(node.name)).map(
+        ({ type, qualifiedName, id }) => ({ type, qualifiedName, id })
+      );
+
+    it('should qualify names with their enclosing declarations', () => {
+      const source = `
+        class ApiClient {
+          request(url: string) {}
+        }
+        function outer() {
+          function helper() {}
+        }
+      `;
+
+      const result = parser.parseSource(source, 'typescript');
+
+      expect(
+        TreeUtils.findNodesByName(result!, 'request')[0].qualifiedName
+      ).toBe('ApiClient.request');
+      expect(
+        TreeUtils.findNodesByName(result!, 'helper')[0].qualifiedName
+      ).toBe('outer.helper');
+      expect(
+        TreeUtils.findNodesByName(result!, 'ApiClient')[0].qualifiedName
+      ).toBe('ApiClient');
+    });
+
+    it('should prefix qualified names with the file path', async () => {
+      const filePath = resolve(process.cwd(), 'test/temp/qualified-client.ts');
+      mkdirSync(dirname(filePath), { recursive: true });
+      writeFileSync(filePath, 'class ApiClient { request() {} }');
+
+      try {
+        const result = await parser.parseFile(filePath);
+
+        expect(
+          TreeUtils.findNodesByName(result!, 'request')[0].qualifiedName
+        ).toBe('test/temp/qualified-client.ts#ApiClient.request');
+      } finally {
+        rmSync(filePath, { force: true });
+      }
+    });
+
+    it('should keep ids stable when the source is reformatted', () => {
+      const compact = parser.parseSource(
+        'class A { run() {} stop() {} }\nfunction b() {}',
+        'typescript'
+      );
+      const reformatted = parser.parseSource(
+        '\n\nclass A {\n  run() {}\n\n  stop() {}\n}\n\n\nfunction b() {}\n',
+        'typescript'
+      );
+
+      expect(collectSymbols(reformatted)).toEqual(collectSymbols(compact));
+    });
+
+    it('should keep ids stable when a file is reformatted on disk', async () => {
+      const filePath = resolve(process.cwd(), 'test/temp/reformatted.ts');
+      mkdirSync(dirname(filePath), { recursive: true });
+      const compact = [
+        "import {b,c} from './x';",
+        "import * as fs from 'fs';",
+        "export {b as d,c} from './x';",
+        'export class A { run() {} }',
+      ].join('\n');
+      const reformatted = [
+        'import { c, b } from "./x";',
+        'import * as fs from "fs";',
+        '',
+        'export { c, b as d } from "./x";',
+        '',
+        'export class A {',
+        '  run() {}',
+        '}',
+      ].join('\n');
+
+      try {
+        writeFileSync(filePath, compact);
+        const before = collectSymbols(await parser.parseFile(filePath));
+        writeFileSync(filePath, reformatted);
+        const after = collectSymbols(await parser.parseFile(filePath));
+
+        expect(after).toEqual(before);
+        expect(before[0].qualifiedName).toBe(
+          "test/temp/reformatted.ts#b, c from './x'"
+        );
+        expect(before[2].qualifiedName).toBe(
+          "test/temp/reformatted.ts#b as d, c from './x'"
+        );
+      } finally {
+        rmSync(filePath, { force: true });
+      }
+    });
+
+    it('should not depend on the working directory', async () => {
+      const filePath = resolve(process.cwd(), 'test/temp/working-dir.ts');
+      mkdirSync(dirname(filePath), { recursive: true });
+      writeFileSync(filePath, 'class ApiClient { request() {} }');
+      const cwd = process.cwd();
+
+      try {
+        const before = collectSymbols(await parser.parseFile(filePath));
+        process.chdir(dirname(filePath));
+        const after = collectSymbols(await parser.parseFile(filePath));
+
+        expect(after).toEqual(before);
+        expect(before[1].qualifiedName).toBe(
+          'test/temp/working-dir.ts#ApiClient.request'
+        );
+      } finally {
+        process.chdir(cwd);
+        rmSync(filePath, { force: true });
+      }
+    });
+
+    it('should tell apart the same file in different packages', async () => {
+      const repository = mkdtempSync(join(tmpdir(), 'qualified-repo-'));
+      mkdirSync(join(repository, '.git'));
+      const files = ['a', 'b'].map((name) => {
+        const packageDir = join(repository, 'packages', name);
+        mkdirSync(join(packageDir, 'src'), { recursive: true });
+        writeFileSync(join(packageDir, 'package.json'), '{}');
+        writeFileSync(
+          join(packageDir, 'src/index.ts'),
+          'export function main() {}'
+        );
+        return join(packageDir, 'src/index.ts');
+      });
+
+      try {
+        const [a, b] = await Promise.all(
+          files.map(
+            async (file) =>
+              TreeUtils.findNodesByName(
+                (await parser.parseFile(file))!,
+                'main'
+              )[0]
+          )
+        );
+
+        expect(a.qualifiedName).toBe('packages/a/src/index.ts#main');
+        expect(b.qualifiedName).toBe('packages/b/src/index.ts#main');
+        expect(a.id).not.toBe(b.id);
+      } finally {
+        rmSync(repository, { recursive: true, force: true });
+      }
+    });
+
+    it('should not depend on where files outside repositories live', async () => {
+      const directory = mkdtempSync(join(tmpdir(), 'qualified-loose-'));
+      mkdirSync(join(directory, 'project/src'), { recursive: true });
+      writeFileSync(join(directory, 'project/package.json'), '{}');
+      writeFileSync(join(directory, 'project/src/util.ts'), 'function a() {}');
+      writeFileSync(join(directory, 'loose.ts'), 'function b() {}');
+
+      try {
+        const inProject = await parser.parseFile(
+          join(directory, 'project/src/util.ts')
+        );
+        const loose = await parser.parseFile(join(directory, 'loose.ts'));
+
+        expect(inProject?.children?.[0].qualifiedName).toBe('src/util.ts#a');
+        expect(loose?.children?.[0].qualifiedName).toBe('loose.ts#b');
+      } finally {
+        rmSync(directory, { recursive: true, force: true });
+      }
+    });
+
+    it('should give overloads and same-named symbols distinct ids', () => {
+      const source = `
+        class A { constructor() {} }
+        class B { constructor() {} }
+        function parse(value: string): string;
+        function parse(value: number): number;
+        function parse(value: unknown) { return value; }
+      `;
+
+      const result = parser.parseSource(source, 'typescript');
+      const ids = collectSymbols(result).map((symbol) => symbol.id);
+
+      expect(ids.every((id) => /^[0-9a-f]{16}$/.test(id!))).toBe(true);
+      expect(new Set(ids).size).toBe(ids.length);
+    });
+  });
+
+  describe('showSymbol', () => {
+    const filePath = resolve(process.cwd(), 'test/temp/show-symbol.ts');
+
+    beforeEach(() => {
+      mkdirSync(dirname(filePath), { recursive: true });
+      writeFileSync(
+        filePath,
+        [
+          'export class ApiClient {',
+          '  async request(url: string): Promise<Response> {',
+          '    return fetch(url);',
+          '  }',
+          '}',
+          '',
+          'export const handler = (event: string) => {',
+          '  return event;',
+          '};',
+          '',
+        ].join('\n')
+      );
+    });
+
+    afterEach(() => {
+      rmSync(filePath, { force: true });
+    });
+
+    it('should return the exact source slice of a symbol', async () => {
+      const [match, ...rest] = await parser.showSymbol(
+        filePath,
+        'ApiClient.request'
+      );
+
+      expect(rest).toEqual([]);
+      expect(match).toMatchObject({
+        file: filePath,
+        type: 'method_definition',
+        name: 'request',
+        qualifiedName: 'test/temp/show-symbol.ts#ApiClient.request',
+        start: { row: 1, column: 2 },
+        end: { row: 3, column: 3 },
+        lines: { start: 2, end: 4 },
+        source:
+          'async request(url: string): Promise<Response> {\n    return fetch(url);\n  }',
+      });
+    });
+
+    it('should return only the signature when requested', async () => {
+      const [method] = await parser.showSymbol(filePath, 'request', {
+        signatureOnly: true,
+      });
+      const [arrow] = await parser.showSymbol(filePath, 'handler', {
+        signatureOnly: true,
+      });
+
+      expect(method.source).toBe(
+        'async request(url: string): Promise<Response>'
+      );
+      expect(arrow.source).toBe('const handler = (event: string) =>');
+    });
+
+    it('should include the keyword of single variable declarations', async () => {
+      writeFileSync(filePath, 'export const a = 1;\nlet b = 2, c = 3;\n');
+
+      const [a] = await parser.showSymbol(filePath, 'a');
+      const [b] = await parser.showSymbol(filePath, 'b');
+
+      expect(a).toMatchObject({
+        source: 'const a = 1;',
+        lines: { start: 1, end: 1 },
+      });
+      // Declarators sharing a statement keep to their own text
+      expect(b.source).toBe('b = 2');
+    });
+
+    it('should expand the slice to whole lines with context', async () => {
+      const [match] = await parser.showSymbol(filePath, 'request', {
+        contextLines: 1,
+      });
+
+      expect(match.lines).toEqual({ start: 1, end: 5 });
+      expect(match.source.split('\n')).toEqual([
+        'export class ApiClient {',
+        '  async request(url: string): Promise<Response> {',
+        '    return fetch(url);',
+        '  }',
+        '}',
+      ]);
+    });
+
+    it('should return every match and ignore wrapper nodes', async () => {
+      expect(await parser.showSymbol(filePath, 'ApiClient')).toHaveLength(1);
+      expect(await parser.showSymbol(filePath, 'missing')).toEqual([]);
+    });
+  });
+
   describe('getSupportedExtensions', () => {
     it('should return an array of supported file extensions', () => {
       const extensions = parser.getSupportedExtensions();
@@ -1,8 +1,18 @@
-import type { NodeInfo } from './types';
+import type {
+  Diagnostic,
+  NodeInfo,
+  ParseResult,
+  SymbolSource,
+  SymbolSourceOptions,
+} from './types';
+import { isSymbolType } from './types';
 import { FileReader } from './file-reader';
 import { ParserFactory } from './parser-factory';
 import { ASTTraverser, type TraversalOptions } from './ast-traverser';
 import { NameExtractor } from './name-extractor';
+import { DiagnosticCollector } from './diagnostic-collector';
+import { SymbolSourceExtractor } from './symbol-source-extractor';
+import { TreeUtils } from './tree-utils';
 
 /**
  * Main Parser class that coordinates the parsing process
@@ -13,12 +23,16 @@ export class Parser {
   private parserFactory: ParserFactory;
   private astTraverser: ASTTraverser;
   private nameExtractor: NameExtractor;
+  private diagnosticCollector: DiagnosticCollector;
+  private symbolSourceExtractor: SymbolSourceExtractor;
 
   constructor() {
     this.fileReader = new FileReader();
     this.parserFactory = ParserFactory.getInstance();
     this.nameExtractor = new NameExtractor();
     this.astTraverser = new ASTTraverser(this.nameExtractor);
+    this.diagnosticCollector = new DiagnosticCollector();
+    this.symbolSourceExtractor = new SymbolSourceExtractor();
   }
 
   /**
@@ -33,29 +47,71 @@ export class Parser {
     maxDepth: number = Infinity,
     namedOnly: boolean = true
   ): Promise<NodeInfo | null> {
+    return (await this.parseFileWithDiagnostics(filePath, maxDepth, namedOnly))
+      .outline;
+  }
+
+  /**
+   * Parse source code directly without reading from file
+   * @param source - Source code to parse
+   * @param fileType - Type of source code ('javascript', 'typescript', 'tsx')
+   * @param maxDepth - Maximum depth to traverse (default: Infinity)
+   * @param namedOnly - Only include nodes with names (default: true)
+   * @returns Parsed NodeInfo structure or null if parsing fails
+   */
+  parseSource(
+    source: string,
+    fileType: 'javascript' | 'typescript' | 'tsx' = 'javascript',
+    maxDepth: number = Infinity,
+    namedOnly: boolean = true
+  ): NodeInfo | null {
+    try {
+      const tree = this.parserFactory.parseSource(source, fileType);
+
+      const options: TraversalOptions = {
+        maxDepth,
+        namedOnly,
+      };
+
+      return this.astTraverser.extractNodeInfo(tree.rootNode, source, options);
+    } catch (error: unknown) {
+      throw new Error(
+        `Failed to parse source code: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`
+      );
+    }
+  }
+
+  /**
+   * Parse a file and report syntax errors alongside its outline
+   * @param filePath - Path to the file to parse
+   * @param maxDepth - Maximum depth to traverse (default: Infinity)
+   * @param namedOnly - Only include nodes with names (default: true)
+   * @returns Promise that resolves to the outline and its diagnostics
+   */
+  async parseFileWithDiagnostics(
+    filePath: string,
+    maxDepth: number = Infinity,
+    namedOnly: boolean = true
+  ): Promise<ParseResult & { diagnostics: Diagnostic[] }> {
     try {
-      // Validate file type support
       if (!this.fileReader.isSupported(filePath)) {
         throw new Error(`Unsupported file type: ${filePath}`);
       }
 
-      // Read file content
       const content = await this.fileReader.readFile(filePath);
-
-      // Determine file type and get appropriate parser
       const fileType = this.fileReader.getFileType(filePath);
-      const tree = this.parserFactory.parseSource(content, fileType);
 
-      // Configure traversal options
-      const options: TraversalOptions = {
-        maxDepth,
-        namedOnly,
+      return {
+        file: filePath,
+        ...this.parseWithDiagnostics(content, fileType, {
+          maxDepth,
+          namedOnly,
+          filePath: this.fileReader.getSymbolPath(filePath),
+        }),
       };
-
-      // Extract node information using AST traverser
-      return this.astTraverser.extractNodeInfo(tree.rootNode, content, options);
     } catch (error: unknown) {
-      // Re-throw with more context
       throw new Error(
         `Failed to parse file ${filePath}: ${
           error instanceof Error ? error.message : 'Unknown error'
@@ -65,37 +121,101 @@ export class Parser {
   }
 
   /**
-   * Parse source code directly without reading from file
+   * Parse source code and report syntax errors alongside its outline
    * @param source - Source code to parse
    * @param fileType - Type of source code ('javascript', 'typescript', 'tsx')
    * @param maxDepth - Maximum depth to traverse (default: Infinity)
    * @param namedOnly - Only include nodes with names (default: true)
-   * @returns Parsed NodeInfo structure or null if parsing fails
+   * @param filePath - Path of the source, used in qualified names (default: none)
+   * @returns The outline and its diagnostics
    */
-  parseSource(
+  parseSourceWithDiagnostics(
     source: string,
     fileType: 'javascript' | 'typescript' | 'tsx' = 'javascript',
     maxDepth: number = Infinity,
-    namedOnly: boolean = true
-  ): NodeInfo | null {
+    namedOnly: boolean = true,
+    filePath?: string
+  ): { outline: NodeInfo | null; diagnostics: Diagnostic[] } {
+    return this.parseWithDiagnostics(source, fileType, {
+      maxDepth,
+      namedOnly,
+      ...(filePath
+        ? { filePath: this.fileReader.getSymbolPath(filePath) }
+        : {}),
+    });
+  }
+
+  /**
+   * Resolve a symbol in a file and extract its source
+   * @param filePath - Path to the file to search
+   * @param symbol - Qualified symbol name or a trailing part of it (e.g. "ApiClient.request")
+   * @param options - Context and signature options
+   * @returns Promise that resolves to every matching symbol (empty when none match)
+   */
+  async showSymbol(
+    filePath: string,
+    symbol: string,
+    options: SymbolSourceOptions = {}
+  ): Promise<SymbolSource[]> {
     try {
-      const tree = this.parserFactory.parseSource(source, fileType);
+      if (!this.fileReader.isSupported(filePath)) {
+        throw new Error(`Unsupported file type: ${filePath}`);
+      }
 
-      const options: TraversalOptions = {
-        maxDepth,
-        namedOnly,
-      };
+      const content = await this.fileReader.readFile(filePath);
+      const fileType = this.fileReader.getFileType(filePath);
+      const tree = this.parserFactory.parseSource(content, fileType);
 
-      return this.astTraverser.extractNodeInfo(tree.rootNode, source, options);
+      const outline = this.astTraverser.extractNodeInfo(
+        tree.rootNode,
+        content,
+        {
+          maxDepth: Infinity,
+          namedOnly: true,
+          filePath: this.fileReader.getSymbolPath(filePath),
+        }
+      );
+      if (!outline) {
+        return [];
+      }
+
+      return TreeUtils.findNodesByQualifiedName(outline, symbol)
+        .filter((node) => isSymbolType(node.type))
+        .map((node) =>
+          this.symbolSourceExtractor.extract(
+            node,
+            tree.rootNode,
+            content,
+            filePath,
+            options
+          )
+        );
     } catch (error: unknown) {
       throw new Error(
-        `Failed to parse source code: ${
+        `Failed to show symbol in ${filePath}: ${
           error instanceof Error ? error.message : 'Unknown error'
         }`
       );
     }
   }
 
+  private parseWithDiagnostics(
+    source: string,
+    fileType: 'javascript' | 'typescript' | 'tsx',
+    options: TraversalOptions
+  ): { outline: NodeInfo | null; diagnostics: Diagnostic[] } {
+    const tree = this.parserFactory.parseSource(source, fileType);
+
+    return {
+      outline: this.astTraverser.extractNodeInfo(
+        tree.rootNode,
+        source,
+        options
+      ),
+      diagnostics: this.diagnosticCollector.collect(tree.rootNode),
+    };
+  }
+
   /**
    * Get supported file extensions
    * @returns Array of supported file extensions
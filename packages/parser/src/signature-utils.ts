@@ -0,0 +1,40 @@
+import type { ParameterInfo, SignatureInfo } from './types';
+
+/**
+ * SignatureUtils renders SignatureInfo structures as TypeScript-like text
+ */
+export class SignatureUtils {
+  /**
+   * Render a single parameter, e.g. `...items?: string[] = []`
+   */
+  static formatParameter(param: ParameterInfo): string {
+    let text = param.rest ? `...${param.name}` : param.name;
+
+    if (param.optional) {
+      text += '?';
+    }
+    if (param.type) {
+      text += `: ${param.type}`;
+    }
+    if (param.defaultValue !== undefined) {
+      text += ` = ${param.defaultValue}`;
+    }
+
+    return text;
+  }
+
+  /**
+   * Render a full signature, e.g. `<T>(id: T): Promise<User>`
+   */
+  static format(signature: SignatureInfo): string {
+    const typeParameters = signature.typeParameters?.length
+      ? `<${signature.typeParameters.join(', ')}>`
+      : '';
+    const parameters = signature.parameters
+      .map((param) => SignatureUtils.formatParameter(param))
+      .join(', ');
+    const returnType = signature.returnType ? `: ${signature.returnType}` : '';
+
+    return `${typeParameters}(${parameters})${returnType}`;
+  }
+}
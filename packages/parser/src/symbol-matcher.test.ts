@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { SymbolMatcher } from './symbol-matcher';
+
+describe('SymbolMatcher', () => {
+  describe('exact mode', () => {
+    it('should only match identical names', () => {
+      const matcher = new SymbolMatcher('getUser', 'exact');
+
+      expect(matcher.score('getUser')).toBe(1);
+      expect(matcher.score('getuser')).toBeNull();
+      expect(matcher.score('getUserById')).toBeNull();
+    });
+  });
+
+  describe('prefix mode', () => {
+    it('should match names starting with the query', () => {
+      const matcher = new SymbolMatcher('get', 'prefix');
+
+      expect(matcher.score('getUser')).not.toBeNull();
+      expect(matcher.score('GetUser')).not.toBeNull();
+      expect(matcher.score('forget')).toBeNull();
+    });
+
+    it('should rank shorter and case-matching names higher', () => {
+      const matcher = new SymbolMatcher('get', 'prefix');
+
+      expect(matcher.score('getUser')!).toBeGreaterThan(
+        matcher.score('getUserById')!
+      );
+      expect(matcher.score('getUser')!).toBeGreaterThan(
+        matcher.score('GetUser')!
+      );
+    });
+  });
+
+  describe('fuzzy mode', () => {
+    it('should match subsequences case-insensitively', () => {
+      const matcher = new SymbolMatcher('usrsvc');
+
+      expect(matcher.score('UserService')).not.toBeNull();
+      expect(matcher.score('user_service')).not.toBeNull();
+      expect(matcher.score('ServiceUser')).toBeNull();
+    });
+
+    it('should score exact matches highest', () => {
+      const matcher = new SymbolMatcher('parse', 'fuzzy');
+
+      expect(matcher.score('parse')).toBe(1);
+      expect(matcher.score('Parse')).toBeLessThan(1);
+      expect(matcher.score('parseFile')!).toBeLessThan(matcher.score('Parse')!);
+    });
+
+    it('should prefer word starts and consecutive characters', () => {
+      const matcher = new SymbolMatcher('gu');
+
+      expect(matcher.score('getUser')!).toBeGreaterThan(
+        matcher.score('dogHouse')!
+      );
+      expect(new SymbolMatcher('user').score('getUser')!).toBeGreaterThan(
+        new SymbolMatcher('user').score('unusedRecords')!
+      );
+    });
+  });
+
+  describe('regex mode', () => {
+    it('should match names against the expression', () => {
+      const matcher = new SymbolMatcher('^handle[A-Z]', 'regex');
+
+      expect(matcher.score('handleClick')).toBe(1);
+      expect(matcher.score('handler')).toBeNull();
+    });
+
+    it('should throw on invalid expressions', () => {
+      expect(() => new SymbolMatcher('[', 'regex')).toThrow();
+    });
+  });
+});
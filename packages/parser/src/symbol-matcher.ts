@@ -0,0 +1,113 @@
+import type { MatchMode } from './types';
+
+// Points for each matched query character in fuzzy mode
+const MATCH_POINTS = 1;
+const CONSECUTIVE_BONUS = 2;
+const BOUNDARY_BONUS = 3;
+const MAX_CHARACTER_POINTS = MATCH_POINTS + CONSECUTIVE_BONUS + BOUNDARY_BONUS;
+
+// Characters that start a new word in identifiers and qualified names
+const SEPARATORS = ['_', '-', '.', '$', '#', '/'];
+
+/**
+ * SymbolMatcher scores symbol names against a search query.
+ * Scores are in (0, 1], higher is better; null means no match
+ */
+export class SymbolMatcher {
+  private regex?: RegExp;
+
+  /**
+   * @param query - The search query
+   * @param mode - How the query is matched (default: fuzzy)
+   * @throws Error when mode is regex and query is not a valid expression
+   */
+  constructor(
+    private query: string,
+    private mode: MatchMode = 'fuzzy'
+  ) {
+    if (mode === 'regex') {
+      this.regex = new RegExp(query);
+    }
+  }
+
+  /**
+   * Score a candidate name
+   * @param candidate - Symbol name to match
+   * @returns Score in (0, 1] or null if the candidate does not match
+   */
+  score(candidate: string): number | null {
+    switch (this.mode) {
+      case 'exact':
+        return candidate === this.query ? 1 : null;
+      case 'prefix':
+        return this.scorePrefix(candidate);
+      case 'fuzzy':
+        return this.scoreFuzzy(candidate);
+      case 'regex':
+        return this.regex!.test(candidate) ? 1 : null;
+      default: {
+        const exhaustiveCheck: never = this.mode;
+        throw new Error(`Unknown match mode: ${String(exhaustiveCheck)}`);
+      }
+    }
+  }
+
+  private scorePrefix(candidate: string): number | null {
+    if (!candidate.toLowerCase().startsWith(this.query.toLowerCase())) {
+      return null;
+    }
+    // Shorter names are closer to the query; exact case breaks ties
+    const coverage = this.query.length / candidate.length;
+    return candidate.startsWith(this.query) ? coverage : coverage * 0.9;
+  }
+
+  private scoreFuzzy(candidate: string): number | null {
+    const query = this.query.toLowerCase();
+    const target = candidate.toLowerCase();
+
+    if (query === target) {
+      return candidate === this.query ? 1 : 0.99;
+    }
+
+    let points = 0;
+    let previous = -2;
+    let position = 0;
+
+    // Greedy subsequence match rewarding runs and word starts
+    for (const char of query) {
+      const index = target.indexOf(char, position);
+      if (index === -1) {
+        return null;
+      }
+
+      points += MATCH_POINTS;
+      if (index === previous + 1) {
+        points += CONSECUTIVE_BONUS;
+      }
+      if (this.isWordStart(candidate, index)) {
+        points += BOUNDARY_BONUS;
+      }
+
+      previous = index;
+      position = index + 1;
+    }
+
+    const quality = points / (query.length * MAX_CHARACTER_POINTS);
+    const coverage = query.length / target.length;
+    // Stay below the score of an exact match
+    return Math.min(0.98, quality * 0.8 + coverage * 0.2);
+  }
+
+  private isWordStart(candidate: string, index: number): boolean {
+    if (index === 0) {
+      return true;
+    }
+
+    const previous = candidate[index - 1];
+    const current = candidate[index];
+    return (
+      SEPARATORS.includes(previous) ||
+      (current !== current.toLowerCase() && previous === previous.toLowerCase())
+    );
+  }
+}
@@ -0,0 +1,130 @@
+import type TreeSitterParser from 'tree-sitter';
+import type { NodeInfo, SymbolSource, SymbolSourceOptions } from './types';
+
+// Values of declarators and fields whose body ends the signature
+const FUNCTION_VALUE_TYPES = [
+  'arrow_function',
+  'function_expression',
+  'function',
+  'generator_function',
+  'class',
+];
+
+// Statements that print with their declarator when it is the only one
+const DECLARATION_TYPES = ['lexical_declaration', 'variable_declaration'];
+
+/**
+ * SymbolSourceExtractor slices the source text of outline nodes, optionally
+ * trimmed to their signature or padded with surrounding lines
+ */
+export class SymbolSourceExtractor {
+  /**
+   * Extract the source of an outline node
+   * @param info - The outline node (must be named)
+   * @param rootNode - Root of the syntax tree the outline was built from
+   * @param source - The source code string
+   * @param file - Path reported in the result
+   * @param options - Context and signature options
+   * @returns The symbol's source and range
+   */
+  extract(
+    info: NodeInfo,
+    rootNode: TreeSitterParser.SyntaxNode,
+    source: string,
+    file: string,
+    options: SymbolSourceOptions = {}
+  ): SymbolSource {
+    const node = this.findSyntaxNode(info, rootNode);
+    // "const x = 1" rather than "x = 1"
+    const declaration = node ? this.getSingleDeclaration(node) : null;
+    let text = (declaration ?? node)?.text ?? '';
+    let startRow = declaration?.startPosition.row ?? info.start.row;
+    let endRow = declaration?.endPosition.row ?? info.end.row;
+
+    if (node && options.signatureOnly) {
+      const keywords = declaration
+        ? declaration.text.substring(
+            0,
+            node.startIndex - declaration.startIndex
+          )
+        : '';
+      text = keywords + this.getSignatureText(node);
+      endRow = startRow + text.split('\n').length - 1;
+    }
+
+    const contextLines = options.contextLines ?? 0;
+    if (contextLines > 0) {
+      // Context expands the slice to whole lines
+      const sourceLines = source.split('\n');
+      startRow = Math.max(0, startRow - contextLines);
+      endRow = Math.min(sourceLines.length - 1, endRow + contextLines);
+      text = sourceLines.slice(startRow, endRow + 1).join('\n');
+    }
+
+    return {
+      file,
+      type: info.type,
+      name: info.name ?? '',
+      qualifiedName: info.qualifiedName ?? info.name ?? '',
+      ...(info.id ? { id: info.id } : {}),
+      start: info.start,
+      end: info.end,
+      lines: { start: startRow + 1, end: endRow + 1 },
+      source: text,
+    };
+  }
+
+  /**
+   * Find the syntax node an outline node was created from
+   * @private
+   */
+  private findSyntaxNode(
+    info: NodeInfo,
+    rootNode: TreeSitterParser.SyntaxNode
+  ): TreeSitterParser.SyntaxNode | null {
+    let node: TreeSitterParser.SyntaxNode | null =
+      rootNode.descendantForPosition(info.start, info.end);
+
+    while (node && node.type !== info.type) {
+      node = node.parent;
+    }
+    return node;
+  }
+
+  /**
+   * Declaration statement of a variable declarator when the declarator is
+   * the only one in it, or null
+   * @private
+   */
+  private getSingleDeclaration(
+    node: TreeSitterParser.SyntaxNode
+  ): TreeSitterParser.SyntaxNode | null {
+    const parent = node.parent;
+    const isSingle =
+      node.type === 'variable_declarator' &&
+      parent !== null &&
+      DECLARATION_TYPES.includes(parent.type) &&
+      parent.namedChildren.filter(
+        (child) => child.type === 'variable_declarator'
+      ).length === 1;
+    return isSingle ? parent : null;
+  }
+
+  /**
+   * Get the declaration text up to (not including) its body
+   * @private
+   */
+  private getSignatureText(node: TreeSitterParser.SyntaxNode): string {
+    const value = node.childForFieldName('value');
+    const body =
+      node.childForFieldName('body') ??
+      (value && FUNCTION_VALUE_TYPES.includes(value.type)
+        ? value.childForFieldName('body')
+        : null);
+
+    if (!body) {
+      return node.text;
+    }
+    return node.text.substring(0, body.startIndex - node.startIndex).trimEnd();
+  }
+}
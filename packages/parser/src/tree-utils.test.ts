@@ -647,6 +647,145 @@ describe('TreeUtils', () => {
     });
   });
 
+  describe('findNodesByQualifiedName', () => {
+    const tree = createNode('program', undefined, [
+      {
+        ...createNode('class_declaration', 'ApiClient', [
+          {
+            ...createNode('method_definition', 'request'),
+            qualifiedName: 'src/client.ts#ApiClient.request',
+          },
+        ]),
+        qualifiedName: 'src/client.ts#ApiClient',
+      },
+      {
+        ...createNode('function_declaration', 'request'),
+        qualifiedName: 'src/client.ts#request',
+      },
+    ]);
+
+    it('should match full qualified names', () => {
+      const matches = TreeUtils.findNodesByQualifiedName(
+        tree,
+        'src/client.ts#ApiClient.request'
+      );
+
+      expect(matches.map((m) => m.type)).toEqual(['method_definition']);
+    });
+
+    it('should match trailing parts of qualified names', () => {
+      expect(
+        TreeUtils.findNodesByQualifiedName(tree, 'ApiClient.request')
+      ).toHaveLength(1);
+      expect(TreeUtils.findNodesByQualifiedName(tree, 'request')).toHaveLength(
+        2
+      );
+    });
+
+    it('should not match partial name segments', () => {
+      expect(TreeUtils.findNodesByQualifiedName(tree, 'quest')).toEqual([]);
+      expect(TreeUtils.findNodesByQualifiedName(tree, 'Client')).toEqual([]);
+    });
+  });
+
+  describe('getPathAtPosition', () => {
+    const positioned = (
+      type: string,
+      name: string | undefined,
+      [startRow, startColumn, endRow, endColumn]: number[],
+      children?: NodeInfo[]
+    ): NodeInfo => ({
+      type,
+      name,
+      start: { row: startRow, column: startColumn },
+      end: { row: endRow, column: endColumn },
+      children,
+    });
+
+    const tree = positioned(
+      'program',
+      undefined,
+      [0, 0, 20, 0],
+      [
+        positioned(
+          'class_declaration',
+          'Server',
+          [1, 0, 10, 1],
+          [
+            positioned('method_definition', 'start', [2, 2, 4, 3]),
+            positioned('method_definition', 'handle', [5, 2, 9, 3]),
+          ]
+        ),
+        positioned('function_declaration', 'main', [12, 0, 14, 1]),
+      ]
+    );
+
+    it('should return the chain of nodes enclosing a line', () => {
+      const path = TreeUtils.getPathAtPosition(tree, 7);
+
+      expect(path.map((node) => node.name)).toEqual([
+        undefined,
+        'Server',
+        'handle',
+      ]);
+    });
+
+    it('should respect columns when given', () => {
+      expect(
+        TreeUtils.getPathAtPosition(tree, 5, 0).map((node) => node.name)
+      ).toEqual([undefined, 'Server']);
+      expect(
+        TreeUtils.getPathAtPosition(tree, 5, 2).map((node) => node.name)
+      ).toEqual([undefined, 'Server', 'handle']);
+      expect(TreeUtils.containsPosition(tree.children![1], 14, 1)).toBe(false);
+    });
+
+    it('should return only the root between declarations', () => {
+      expect(TreeUtils.getPathAtPosition(tree, 11)).toEqual([tree]);
+    });
+
+    it('should return an empty path outside the root', () => {
+      expect(TreeUtils.getPathAtPosition(tree, 30)).toEqual([]);
+    });
+  });
+
+  describe('pruneTree', () => {
+    it('should drop nodes failing the predicate along with their subtrees', () => {
+      const tree = createComplexTree();
+      const pruned = TreeUtils.pruneTree(
+        tree,
+        (node) => node.type !== 'class_declaration'
+      );
+
+      expect(TreeUtils.findNodesByType(pruned, 'class_declaration')).toEqual(
+        []
+      );
+      expect(TreeUtils.findNodesByType(pruned, 'method_definition')).toEqual(
+        []
+      );
+      expect(TreeUtils.countNodes(tree)).toBeGreaterThan(
+        TreeUtils.countNodes(pruned)
+      );
+    });
+
+    it('should pass the depth of each node to the predicate', () => {
+      const tree = createComplexTree();
+      const pruned = TreeUtils.pruneTree(tree, (_node, depth) => depth < 2);
+
+      expect(TreeUtils.getMaxDepth(pruned)).toBe(2);
+    });
+
+    it('should keep the root and leave the original tree untouched', () => {
+      const tree = createComplexTree();
+      const before = TreeUtils.cloneTree(tree);
+      const pruned = TreeUtils.pruneTree(tree, () => false);
+
+      expect(pruned.type).toBe(tree.type);
+      expect(pruned.children).toBeUndefined();
+      expect(tree).toEqual(before);
+    });
+  });
+
   describe('cloneTree', () => {
     it('should create deep copy of the tree', () => {
       const tree = createSimpleTree();
@@ -81,6 +81,24 @@ export class TreeUtils {
     return results;
   }
 
+  /**
+   * Find all nodes whose qualified name matches a symbol query. The query
+   * may be a full qualified name ("src/a.ts#A.b") or any trailing part of
+   * it ("A.b", "b")
+   */
+  static findNodesByQualifiedName(node: NodeInfo, query: string): NodeInfo[] {
+    return TreeUtils.filterNodes(node, ({ qualifiedName }) => {
+      if (!qualifiedName) {
+        return false;
+      }
+      return (
+        qualifiedName === query ||
+        qualifiedName.endsWith(`#${query}`) ||
+        qualifiedName.endsWith(`.${query}`)
+      );
+    });
+  }
+
   /**
    * Filter nodes by a predicate function
    */
@@ -285,6 +303,54 @@ export class TreeUtils {
     return findPath(rootNode, []);
   }
 
+  /**
+   * Check whether a node's range contains a position. Without a column the
+   * whole line is matched
+   */
+  static containsPosition(
+    node: NodeInfo,
+    row: number,
+    column?: number
+  ): boolean {
+    if (row < node.start.row || row > node.end.row) {
+      return false;
+    }
+    if (column === undefined) {
+      return true;
+    }
+
+    const afterStart = row > node.start.row || column >= node.start.column;
+    const beforeEnd = row < node.end.row || column < node.end.column;
+    return afterStart && beforeEnd;
+  }
+
+  /**
+   * Get the path from the root to the deepest node containing a position
+   * @returns The enclosing nodes, outermost first (empty if the root does not contain the position)
+   */
+  static getPathAtPosition(
+    rootNode: NodeInfo,
+    row: number,
+    column?: number
+  ): NodeInfo[] {
+    if (!TreeUtils.containsPosition(rootNode, row, column)) {
+      return [];
+    }
+
+    let deepest = rootNode;
+    for (;;) {
+      const child = deepest.children?.find((candidate) =>
+        TreeUtils.containsPosition(candidate, row, column)
+      );
+      if (!child) {
+        break;
+      }
+      deepest = child;
+    }
+
+    return TreeUtils.getPath(rootNode, deepest) ?? [];
+  }
+
   /**
    * Map over all nodes in the tree, applying a transformation function
    */
@@ -316,23 +382,42 @@ export class TreeUtils {
   }
 
   /**
-   * Clone a NodeInfo tree (deep copy)
+   * Copy a tree, dropping every node (with its subtree) that fails the
+   * predicate. The root node is always kept.
    */
-  static cloneTree(node: NodeInfo): NodeInfo {
-    const cloned: NodeInfo = {
-      type: node.type,
-      start: { ...node.start },
-      end: { ...node.end },
-    };
+  static pruneTree(
+    node: NodeInfo,
+    predicate: NodePredicate,
+    currentDepth: number = 0
+  ): NodeInfo {
+    const pruned: NodeInfo = { ...node };
+
+    if (node.children) {
+      const children = node.children
+        .filter((child) => predicate(child, currentDepth + 1, node))
+        .map((child) =>
+          TreeUtils.pruneTree(child, predicate, currentDepth + 1)
+        );
 
-    if (node.name !== undefined) {
-      cloned.name = node.name;
+      if (children.length > 0) {
+        pruned.children = children;
+      } else {
+        delete pruned.children;
+      }
     }
 
-    if (node.children) {
-      cloned.children = node.children.map((child) =>
-        TreeUtils.cloneTree(child)
-      );
+    return pruned;
+  }
+
+  /**
+   * Clone a NodeInfo tree (deep copy)
+   */
+  static cloneTree(node: NodeInfo): NodeInfo {
+    const { children, ...fields } = node;
+    const cloned: NodeInfo = structuredClone(fields);
+
+    if (children) {
+      cloned.children = children.map((child) => TreeUtils.cloneTree(child));
     }
 
     return cloned;
@@ -6,6 +6,11 @@ import {
   isContainerType,
   isStructuralType,
   isInsignificantType,
+  isScopeType,
+  isSymbolType,
+  isSymbolKind,
+  getSymbolKind,
+  isValidMatchMode,
   isValidOutputFormat,
 
   // Validation functions
@@ -23,6 +28,10 @@ import {
   CONTAINER_TYPES,
   STRUCTURAL_TYPES,
   INSIGNIFICANT_TYPES,
+  SCOPE_TYPES,
+  SYMBOL_TYPES,
+  SYMBOL_KINDS,
+  MATCH_MODES,
   OUTPUT_FORMATS,
 
   // Types and interfaces
@@ -241,6 +250,69 @@ describe('types.ts', () => {
       });
     });
 
+    describe('isScopeType', () => {
+      it('should return true for valid scope types', () => {
+        SCOPE_TYPES.forEach((scopeType) => {
+          expect(isScopeType(scopeType)).toBe(true);
+        });
+      });
+
+      it('should return false for types that do not open a scope', () => {
+        ['import_statement', 'lexical_declaration', 'class_body', ''].forEach(
+          (type) => {
+            expect(isScopeType(type)).toBe(false);
+          }
+        );
+      });
+    });
+
+    describe('isSymbolType', () => {
+      it('should return true for valid symbol types', () => {
+        SYMBOL_TYPES.forEach((symbolType) => {
+          expect(isSymbolType(symbolType)).toBe(true);
+        });
+      });
+
+      it('should return false for wrapper and structural types', () => {
+        ['export_statement', 'lexical_declaration', 'class_body'].forEach(
+          (type) => {
+            expect(isSymbolType(type)).toBe(false);
+          }
+        );
+      });
+    });
+
+    describe('isSymbolKind', () => {
+      it('should accept friendly kinds only', () => {
+        Object.keys(SYMBOL_KINDS).forEach((kind) => {
+          expect(isSymbolKind(kind)).toBe(true);
+        });
+        expect(isSymbolKind('method_definition')).toBe(false);
+        expect(isSymbolKind('toString')).toBe(false);
+      });
+    });
+
+    describe('getSymbolKind', () => {
+      it('should map node types to friendly kinds', () => {
+        expect(getSymbolKind('method_definition')).toBe('method');
+        expect(getSymbolKind('abstract_class_declaration')).toBe('class');
+        expect(getSymbolKind('variable_declarator')).toBe('variable');
+      });
+
+      it('should fall back to the node type', () => {
+        expect(getSymbolKind('import_statement')).toBe('import_statement');
+      });
+    });
+
+    describe('isValidMatchMode', () => {
+      it('should accept every match mode', () => {
+        MATCH_MODES.forEach((mode) => {
+          expect(isValidMatchMode(mode)).toBe(true);
+        });
+        expect(isValidMatchMode('glob')).toBe(false);
+      });
+    });
+
     describe('isValidOutputFormat', () => {
       it('should return true for valid output formats', () => {
         OUTPUT_FORMATS.forEach((format) => {
@@ -249,7 +321,7 @@ describe('types.ts', () => {
       });
 
       it('should return false for invalid output formats', () => {
-        const invalidFormats = ['xml', 'html', 'csv', 'txt', 'markdown', ''];
+        const invalidFormats = ['xml', 'xhtml', 'csv', 'txt', 'md', ''];
 
         invalidFormats.forEach((format) => {
           expect(isValidOutputFormat(format)).toBe(false);
@@ -395,10 +467,10 @@ describe('types.ts', () => {
       it('should return error result for invalid string formats', () => {
         const invalidFormats = [
           'xml',
-          'html',
+          'xhtml',
           'csv',
           'txt',
-          'markdown',
+          'md',
           '',
           'JSON',
           'Json',
@@ -411,7 +483,7 @@ describe('types.ts', () => {
           expect(result.success).toBe(false);
           expect(result.value).toBeUndefined();
           expect(result.error).toBe(
-            `Invalid format "${format}". Must be one of: json, yaml, ascii, llmtext`
+            `Invalid format "${format}". Must be one of: json, yaml, ascii, llmtext, ndjson, markdown, html, mermaid, dot, ctags, etags`
           );
         });
       });
@@ -430,7 +502,7 @@ describe('types.ts', () => {
           expect(result.success).toBe(false);
           expect(result.value).toBeUndefined();
           expect(result.error).toBe(
-            `Invalid format "${format}". Must be one of: json, yaml, ascii, llmtext`
+            `Invalid format "${format}". Must be one of: json, yaml, ascii, llmtext, ndjson, markdown, html, mermaid, dot, ctags, etags`
           );
         });
       });
@@ -847,11 +919,23 @@ describe('types.ts', () => {
     describe('OUTPUT_FORMATS', () => {
       it('should be a readonly array', () => {
         expect(Array.isArray(OUTPUT_FORMATS)).toBe(true);
-        expect(OUTPUT_FORMATS.length).toBe(4);
+        expect(OUTPUT_FORMATS.length).toBe(11);
       });
 
       it('should contain expected output formats', () => {
-        expect(OUTPUT_FORMATS).toEqual(['json', 'yaml', 'ascii', 'llmtext']);
+        expect(OUTPUT_FORMATS).toEqual([
+          'json',
+          'yaml',
+          'ascii',
+          'llmtext',
+          'ndjson',
+          'markdown',
+          'html',
+          'mermaid',
+          'dot',
+          'ctags',
+          'etags',
+        ]);
       });
 
       it('should not contain duplicates', () => {
@@ -11,15 +11,20 @@ export const NODE_TYPES = [
   'async_function_declaration',
   'arrow_function',
   'method_definition',
+  'method_signature',
+  'abstract_method_signature',
+  'function_signature',
   'constructor',
 
   // Class types
   'class_declaration',
+  'abstract_class_declaration',
   'class_body',
 
   // Interface and type declarations
   'interface_declaration',
   'interface_body',
+  'property_signature',
   'type_alias_declaration',
 
   // Enum types
@@ -31,6 +36,7 @@ export const NODE_TYPES = [
   'module_declaration',
   'internal_module',
   'module',
+  'ambient_declaration',
 
   // Variable declarations
   'variable_declaration',
@@ -78,6 +84,7 @@ export const CONTAINER_TYPES = [
   'constructor',
   'object',
   'class_declaration',
+  'abstract_class_declaration',
   'interface_declaration',
   'interface_body',
   'enum_declaration',
@@ -86,6 +93,7 @@ export const CONTAINER_TYPES = [
   'module_declaration',
   'internal_module',
   'module',
+  'ambient_declaration',
   'export_statement',
   'export_specifier',
   'import_statement',
@@ -115,6 +123,75 @@ export const STRUCTURAL_TYPES = [
 
 export type StructuralType = (typeof STRUCTURAL_TYPES)[number];
 
+// Declaration node types that can carry a leading JSDoc/TSDoc comment
+export const DOCUMENTABLE_TYPES = [
+  'function_declaration',
+  'generator_function_declaration',
+  'function_signature',
+  'class_declaration',
+  'abstract_class_declaration',
+  'interface_declaration',
+  'type_alias_declaration',
+  'enum_declaration',
+  'method_definition',
+  'method_signature',
+  'abstract_method_signature',
+  'public_field_definition',
+  'property_signature',
+  'variable_declarator',
+  'internal_module',
+  'module',
+] as const;
+
+export type DocumentableType = (typeof DOCUMENTABLE_TYPES)[number];
+
+// Declarations that can be looked up by name (show, find)
+export const SYMBOL_TYPES = [...DOCUMENTABLE_TYPES, 'pair'] as const;
+
+export type SymbolType = (typeof SYMBOL_TYPES)[number];
+
+// Friendly symbol kinds and the node types they cover
+export const SYMBOL_KINDS = {
+  function: [
+    'function_declaration',
+    'generator_function_declaration',
+    'function_signature',
+  ],
+  class: ['class_declaration', 'abstract_class_declaration'],
+  method: [
+    'method_definition',
+    'method_signature',
+    'abstract_method_signature',
+  ],
+  interface: ['interface_declaration'],
+  type: ['type_alias_declaration'],
+  enum: ['enum_declaration'],
+  variable: ['variable_declarator'],
+  property: ['public_field_definition', 'property_signature', 'pair'],
+  namespace: ['internal_module', 'module'],
+} as const satisfies Record<string, readonly SymbolType[]>;
+
+export type SymbolKind = keyof typeof SYMBOL_KINDS;
+
+// Declarations whose names prefix the qualified names of nested symbols
+export const SCOPE_TYPES = [
+  'function_declaration',
+  'generator_function_declaration',
+  'class_declaration',
+  'abstract_class_declaration',
+  'interface_declaration',
+  'type_alias_declaration',
+  'enum_declaration',
+  'method_definition',
+  'public_field_definition',
+  'variable_declarator',
+  'pair',
+  'internal_module',
+  'module',
+] as const;
+
+export type ScopeType = (typeof SCOPE_TYPES)[number];
+
 // Insignificant node types that should be filtered out
 export const INSIGNIFICANT_TYPES = [
   'comment',
@@ -137,12 +214,153 @@ export interface Position {
   column: number;
 }
 
+// Severity of a diagnostic reported while parsing
+export const DIAGNOSTIC_SEVERITIES = ['error', 'warning'] as const;
+export type DiagnosticSeverity = (typeof DIAGNOSTIC_SEVERITIES)[number];
+
+// Problem found in the syntax tree (ERROR or MISSING nodes)
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  message: string;
+  start: Position;
+  end: Position;
+}
+
+// Parameter information for function-like nodes
+export interface ParameterInfo {
+  name: string;
+  type?: string;
+  defaultValue?: string;
+  optional?: boolean;
+  rest?: boolean;
+}
+
+// Signature information for function-like nodes
+export interface SignatureInfo {
+  typeParameters?: string[];
+  parameters: ParameterInfo[];
+  returnType?: string;
+}
+
+// Documented parameter from a @param tag
+export interface DocParamInfo {
+  name: string;
+  type?: string;
+  description?: string;
+}
+
+// Structured JSDoc/TSDoc documentation attached to a declaration
+export interface DocInfo {
+  summary?: string;
+  description?: string;
+  params?: DocParamInfo[];
+  returns?: string;
+  deprecated?: string | true;
+  examples?: string[];
+  internal?: boolean;
+}
+
+// Options for extracting the source of a symbol
+export interface SymbolSourceOptions {
+  /** Number of full lines to include before and after the symbol */
+  contextLines?: number;
+  /** Only include the declaration up to its body */
+  signatureOnly?: boolean;
+}
+
+// Source text of a symbol resolved from the outline
+export interface SymbolSource {
+  file: string;
+  type: string;
+  name: string;
+  qualifiedName: string;
+  id?: string;
+  start: Position;
+  end: Position;
+  /** 1-based, inclusive line range covered by source */
+  lines: { start: number; end: number };
+  source: string;
+}
+
+// Modifiers and export status computed for a declaration
+export interface ModifierInfo {
+  modifiers: string[];
+  exported?: boolean;
+}
+
+// Types a class or interface extends or implements, without type arguments
+export interface HeritageInfo {
+  /** Superclass, or the interfaces an interface extends */
+  extends?: string[];
+  implements?: string[];
+}
+
+// A name bound by an import statement
+export interface ImportBinding {
+  /** Name exported by the source module ("default", or "*" for namespaces) */
+  imported: string;
+  /** Name bound in the importing module */
+  local: string;
+  typeOnly: boolean;
+}
+
+// Module dependency declared by an import statement
+export interface ImportInfo {
+  /** Module specifier as written, e.g. "./utils" */
+  source: string;
+  /** Bound names; empty for side-effect imports */
+  bindings: ImportBinding[];
+  /** True when the statement only imports types */
+  typeOnly: boolean;
+}
+
+// A name made public by an export statement
+export interface ExportBinding {
+  /** Name other modules import ("default", or "*" for `export * from`) */
+  exported: string;
+  /** Local name, or the name in the source module for re-exports ("*" for namespaces) */
+  local: string;
+  typeOnly: boolean;
+}
+
+// Names exported by an export statement
+export interface ExportInfo {
+  /** Module specifier of re-exports (`export ... from "./x"`) */
+  source?: string;
+  bindings: ExportBinding[];
+  /** True when the statement only exports types */
+  typeOnly: boolean;
+}
+
+// Replacement of a range of text in an open document (OutlineSession)
+export interface TextEdit {
+  /** Start of the replaced range */
+  start: Position;
+  /** End of the replaced range (exclusive); equal to start for insertions */
+  end: Position;
+  /** Replacement text; empty for deletions */
+  text: string;
+}
+
+// How a node relates to a diff (--changed-symbols)
+export type NodeChange = 'added' | 'modified';
+
 // Node information interface
 export interface NodeInfo {
   type: string;
   name?: string;
+  qualifiedName?: string;
+  id?: string;
   start: Position;
   end: Position;
+  signature?: SignatureInfo;
+  doc?: DocInfo;
+  modifiers?: string[];
+  exported?: boolean;
+  heritage?: HeritageInfo;
+  importInfo?: ImportInfo;
+  exportInfo?: ExportInfo;
+  change?: NodeChange;
   children?: NodeInfo[];
 }
 
@@ -170,6 +388,34 @@ export function isStructuralType(type: string): type is StructuralType {
   return (STRUCTURAL_TYPES as readonly string[]).includes(type);
 }
 
+// Type guard to check if a node type is a symbol declaration
+export function isSymbolType(type: string): type is SymbolType {
+  return (SYMBOL_TYPES as readonly string[]).includes(type);
+}
+
+// Type guard to check if a string is a friendly symbol kind
+export function isSymbolKind(kind: string): kind is SymbolKind {
+  return Object.hasOwn(SYMBOL_KINDS, kind);
+}
+
+// Friendly kind of a node type (e.g. "method"), or the type itself
+export function getSymbolKind(type: string): string {
+  const entry = Object.entries(SYMBOL_KINDS).find(([, types]) =>
+    (types as readonly string[]).includes(type)
+  );
+  return entry ? entry[0] : type;
+}
+
+// Type guard to check if a node type opens a naming scope
+export function isScopeType(type: string): type is ScopeType {
+  return (SCOPE_TYPES as readonly string[]).includes(type);
+}
+
+// Type guard to check if a node type can carry documentation
+export function isDocumentableType(type: string): type is DocumentableType {
+  return (DOCUMENTABLE_TYPES as readonly string[]).includes(type);
+}
+
 // Type guard to check if a node type is insignificant
 export function isInsignificantType(type: string): type is InsignificantType {
   return (INSIGNIFICANT_TYPES as readonly string[]).includes(type);
@@ -190,9 +436,30 @@ export function validateDepth(depth: string): number {
 }
 
 // Output format types
-export const OUTPUT_FORMATS = ['json', 'yaml', 'ascii', 'llmtext'] as const;
+export const OUTPUT_FORMATS = [
+  'json',
+  'yaml',
+  'ascii',
+  'llmtext',
+  'ndjson',
+  'markdown',
+  'html',
+  'mermaid',
+  'dot',
+  'ctags',
+  'etags',
+] as const;
 export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
 
+// Symbol name matching modes
+export const MATCH_MODES = ['exact', 'prefix', 'fuzzy', 'regex'] as const;
+export type MatchMode = (typeof MATCH_MODES)[number];
+
+// Type guard for match mode validation
+export function isValidMatchMode(mode: string): mode is MatchMode {
+  return (MATCH_MODES as readonly string[]).includes(mode);
+}
+
 // Type guard for output format validation
 export function isValidOutputFormat(format: string): format is OutputFormat {
   return (OUTPUT_FORMATS as readonly string[]).includes(format as OutputFormat);
@@ -202,6 +469,7 @@ export function isValidOutputFormat(format: string): format is OutputFormat {
 export interface ParseResult {
   file: string;
   outline: NodeInfo | null;
+  diagnostics?: Diagnostic[];
 }
 
 // Parser configuration interface